@@ -0,0 +1,18 @@
+-- CreateTable : etat de session navigateur persistant par utilisateur et par site
+-- storageState contient le JSON Playwright (cookies + localStorage) chiffre en AES-256-GCM
+CREATE TABLE "BrowserSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "site" TEXT NOT NULL,
+    "storageState" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BrowserSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BrowserSession_userId_site_key" ON "BrowserSession"("userId", "site");
+
+-- AddForeignKey
+ALTER TABLE "BrowserSession" ADD CONSTRAINT "BrowserSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
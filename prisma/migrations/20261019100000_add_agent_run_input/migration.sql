@@ -0,0 +1,5 @@
+-- AlterTable : permettre a un run de se mettre en pause en attendant une saisie utilisateur
+-- prompt : question affichee dans l'indicateur du header (ex: code de verification LinkedIn)
+-- input : reponse saisie par l'utilisateur, effacee des qu'elle est consommee par l'agent
+ALTER TABLE "AgentRun" ADD COLUMN IF NOT EXISTS "prompt" TEXT;
+ALTER TABLE "AgentRun" ADD COLUMN IF NOT EXISTS "input" TEXT;
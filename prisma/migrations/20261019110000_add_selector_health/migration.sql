@@ -0,0 +1,31 @@
+-- CreateTable : releves du nombre d'elements trouves par selecteur CSS, a chaque scraping de site
+CREATE TABLE "SelectorCheck" (
+    "id" TEXT NOT NULL,
+    "site" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "selector" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SelectorCheck_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable : alertes de derive (selecteur habituellement trouve, absent sur plusieurs scrapings)
+CREATE TABLE "SelectorAlert" (
+    "id" TEXT NOT NULL,
+    "site" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "selector" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SelectorAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SelectorCheck_site_key_createdAt_idx" ON "SelectorCheck"("site", "key", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SelectorAlert_site_key_resolvedAt_idx" ON "SelectorAlert"("site", "key", "resolvedAt");
@@ -0,0 +1,86 @@
+-- AlterTable : identifiant de l'offre sur le site source (LinkedIn : /jobs/view/{id}, Indeed : jk, WTTJ : {entreprise}/{slug})
+ALTER TABLE "Offer" ADD COLUMN "externalId" TEXT;
+
+-- Forme canonique des offres existantes, memes regles que SiteAdapter.canonicalizeUrl
+-- (src/lib/agent/adapters) : les offres dont l'identifiant n'est pas reconnu sont ignorees
+CREATE TEMP TABLE "_OfferCanonical" AS
+SELECT
+    c."id",
+    c."userId",
+    c."source",
+    c."externalId",
+    CASE c."source"
+        WHEN 'linkedin' THEN 'https://www.linkedin.com/jobs/view/' || c."externalId" || '/'
+        WHEN 'indeed' THEN 'https://fr.indeed.com/viewjob?jk=' || c."externalId"
+        WHEN 'wttj' THEN 'https://www.welcometothejungle.com' || substring(c."url" from '^https?://[^/]+(/[a-z]{2}/companies/[^/?#]+/jobs/[^/?#]+)')
+    END AS "url"
+FROM (
+    SELECT
+        o."id",
+        o."userId",
+        o."source",
+        o."url",
+        CASE o."source"
+            WHEN 'linkedin' THEN COALESCE(
+                substring(o."url" from '/jobs/view/(?:[^/?#]*-)?([0-9]+)'),
+                substring(o."url" from '[?&]currentJobId=([0-9]+)')
+            )
+            WHEN 'indeed' THEN lower(substring(o."url" from '[?&]jk=([0-9a-fA-F]+)'))
+            WHEN 'wttj' THEN substring(o."url" from '^https?://[^/]+/[a-z]{2}/companies/([^/?#]+/jobs/[^/?#]+)')
+        END AS "externalId"
+    FROM "Offer" o
+) c
+WHERE c."externalId" IS NOT NULL;
+
+-- Doublons : par user + source + externalId, l'offre conservee est celle qui a une candidature,
+-- a defaut la plus ancienne (origine de la premiere decouverte preservee)
+CREATE TEMP TABLE "_OfferDuplicate" AS
+SELECT
+    c."id",
+    first_value(c."id") OVER w AS "keepId",
+    row_number() OVER w AS "rank"
+FROM "_OfferCanonical" c
+JOIN "Offer" o ON o."id" = c."id"
+WINDOW w AS (
+    PARTITION BY c."userId", c."source", c."externalId"
+    ORDER BY EXISTS (SELECT 1 FROM "Application" a WHERE a."offerId" = c."id") DESC, o."createdAt" ASC, c."id" ASC
+);
+
+-- Fusion : une offre favorite le reste apres fusion
+UPDATE "Offer" o
+SET "isBookmarked" = true
+WHERE EXISTS (
+    SELECT 1
+    FROM "_OfferDuplicate" d
+    JOIN "Offer" dup ON dup."id" = d."id"
+    WHERE d."keepId" = o."id" AND d."rank" > 1 AND dup."isBookmarked"
+);
+
+-- Suppression des doublons sans candidature. Un doublon avec candidature est conserve tel quel
+-- (sans externalId) : l'offre gardee a deja une candidature et @@unique([userId, offerId])
+-- interdit de lui rattacher la seconde
+DELETE FROM "Offer" o
+USING "_OfferDuplicate" d
+WHERE o."id" = d."id"
+  AND d."rank" > 1
+  AND NOT EXISTS (SELECT 1 FROM "Application" a WHERE a."offerId" = o."id");
+
+-- Offres conservees : externalId et URL canonique (URL inchangee si deja prise par une autre offre)
+UPDATE "Offer" o
+SET "externalId" = c."externalId",
+    "url" = CASE
+        WHEN EXISTS (
+            SELECT 1 FROM "Offer" x
+            WHERE x."userId" = o."userId" AND x."url" = c."url" AND x."id" <> o."id"
+        ) THEN o."url"
+        ELSE c."url"
+    END
+FROM "_OfferCanonical" c
+JOIN "_OfferDuplicate" d ON d."id" = c."id"
+WHERE o."id" = c."id" AND d."rank" = 1 AND c."url" IS NOT NULL;
+
+DROP TABLE "_OfferDuplicate";
+DROP TABLE "_OfferCanonical";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Offer_userId_source_externalId_key" ON "Offer"("userId", "source", "externalId");
@@ -0,0 +1,24 @@
+-- CreateTable : regroupement des offres d'un meme poste publie sur plusieurs sites
+CREATE TABLE "OfferCluster" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OfferCluster_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable : rattachement d'une offre a son cluster (offre principale affichee sur /offers)
+ALTER TABLE "Offer" ADD COLUMN "clusterId" TEXT,
+ADD COLUMN "isClusterPrimary" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX "OfferCluster_userId_idx" ON "OfferCluster"("userId");
+
+-- CreateIndex
+CREATE INDEX "Offer_clusterId_idx" ON "Offer"("clusterId");
+
+-- AddForeignKey
+ALTER TABLE "OfferCluster" ADD CONSTRAINT "OfferCluster_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Offer" ADD CONSTRAINT "Offer_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "OfferCluster"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable : captures d'echec d'un run de scraping (capture d'ecran, HTML, trace Playwright)
+-- artifacts : [{ site, kind, path, reason, capturedAt }], fichiers dans le bucket prive "agent-artifacts"
+ALTER TABLE "AgentRun" ADD COLUMN IF NOT EXISTS "artifacts" JSONB;
@@ -0,0 +1,9 @@
+-- AlterTable : attributs structures des offres (niveau, teletravail, competences, publication)
+-- Extraits de la carte de resultats et de la page detail (cf. src/lib/agent/offer-attributes.ts)
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "seniority" TEXT;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "remotePolicy" TEXT;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "requiredSkills" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "niceToHaveSkills" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "yearsOfExperience" INTEGER;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "postedAt" TIMESTAMP(3);
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "applicantCount" INTEGER;
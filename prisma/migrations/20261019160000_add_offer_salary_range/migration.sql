@@ -0,0 +1,8 @@
+-- AlterTable : salaire decompose en fourchette numerique (cf. src/lib/agent/salary-parser.ts)
+-- Les offres existantes sont completees par npm run offers:salaries
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryMin" DOUBLE PRECISION;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryMax" DOUBLE PRECISION;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryCurrency" TEXT;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryPeriod" TEXT;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryAnnualMin" INTEGER;
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "salaryAnnualMax" INTEGER;
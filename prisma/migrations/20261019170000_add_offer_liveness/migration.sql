@@ -0,0 +1,8 @@
+-- AlterTable : verification periodique des offres et expiration automatique
+-- (cf. src/lib/agent/offer-liveness.ts, fonctions Inngest scheduled-liveness-check / check-source-liveness)
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "lastCheckedAt" TIMESTAMP(3);
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "expiredAt" TIMESTAMP(3);
+ALTER TABLE "Offer" ADD COLUMN IF NOT EXISTS "expiredReason" TEXT;
+
+-- AlterTable : desactivation de la verification par utilisateur (/settings)
+ALTER TABLE "ScheduleConfig" ADD COLUMN IF NOT EXISTS "checkOfferLiveness" BOOLEAN NOT NULL DEFAULT true;
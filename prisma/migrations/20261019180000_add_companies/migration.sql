@@ -0,0 +1,32 @@
+-- CreateTable : fiche entreprise (nom normalise, informations et notes de l'utilisateur)
+CREATE TABLE "Company" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "website" TEXT,
+    "size" TEXT,
+    "sector" TEXT,
+    "notes" TEXT,
+    "isBlacklisted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Company_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable : rattachement d'une offre a la fiche de son entreprise
+-- (offres existantes : npm run offers:companies)
+ALTER TABLE "Offer" ADD COLUMN "companyId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Company_userId_key_key" ON "Company"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "Offer_companyId_idx" ON "Offer"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "Company" ADD CONSTRAINT "Company_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Offer" ADD CONSTRAINT "Offer_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
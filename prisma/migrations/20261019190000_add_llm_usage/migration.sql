@@ -0,0 +1,31 @@
+-- AlterTable : recherche a l'origine d'un scraping et consommation LLM cumulee du run
+ALTER TABLE "AgentRun" ADD COLUMN     "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "inputTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "outputTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "searchConfigId" TEXT;
+
+-- CreateTable : detail de chaque appel LLM d'un run (modele, tokens, cout calcule)
+CREATE TABLE "LlmCall" (
+    "id" TEXT NOT NULL,
+    "agentRunId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AgentRun_userId_createdAt_idx" ON "AgentRun"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmCall_agentRunId_idx" ON "LlmCall"("agentRunId");
+
+-- AddForeignKey
+ALTER TABLE "AgentRun" ADD CONSTRAINT "AgentRun_searchConfigId_fkey" FOREIGN KEY ("searchConfigId") REFERENCES "SearchConfig"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LlmCall" ADD CONSTRAINT "LlmCall_agentRunId_fkey" FOREIGN KEY ("agentRunId") REFERENCES "AgentRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable : quotas d'utilisation surcharges par l'admin (null = valeur par defaut de l'environnement)
+CREATE TABLE "UsageQuota" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "runsPerDay" INTEGER,
+    "generationsPerMonth" INTEGER,
+    "monthlyBudgetUsd" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageQuota_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageQuota_userId_key" ON "UsageQuota"("userId");
+
+-- AddForeignKey
+ALTER TABLE "UsageQuota" ADD CONSTRAINT "UsageQuota_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable : cache du nettoyage Haiku des descriptions d'offres (empreinte du texte brut + version du prompt)
+CREATE TABLE "DescriptionCache" (
+    "contentHash" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DescriptionCache_pkey" PRIMARY KEY ("contentHash")
+);
+
+-- CreateIndex
+CREATE INDEX "DescriptionCache_lastUsedAt_idx" ON "DescriptionCache"("lastUsedAt");
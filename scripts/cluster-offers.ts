@@ -0,0 +1,72 @@
+/**
+ * Role : Commande de rattrapage du regroupement des offres multi-sources (OfferCluster)
+ * Utilisation : npm run offers:cluster
+ *
+ * Les nouvelles offres sont regroupees a leur creation (clusterOffer dans /api/agent/search
+ * et run-user-search). Cette commande traite les offres deja en base avant l'introduction
+ * des clusters, de la plus ancienne a la plus recente : l'offre la plus ancienne d'un
+ * poste reste l'offre principale affichee sur /offers.
+ *
+ * Chaque cluster se voit ensuite confirmer son offre principale (electClusterPrimary) :
+ * une offre principale expiree ou supprimee est remplacee par une source encore en ligne.
+ *
+ * Relancer la commande est sans effet sur les offres deja regroupees.
+ *
+ * Variables d'env requises : DATABASE_URL
+ */
+
+import { prisma } from "../src/lib/db";
+import { clusterOffer, electClusterPrimary } from "../src/lib/agent/offer-clusters";
+
+/** Compteurs du regroupement */
+const stats = { clustered: 0, unmatched: 0, failed: 0 };
+
+async function main(): Promise<void> {
+  console.log("[Clusters] Regroupement des offres existantes...");
+
+  const offers = await prisma.offer.findMany({
+    where: { clusterId: null },
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+
+  for (const offer of offers) {
+    try {
+      // Une offre deja rattachee pendant la boucle (comme correspondance) retourne son cluster
+      if (await clusterOffer(offer.id)) {
+        stats.clustered++;
+      } else {
+        stats.unmatched++;
+      }
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Clusters] Offre ${offer.id} : ${(error as Error).message}`);
+    }
+  }
+
+  // Offre principale de chaque cluster (expiree ou supprimee avant la reelection automatique)
+  const clusterIds = await prisma.offerCluster.findMany({ select: { id: true } });
+  for (const { id } of clusterIds) {
+    try {
+      await electClusterPrimary(id);
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Clusters] Cluster ${id} : ${(error as Error).message}`);
+    }
+  }
+
+  const clusters = clusterIds.length;
+  console.log(
+    `[Clusters] Termine : ${stats.clustered} offre(s) regroupee(s) (${clusters} cluster(s) au total), ` +
+      `${stats.unmatched} sans correspondance, ${stats.failed} en echec`
+  );
+
+  if (stats.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[Clusters] Erreur fatale :", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
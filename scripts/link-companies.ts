@@ -0,0 +1,58 @@
+/**
+ * Role : Commande de rattrapage des fiches entreprise (Company) des offres existantes
+ * Utilisation : npm run offers:companies
+ *
+ * Les nouvelles offres sont rattachees a leur entreprise a leur enregistrement
+ * (resolveCompanyId dans /api/agent/search et run-user-search). Cette commande traite
+ * les offres deja en base avant l'introduction des fiches, de la plus ancienne a la plus
+ * recente : le nom de la fiche est celui de la premiere offre de l'entreprise.
+ *
+ * Relancer la commande est sans effet sur les offres deja rattachees.
+ *
+ * Variables d'env requises : DATABASE_URL
+ */
+
+import { prisma } from "../src/lib/db";
+import { linkOfferCompany } from "../src/lib/agent/companies";
+
+/** Compteurs du rattachement */
+const stats = { linked: 0, unreadable: 0, failed: 0 };
+
+async function main(): Promise<void> {
+  console.log("[Entreprises] Rattachement des offres existantes...");
+
+  const offers = await prisma.offer.findMany({
+    where: { companyId: null },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, company: true },
+  });
+
+  for (const offer of offers) {
+    try {
+      if (await linkOfferCompany(offer.id)) {
+        stats.linked++;
+      } else {
+        stats.unreadable++;
+        console.log(`[Entreprises] Offre ${offer.id} : nom d'entreprise illisible "${offer.company}"`);
+      }
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Entreprises] Offre ${offer.id} : ${(error as Error).message}`);
+    }
+  }
+
+  const companies = await prisma.company.count();
+  console.log(
+    `[Entreprises] Termine : ${stats.linked} offre(s) rattachee(s) (${companies} fiche(s) au total), ` +
+      `${stats.unreadable} illisible(s), ${stats.failed} en echec`
+  );
+
+  if (stats.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[Entreprises] Erreur fatale :", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
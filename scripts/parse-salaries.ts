@@ -0,0 +1,59 @@
+/**
+ * Role : Commande de rattrapage du salaire decompose des offres existantes
+ * Utilisation : npm run offers:salaries
+ *
+ * Les nouvelles offres sont decomposees a leur enregistrement (getOfferSalaryData dans
+ * /api/agent/search et run-user-search). Cette commande traite les offres deja en base
+ * avant l'introduction des champs salary*, et recalcule toutes les offres apres une
+ * evolution du parser (montants, periodes reconnues).
+ *
+ * Relancer la commande est sans effet sur les offres deja a jour.
+ *
+ * Variables d'env requises : DATABASE_URL
+ */
+
+import { prisma } from "../src/lib/db";
+import { getOfferSalaryData } from "../src/lib/agent/salary-parser";
+
+/** Compteurs du rattrapage */
+const stats = { parsed: 0, unreadable: 0, failed: 0 };
+
+async function main(): Promise<void> {
+  console.log("[Salaires] Decomposition des salaires existants...");
+
+  const offers = await prisma.offer.findMany({
+    where: { salary: { not: null } },
+    select: { id: true, salary: true },
+  });
+
+  for (const offer of offers) {
+    try {
+      const data = getOfferSalaryData(offer.salary);
+      await prisma.offer.update({ where: { id: offer.id }, data });
+
+      if (data.salaryAnnualMax !== null) {
+        stats.parsed++;
+      } else {
+        stats.unreadable++;
+        console.log(`[Salaires] Offre ${offer.id} : salaire illisible "${offer.salary}"`);
+      }
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Salaires] Offre ${offer.id} : ${(error as Error).message}`);
+    }
+  }
+
+  console.log(
+    `[Salaires] Termine : ${stats.parsed} salaire(s) decompose(s), ` +
+      `${stats.unreadable} illisible(s), ${stats.failed} en echec`
+  );
+
+  if (stats.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[Salaires] Erreur fatale :", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
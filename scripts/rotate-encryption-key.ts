@@ -0,0 +1,118 @@
+/**
+ * Role : Commande de rotation de la cle de chiffrement des secrets stockes en base
+ * Utilisation : npm run crypto:rotate [-- --dry-run]
+ *
+ * Procedure de rotation :
+ *   1. Generer une nouvelle cle : openssl rand -base64 32
+ *   2. Deployer avec ENCRYPTION_KEY = nouvelle cle
+ *      et ENCRYPTION_KEYS_PREVIOUS = ancienne cle (les deux restent lisibles)
+ *   3. Lancer cette commande : chaque DEK est re-wrappee sous la nouvelle cle
+ *   4. Une fois la commande terminee sans echec, retirer ENCRYPTION_KEYS_PREVIOUS
+ *
+ * Champs traites :
+ *   - Profile.linkedinEmail / linkedinPassword (les valeurs encore en clair sont chiffrees)
+ *   - BrowserSession.storageState
+ *
+ * Variables d'env requises : DATABASE_URL, ENCRYPTION_KEY (+ ENCRYPTION_KEYS_PREVIOUS pendant la rotation)
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { encryptSecret, isEncrypted, needsRewrap, rewrapSecret } from "../src/lib/crypto";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+/** Compteurs de la rotation */
+const stats = { updated: 0, unchanged: 0, failed: 0 };
+
+/**
+ * Role : Calculer la nouvelle valeur d'un champ chiffre
+ * Retourne : nouvelle valeur, ou null si le champ est deja a jour
+ */
+function migrateValue(value: string): string | null {
+  if (!isEncrypted(value)) return encryptSecret(value);
+  return needsRewrap(value) ? rewrapSecret(value) : null;
+}
+
+/** Role : Migrer les identifiants LinkedIn de tous les profils */
+async function rotateProfiles(): Promise<void> {
+  const profiles = await prisma.profile.findMany({
+    where: { OR: [{ linkedinEmail: { not: null } }, { linkedinPassword: { not: null } }] },
+    select: { id: true, linkedinEmail: true, linkedinPassword: true },
+  });
+
+  for (const profile of profiles) {
+    try {
+      const linkedinEmail = profile.linkedinEmail ? migrateValue(profile.linkedinEmail) : null;
+      const linkedinPassword = profile.linkedinPassword ? migrateValue(profile.linkedinPassword) : null;
+
+      if (!linkedinEmail && !linkedinPassword) {
+        stats.unchanged++;
+        continue;
+      }
+
+      if (!dryRun) {
+        await prisma.profile.update({
+          where: { id: profile.id },
+          data: {
+            ...(linkedinEmail && { linkedinEmail }),
+            ...(linkedinPassword && { linkedinPassword }),
+          },
+        });
+      }
+      stats.updated++;
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Crypto] Profil ${profile.id} : ${(error as Error).message}`);
+    }
+  }
+}
+
+/** Role : Migrer les sessions navigateur persistees */
+async function rotateBrowserSessions(): Promise<void> {
+  const browserSessions = await prisma.browserSession.findMany({
+    select: { id: true, storageState: true },
+  });
+
+  for (const browserSession of browserSessions) {
+    try {
+      const storageState = migrateValue(browserSession.storageState);
+      if (!storageState) {
+        stats.unchanged++;
+        continue;
+      }
+
+      if (!dryRun) {
+        await prisma.browserSession.update({
+          where: { id: browserSession.id },
+          data: { storageState },
+        });
+      }
+      stats.updated++;
+    } catch (error) {
+      stats.failed++;
+      console.error(`[Crypto] Session ${browserSession.id} : ${(error as Error).message}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  console.log(`[Crypto] Rotation des secrets${dryRun ? " (simulation)" : ""}...`);
+
+  await rotateProfiles();
+  await rotateBrowserSessions();
+
+  console.log(
+    `[Crypto] Termine : ${stats.updated} mis a jour, ${stats.unchanged} deja a jour, ${stats.failed} en echec`
+  );
+
+  // Ne pas retirer l'ancienne cle tant que des enregistrements restent en echec
+  if (stats.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[Crypto] Erreur fatale :", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,160 @@
+/**
+ * Role : Executer le pipeline de recherche complet contre les fixtures enregistrees
+ * Utilisation : npm run test:e2e (installe Chromium si absent, via pretest:e2e)
+ *   ou npm run scrape:fixtures (navigateur deja installe) ; execute en CI (job e2e)
+ *
+ * Lance runSearchAgent en mode fixtures (SCRAPER_FIXTURES=1, cf. src/lib/agent/fixtures) :
+ *   - Playwright reel (Chromium headless), pages servies par le serveur statique local
+ *   - login LinkedIn, pagination, isBlocked, extractList, extractDetail
+ *     (playwrightGetText / playwrightGetJobDescription) executes sur le HTML enregistre
+ *   - extraction deterministe des cartes d'offres (playwrightExtractJobCards) ; le repli
+ *     Claude (<site>/extraction.json) ne doit pas etre utilise sur ces fixtures
+ *   - nettoyage des descriptions via le fournisseur LLM de test (src/lib/llm/mock-provider.ts)
+ *   - filtrage deterministe (mots-cles exclus, salaire minimum, type de contrat)
+ * Puis compare le resultat aux offres et compteurs de rejet attendus ci-dessous.
+ *
+ * Aucun acces reseau, aucune cle API, aucune BDD. Seul Chromium doit etre installe
+ * (npx playwright install chromium, fait par pretest:e2e ; sous Linux sans les
+ * bibliotheques systeme : npx playwright install --with-deps chromium).
+ *
+ * Code de sortie : 0 si tout correspond, 1 sinon (utilisable en CI).
+ *
+ * Apres modification d'une fixture ou de EXPECTED, relancer la commande :
+ * chaque ecart est liste avec la valeur attendue et la valeur obtenue.
+ */
+
+import {
+  runSearchAgent,
+  type ExtractionPath,
+  type SearchCriteria,
+} from "../src/lib/agent/orchestrator";
+import type { DroppedCounts } from "../src/lib/agent/offer-filters";
+import { FIXTURES_ENV } from "../src/lib/agent/fixtures";
+import { closeSharedBrowser } from "../src/lib/agent/browser-pool";
+
+process.env[FIXTURES_ENV] = "1";
+
+/**
+ * Criteres couvrant chaque motif de rejet avec les fixtures :
+ *   - PHP : offre Yousign (WTTJ)
+ *   - 45 000 € minimum : offre Swile a 35K-40K (WTTJ)
+ *   - CDI uniquement : stage Ledger (LinkedIn), freelance Malt Studio (Indeed)
+ */
+const CRITERIA: SearchCriteria = {
+  query: "Developpeur React",
+  location: "Paris",
+  sites: ["linkedin", "wttj", "indeed"],
+  contractTypes: ["CDI"],
+  remote: false,
+  salaryMin: 45000,
+  excludeKeywords: ["PHP"],
+  linkedinEmail: "fixtures@example.com",
+  linkedinPassword: "fixtures",
+};
+
+/** Resultat attendu pour un site */
+interface ExpectedSite {
+  /** URLs canoniques des offres conservees, dans l'ordre */
+  urls: string[];
+  /** Offres ecartees par motif */
+  dropped: DroppedCounts;
+  /** Chemin d'extraction attendu */
+  extractionPath: ExtractionPath;
+}
+
+const EXPECTED: Record<string, ExpectedSite> = {
+  linkedin: {
+    urls: [
+      "https://www.linkedin.com/jobs/view/3987654321/",
+      "https://www.linkedin.com/jobs/view/3987654322/",
+    ],
+    dropped: { excludedKeyword: 0, salaryBelowMin: 0, contractTypeMismatch: 1 },
+    extractionPath: "dom",
+  },
+  wttj: {
+    urls: [
+      "https://www.welcometothejungle.com/fr/companies/payfit/jobs/developpeur-react-senior_paris",
+    ],
+    dropped: { excludedKeyword: 1, salaryBelowMin: 1, contractTypeMismatch: 0 },
+    extractionPath: "dom",
+  },
+  indeed: {
+    urls: [
+      "https://fr.indeed.com/viewjob?jk=a1b2c3d4e5f60718",
+      "https://fr.indeed.com/viewjob?jk=0f9e8d7c6b5a4321",
+    ],
+    dropped: { excludedKeyword: 0, salaryBelowMin: 0, contractTypeMismatch: 1 },
+    extractionPath: "dom",
+  },
+};
+
+/**
+ * Extrait attendu dans la description enrichie de chaque site : prouve que la page
+ * detail a ete visitee et que la description complete a remplace le resume
+ */
+const EXPECTED_DETAIL_EXCERPTS: Record<string, string> = {
+  linkedin: "Participer aux choix d’architecture front-end",
+  wttj: "Améliorer la performance et l’accessibilité",
+  indeed: "Accompagner les développeurs plus juniors",
+};
+
+/** Ecarts constates entre resultat et attendu */
+const failures: string[] = [];
+
+function expectEqual(label: string, actual: unknown, expected: unknown): void {
+  const actualJson = JSON.stringify(actual);
+  const expectedJson = JSON.stringify(expected);
+  if (actualJson !== expectedJson) {
+    failures.push(`${label} : attendu ${expectedJson}, obtenu ${actualJson}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("[Fixtures] Lancement du pipeline complet sur les fixtures enregistrees...");
+  const startedAt = Date.now();
+
+  const result = await runSearchAgent(CRITERIA, "fixtures-user");
+
+  for (const [site, expected] of Object.entries(EXPECTED)) {
+    const report = result.sites.find((s) => s.site === site);
+    if (!report) {
+      failures.push(`${site} : aucun rapport de site`);
+      continue;
+    }
+    if (report.error) {
+      failures.push(`${site} : en echec (${report.error})`);
+      continue;
+    }
+
+    const offers = result.offers.filter((o) => o.source === site);
+    expectEqual(`${site} offres`, offers.map((o) => o.url), expected.urls);
+    expectEqual(`${site} ecartees`, report.dropped, expected.dropped);
+    expectEqual(`${site} chemin d'extraction`, report.extractionPath, expected.extractionPath);
+
+    const excerpt = EXPECTED_DETAIL_EXCERPTS[site];
+    const enriched = offers.filter((o) => o.description.includes(excerpt)).length;
+    expectEqual(`${site} descriptions enrichies`, enriched, offers.length);
+  }
+
+  const seconds = Math.round((Date.now() - startedAt) / 1000);
+
+  if (failures.length > 0) {
+    console.error(`[Fixtures] ${failures.length} ecart(s) en ${seconds}s :`);
+    for (const failure of failures) console.error(`  - ${failure}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(
+    `[Fixtures] OK en ${seconds}s : ${result.offers.length} offres, ` +
+    `${result.sites.length} sites, rejets ${JSON.stringify(result.dropped)}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("[Fixtures] Erreur fatale :", error);
+    process.exitCode = 1;
+  })
+  // Le navigateur partage reste ouvert entre deux runs : le fermer pour terminer le script
+  .finally(() => closeSharedBrowser());
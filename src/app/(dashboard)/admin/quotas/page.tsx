@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * Role : Page d'administration des quotas d'utilisation (/admin/quotas)
+ * Reservee au role "admin" (l'API retourne 403 sinon).
+ *
+ * Comportement :
+ *   - Charge les limites par defaut et les utilisateurs via GET /api/admin/quotas
+ *   - Une ligne par utilisateur : consommation du jour et du mois, surcharges editables
+ *     (champ vide = valeur par defaut de l'environnement)
+ *
+ * Hooks :
+ *   - authClient.useSession : verifie le role avant d'appeler l'API
+ *   - useQuery : rapport des quotas (cle ADMIN_QUOTAS_QUERY_KEY)
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { authClient } from "@/lib/auth-client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ADMIN_QUOTAS_QUERY_KEY,
+  QuotaOverridesTable,
+} from "@/components/admin/QuotaOverridesTable";
+import type { QuotaLimits } from "@/lib/agent/usage-quotas";
+import type { AdminQuotaUser } from "@/app/api/admin/quotas/route";
+
+export default function QuotasAdminPage() {
+  const { data: session, isPending: isSessionPending } = authClient.useSession();
+  const isAdmin = session?.user?.role === "admin";
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ADMIN_QUOTAS_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/admin/quotas");
+      if (!res.ok) throw new Error("Erreur lors du chargement des quotas");
+      const json = await res.json();
+      return json.data as { defaults: QuotaLimits; users: AdminQuotaUser[] };
+    },
+    enabled: isAdmin,
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* En-tete de la page */}
+      <div>
+        <h1 className="text-2xl font-bold">Quotas d&apos;utilisation</h1>
+        <p className="text-muted-foreground">
+          Recherches par jour, candidatures générées et budget IA par mois, par utilisateur
+        </p>
+      </div>
+
+      {!isSessionPending && !isAdmin && (
+        <p className="text-muted-foreground">Accès réservé aux administrateurs.</p>
+      )}
+
+      {/* Skeleton pendant le chargement */}
+      {(isSessionPending || (isAdmin && isLoading)) && <Skeleton className="h-64 w-full" />}
+
+      {error && <p className="text-destructive">{error.message}</p>}
+
+      {report && (
+        <Card>
+          <CardContent>
+            <QuotaOverridesTable users={report.users} defaults={report.defaults} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
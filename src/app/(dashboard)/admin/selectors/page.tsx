@@ -0,0 +1,72 @@
+"use client";
+
+/**
+ * Role : Page d'administration de la sante des selecteurs de scraping (/admin/selectors)
+ * Reservee au role "admin" (l'API retourne 403 sinon).
+ *
+ * Comportement :
+ *   - Charge le rapport via GET /api/admin/selector-health
+ *   - Une carte par site supporte (LinkedIn, WTTJ, Indeed) : alertes de derive + tableau des selecteurs
+ *   - Un selecteur en derive explique un scraping qui retourne soudainement 0 offre :
+ *     mettre a jour sa valeur dans src/lib/agent/site-configs.ts
+ *
+ * Hooks :
+ *   - authClient.useSession : verifie le role avant d'appeler l'API
+ *   - useQuery : rapport de sante (cle ["admin", "selector-health"])
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { authClient } from "@/lib/auth-client";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SelectorHealthCard } from "@/components/admin/SelectorHealthCard";
+import type { SiteSelectorHealth } from "@/lib/agent/selector-health";
+
+export default function SelectorHealthPage() {
+  const { data: session, isPending: isSessionPending } = authClient.useSession();
+  const isAdmin = session?.user?.role === "admin";
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ["admin", "selector-health"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/selector-health");
+      if (!res.ok) throw new Error("Erreur lors du chargement de la sante des selecteurs");
+      const json = await res.json();
+      return json.data as SiteSelectorHealth[];
+    },
+    enabled: isAdmin,
+  });
+
+  const alertCount = report?.reduce((sum, site) => sum + site.alerts.length, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* En-tete de la page */}
+      <div>
+        <h1 className="text-2xl font-bold">Santé des sélecteurs</h1>
+        <p className="text-muted-foreground">
+          Éléments trouvés par chaque sélecteur CSS lors des derniers scrapings
+          {report && ` — ${alertCount} alerte${alertCount > 1 ? "s" : ""} de dérive ouverte${alertCount > 1 ? "s" : ""}`}
+        </p>
+      </div>
+
+      {!isSessionPending && !isAdmin && (
+        <p className="text-muted-foreground">Accès réservé aux administrateurs.</p>
+      )}
+
+      {/* Skeleton pendant le chargement */}
+      {(isSessionPending || (isAdmin && isLoading)) && (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-64 w-full" />
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-destructive">{error.message}</p>}
+
+      {report?.map((health) => (
+        <SelectorHealthCard key={health.site} health={health} />
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 /**
  * Role : Page detail d'une candidature (/applications/[id])
  * Affiche :
- *   - Informations de l'offre liee (titre, entreprise, lien)
+ *   - Informations de l'offre liee (titre, entreprise avec lien vers sa fiche, lien)
  *   - Statut actuel avec possibilite de le modifier
  *   - Notes libres (textarea)
  *   - CV adapte et lettre de motivation dans des onglets (format markdown pre-wrap)
@@ -242,7 +242,18 @@ function ApplicationDetailContent({ application }: ApplicationDetailContentProps
               <div>
                 <CardTitle className="text-xl">{application.offer.title}</CardTitle>
                 <p className="mt-1 text-sm text-muted-foreground">
-                  {application.offer.company} — {application.offer.location}
+                  {/* Lien vers la fiche entreprise (autres offres et candidatures) */}
+                  {application.offer.companyId ? (
+                    <Link
+                      href={`/companies/${application.offer.companyId}`}
+                      className="hover:text-primary hover:underline"
+                    >
+                      {application.offer.company}
+                    </Link>
+                  ) : (
+                    application.offer.company
+                  )}{" "}
+                  — {application.offer.location}
                 </p>
               </div>
               <ApplicationStatusBadge status={application.status} />
@@ -0,0 +1,225 @@
+"use client";
+
+/**
+ * Role : Fiche d'une entreprise (/companies/[id])
+ * Affiche :
+ *   - Nom, site web, taille et secteur, badge "Blacklistée"
+ *   - Formulaire d'informations et de notes (CompanyInfoForm)
+ *   - Offres ouvertes de l'entreprise (non expirees), puis offres expirees
+ *   - Historique des candidatures envoyees a l'entreprise (toutes offres confondues)
+ *
+ * Hooks :
+ *   - useFindUniqueCompany : charge la fiche avec ses offres et leurs candidatures
+ *
+ * Parametres de route :
+ *   - id : identifiant unique de la fiche entreprise (cuid)
+ */
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Briefcase, ExternalLink, FileText, Globe } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useFindUniqueCompany } from "@/lib/hooks";
+import { ApplicationStatusBadge } from "@/components/applications/ApplicationStatusBadge";
+import { CompanyDetailSkeleton } from "@/components/companies/CompanyDetailSkeleton";
+import { CompanyInfoForm, getCompanySizeLabel } from "@/components/companies/CompanyInfoForm";
+
+/**
+ * Formate une date en francais (ex: "18/02/2026")
+ */
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  });
+}
+
+/** Lien de retour vers la liste des entreprises */
+function BackLink() {
+  return (
+    <Button variant="ghost" size="sm" asChild>
+      <Link href="/companies">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Retour aux entreprises
+      </Link>
+    </Button>
+  );
+}
+
+export default function CompanyDetailPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  // Query : fiche avec ses offres (plus recentes d'abord) et leurs candidatures
+  const { data: company, isLoading } = useFindUniqueCompany({
+    where: { id },
+    include: {
+      offers: {
+        orderBy: { createdAt: "desc" },
+        include: { applications: { orderBy: { createdAt: "desc" } } },
+      },
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <BackLink />
+        <CompanyDetailSkeleton />
+      </div>
+    );
+  }
+
+  // Fiche introuvable
+  if (!company) {
+    return (
+      <div className="space-y-4">
+        <BackLink />
+        <p className="text-muted-foreground">Entreprise introuvable.</p>
+      </div>
+    );
+  }
+
+  const openOffers = company.offers.filter((offer) => !offer.expiredAt);
+  const expiredOffers = company.offers.filter((offer) => offer.expiredAt);
+  // Historique : candidatures de toutes les offres, la plus recente en premier
+  const applications = company.offers
+    .flatMap((offer) => offer.applications.map((application) => ({ ...application, offer })))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return (
+    <div className="space-y-6">
+      <BackLink />
+
+      {/* En-tete : nom, site web, taille, secteur */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl font-bold">{company.name}</h1>
+          {company.isBlacklisted && (
+            <Badge variant="outline" className="text-destructive border-destructive/40">
+              Blacklistée
+            </Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {company.website && (
+            <a
+              href={company.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1.5 hover:text-primary hover:underline"
+            >
+              <Globe className="h-4 w-4" />
+              {company.website.replace(/^https?:\/\//, "")}
+            </a>
+          )}
+          {company.size && <span>{getCompanySizeLabel(company.size)}</span>}
+          {company.sector && <span>{company.sector}</span>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Informations et notes : monte une fois la fiche chargee (etat initialise depuis les props),
+            remonte apres chaque enregistrement (key = updatedAt) */}
+        <CompanyInfoForm key={company.updatedAt.toString()} company={company} />
+
+        <div className="space-y-6">
+          {/* Offres ouvertes */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Briefcase className="h-4 w-4" />
+                Offres ouvertes ({openOffers.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {openOffers.length === 0 && (
+                <p className="text-sm text-muted-foreground">Aucune offre en ligne.</p>
+              )}
+              {openOffers.map((offer) => (
+                <div key={offer.id} className="flex items-center justify-between gap-3 text-sm">
+                  <Link href={`/offers/${offer.id}`} className="min-w-0 truncate font-medium hover:underline">
+                    {offer.title}
+                  </Link>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {offer.location} · {formatDate(offer.createdAt)}
+                  </span>
+                </div>
+              ))}
+
+              {/* Offres expirees : repliees sous les offres ouvertes */}
+              {expiredOffers.length > 0 && (
+                <details className="pt-2 text-sm">
+                  <summary className="cursor-pointer text-muted-foreground">
+                    {expiredOffers.length > 1
+                      ? `${expiredOffers.length} offres expirées`
+                      : "1 offre expirée"}
+                  </summary>
+                  <div className="space-y-2 pt-2">
+                    {expiredOffers.map((offer) => (
+                      <div key={offer.id} className="flex items-center justify-between gap-3 opacity-60">
+                        <Link href={`/offers/${offer.id}`} className="min-w-0 truncate hover:underline">
+                          {offer.title}
+                        </Link>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          Expirée le {formatDate(offer.expiredAt!)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Historique des candidatures */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <FileText className="h-4 w-4" />
+                Candidatures ({applications.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {applications.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Aucune candidature envoyée à cette entreprise.
+                </p>
+              )}
+              {applications.map((application) => (
+                <div key={application.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/applications/${application.id}`}
+                      className="block truncate font-medium hover:underline"
+                    >
+                      {application.offer.title}
+                    </Link>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(application.createdAt)}
+                    </span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <ApplicationStatusBadge status={application.status} />
+                    <a
+                      href={application.offer.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label="Voir l'offre originale"
+                      className="text-muted-foreground hover:text-primary"
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
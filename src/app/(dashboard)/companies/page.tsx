@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Building2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useFindManyCompany } from "@/lib/hooks";
+import { CompaniesTable } from "@/components/companies/CompaniesTable";
+import { CompaniesTableSkeleton } from "@/components/companies/CompaniesTableSkeleton";
+
+/**
+ * Role : Page liste des entreprises (/companies)
+ * Une fiche par entreprise rencontree dans les offres (cf. src/lib/agent/companies.ts),
+ * avec ses offres ouvertes et l'historique des candidatures
+ * Utilise le hook ZenStack useFindManyCompany (offres et candidatures incluses)
+ *
+ * Fonctionnalites :
+ *   - Recherche par nom d'entreprise ou secteur (insensitive)
+ *   - Tri alphabetique
+ *   - Etats vide et chargement
+ */
+export default function CompaniesPage() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const query = searchQuery.trim();
+
+  // Query : fiches entreprise avec offres (statut en ligne) et candidatures
+  const { data: companies, isLoading } = useFindManyCompany({
+    where: query
+      ? {
+          OR: [
+            { name: { contains: query, mode: "insensitive" } },
+            { sector: { contains: query, mode: "insensitive" } },
+          ],
+        }
+      : undefined,
+    orderBy: { name: "asc" },
+    include: {
+      offers: {
+        select: {
+          id: true,
+          expiredAt: true,
+          applications: { select: { id: true, status: true, createdAt: true } },
+        },
+      },
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* En-tete avec compteur */}
+      <div>
+        <h1 className="text-2xl font-bold">Entreprises</h1>
+        <p className="text-muted-foreground">
+          {companies
+            ? `${companies.length} entreprise${companies.length > 1 ? "s" : ""}`
+            : "Chargement..."}
+        </p>
+      </div>
+
+      {/* Recherche */}
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Rechercher une entreprise ou un secteur..."
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading && <CompaniesTableSkeleton />}
+
+      {companies && companies.length > 0 && <CompaniesTable companies={companies} />}
+
+      {/* Etat vide : aucune fiche (ou aucun resultat de recherche) */}
+      {companies && companies.length === 0 && !isLoading && (
+        <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-[rgba(191,171,204,0.6)] py-12">
+          <Building2 className="h-12 w-12 text-muted-foreground/50" />
+          <h3 className="mt-4 text-lg font-medium">Aucune entreprise trouvée</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {query
+              ? "Aucune entreprise ne correspond à votre recherche."
+              : "Les entreprises apparaissent ici dès que l'agent trouve leurs offres."}
+          </p>
+          {!query && (
+            <Button className="mt-4" asChild>
+              <Link href="/searches">Lancer une recherche</Link>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
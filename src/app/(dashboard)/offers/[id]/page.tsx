@@ -10,8 +10,10 @@ import {
   Bookmark,
   Building2,
   Calendar,
+  CalendarX,
   ExternalLink,
   MapPin,
+  Users,
   Bot,
   Loader2,
 } from "lucide-react";
@@ -25,11 +27,16 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useFindUniqueOffer, useUpdateOffer } from "@/lib/hooks";
 import { OfferDetailSkeleton } from "@/components/offers/OfferDetailSkeleton";
+import { REMOTE_POLICY_OPTIONS, SENIORITY_OPTIONS } from "@/lib/stores/search-store";
+import { getOfferSkills } from "@/lib/agent/offer-attributes";
+import { QUOTA_QUERY_KEY } from "@/components/layout/QuotaIndicator";
 import { useMutation } from "@tanstack/react-query";
 
 /**
  * Role : Page detail d'une offre d'emploi
  * Affiche toutes les informations de l'offre (titre, entreprise, description, etc.)
+ * et ses attributs structures (niveau, teletravail, competences, publication, candidats)
+ * Signale une offre expiree (fermee sur le site source, cf. offer-liveness) et sa derniere verification
  * Marque automatiquement l'offre comme lue (isNew: false) a l'ouverture
  * Permet de basculer le bookmark et de voir l'offre originale
  *
@@ -67,6 +74,18 @@ function formatDate(date: Date): string {
   });
 }
 
+/**
+ * Retrouve le libelle d'une valeur d'attribut (niveau, teletravail)
+ * Exemple : getOptionLabel(SENIORITY_OPTIONS, "confirmed") -> "Confirmé"
+ */
+function getOptionLabel(
+  options: readonly { value: string; label: string }[],
+  value: string | null
+): string | null {
+  if (!value) return null;
+  return options.find((option) => option.value === value)?.label ?? value;
+}
+
 export default function OfferDetailPage() {
   const params = useParams();
   const id = params.id as string;
@@ -126,6 +145,10 @@ export default function OfferDetailPage() {
     onError: (error: Error) => {
       toast.error(error.message);
     },
+    // Quota restant du header : generation comptee, ou refusee (429) si un quota est atteint
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: QUOTA_QUERY_KEY });
+    },
   });
 
   // Toggle le bookmark de l'offre
@@ -137,6 +160,12 @@ export default function OfferDetailPage() {
     });
   };
 
+  // Attributs structures extraits par l'agent (null / [] si non trouves sur le site)
+  const seniorityLabel = getOptionLabel(SENIORITY_OPTIONS, offer?.seniority ?? null);
+  const remotePolicyLabel = getOptionLabel(REMOTE_POLICY_OPTIONS, offer?.remotePolicy ?? null);
+  const requiredSkills = getOfferSkills(offer?.requiredSkills);
+  const niceToHaveSkills = getOfferSkills(offer?.niceToHaveSkills);
+
   // Skeleton affiché pendant le chargement de l'offre
   if (isLoading) {
     return <OfferDetailSkeleton />;
@@ -177,7 +206,13 @@ export default function OfferDetailPage() {
           <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
             <span className="flex items-center gap-1.5">
               <Building2 className="h-4 w-4" />
-              {offer.company}
+              {offer.companyId ? (
+                <Link href={`/companies/${offer.companyId}`} className="hover:text-primary hover:underline">
+                  {offer.company}
+                </Link>
+              ) : (
+                offer.company
+              )}
             </span>
             <span className="flex items-center gap-1.5">
               <MapPin className="h-4 w-4" />
@@ -185,12 +220,20 @@ export default function OfferDetailPage() {
             </span>
           </div>
 
-          {/* Badges : source et type de contrat */}
+          {/* Badges : expiree, source, type de contrat, niveau et teletravail */}
           <div className="flex flex-wrap gap-2 pt-1">
+            {offer.expiredAt && (
+              <Badge variant="outline" className="gap-1 text-destructive border-destructive/40">
+                <CalendarX className="h-3.5 w-3.5" />
+                Expirée le {formatDate(offer.expiredAt)}
+              </Badge>
+            )}
             <Badge variant="secondary">{formatSource(offer.source)}</Badge>
             {offer.contractType && (
               <Badge variant="outline">{offer.contractType}</Badge>
             )}
+            {seniorityLabel && <Badge variant="outline">{seniorityLabel}</Badge>}
+            {remotePolicyLabel && <Badge variant="outline">{remotePolicyLabel}</Badge>}
           </div>
 
           {/* Salaire si present */}
@@ -254,6 +297,29 @@ export default function OfferDetailPage() {
             </p>
           </div>
 
+          {/* Competences extraites de la page detail : requises puis appreciees */}
+          {(requiredSkills.length > 0 || niceToHaveSkills.length > 0) && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold">Compétences</h3>
+              {requiredSkills.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Requises :</span>
+                  {requiredSkills.map((skill) => (
+                    <Badge key={skill} variant="secondary">{skill}</Badge>
+                  ))}
+                </div>
+              )}
+              {niceToHaveSkills.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Appréciées :</span>
+                  {niceToHaveSkills.map((skill) => (
+                    <Badge key={skill} variant="outline">{skill}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Metadonnees en grille 2 colonnes */}
           <div>
             <h3 className="mb-3 text-lg font-semibold">Informations</h3>
@@ -286,6 +352,67 @@ export default function OfferDetailPage() {
                   <span>{offer.salary}</span>
                 </div>
               )}
+
+              {/* Date de publication sur le site source */}
+              {offer.postedAt && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Publiée le :</span>
+                  <span>{formatDate(offer.postedAt)}</span>
+                </div>
+              )}
+
+              {/* Expiration detectee par la verification periodique */}
+              {offer.expiredAt ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <CalendarX className="h-4 w-4 text-destructive" />
+                  <span className="text-muted-foreground">Expirée :</span>
+                  <span>
+                    {formatDate(offer.expiredAt)}
+                    {offer.expiredReason && ` · ${offer.expiredReason}`}
+                  </span>
+                </div>
+              ) : (
+                offer.lastCheckedAt && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">En ligne au :</span>
+                    <span>{formatDate(offer.lastCheckedAt)}</span>
+                  </div>
+                )
+              )}
+
+              {/* Nombre de candidats affiche par le site */}
+              {offer.applicantCount !== null && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Candidats :</span>
+                  <span>{offer.applicantCount}</span>
+                </div>
+              )}
+
+              {/* Niveau et experience demandee */}
+              {(seniorityLabel || offer.yearsOfExperience !== null) && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Niveau :</span>
+                  <span>
+                    {[
+                      seniorityLabel,
+                      offer.yearsOfExperience !== null &&
+                        `${offer.yearsOfExperience} an${offer.yearsOfExperience > 1 ? "s" : ""} d'expérience minimum`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </div>
+              )}
+
+              {/* Modalite de travail */}
+              {remotePolicyLabel && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Télétravail :</span>
+                  <span>{remotePolicyLabel}</span>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
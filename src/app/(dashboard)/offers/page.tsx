@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import type { Prisma } from "@prisma/client";
 import { useQueryClient } from "@tanstack/react-query";
@@ -21,6 +21,12 @@ import { OfferFilters } from "@/components/offers/OfferFilters";
  *
  * Fonctionnalites :
  *   - Filtrage par source, contrat, nouvelles, favoris, recherche textuelle
+ *   - Filtrage par niveau, teletravail et date de publication (attributs structures de l'offre)
+ *   - Filtrage par fourchette de salaire et tri par salaire (equivalents annuels, cf. salary-parser)
+ *   - Un meme poste publie sur plusieurs sites (OfferCluster) n'apparait qu'une fois :
+ *     seule l'offre principale est listee, avec un lien vers chaque autre source ;
+ *     le poste est retenu des qu'une de ses sources correspond aux filtres
+ *   - Les offres des entreprises blacklistees (fiche Company) sont masquees
  *   - Pagination (20 offres par page)
  *   - Toggle bookmark avec mutation + invalidation du cache
  *   - Etats vide et chargement
@@ -38,37 +44,41 @@ export default function OffersPage() {
   const origin = useSearchStore((s) => s.filters.origin);
   // Masquer les offres postulees : true par defaut (offres avec candidature exclues)
   const hideApplied = useSearchStore((s) => s.filters.hideApplied);
+  const seniority = useSearchStore((s) => s.filters.seniority);
+  const remotePolicy = useSearchStore((s) => s.filters.remotePolicy);
+  const postedWithinDays = useSearchStore((s) => s.filters.postedWithinDays);
+  const salaryMin = useSearchStore((s) => s.filters.salaryMin);
+  const salaryMax = useSearchStore((s) => s.filters.salaryMax);
+  const sortBy = useSearchStore((s) => s.filters.sortBy);
   const currentPage = useSearchStore((s) => s.currentPage);
   const pageSize = useSearchStore((s) => s.pageSize);
   const setPage = useSearchStore((s) => s.actions.setPage);
+  // Date de reference du filtre de publication, figee au montage (cle de requete stable)
+  const [loadedAt] = useState(() => Date.now());
 
   // Construction dynamique de la clause `where` Prisma depuis les filtres actifs
   const where = useMemo(() => {
-    const conditions: Prisma.OfferWhereInput = {};
-
-    // Filtre par source (ex: "linkedin", "indeed", "wttj")
-    if (source) {
-      conditions.source = source;
-    }
+    // Criteres portant sur le contenu d'une offre (appliques a chaque source d'un cluster)
+    const matches: Prisma.OfferWhereInput = {};
 
     // Filtre par type de contrat (ex: "CDI", "CDD")
     if (contractType) {
-      conditions.contractType = contractType;
+      matches.contractType = contractType;
     }
 
     // Toggle nouvelles offres uniquement
     if (onlyNew) {
-      conditions.isNew = true;
+      matches.isNew = true;
     }
 
     // Toggle favoris uniquement
     if (onlyBookmarked) {
-      conditions.isBookmarked = true;
+      matches.isBookmarked = true;
     }
 
     // Recherche textuelle sur titre, entreprise ou description (insensitive)
     if (searchQuery.trim()) {
-      conditions.OR = [
+      matches.OR = [
         { title: { contains: searchQuery.trim(), mode: "insensitive" } },
         { company: { contains: searchQuery.trim(), mode: "insensitive" } },
         { description: { contains: searchQuery.trim(), mode: "insensitive" } },
@@ -77,26 +87,87 @@ export default function OffersPage() {
 
     // Filtre par origine : "scheduled" (Inngest auto) ou "sandbox" (manuel)
     if (origin) {
-      conditions.origin = origin;
+      matches.origin = origin;
+    }
+
+    // Attributs structures : une offre dont l'attribut n'a pas ete extrait est exclue
+    if (seniority) {
+      matches.seniority = seniority;
+    }
+    if (remotePolicy) {
+      matches.remotePolicy = remotePolicy;
+    }
+    if (postedWithinDays !== null) {
+      matches.postedAt = { gte: new Date(loadedAt - postedWithinDays * 24 * 60 * 60 * 1000) };
     }
 
+    // Fourchette de salaire : l'offre chevauche la fourchette recherchee
+    // (une offre sans salaire lisible est exclue des que le filtre est actif)
+    if (salaryMin !== null) {
+      matches.salaryAnnualMax = { gte: salaryMin };
+    }
+    if (salaryMax !== null) {
+      matches.salaryAnnualMin = { lte: salaryMax };
+    }
+
+    const conditions: Prisma.OfferWhereInput = {};
+
+    // Filtre par source (ex: "linkedin", "indeed", "wttj") : criteres sur l'offre elle-meme
+    // Sans filtre de source : une seule carte par poste (offre principale du cluster, une
+    // source encore en ligne de preference, cf. electClusterPrimary), retenue des qu'une
+    // des sources du cluster correspond aux criteres
+    const matchCondition: Prisma.OfferWhereInput = source
+      ? { source, ...matches }
+      : {
+          OR: [
+            { clusterId: null, ...matches },
+            { isClusterPrimary: true, cluster: { offers: { some: matches } } },
+          ],
+        };
+
+    // Entreprises blacklistees depuis leur fiche : offres masquees
+    // (une offre sans fiche entreprise reste affichee)
+    conditions.AND = [
+      matchCondition,
+      { OR: [{ companyId: null }, { companyRecord: { isBlacklisted: false } }] },
+    ];
+
     // Exclure les offres ayant deja une candidature (any status) pour cet utilisateur.
     // Prisma filtre via la relation inverseApplication[] : NOT applications.some({})
+    // Une candidature sur une autre source du meme poste (cluster) compte aussi
     if (hideApplied) {
       conditions.NOT = {
-        applications: { some: {} },
+        OR: [
+          { applications: { some: {} } },
+          { cluster: { offers: { some: { applications: { some: {} } } } } },
+        ],
       };
     }
 
     return conditions;
-  }, [source, contractType, onlyNew, onlyBookmarked, searchQuery, origin, hideApplied]);
+  }, [
+    source, contractType, onlyNew, onlyBookmarked, searchQuery, origin, hideApplied,
+    seniority, remotePolicy, postedWithinDays, loadedAt, salaryMin, salaryMax,
+  ]);
+
+  // Tri : plus recentes, ou par salaire annuel (offres sans salaire en dernier)
+  const orderBy = useMemo((): Prisma.OfferOrderByWithRelationInput[] => {
+    if (sortBy === "recent") return [{ createdAt: "desc" }];
+    const direction = sortBy === "salaryDesc" ? "desc" : "asc";
+    return [
+      { salaryAnnualMax: { sort: direction, nulls: "last" } },
+      { createdAt: "desc" },
+    ];
+  }, [sortBy]);
 
   // Query : liste des offres paginee avec filtres
   const { data: offers, isLoading } = useFindManyOffer({
     where,
     skip: (currentPage - 1) * pageSize,
     take: pageSize,
-    orderBy: { createdAt: "desc" },
+    orderBy,
+    // Offres du cluster : liens vers les autres sources du meme poste
+    include: { cluster: { include: { offers: { select: { id: true, source: true, url: true } } } } },
   });
 
   // Query : comptage total pour la pagination
@@ -163,6 +234,7 @@ export default function OffersPage() {
             <OfferCard
               key={offer.id}
               offer={offer}
+              otherSources={offer.cluster?.offers.filter((o) => o.id !== offer.id)}
               onToggleBookmark={handleToggleBookmark}
               isTogglingBookmark={
                 bookmarkMutation.isPending &&
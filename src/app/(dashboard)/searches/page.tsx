@@ -12,6 +12,7 @@ import {
   type SearchConfigFormData,
 } from "@/lib/stores/search-config-store";
 import { authClient } from "@/lib/auth-client";
+import { QUOTA_QUERY_KEY } from "@/components/layout/QuotaIndicator";
 
 /**
  * Role : Page de gestion des criteres de recherche d'emploi
@@ -177,7 +178,7 @@ export default function SearchesPage() {
     },
   });
 
-  // Mutation : lancer une recherche via l'agent IA de scraping LinkedIn
+  // Mutation : lancer une recherche via l'agent IA de scraping (LinkedIn, WTTJ)
   const launchMutation = useMutation({
     mutationFn: async (searchConfigId: string) => {
       const res = await fetch("/api/agent/search", {
@@ -199,6 +200,10 @@ export default function SearchesPage() {
     onError: (error: Error) => {
       toast.error(error.message);
     },
+    // Quota restant du header : recherche comptee, ou refusee (429) si un quota est atteint
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: QUOTA_QUERY_KEY });
+    },
   });
 
   return (
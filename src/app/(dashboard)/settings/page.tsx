@@ -3,6 +3,7 @@
 /**
  * Role : Page de configuration du scheduler (/settings)
  * Permet a l'utilisateur de configurer la recherche automatique d'offres.
+ * Lien vers la consommation IA des runs de l'agent (/settings/usage).
  *
  * Comportement :
  *   - Charge la session pour obtenir l'userId
@@ -19,7 +20,10 @@
  *     ce qui permet l'initialisation de l'etat depuis les props sans useEffect
  */
 
+import Link from "next/link";
+import { BarChart3 } from "lucide-react";
 import { authClient } from "@/lib/auth-client";
+import { Button } from "@/components/ui/button";
 import { useFindFirstScheduleConfig, useFindManySearchConfig } from "@/lib/hooks";
 import { ScheduleConfigForm } from "@/components/settings/ScheduleConfigForm";
 import { ScheduleConfigSkeleton } from "@/components/settings/ScheduleConfigSkeleton";
@@ -46,11 +50,19 @@ export default function SettingsPage() {
   return (
     <div className="space-y-6">
       {/* En-tete de la page */}
-      <div>
-        <h1 className="text-2xl font-bold">Parametres</h1>
-        <p className="text-muted-foreground">
-          Configurez vos preferences de recherche automatique
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Parametres</h1>
+          <p className="text-muted-foreground">
+            Configurez vos preferences de recherche automatique
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/settings/usage">
+            <BarChart3 className="mr-2 h-4 w-4" />
+            Consommation IA
+          </Link>
+        </Button>
       </div>
 
       {/* Skeleton pendant le chargement */}
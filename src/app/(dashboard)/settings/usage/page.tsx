@@ -0,0 +1,81 @@
+"use client";
+
+/**
+ * Role : Page de consommation IA (/settings/usage)
+ * Affiche la depense LLM des 30 derniers jours : totaux, par jour, par type de run
+ * et par recherche (cf. UsageReport).
+ *
+ * Hooks :
+ *   - useFindManyAgentRun : runs de la periode avec leurs cumuls de tokens et de cout
+ *     (ZenStack filtre automatiquement par l'utilisateur authentifie)
+ *
+ * Architecture :
+ *   - La periode est fixee au montage (useState) : le rendu reste pur
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFindManyAgentRun } from "@/lib/hooks";
+import { UsageReport } from "@/components/settings/UsageReport";
+import { UsageReportSkeleton } from "@/components/settings/UsageReportSkeleton";
+
+/** Nombre de jours affiches, aujourd'hui inclus */
+const USAGE_PERIOD_DAYS = 30;
+
+/**
+ * Role : Bornes de la periode : minuit il y a USAGE_PERIOD_DAYS - 1 jours, et maintenant
+ */
+function getUsagePeriod(): { since: Date; until: Date } {
+  const until = new Date();
+  const since = new Date(until);
+  since.setDate(since.getDate() - (USAGE_PERIOD_DAYS - 1));
+  since.setHours(0, 0, 0, 0);
+  return { since, until };
+}
+
+export default function UsagePage() {
+  const [{ since, until }] = useState(getUsagePeriod);
+
+  // Query : runs de la periode, champs de consommation et nom de la recherche d'origine
+  const { data: runs, isLoading } = useFindManyAgentRun({
+    where: { createdAt: { gte: since } },
+    select: {
+      id: true,
+      type: true,
+      costUsd: true,
+      inputTokens: true,
+      outputTokens: true,
+      createdAt: true,
+      searchConfigId: true,
+      searchConfig: { select: { name: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/settings">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour aux paramètres
+        </Link>
+      </Button>
+
+      {/* En-tete de la page */}
+      <div>
+        <h1 className="text-2xl font-bold">Consommation IA</h1>
+        <p className="text-muted-foreground">
+          Tokens et coût des appels à l&apos;IA sur les {USAGE_PERIOD_DAYS} derniers jours
+        </p>
+      </div>
+
+      {isLoading ? (
+        <UsageReportSkeleton />
+      ) : (
+        <UsageReport runs={runs ?? []} since={since} until={until} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  getDefaultQuotaLimits,
+  getUsageQuotaStatus,
+  type QuotaOverrides,
+  type UsageQuotaStatus,
+} from "@/lib/agent/usage-quotas";
+
+/**
+ * Role : API route d'administration des quotas d'utilisation par utilisateur
+ * Auth : requiert une session active avec le role "admin"
+ *
+ * GET : limites par defaut et, pour chaque utilisateur, ses surcharges et sa consommation
+ *   Response: { data: { defaults: { runsPerDay, ... }, users: [{ id, name, email, overrides, status }] } }
+ *
+ * PUT : enregistrer les surcharges d'un utilisateur (null = valeur par defaut)
+ *   Body: { userId: "clxyz...", runsPerDay: 20, generationsPerMonth: null, monthlyBudgetUsd: 10 }
+ *   Response: { message: "Quotas enregistres" }
+ */
+
+/** Utilisateur de la page /admin/quotas */
+export interface AdminQuotaUser {
+  id: string;
+  name: string;
+  email: string;
+  overrides: QuotaOverrides;
+  status: UsageQuotaStatus;
+}
+
+/** Surcharge d'une limite : entier/nombre positif, ou null pour la valeur par defaut */
+const QuotaOverridesBodySchema = z.object({
+  userId: z.string().min(1),
+  runsPerDay: z.number().int().min(0).nullable(),
+  generationsPerMonth: z.number().int().min(0).nullable(),
+  monthlyBudgetUsd: z.number().min(0).nullable(),
+});
+
+/**
+ * Role : Verifier que la requete vient d'un admin
+ * Retourne : reponse d'erreur (401/403), ou null si l'acces est autorise
+ */
+async function requireAdmin(): Promise<NextResponse | null> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+  }
+
+  if (session.user.role !== "admin") {
+    return NextResponse.json({ error: "Acces reserve aux administrateurs" }, { status: 403 });
+  }
+
+  return null;
+}
+
+export async function GET() {
+  try {
+    const denied = await requireAdmin();
+    if (denied) return denied;
+
+    const users = await prisma.user.findMany({
+      select: { id: true, name: true, email: true, usageQuota: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const data: AdminQuotaUser[] = [];
+    for (const user of users) {
+      data.push({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        overrides: {
+          runsPerDay: user.usageQuota?.runsPerDay ?? null,
+          generationsPerMonth: user.usageQuota?.generationsPerMonth ?? null,
+          monthlyBudgetUsd: user.usageQuota?.monthlyBudgetUsd ?? null,
+        },
+        status: await getUsageQuotaStatus(user.id),
+      });
+    }
+
+    return NextResponse.json({ data: { defaults: getDefaultQuotaLimits(), users: data } });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Erreur chargement des quotas admin :", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors du chargement des quotas" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const denied = await requireAdmin();
+    if (denied) return denied;
+
+    let body: z.infer<typeof QuotaOverridesBodySchema>;
+    try {
+      body = QuotaOverridesBodySchema.parse(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Body invalide. Attendu : { userId, runsPerDay, generationsPerMonth, monthlyBudgetUsd }" },
+        { status: 400 }
+      );
+    }
+
+    const { userId, ...overrides } = body;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 });
+    }
+
+    await prisma.usageQuota.upsert({
+      where: { userId },
+      create: { userId, ...overrides },
+      update: overrides,
+    });
+
+    console.log(`[API] Quotas de user=${userId} mis a jour :`, overrides);
+
+    return NextResponse.json({ message: "Quotas enregistres" });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Erreur mise a jour des quotas :", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors de l'enregistrement des quotas" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { getSelectorHealthReport } from "@/lib/agent/selector-health";
+
+/**
+ * Role : API route du rapport de sante des selecteurs CSS de l'agent de scraping
+ * Methode : GET
+ * Auth : requiert une session active avec le role "admin"
+ *
+ * Retourne, pour chaque site supporte, l'etat de chaque selecteur de sa SiteConfig
+ * sur les derniers scrapings et les alertes de derive ouvertes (cf. selector-health.ts).
+ *
+ * Exemple d'appel :
+ *   GET /api/admin/selector-health
+ *   Response: { data: [{ site: "linkedin", name: "LinkedIn Jobs", selectors: [...], alerts: [...] }] }
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Acces reserve aux administrateurs" }, { status: 403 });
+    }
+
+    return NextResponse.json({ data: await getSelectorHealthReport() });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Selector health error:", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors du calcul de la sante des selecteurs" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@ import {
   generateApplication,
   type ApplicationProfile,
 } from "@/lib/agent/generate-application";
+import { createRunUsageRecorder } from "@/lib/agent/run-usage";
+import { createRunWithinQuota, QUOTA_EXCEEDED_STATUS } from "@/lib/agent/usage-quotas";
 
 /**
  * Role : API route pour generer une candidature IA (CV + lettre) et la sauvegarder
@@ -15,11 +17,14 @@ import {
  *
  * Flux :
  *   1. Verifie l'authentification
- *   2. Charge l'offre ciblee (verifie ownership)
+ *   2. Charge l'offre ciblee (verifie ownership) et refuse une 2e candidature
+ *      pour le meme poste publie sur un autre site (OfferCluster) → 409
  *   3. Charge le profil candidat (requis pour la generation)
  *   4. Verifie que le profil est suffisamment rempli (titre obligatoire)
- *   5. Cree un AgentRun "pending" pour le feedback header en temps reel
- *   6. Genere CV + lettre via Claude Sonnet (generateApplication)
+ *   5. Cree un AgentRun "pending" pour le feedback header en temps reel, dans la meme
+ *      transaction que la verification des quotas (generations du mois, budget IA) → 429 si atteint
+ *   6. Genere CV + lettre via Claude Sonnet (generateApplication), tokens et cout
+ *      rattaches a l'AgentRun
  *   7. Cree ou remplace l'Application en BDD (upsert sur userId + offerId)
  *   8. Met a jour l'AgentRun en "success" ou "error"
  *   9. Retourne { data: { applicationId }, message: "..." }
@@ -31,8 +36,11 @@ import {
  *
  * Interactions :
  *   - prisma.offer.findUnique : charge l'offre + verifie ownership
+ *   - prisma.application.findFirst : candidature existante sur une autre offre du cluster
  *   - prisma.profile.findUnique : charge le profil du candidat
- *   - prisma.agentRun.create/update : suivi en temps reel pour l'indicateur header
+ *   - prisma.agentRun.update : suivi en temps reel pour l'indicateur header
+ *   - createRunWithinQuota() : cree l'AgentRun, ou refuse la generation si un quota est atteint
+ *   - createRunUsageRecorder() : tokens et cout de la generation cumules sur l'AgentRun
  *   - generateApplication() : appel Claude Sonnet pour generer CV + lettre
  *   - prisma.application.upsert : sauvegarde en BDD (evite les doublons)
  */
@@ -82,6 +90,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Meme poste publie sur plusieurs sites : une seule candidature par cluster
+    if (offer.clusterId) {
+      const clusterApplication = await prisma.application.findFirst({
+        where: {
+          userId,
+          offerId: { not: offer.id },
+          offer: { clusterId: offer.clusterId },
+        },
+        include: { offer: { select: { source: true } } },
+      });
+
+      if (clusterApplication) {
+        return NextResponse.json(
+          {
+            error: `Une candidature existe deja pour ce poste (offre publiee sur ${clusterApplication.offer.source}).`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // 4. Charger le profil du candidat
     const profile = await prisma.profile.findUnique({
       where: { userId },
@@ -98,17 +127,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 5. Creer un AgentRun "pending" pour l'indicateur en temps reel dans le header
+    // 5. Creer un AgentRun "pending" pour l'indicateur en temps reel dans le header, si les
+    // quotas le permettent (generations du mois, budget IA, surcharges admin comprises)
     // Label format : "Candidature — {titre offre} chez {entreprise}"
-    agentRun = await prisma.agentRun.create({
-      data: {
-        userId,
-        type: "application",
-        status: "pending",
-        label: `Candidature — ${offer.title} chez ${offer.company}`,
-      },
+    const reservation = await createRunWithinQuota(userId, "generation", {
+      type: "application",
+      status: "pending",
+      label: `Candidature — ${offer.title} chez ${offer.company}`,
     });
 
+    if (reservation.error !== null) {
+      return NextResponse.json({ error: reservation.error }, { status: QUOTA_EXCEEDED_STATUS });
+    }
+    agentRun = reservation.agentRun;
+
     // Construire le profil dans le format attendu par generateApplication
     // Les champs JSON (skills, experiences, education) sont stockes en JSON dans Prisma
     const applicationProfile: ApplicationProfile = {
@@ -178,7 +210,8 @@ export async function POST(request: NextRequest) {
         description: offer.description,
         salary: offer.salary,
         contractType: offer.contractType,
-      }
+      },
+      { onLlmUsage: createRunUsageRecorder(agentRun.id) }
     );
 
     // 7. Sauvegarder la candidature en BDD
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { getUsageQuotaStatus } from "@/lib/agent/usage-quotas";
+
+/**
+ * Role : API route des quotas de l'utilisateur connecte (limites et consommation en cours)
+ * Methode : GET
+ * Auth : requiert une session active
+ *
+ * Utilise par QuotaIndicator (header) pour afficher le quota restant.
+ *
+ * Exemple d'appel :
+ *   GET /api/agent/quota
+ *   Response: { data: { limits: { runsPerDay: 10, ... }, usage: { runsToday: 3, ... },
+ *     dayResetsAt: "...", monthResetsAt: "..." } }
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    return NextResponse.json({ data: await getUsageQuotaStatus(session.user.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Erreur chargement des quotas :", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors du chargement des quotas" },
+      { status: 500 }
+    );
+  }
+}
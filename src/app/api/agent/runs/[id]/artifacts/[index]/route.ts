@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getArtifactDownloadUrl, getRunArtifacts } from "@/lib/agent/run-artifacts";
+
+/**
+ * Role : Route API pour consulter une capture d'echec d'un run (capture d'ecran, HTML, trace)
+ *
+ * Methode : GET /api/agent/runs/[id]/artifacts/[index]
+ * Auth    : session Better Auth requise
+ *
+ * Flow :
+ *   1. Verifie que l'utilisateur est connecte (401)
+ *   2. Verifie que le run existe (404), lui appartient (403) et possede la capture (404)
+ *      situee dans son dossier "{userId}/{agentRunId}/" du bucket (404 sinon)
+ *   3. Redirige vers une URL signee temporaire du bucket prive "agent-artifacts"
+ *
+ * Exemple d'appel (lien de l'historique dans AgentStatusIndicator) :
+ *   GET /api/agent/runs/clxyz.../artifacts/0
+ *   Response: 307 → https://[REF].supabase.co/storage/v1/object/sign/agent-artifacts/...
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    const { id: agentRunId, index } = await params;
+
+    const agentRun = await prisma.agentRun.findUnique({
+      where: { id: agentRunId },
+      select: { id: true, userId: true, artifacts: true },
+    });
+
+    if (!agentRun) {
+      return NextResponse.json({ error: "Execution introuvable" }, { status: 404 });
+    }
+
+    if (agentRun.userId !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Acces refuse a cette execution" },
+        { status: 403 }
+      );
+    }
+
+    const artifact = getRunArtifacts(agentRun.artifacts)[Number(index)];
+
+    if (!artifact) {
+      return NextResponse.json({ error: "Capture introuvable" }, { status: 404 });
+    }
+
+    const url = await getArtifactDownloadUrl(artifact, agentRun);
+
+    if (!url) {
+      return NextResponse.json(
+        { error: "Capture indisponible (fichier supprime du stockage ?)" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.redirect(url);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Agent run artifact error:", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors de l'acces a la capture" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+
+/**
+ * Role : Route API pour transmettre une saisie utilisateur a un run en pause
+ * (ex: code de verification LinkedIn demande pendant le login)
+ *
+ * Methode : POST /api/agent/runs/[id]/input
+ * Auth    : session Better Auth requise
+ *
+ * Flow :
+ *   1. Verifie que l'utilisateur est connecte (401)
+ *   2. Valide le body { input } (400)
+ *   3. Verifie que le run existe (404), lui appartient (403) et attend une saisie (409)
+ *   4. Ecrit AgentRun.input : l'agent (createRunInputRequester) la lit au prochain polling
+ *
+ * Exemple d'appel :
+ *   POST /api/agent/runs/clxyz.../input
+ *   Body: { "input": "482913" }
+ *   Response: { message: "Code transmis a l'agent" }
+ */
+
+const RunInputBodySchema = z.object({
+  /** Code saisi par l'utilisateur */
+  input: z.string().trim().min(1).max(64),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    const { id: agentRunId } = await params;
+
+    let body: z.infer<typeof RunInputBodySchema>;
+    try {
+      body = RunInputBodySchema.parse(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Body invalide. Attendu : { input }" },
+        { status: 400 }
+      );
+    }
+
+    const agentRun = await prisma.agentRun.findUnique({
+      where: { id: agentRunId },
+      select: { userId: true, status: true },
+    });
+
+    if (!agentRun) {
+      return NextResponse.json({ error: "Execution introuvable" }, { status: 404 });
+    }
+
+    if (agentRun.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Acces refuse a cette execution" },
+        { status: 403 }
+      );
+    }
+
+    // Le run a peut-etre expire entre l'affichage du formulaire et la saisie
+    if (agentRun.status !== "awaiting_input") {
+      return NextResponse.json(
+        { error: "Cette execution n'attend plus de saisie" },
+        { status: 409 }
+      );
+    }
+
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: { input: body.input },
+    });
+
+    return NextResponse.json({ message: "Code transmis a l'agent" });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] Agent run input error:", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors de la transmission du code" },
+      { status: 500 }
+    );
+  }
+}
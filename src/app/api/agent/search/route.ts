@@ -6,9 +6,20 @@ import {
   runSearchAgent,
   type SearchCriteria,
 } from "@/lib/agent/orchestrator";
+import { getLinkedInCredentials } from "@/lib/agent/credentials";
+import { saveScrapedOffers } from "@/lib/agent/save-offers";
+import { createRunArtifactRecorder } from "@/lib/agent/run-artifacts";
+import { createRunUsageRecorder } from "@/lib/agent/run-usage";
+import { createRunWithinQuota, QUOTA_EXCEEDED_STATUS } from "@/lib/agent/usage-quotas";
+import {
+  createRunInputRequester,
+  createRunProgressNotifier,
+  createRunQueueNotifier,
+  INTERACTIVE_INPUT_TIMEOUT_MS,
+} from "@/lib/agent/run-input";
 
 /**
- * Role : API route pour declencher une recherche d'offres LinkedIn via l'agent IA
+ * Role : API route pour declencher une recherche d'offres (LinkedIn, WTTJ) via l'agent IA
  * Methode : POST
  * Body : { searchConfigId: string }
  * Auth : requiert une session active
@@ -16,11 +27,14 @@ import {
  * Flux :
  *   1. Verifie l'authentification
  *   2. Charge la SearchConfig depuis la BDD
- *   3. Charge le Profile pour recuperer les identifiants LinkedIn
- *   4. Verifie que les identifiants LinkedIn sont renseignes (erreur 400 sinon)
- *   5. Cree un AgentRun "pending" pour le feedback header en temps reel
- *   6. Lance l'agent de scraping LinkedIn authentifie
- *   7. Stocke les offres en BDD avec deduplication (upsert sur userId + url)
+ *   3. Dechiffre les identifiants LinkedIn du profil (getLinkedInCredentials)
+ *   4. Si la recherche cible LinkedIn, verifie que les identifiants sont renseignes (erreur 400 sinon)
+ *   5. Cree un AgentRun "pending" pour le feedback header en temps reel, dans la meme
+ *      transaction que la verification des quotas (recherches du jour, budget IA) → 429 si atteint
+ *   6. Lance l'agent de scraping sur chaque site de la recherche
+ *      (en cas de 2FA LinkedIn : AgentRun "awaiting_input" jusqu'a la saisie du code)
+ *   7. Stocke les offres en BDD avec deduplication (upsert sur userId + source + externalId,
+ *      a defaut userId + url canonique)
  *   8. Met a jour l'AgentRun en "success" ou "error"
  *   9. Retourne le nombre d'offres trouvees et nouvelles
  *
@@ -30,11 +44,13 @@ import {
  *   Response: { data: { total: 15, new: 8, updated: 7 }, message: "..." }
  *
  * Interactions :
- *   - prisma.profile.findUnique : pour charger les identifiants LinkedIn
+ *   - getLinkedInCredentials : dechiffre les identifiants LinkedIn du profil
+ *   - createRunWithinQuota() : cree l'AgentRun, ou refuse le run si un quota est atteint
  *   - prisma.searchConfig.findUnique : pour charger la configuration de recherche
- *   - prisma.agentRun.create/update : suivi en temps reel pour l'indicateur header
- *   - runSearchAgent() : lance le scraping LinkedIn authentifie
- *   - prisma.offer.upsert : deduplication par userId + url
+ *   - prisma.agentRun.update : suivi en temps reel pour l'indicateur header
+ *   - createRunUsageRecorder() : tokens et cout des appels LLM cumules sur l'AgentRun
+ *   - runSearchAgent() : lance le scraping de chaque site (LinkedIn authentifie, WTTJ public)
+ *   - saveScrapedOffers() : upsert des offres (deduplication, fiche entreprise, regroupement multi-sites)
  */
 export async function POST(request: NextRequest) {
   // Declare agentRun hors du try pour pouvoir y acceder dans le catch
@@ -86,13 +102,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Charger le profil de l'utilisateur pour recuperer les identifiants LinkedIn
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-    });
+    const sites = searchConfig.sites as string[];
 
-    // Verifier que les identifiants LinkedIn sont renseignes
-    if (!profile?.linkedinEmail || !profile?.linkedinPassword) {
+    // Dechiffrer les identifiants LinkedIn uniquement si LinkedIn est cible
+    const linkedinCredentials = sites.includes("linkedin")
+      ? await getLinkedInCredentials(userId)
+      : null;
+
+    // Verifier que les identifiants LinkedIn sont renseignes (uniquement si LinkedIn est cible)
+    if (sites.includes("linkedin") && !linkedinCredentials) {
       return NextResponse.json(
         {
           error: "Identifiants LinkedIn manquants. Renseignez votre email et mot de passe LinkedIn dans votre profil (/profile) avant de lancer une recherche.",
@@ -101,106 +119,76 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Creer un AgentRun "pending" pour l'indicateur en temps reel dans le header
+    // Creer un AgentRun "pending" pour l'indicateur en temps reel dans le header, si les quotas
+    // le permettent (recherches du jour, budget IA du mois, surcharges admin comprises)
     // Le client (AgentStatusIndicator) poll cet enregistrement toutes les 2s tant que pending
-    agentRun = await prisma.agentRun.create({
-      data: {
-        userId,
-        type: "scraping",
-        status: "pending",
-        label: `Scraping — ${searchConfig.name}`,
-      },
+    const reservation = await createRunWithinQuota(userId, "search", {
+      type: "scraping",
+      status: "pending",
+      label: `Scraping — ${searchConfig.name}`,
+      // Consommation LLM ventilee par recherche (page /settings/usage)
+      searchConfigId: searchConfig.id,
     });
 
+    if (reservation.error !== null) {
+      return NextResponse.json({ error: reservation.error }, { status: QUOTA_EXCEEDED_STATUS });
+    }
+    agentRun = reservation.agentRun;
+
     // Construire les criteres de recherche avec les identifiants LinkedIn
     const criteria: SearchCriteria = {
       query: searchConfig.query,
       location: searchConfig.location,
-      sites: searchConfig.sites as string[],
+      sites,
       contractTypes: searchConfig.contractTypes as string[],
       remote: searchConfig.remote,
       salaryMin: searchConfig.salaryMin,
       excludeKeywords: (searchConfig.excludeKeywords as string[]) || [],
-      linkedinEmail: profile.linkedinEmail,
-      linkedinPassword: profile.linkedinPassword,
+      linkedinEmail: linkedinCredentials?.email ?? null,
+      linkedinPassword: linkedinCredentials?.password ?? null,
     };
 
     console.log(
-      `[API] Lancement recherche LinkedIn pour user=${userId}, config="${searchConfig.name}"`
+      `[API] Lancement recherche ${sites.join(", ")} pour user=${userId}, config="${searchConfig.name}"`
     );
 
-    // Lancer l'agent de scraping LinkedIn authentifie
-    const scrapedOffers = await runSearchAgent(criteria, userId);
+    // Lancer l'agent de scraping sur chaque site
+    // sites : rapport par site (un site en echec n'empeche pas de stocker les offres des autres)
+    // dropped : offres ecartees par le filtrage deterministe (mots-cles, salaire, contrat)
+    // descriptionCache : descriptions reprises du cache au lieu d'un nouvel appel Haiku
+    // requestVerificationCode : si LinkedIn demande une 2FA, le run passe en "awaiting_input"
+    // et l'utilisateur saisit le code depuis l'indicateur du header
+    // onQueueChange : run "queued" tant que tous les navigateurs du pool sont occupes
+    const {
+      offers: scrapedOffers,
+      sites: siteReports,
+      dropped,
+      descriptionCache,
+    } = await runSearchAgent(
+      criteria,
+      userId,
+      {
+        requestVerificationCode: createRunInputRequester(
+          agentRun.id,
+          INTERACTIVE_INPUT_TIMEOUT_MS
+        ),
+        onQueueChange: createRunQueueNotifier(agentRun.id),
+        // Captures de la page d'un site en echec, consultables depuis l'historique du header
+        onFailureCapture: createRunArtifactRecorder(agentRun.id, userId),
+        // Tokens et cout de chaque appel LLM, cumules sur le run (page /settings/usage)
+        onLlmUsage: createRunUsageRecorder(agentRun.id),
+        // Run actif tant qu'il avance, meme sans appel LLM (cf. failStaleAgentRuns)
+        onProgress: createRunProgressNotifier(agentRun.id),
+      }
+    );
 
     console.log(
       `[API] Agent termine : ${scrapedOffers.length} offres trouvees`
     );
 
-    // Stocker les offres en BDD avec deduplication
-    // Utilise upsert : si l'offre existe deja (meme userId + url), on met a jour
-    let newCount = 0;
-    let updatedCount = 0;
-
-    for (const offer of scrapedOffers) {
-      // Ignorer les offres sans URL valide
-      if (!offer.url) continue;
-
-      try {
-        const result = await prisma.offer.upsert({
-          where: {
-            // Contrainte unique : @@unique([userId, url]) dans le schema
-            userId_url: {
-              userId,
-              url: offer.url,
-            },
-          },
-          create: {
-            userId,
-            title: offer.title,
-            company: offer.company,
-            location: offer.location,
-            url: offer.url,
-            description: offer.description,
-            salary: offer.salary,
-            contractType: offer.contractType,
-            source: offer.source,
-            // Marquage "sandbox" : offre creee par un declenchement manuel via /searches
-            // N'est defini QUE dans create → l'origine initiale est preservee si l'offre existait deja
-            origin: "sandbox",
-            isNew: true,
-            isBookmarked: false,
-          },
-          update: {
-            // Mettre a jour les champs qui peuvent avoir change
-            title: offer.title,
-            company: offer.company,
-            location: offer.location,
-            description: offer.description,
-            salary: offer.salary,
-            contractType: offer.contractType,
-            // origin intentionnellement absent → preserve l'origine de la premiere decouverte
-          },
-        });
-
-        // Determiner si c'est une creation ou une mise a jour
-        // Si createdAt est recent (< 5s), c'est une nouvelle offre
-        const isNewOffer =
-          Date.now() - result.createdAt.getTime() < 5000;
-
-        if (isNewOffer) {
-          newCount++;
-        } else {
-          updatedCount++;
-        }
-      } catch (error: unknown) {
-        const err = error as Error;
-        console.error(
-          `[API] Erreur upsert offre "${offer.title}":`,
-          err.message
-        );
-        // Continuer avec les autres offres meme si une echoue
-      }
-    }
+    // Stocker les offres en BDD avec deduplication (upsert, fiche entreprise, regroupement)
+    // Marquage "sandbox" : offres creees par un declenchement manuel via /searches
+    const { newCount, updatedCount } = await saveScrapedOffers(userId, scrapedOffers, "sandbox");
 
     console.log(
       `[API] Stockage termine : ${newCount} nouvelles, ${updatedCount} mises a jour`
@@ -216,6 +204,10 @@ export async function POST(request: NextRequest) {
           total: scrapedOffers.length,
           new: newCount,
           updated: updatedCount,
+          // Copie en objets litteraux : une interface n'est pas assignable a Prisma.InputJsonValue
+          sites: siteReports.map((r) => ({ ...r })),
+          dropped,
+          descriptionCache,
         },
       },
     });
@@ -225,6 +217,9 @@ export async function POST(request: NextRequest) {
         total: scrapedOffers.length,
         new: newCount,
         updated: updatedCount,
+        sites: siteReports,
+        dropped,
+        descriptionCache,
         searchConfigId,
       },
       message: `Recherche terminee : ${newCount} nouvelle(s) offre(s) trouvee(s), ${updatedCount} mise(s) a jour`,
@@ -250,9 +245,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Erreurs liees au login LinkedIn (2FA, identifiants invalides, blocage)
+    // Erreurs liees au login LinkedIn (2FA, identifiants invalides) ou au blocage d'un site
     if (
       err.message.includes("LinkedIn") ||
+      err.message.includes("a bloque") ||
       err.message.includes("2 etapes") ||
       err.message.includes("identifiants")
     ) {
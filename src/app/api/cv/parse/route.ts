@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { prisma } from "@/lib/db";
+import { getLlmService } from "@/lib/llm";
+import { createRunUsageRecorder } from "@/lib/agent/run-usage";
 
 /**
  * Role : Route API POST /api/cv/parse
@@ -12,8 +14,9 @@ import { headers } from "next/headers";
  *   1. Vérifie l'authentification (Better Auth)
  *   2. Récupère le fichier PDF depuis le FormData
  *   3. Valide le type (PDF) et la taille (≤ 5 Mo)
- *   4. Encode le PDF en base64 et l'envoie à Claude Haiku
- *   5. Parse la réponse JSON et la retourne au client
+ *   4. Crée un AgentRun "cv_parse" (indicateur du header, tokens et coût de l'analyse)
+ *   5. Encode le PDF en base64 et l'envoie au service LLM (rôle "parsing", Claude Haiku par défaut)
+ *   6. Parse la réponse JSON, met à jour l'AgentRun et retourne le profil au client
  *
  * Méthode : POST multipart/form-data
  * Champ attendu : "file" (application/pdf, max 5 Mo)
@@ -73,6 +76,9 @@ export interface ParsedProfile {
 }
 
 export async function POST(request: NextRequest) {
+  // Déclaré hors du try pour pouvoir marquer le run en erreur dans le catch
+  let agentRun: { id: string } | null = null;
+
   try {
     // 1. Vérification de l'authentification via Better Auth
     const session = await auth.api.getSession({
@@ -110,42 +116,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 5. Conversion du PDF en base64 pour l'envoi à l'API Anthropic
-    // Le SDK Anthropic 0.75.0+ supporte les PDFs natifs via type: "document"
+    // AgentRun "pending" : suivi dans le header et consommation LLM de l'analyse
+    agentRun = await prisma.agentRun.create({
+      data: {
+        userId: session.user.id,
+        type: "cv_parse",
+        status: "pending",
+        label: `Analyse du CV — ${file.name}`,
+      },
+    });
+
+    // 5. Conversion du PDF en base64 pour l'envoi au service LLM
+    // Le PDF est transmis tel quel (bloc "document" natif côté Anthropic)
     const base64 = Buffer.from(await file.arrayBuffer()).toString("base64");
 
-    // 6. Appel à Claude Haiku avec le PDF encodé en base64
-    // Modèle économique et rapide, déjà utilisé dans orchestrator.ts
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
-    const message = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2048,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              // Envoi du PDF natif — aucune lib de conversion nécessaire
-              type: "document",
-              source: {
-                type: "base64",
-                media_type: "application/pdf",
-                data: base64,
-              },
-            },
-            {
-              type: "text",
-              text: PARSE_PROMPT,
-            },
-          ],
-        },
-      ],
+    // 6. Appel au service LLM avec le PDF joint
+    // Rôle "parsing" : Claude Haiku par défaut, économique et rapide (cf. src/lib/llm/models.ts)
+    const llm = getLlmService({ onUsage: createRunUsageRecorder(agentRun.id) });
+
+    const response = await llm.complete({
+      role: "parsing",
+      maxTokens: 2048,
+      // Envoi du PDF natif — aucune lib de conversion nécessaire
+      document: { mediaType: "application/pdf", data: base64 },
+      prompt: PARSE_PROMPT,
     });
 
-    // 7. Extraction du texte de la réponse
-    const rawText =
-      message.content[0].type === "text" ? message.content[0].text : "";
+    // 7. Texte de la réponse
+    const rawText = response.text;
 
     // 8. Nettoyage éventuel de blocs markdown (```json ... ```) si Haiku en ajoute
     const cleanedText = rawText
@@ -159,12 +157,21 @@ export async function POST(request: NextRequest) {
       parsed = JSON.parse(cleanedText) as ParsedProfile;
     } catch {
       console.error("CV parse: JSON invalide reçu de Claude :", cleanedText);
+      await prisma.agentRun.update({
+        where: { id: agentRun.id },
+        data: { status: "error", error: "Format de réponse inattendu" },
+      });
       return NextResponse.json(
         { error: "L'analyse du CV a échoué — format de réponse inattendu" },
         { status: 500 }
       );
     }
 
+    await prisma.agentRun.update({
+      where: { id: agentRun.id },
+      data: { status: "success" },
+    });
+
     // 10. Retour des données structurées au client
     return NextResponse.json(
       {
@@ -175,6 +182,12 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error("CV parse route error:", error);
+    if (agentRun?.id) {
+      await prisma.agentRun.update({
+        where: { id: agentRun.id },
+        data: { status: "error", error: (error as Error).message },
+      });
+    }
     return NextResponse.json(
       { error: "Erreur interne lors de l'analyse du CV" },
       { status: 500 }
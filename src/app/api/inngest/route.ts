@@ -18,12 +18,18 @@
  * Fonctions enregistrees :
  *   - scheduledSearch : cron toutes les minutes, detecte les users a lancer
  *   - runUserSearch   : lance le scraping pour un user specifique
+ *   - scheduledLivenessCheck : cron quotidien, selectionne les offres a reverifier
+ *   - checkSourceLiveness    : verifie un lot d'offres d'un site et expire les offres cloturees
+ *   - failStaleRuns          : cron toutes les 10 minutes, passe en erreur les runs interrompus
  */
 
 import { serve } from "inngest/next";
 import { inngest } from "@/lib/inngest/client";
 import { scheduledSearch } from "@/lib/inngest/functions/scheduled-search";
 import { runUserSearch } from "@/lib/inngest/functions/run-user-search";
+import { scheduledLivenessCheck } from "@/lib/inngest/functions/scheduled-liveness-check";
+import { checkSourceLiveness } from "@/lib/inngest/functions/check-source-liveness";
+import { failStaleRuns } from "@/lib/inngest/functions/fail-stale-runs";
 
 /**
  * Handler Inngest : exporte GET, POST, PUT pour Next.js App Router
@@ -34,5 +40,8 @@ export const { GET, POST, PUT } = serve({
   functions: [
     scheduledSearch, // cron : detecte les users a lancer
     runUserSearch,   // event handler : scraping pour un user
+    scheduledLivenessCheck, // cron : offres a reverifier, un lot par site
+    checkSourceLiveness,    // event handler : verification d'un lot d'offres
+    failStaleRuns,          // cron : runs interrompus (redemarrage, plantage) passes en erreur
   ],
 });
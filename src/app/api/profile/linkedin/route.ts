@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  hasLinkedInCredentials,
+  saveLinkedInCredentials,
+} from "@/lib/agent/credentials";
+
+/**
+ * Role : API route de gestion des identifiants LinkedIn du profil
+ * Auth : requiert une session active
+ *
+ * Les identifiants sont chiffres avant stockage et ne sont JAMAIS renvoyes au client :
+ * seul le statut "configure" est expose. Ils ne passent pas par /api/model
+ * (champs @omit et non modifiables dans le schema ZenStack).
+ *
+ * Methodes :
+ *   GET    → { data: { configured: boolean } }
+ *   PUT    → Body { email, password } : chiffre et enregistre les identifiants
+ *   DELETE → efface les identifiants (et la session LinkedIn persistee)
+ *
+ * Exemple d'appel :
+ *   PUT /api/profile/linkedin
+ *   Body: { "email": "moi@mail.com", "password": "..." }
+ *   Response: { data: { configured: true }, message: "Identifiants LinkedIn enregistres" }
+ */
+
+const LinkedInCredentialsSchema = z.object({
+  email: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+/**
+ * Role : Recuperer l'utilisateur connecte
+ * Retourne : userId ou null si non authentifie
+ */
+async function getUserId(): Promise<string | null> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  return session?.user?.id ?? null;
+}
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    data: { configured: await hasLinkedInCredentials(userId) },
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    let body: z.infer<typeof LinkedInCredentialsSchema>;
+    try {
+      body = LinkedInCredentialsSchema.parse(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Email et mot de passe LinkedIn requis" },
+        { status: 400 }
+      );
+    }
+
+    // Les identifiants sont rattaches au profil : il doit exister
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Enregistrez d'abord votre profil" },
+        { status: 404 }
+      );
+    }
+
+    await saveLinkedInCredentials(userId, body);
+
+    return NextResponse.json({
+      data: { configured: true },
+      message: "Identifiants LinkedIn enregistres",
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] LinkedIn credentials error:", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors de l'enregistrement des identifiants" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: "Non autorise" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (profile) {
+      await saveLinkedInCredentials(userId, null);
+    }
+
+    return NextResponse.json({
+      data: { configured: false },
+      message: "Identifiants LinkedIn supprimes",
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error("[API] LinkedIn credentials error:", err.message);
+    return NextResponse.json(
+      { error: "Erreur lors de la suppression des identifiants" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+"use client";
+
+/**
+ * Rôle : Tableau des quotas par utilisateur (page /admin/quotas)
+ * Une ligne par utilisateur : consommation en cours et surcharges éditables
+ *   (recherches par jour, candidatures par mois, budget IA mensuel).
+ * Un champ vide applique la valeur par défaut de l'environnement (affichée en placeholder).
+ *
+ * Props :
+ *   - users : utilisateurs retournés par GET /api/admin/quotas
+ *   - defaults : limites par défaut (QUOTA_* de l'environnement)
+ *
+ * Exemple :
+ *   <QuotaOverridesTable users={data.users} defaults={data.defaults} />
+ */
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { QuotaLimits, QuotaOverrides } from "@/lib/agent/usage-quotas";
+import type { AdminQuotaUser } from "@/app/api/admin/quotas/route";
+
+/** Clé Tanstack Query du rapport de quotas admin */
+export const ADMIN_QUOTAS_QUERY_KEY = ["admin", "quotas"] as const;
+
+/** Champs éditables d'une ligne, dans l'ordre des colonnes */
+const OVERRIDE_FIELDS: { key: keyof QuotaOverrides; step: string }[] = [
+  { key: "runsPerDay", step: "1" },
+  { key: "generationsPerMonth", step: "1" },
+  { key: "monthlyBudgetUsd", step: "0.5" },
+];
+
+/** Formate un montant en dollars (ex: "3,20 $") */
+function formatUsd(value: number): string {
+  return value.toLocaleString("fr-FR", { style: "currency", currency: "USD" });
+}
+
+interface QuotaOverridesTableProps {
+  users: AdminQuotaUser[];
+  defaults: QuotaLimits;
+}
+
+export function QuotaOverridesTable({ users, defaults }: QuotaOverridesTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Utilisateur</TableHead>
+          <TableHead>Consommation</TableHead>
+          <TableHead>Recherches / jour</TableHead>
+          <TableHead>Candidatures / mois</TableHead>
+          <TableHead>Budget / mois ($)</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {users.map((user) => (
+          // Remonte la ligne apres enregistrement : etat local reinitialise depuis les props
+          <QuotaOverrideRow
+            key={`${user.id}-${JSON.stringify(user.overrides)}`}
+            user={user}
+            defaults={defaults}
+          />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Rôle : Ligne éditable d'un utilisateur (état local initialisé depuis les props)
+ */
+function QuotaOverrideRow({ user, defaults }: { user: AdminQuotaUser; defaults: QuotaLimits }) {
+  const queryClient = useQueryClient();
+  const { usage } = user.status;
+
+  // Valeurs saisies ("" = valeur par defaut)
+  const [values, setValues] = useState<Record<keyof QuotaOverrides, string>>({
+    runsPerDay: user.overrides.runsPerDay?.toString() ?? "",
+    generationsPerMonth: user.overrides.generationsPerMonth?.toString() ?? "",
+    monthlyBudgetUsd: user.overrides.monthlyBudgetUsd?.toString() ?? "",
+  });
+
+  const hasChanges = OVERRIDE_FIELDS.some(
+    ({ key }) => values[key] !== (user.overrides[key]?.toString() ?? "")
+  );
+
+  // Mutation : enregistrer les surcharges via PUT /api/admin/quotas
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const toOverride = (value: string) => (value.trim() === "" ? null : Number(value));
+      const res = await fetch("/api/admin/quotas", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: user.id,
+          runsPerDay: toOverride(values.runsPerDay),
+          generationsPerMonth: toOverride(values.generationsPerMonth),
+          monthlyBudgetUsd: toOverride(values.monthlyBudgetUsd),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Erreur lors de l'enregistrement");
+      return json as { message: string };
+    },
+    onSuccess: () => {
+      toast.success(`Quotas de ${user.name} enregistrés`);
+      queryClient.invalidateQueries({ queryKey: ADMIN_QUOTAS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <p className="font-medium">{user.name}</p>
+        <p className="text-xs text-muted-foreground">{user.email}</p>
+      </TableCell>
+      <TableCell className="text-xs text-muted-foreground tabular-nums">
+        <p>{usage.runsToday} recherche{usage.runsToday > 1 ? "s" : ""} aujourd&apos;hui</p>
+        <p>{usage.generationsThisMonth} candidature{usage.generationsThisMonth > 1 ? "s" : ""} ce mois</p>
+        <p>{formatUsd(usage.spentThisMonthUsd)} ce mois</p>
+      </TableCell>
+      {OVERRIDE_FIELDS.map(({ key, step }) => (
+        <TableCell key={key}>
+          <Input
+            type="number"
+            min="0"
+            step={step}
+            value={values[key]}
+            placeholder={`${defaults[key]} (défaut)`}
+            onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+            className="h-8 w-32"
+          />
+        </TableCell>
+      ))}
+      <TableCell>
+        <Button
+          size="sm"
+          disabled={!hasChanges || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+        >
+          {saveMutation.isPending ? "Enregistrement..." : "Enregistrer"}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
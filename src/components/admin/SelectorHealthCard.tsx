@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * Rôle : Carte de santé des sélecteurs CSS d'un site (page /admin/selectors)
+ * Affiche les alertes de dérive ouvertes puis un tableau des sélecteurs de la SiteConfig :
+ *   statut, éléments trouvés au dernier relevé, taux de succès et moyenne sur les derniers scrapings
+ *
+ * Props :
+ *   - health : rapport d'un site retourné par GET /api/admin/selector-health
+ *
+ * Exemple :
+ *   <SelectorHealthCard health={report[0]} />
+ */
+
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SelectorHealth, SiteSelectorHealth } from "@/lib/agent/selector-health";
+
+/** Libellé et couleurs de chaque statut de sélecteur */
+const STATUS_STYLES: Record<SelectorHealth["status"], { label: string; color: string; bg: string }> = {
+  ok:       { label: "OK",            color: "#10B981", bg: "rgba(16,185,129,0.12)"  },
+  failing:  { label: "Aucun match",   color: "#F59E0B", bg: "rgba(245,158,11,0.12)"  },
+  drifting: { label: "Dérive",        color: "#EF4444", bg: "rgba(239,68,68,0.12)"   },
+  unknown:  { label: "Jamais relevé", color: "#6B7280", bg: "rgba(107,114,128,0.12)" },
+};
+
+interface SelectorHealthCardProps {
+  health: SiteSelectorHealth;
+}
+
+export function SelectorHealthCard({ health }: SelectorHealthCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {health.name}
+          {health.alerts.length > 0 && (
+            <Badge variant="destructive">
+              {health.alerts.length} alerte{health.alerts.length > 1 ? "s" : ""}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Alertes de dérive ouvertes (résolues automatiquement au prochain match) */}
+        {health.alerts.map((alert) => (
+          <div
+            key={alert.id}
+            className="flex items-start gap-2 rounded-md border p-3 text-sm"
+            style={{ borderColor: "rgba(239,68,68,0.35)", backgroundColor: "rgba(239,68,68,0.05)" }}
+          >
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" style={{ color: "#EF4444" }} />
+            <div className="space-y-1">
+              <p>{alert.message}</p>
+              <p className="text-xs text-muted-foreground">
+                Depuis le {new Date(alert.createdAt).toLocaleString("fr-FR")}
+              </p>
+            </div>
+          </div>
+        ))}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sélecteur</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead className="text-right">Dernier relevé</TableHead>
+              <TableHead className="text-right">Taux de succès</TableHead>
+              <TableHead className="text-right">Moyenne</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {health.selectors.map((selector) => {
+              const status = STATUS_STYLES[selector.status];
+              return (
+                <TableRow key={selector.key}>
+                  <TableCell className="max-w-md">
+                    <p className="font-medium">{selector.key}</p>
+                    <p className="truncate font-mono text-xs text-muted-foreground" title={selector.selector}>
+                      {selector.selector}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className="rounded-full px-2 py-0.5 text-xs font-medium"
+                      style={{ color: status.color, backgroundColor: status.bg }}
+                    >
+                      {status.label}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {selector.lastCheckedAt ? (
+                      <>
+                        <p>{selector.lastHits} élément{selector.lastHits === 1 ? "" : "s"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(selector.lastCheckedAt).toLocaleString("fr-FR")}
+                        </p>
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {selector.matchRate !== null
+                      ? `${Math.round(selector.matchRate * 100)} % (${selector.runs} runs)`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {selector.averageHits !== null ? selector.averageHits.toFixed(1) : "—"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@
  *   - Titre de l'offre (tronqué si long)
  *   - Entreprise (icône Building2)
  *   - Date de création relative
+ *   - Offre expirée (fermée sur le site source) : carte grisée + mention "Offre expirée"
  *   - Indicateur visuel de drag (opacity réduite pendant le drag)
  *
  * Drag & Drop :
@@ -20,7 +21,7 @@
 
 import { useDraggable } from "@dnd-kit/core";
 import { CSS } from "@dnd-kit/utilities";
-import { Building2 } from "lucide-react";
+import { Building2, CalendarX } from "lucide-react";
 import Link from "next/link";
 import type { Application, Offer } from "@prisma/client";
 
@@ -59,6 +60,9 @@ export function KanbanCard({ application, isDragging = false }: KanbanCardProps)
     ? { transform: CSS.Translate.toString(transform) }
     : undefined;
 
+  // Offre fermée sur le site source (vérification périodique, cf. offer-liveness)
+  const isExpired = application.offer.expiredAt !== null;
+
   return (
     // Wrapper draggable — ref + attributes + listeners de @dnd-kit
     <div
@@ -66,8 +70,10 @@ export function KanbanCard({ application, isDragging = false }: KanbanCardProps)
       style={style}
       {...attributes}
       {...listeners}
-      // Opacité réduite = carte en cours de drag (fantôme)
-      className={`group cursor-grab active:cursor-grabbing ${isDragging ? "opacity-40" : ""}`}
+      // Opacité réduite = carte en cours de drag (fantôme) ; grisée = offre expirée
+      className={`group cursor-grab active:cursor-grabbing ${isDragging ? "opacity-40" : ""} ${
+        isExpired && !isDragging ? "opacity-60 grayscale" : ""
+      }`}
     >
       {/* Carte blanche brand : bordure lavande + ombre bleue */}
       <div
@@ -164,6 +170,25 @@ export function KanbanCard({ application, isDragging = false }: KanbanCardProps)
             {relativeDate(application.createdAt)}
           </span>
         </div>
+
+        {/* Offre expirée : date et motif en info-bulle */}
+        {application.offer.expiredAt && (
+          <div
+            title={application.offer.expiredReason ?? undefined}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.25rem",
+              marginTop: "0.3rem",
+              fontSize: "0.65rem",
+              fontWeight: 600,
+              color: "#DC2626",
+            }}
+          >
+            <CalendarX size={10} style={{ flexShrink: 0 }} />
+            Offre expirée le {new Date(application.offer.expiredAt).toLocaleDateString("fr-FR")}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,137 @@
+"use client";
+
+/**
+ * Role : Tableau des entreprises de la page /companies
+ * Affiche pour chaque fiche entreprise :
+ *   - Nom (lien vers la fiche) et badge "Blacklistée"
+ *   - Secteur et taille saisis par l'utilisateur
+ *   - Nombre d'offres encore ouvertes (non expirees) sur le total
+ *   - Nombre de candidatures et statut de la plus recente
+ *
+ * Props :
+ *   - companies : fiches avec leurs offres et candidatures (cf. CompanyWithOffers)
+ *
+ * Exemple :
+ *   <CompaniesTable companies={companies} />
+ */
+
+import Link from "next/link";
+import type { Prisma } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ApplicationStatusBadge } from "@/components/applications/ApplicationStatusBadge";
+import { getCompanySizeLabel } from "@/components/companies/CompanyInfoForm";
+
+/**
+ * Fiche entreprise avec ses offres et leurs candidatures
+ * Correspond a la requete useFindManyCompany de la page /companies
+ */
+export type CompanyWithOffers = Prisma.CompanyGetPayload<{
+  include: {
+    offers: {
+      select: {
+        id: true;
+        expiredAt: true;
+        applications: { select: { id: true; status: true; createdAt: true } };
+      };
+    };
+  };
+}>;
+
+interface CompaniesTableProps {
+  /** Fiches entreprise a afficher */
+  companies: CompanyWithOffers[];
+}
+
+/**
+ * Candidatures d'une entreprise, de la plus recente a la plus ancienne
+ */
+function getApplications(company: CompanyWithOffers) {
+  return company.offers
+    .flatMap((offer) => offer.applications)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export function CompaniesTable({ companies }: CompaniesTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Entreprise</TableHead>
+            <TableHead>Secteur</TableHead>
+            <TableHead>Taille</TableHead>
+            <TableHead>Offres ouvertes</TableHead>
+            <TableHead>Candidatures</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {companies.map((company) => {
+            const openOffers = company.offers.filter((offer) => !offer.expiredAt).length;
+            const applications = getApplications(company);
+
+            return (
+              <TableRow key={company.id} className={company.isBlacklisted ? "opacity-60" : ""}>
+                {/* Nom + badge blacklist */}
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={`/companies/${company.id}`} className="font-medium hover:underline">
+                      {company.name}
+                    </Link>
+                    {company.isBlacklisted && (
+                      <Badge variant="outline" className="text-xs text-destructive border-destructive/40">
+                        Blacklistée
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+
+                <TableCell className="text-sm text-muted-foreground">
+                  {company.sector ?? "—"}
+                </TableCell>
+
+                <TableCell className="text-sm text-muted-foreground">
+                  {company.size ? getCompanySizeLabel(company.size) : "—"}
+                </TableCell>
+
+                {/* Offres encore en ligne / total des offres trouvees */}
+                <TableCell className="text-sm">
+                  {openOffers}
+                  <span className="text-muted-foreground"> / {company.offers.length}</span>
+                </TableCell>
+
+                {/* Nombre de candidatures + statut de la derniere */}
+                <TableCell>
+                  {applications.length > 0 ? (
+                    <div className="flex items-center gap-2 text-sm">
+                      {applications.length}
+                      <ApplicationStatusBadge status={applications[0].status} />
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+
+                <TableCell className="text-right">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/companies/${company.id}`}>Voir</Link>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Role : Squelette de chargement du tableau des entreprises
+ * Reproduit la structure de CompaniesTable (6 colonnes, 5 lignes)
+ *
+ * Affiche pendant isLoading = true dans la page /companies
+ */
+
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+/** Nombre de lignes skeleton a afficher */
+const SKELETON_ROWS = 5;
+
+export function CompaniesTableSkeleton() {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Entreprise</TableHead>
+            <TableHead>Secteur</TableHead>
+            <TableHead>Taille</TableHead>
+            <TableHead>Offres ouvertes</TableHead>
+            <TableHead>Candidatures</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {Array.from({ length: SKELETON_ROWS }).map((_, i) => (
+            <TableRow key={i}>
+              <TableCell>
+                <Skeleton className="h-4 w-40" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-24" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-20" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-10" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-5 w-20 rounded-full" />
+              </TableCell>
+              <TableCell className="text-right">
+                <Skeleton className="ml-auto h-8 w-16" />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
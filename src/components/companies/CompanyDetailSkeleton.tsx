@@ -0,0 +1,45 @@
+/**
+ * Role : Squelette de chargement de la fiche entreprise (/companies/[id])
+ * Reproduit la structure de la page : en-tete, formulaire d'informations, offres et candidatures
+ */
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+
+export function CompanyDetailSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* En-tete : nom + site web */}
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-4 w-40" />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Formulaire d'informations */}
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-5 w-32" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Skeleton className="h-9 w-full" />
+            <Skeleton className="h-9 w-56" />
+            <Skeleton className="h-24 w-full" />
+          </CardContent>
+        </Card>
+
+        {/* Offres et candidatures */}
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-5 w-40" />
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
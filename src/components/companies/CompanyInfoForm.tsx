@@ -0,0 +1,195 @@
+"use client";
+
+/**
+ * Role : Formulaire des informations d'une fiche entreprise (page /companies/[id])
+ * Permet a l'utilisateur de renseigner :
+ *   - Site web, taille (tranche d'effectif) et secteur
+ *   - Notes libres (culture, contacts, retours d'entretien)
+ *   - Blacklist : les offres de l'entreprise sont masquees de /offers
+ *
+ * Comportement :
+ *   - Monte uniquement quand la fiche est chargee : l'etat local est initialise
+ *     depuis les props sans useEffect
+ *   - Sauvegarde via useUpdateCompany au clic "Enregistrer" (actif si modifications)
+ *
+ * Exemple :
+ *   <CompanyInfoForm company={company} />
+ */
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Save } from "lucide-react";
+import type { Company } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useUpdateCompany } from "@/lib/hooks";
+
+/** Tranches d'effectif proposees (valeurs de Company.size) */
+export const COMPANY_SIZES = [
+  { value: "1-10", label: "1 à 10 salariés" },
+  { value: "11-50", label: "11 à 50 salariés" },
+  { value: "51-200", label: "51 à 200 salariés" },
+  { value: "201-1000", label: "201 à 1 000 salariés" },
+  { value: "1000+", label: "Plus de 1 000 salariés" },
+] as const;
+
+/** Valeur du Select quand aucune taille n'est choisie (SelectItem n'accepte pas "") */
+const NO_SIZE = "none";
+
+/**
+ * Label d'une tranche d'effectif
+ * Exemple : getCompanySizeLabel("11-50") // "11 à 50 salariés"
+ */
+export function getCompanySizeLabel(size: string): string {
+  return COMPANY_SIZES.find((option) => option.value === size)?.label ?? size;
+}
+
+interface CompanyInfoFormProps {
+  /** Fiche entreprise chargee depuis la BDD */
+  company: Company;
+}
+
+export function CompanyInfoForm({ company }: CompanyInfoFormProps) {
+  const queryClient = useQueryClient();
+
+  // Etat local initialise depuis la fiche au premier rendu
+  const [website, setWebsite] = useState(company.website ?? "");
+  const [size, setSize] = useState(company.size ?? NO_SIZE);
+  const [sector, setSector] = useState(company.sector ?? "");
+  const [notes, setNotes] = useState(company.notes ?? "");
+  const [isBlacklisted, setIsBlacklisted] = useState(company.isBlacklisted);
+
+  // Mutation : la blacklist change aussi la liste /offers (queries Offer invalidees)
+  const updateMutation = useUpdateCompany({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["zenstack", "Company"] });
+      queryClient.invalidateQueries({ queryKey: ["zenstack", "Offer"] });
+      toast.success("Entreprise mise à jour");
+    },
+    onError: () => {
+      toast.error("Erreur lors de la mise a jour");
+    },
+  });
+
+  /**
+   * Enregistre les informations de la fiche (champs vides → null)
+   */
+  const handleSave = () => {
+    updateMutation.mutate({
+      where: { id: company.id },
+      data: {
+        website: website.trim() || null,
+        size: size === NO_SIZE ? null : size,
+        sector: sector.trim() || null,
+        notes: notes.trim() || null,
+        isBlacklisted,
+      },
+    });
+  };
+
+  // Detecter les modifications par rapport a la fiche sauvegardee
+  const hasChanges =
+    website !== (company.website ?? "") ||
+    size !== (company.size ?? NO_SIZE) ||
+    sector !== (company.sector ?? "") ||
+    notes !== (company.notes ?? "") ||
+    isBlacklisted !== company.isBlacklisted;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Informations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {/* Site web */}
+          <div className="space-y-1.5">
+            <Label htmlFor="company-website">Site web</Label>
+            <Input
+              id="company-website"
+              type="url"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              placeholder="https://..."
+            />
+          </div>
+
+          {/* Secteur */}
+          <div className="space-y-1.5">
+            <Label htmlFor="company-sector">Secteur</Label>
+            <Input
+              id="company-sector"
+              value={sector}
+              onChange={(e) => setSector(e.target.value)}
+              placeholder="Fintech, e-commerce, conseil..."
+            />
+          </div>
+        </div>
+
+        {/* Taille */}
+        <div className="space-y-1.5">
+          <Label htmlFor="company-size">Taille</Label>
+          <Select value={size} onValueChange={setSize}>
+            <SelectTrigger id="company-size" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SIZE}>Non renseignée</SelectItem>
+              {COMPANY_SIZES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Notes libres */}
+        <div className="space-y-1.5">
+          <Label htmlFor="company-notes">Notes</Label>
+          <Textarea
+            id="company-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Culture, contacts, retours d'entretien..."
+            rows={4}
+          />
+        </div>
+
+        {/* Blacklist */}
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <Label htmlFor="company-blacklisted" className="text-base font-medium">
+              Blacklister cette entreprise
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Ses offres n&apos;apparaîtront plus dans la liste des offres
+            </p>
+          </div>
+          <Switch
+            id="company-blacklisted"
+            checked={isBlacklisted}
+            onCheckedChange={setIsBlacklisted}
+          />
+        </div>
+
+        <Button onClick={handleSave} disabled={!hasChanges || updateMutation.isPending}>
+          <Save className="mr-2 h-4 w-4" />
+          {updateMutation.isPending ? "Enregistrement..." : "Enregistrer"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,22 +3,32 @@
 /**
  * Rôle : Indicateur d'état de l'agent IA dans le header du dashboard
  * Interactions :
- *   - useFindManyAgentRun : polling adaptatif depuis ZenStack (2s si pending, 30s sinon)
- *   - Affiche l'icône Bot avec couleur selon l'état (gris / bleu pulse / vert / rouge)
+ *   - useFindManyAgentRun : polling adaptatif depuis ZenStack (2s si actif, 30s sinon)
+ *   - Affiche l'icône Bot avec couleur selon l'état (gris / bleu pulse / orange / vert / rouge)
  *   - DropdownMenu : historique des 10 derniers runs
+ *   - VerificationPrompt : saisie du code 2FA si un run attend une réponse
+ *     (POST /api/agent/runs/[id]/input)
+ *   - Captures d'échec d'un run (capture d'écran, HTML, trace) : liens vers
+ *     GET /api/agent/runs/[id]/artifacts/[index] (URL signée temporaire)
  *
  * États visuels :
  *   - Inactif : icône grisée, pas de texte
  *   - Pending : icône bleue + animate-pulse + label tronqué (35 car max)
+ *   - En file d'attente : icône bleue + animate-pulse + "En file d'attente"
+ *     (tous les navigateurs du serveur sont occupés, le run démarre dès qu'un se libère)
+ *   - En attente de saisie : icône orange + animate-pulse + "Code requis"
  *   - Succès < 30s : icône verte + résumé court (ex: "12 nouvelles offres")
  *   - Erreur récente : icône rouge (dernier run en erreur)
  *
  * Source de vérité : table AgentRun en BDD
- * Polling : 2s si un run est "pending", 30s sinon
+ * Polling : 2s si un run est "queued", "pending" ou "awaiting_input", 30s sinon
  */
 
-import { Bot, CheckCircle, XCircle, Clock } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Bot, CheckCircle, XCircle, Clock, Hourglass, KeyRound, Loader2, Paperclip } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,6 +36,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useFindManyAgentRun } from "@/lib/hooks/agent-run";
 import type { AgentRun } from "@prisma/client";
+import type { RunArtifact, RunArtifactKind } from "@/lib/agent/run-artifacts";
 
 // ─── Constantes ─────────────────────────────────────────────────────────────
 
@@ -38,6 +49,16 @@ const LABEL_TRUNCATE_LENGTH = 35;
 /** Nombre de runs affichés dans le dropdown historique */
 const RUNS_HISTORY_LIMIT = 10;
 
+/** Libellé des liens de captures d'échec */
+const ARTIFACT_LABELS: Record<RunArtifactKind, string> = {
+  screenshot: "Capture",
+  html: "HTML",
+  trace: "Trace",
+};
+
+/** Statuts d'un run encore actif (polling rapide) */
+const ACTIVE_STATUSES = ["queued", "pending", "awaiting_input"];
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 /**
@@ -60,6 +81,7 @@ function formatRelativeTime(date: Date): string {
  * Extrait un résumé court lisible pour un run terminé avec succès
  * - Scraping → "12 nouvelles offres" ou "Scraping terminé"
  * - Application → "Candidature générée"
+ * - Analyse de CV → "CV analysé"
  */
 function getSuccessSummary(run: AgentRun): string {
   if (run.type === "scraping" && run.result) {
@@ -71,6 +93,9 @@ function getSuccessSummary(run: AgentRun): string {
   if (run.type === "application") {
     return "Candidature générée";
   }
+  if (run.type === "cv_parse") {
+    return "CV analysé";
+  }
   return "Terminé";
 }
 
@@ -85,12 +110,19 @@ function truncate(str: string, maxLength: number): string {
 
 /**
  * Rôle : Icône colorée indiquant le statut d'un run dans la liste historique
- * pending → horloge orange, success → check vert, error → croix rouge
+ * queued → sablier orange, pending → horloge orange, awaiting_input → clé orange,
+ * success → check vert, error → croix rouge
  */
 function RunStatusIcon({ status }: { status: string }) {
+  if (status === "queued") {
+    return <Hourglass className="h-3.5 w-3.5 text-amber-500 shrink-0" />;
+  }
   if (status === "pending") {
     return <Clock className="h-3.5 w-3.5 text-amber-500 shrink-0" />;
   }
+  if (status === "awaiting_input") {
+    return <KeyRound className="h-3.5 w-3.5 text-amber-500 shrink-0" />;
+  }
   if (status === "success") {
     return <CheckCircle className="h-3.5 w-3.5 text-emerald-600 shrink-0" />;
   }
@@ -102,7 +134,7 @@ function RunStatusIcon({ status }: { status: string }) {
 export function AgentStatusIndicator() {
   /**
    * Polling adaptatif via Tanstack Query :
-   *   - 2 000 ms si un run est "pending" (feedback quasi-temps-réel)
+   *   - 2 000 ms si un run est "queued", "pending" ou "awaiting_input" (feedback quasi-temps-réel)
    *   - 30 000 ms sinon (économie de requêtes quand l'agent est inactif)
    *
    * ZenStack applique la policy @@allow('all', auth().id == userId)
@@ -112,7 +144,7 @@ export function AgentStatusIndicator() {
     { orderBy: { createdAt: "desc" }, take: RUNS_HISTORY_LIMIT },
     {
       refetchInterval: (query) =>
-        query.state.data?.some((r) => r.status === "pending")
+        query.state.data?.some((r) => ACTIVE_STATUSES.includes(r.status))
           ? 2_000
           : 30_000,
     }
@@ -123,6 +155,15 @@ export function AgentStatusIndicator() {
   /** Run actuellement en cours (status = "pending") */
   const pendingRun = runs.find((r) => r.status === "pending");
 
+  /** Run en pause, en attente d'un code de vérification (status = "awaiting_input") */
+  const awaitingRun = runs.find((r) => r.status === "awaiting_input");
+
+  /** Run en attente d'un navigateur libre (status = "queued") */
+  const queuedRun = runs.find((r) => r.status === "queued");
+
+  /** Un run est actif (en cours, en pause ou en file d'attente) */
+  const activeRun = awaitingRun ?? pendingRun ?? queuedRun;
+
   /** Dernier run (quel que soit son statut) */
   const lastRun = runs[0];
 
@@ -131,20 +172,21 @@ export function AgentStatusIndicator() {
    * Condition : dernier run = "success" ET terminé il y a moins de 30s
    */
   const isRecentSuccess =
-    !pendingRun &&
+    !activeRun &&
     lastRun?.status === "success" &&
     Date.now() - new Date(lastRun.updatedAt).getTime() < SUCCESS_DISPLAY_DURATION_MS;
 
   /**
    * Badge rouge si le dernier run terminé est en erreur (sans run en cours)
    */
-  const hasRecentError = !pendingRun && lastRun?.status === "error";
+  const hasRecentError = !activeRun && lastRun?.status === "error";
 
   // ─── Couleur et contenu du bouton header ──────────────────────────────
 
   /** Style de l'icône Bot selon l'état courant */
   const botIconStyle = (() => {
-    if (pendingRun) return { color: "#0057BA" }; // bleu primaire brand
+    if (awaitingRun) return { color: "#F59E0B" }; // amber-500 : action requise
+    if (pendingRun || queuedRun) return { color: "#0057BA" }; // bleu primaire brand
     if (isRecentSuccess) return { color: "#059669" }; // emerald-600
     if (hasRecentError) return { color: "hsl(var(--destructive))" }; // rouge
     return { color: "#9CA3AF" }; // gris inactif
@@ -152,7 +194,9 @@ export function AgentStatusIndicator() {
 
   /** Texte court affiché à côté de l'icône (seulement si agent actif) */
   const statusText = (() => {
+    if (awaitingRun) return "Code requis";
     if (pendingRun) return truncate(pendingRun.label, LABEL_TRUNCATE_LENGTH);
+    if (queuedRun) return "En file d'attente";
     if (isRecentSuccess && lastRun) return getSuccessSummary(lastRun);
     return null;
   })();
@@ -178,8 +222,8 @@ export function AgentStatusIndicator() {
           <Bot
             className={[
               "h-4 w-4 transition-colors",
-              // Pulse uniquement si pending → attire l'attention sans être agressif
-              pendingRun ? "animate-pulse" : "",
+              // Pulse uniquement si actif → attire l'attention sans être agressif
+              activeRun ? "animate-pulse" : "",
             ].join(" ")}
             style={botIconStyle}
           />
@@ -212,6 +256,9 @@ export function AgentStatusIndicator() {
           </p>
         </div>
 
+        {/* Saisie du code de vérification si un run est en pause */}
+        {awaitingRun && <VerificationPrompt run={awaitingRun} />}
+
         {/* Liste des runs */}
         <div className="max-h-[340px] overflow-y-auto">
           {runs.length === 0 ? (
@@ -250,10 +297,17 @@ function RunItem({ run }: { run: AgentRun }) {
       // Tronquer les messages d'erreur longs
       return truncate(run.error, 60);
     }
+    if (run.status === "queued") return "En file d'attente, démarre dès qu'un navigateur se libère";
     if (run.status === "pending") return "En cours…";
+    if (run.status === "awaiting_input") return "En attente de votre code";
     return null;
   })();
 
+  /** Captures d'échec des sites (index = position dans AgentRun.artifacts, utilisée par l'API) */
+  const artifacts = Array.isArray(run.artifacts)
+    ? (run.artifacts as unknown as RunArtifact[])
+    : [];
+
   /** Couleur du texte "detail" selon le statut */
   const detailColor = (() => {
     if (run.status === "success") return "text-emerald-600";
@@ -281,6 +335,25 @@ function RunItem({ run }: { run: AgentRun }) {
             {detail}
           </p>
         )}
+
+        {/* Captures d'échec : page au moment du blocage ou de l'erreur, par site */}
+        {artifacts.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 mt-1 text-xs text-muted-foreground">
+            <Paperclip className="h-3 w-3 shrink-0" />
+            {artifacts.map((artifact, index) => (
+              <a
+                key={artifact.path}
+                href={`/api/agent/runs/${run.id}/artifacts/${index}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={artifact.reason}
+                className="hover:text-foreground hover:underline"
+              >
+                {ARTIFACT_LABELS[artifact.kind]} {artifact.site}
+              </a>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Date relative — alignée à droite */}
@@ -290,3 +363,61 @@ function RunItem({ run }: { run: AgentRun }) {
     </div>
   );
 }
+
+// ─── Sous-composant : saisie du code de vérification ────────────────────────
+
+/**
+ * Rôle : Formulaire de saisie du code demandé par un run en pause (2FA LinkedIn)
+ * Affiche run.prompt, envoie le code à POST /api/agent/runs/[id]/input.
+ * L'agent reprend la même session navigateur au prochain polling (3s).
+ */
+function VerificationPrompt({ run }: { run: AgentRun }) {
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/agent/runs/${run.id}/input`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ input: code.trim() }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Erreur lors de l'envoi du code");
+      toast.success(json.message);
+      setCode("");
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="px-3 py-2.5 border-b bg-amber-50 space-y-2">
+      <p className="text-xs font-medium text-foreground">{run.label}</p>
+      <p className="text-xs text-muted-foreground">
+        {run.prompt ?? "Un code de vérification est requis pour continuer."}
+      </p>
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          // Empêche la navigation clavier du DropdownMenu de capter la saisie
+          onKeyDown={(e) => e.stopPropagation()}
+          placeholder="Code reçu"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" className="h-8" disabled={isSubmitting || !code.trim()}>
+          {isSubmitting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Envoyer"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -15,6 +15,7 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useUiStore } from "@/lib/stores/ui-store";
 import { AgentStatusIndicator } from "@/components/layout/AgentStatusIndicator";
+import { QuotaIndicator } from "@/components/layout/QuotaIndicator";
 
 /**
  * Rôle : En-tête du dashboard — Option B "Brand Cohérence"
@@ -80,6 +81,12 @@ export function Header() {
       {/* Espace flexible — pousse l'indicateur agent et le menu avatar vers la droite */}
       <div className="flex-1" />
 
+      {/*
+       * Quota restant (budget IA du mois, recherches, candidatures) — polling 60s
+       * Source de vérité : GET /api/agent/quota (limites par défaut + surcharges admin)
+       */}
+      <QuotaIndicator />
+
       {/*
        * Indicateur d'état de l'agent IA — persistant à la navigation
        * Polling 2s si pending, 30s sinon (adaptatif via Tanstack Query)
@@ -0,0 +1,148 @@
+"use client";
+
+/**
+ * Rôle : Quota restant de l'utilisateur, affiché dans le header à côté de AgentStatusIndicator
+ * Utilise par : Header
+ *
+ * Bouton : budget IA restant du mois (orange sous 20 %, rouge une fois un quota atteint)
+ * Dropdown : recherches du jour, candidatures générées du mois et budget IA,
+ *   avec barre de progression et date de renouvellement
+ *
+ * Hooks :
+ *   - useQuery : GET /api/agent/quota (clé QUOTA_QUERY_KEY), rafraîchi toutes les 60 s
+ *     et invalidé après chaque lancement de recherche ou de candidature
+ *
+ * Source de vérité : src/lib/agent/usage-quotas.ts (limites par défaut + surcharges admin)
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { UsageQuotaStatus } from "@/lib/agent/usage-quotas";
+
+/** Clé Tanstack Query des quotas (invalidée par les mutations qui lancent un run) */
+export const QUOTA_QUERY_KEY = ["agent", "quota"] as const;
+
+/** Part restante sous laquelle le quota est signalé en orange */
+const LOW_QUOTA_RATIO = 0.2;
+
+/** Formate un montant en dollars (ex: "3,20 $") */
+function formatUsd(value: number): string {
+  return value.toLocaleString("fr-FR", { style: "currency", currency: "USD" });
+}
+
+/** Formate une date de renouvellement (ex: "01/11 à 00:00") */
+function formatResetDate(iso: string): string {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString("fr-FR", { day: "2-digit", month: "2-digit" })} à ${date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export function QuotaIndicator() {
+  const { data: status } = useQuery({
+    queryKey: QUOTA_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/agent/quota");
+      if (!res.ok) throw new Error("Erreur lors du chargement des quotas");
+      const json = await res.json();
+      return json.data as UsageQuotaStatus;
+    },
+    refetchInterval: 60_000,
+  });
+
+  if (!status) return null;
+
+  const { limits, usage } = status;
+  const quotas = [
+    {
+      label: "Recherches aujourd'hui",
+      used: usage.runsToday,
+      limit: limits.runsPerDay,
+      display: `${usage.runsToday} / ${limits.runsPerDay}`,
+      resetsAt: status.dayResetsAt,
+    },
+    {
+      label: "Candidatures générées ce mois",
+      used: usage.generationsThisMonth,
+      limit: limits.generationsPerMonth,
+      display: `${usage.generationsThisMonth} / ${limits.generationsPerMonth}`,
+      resetsAt: status.monthResetsAt,
+    },
+    {
+      label: "Budget IA du mois",
+      used: usage.spentThisMonthUsd,
+      limit: limits.monthlyBudgetUsd,
+      display: `${formatUsd(usage.spentThisMonthUsd)} / ${formatUsd(limits.monthlyBudgetUsd)}`,
+      resetsAt: status.monthResetsAt,
+    },
+  ];
+
+  const remainingBudget = Math.max(limits.monthlyBudgetUsd - usage.spentThisMonthUsd, 0);
+  const isExhausted = quotas.some((q) => q.used >= q.limit);
+  const isLow = quotas.some((q) => q.limit - q.used <= q.limit * LOW_QUOTA_RATIO);
+
+  /** Couleur du bouton : rouge si un quota est atteint, orange s'il est bientôt atteint */
+  const color = isExhausted ? "hsl(var(--destructive))" : isLow ? "#F59E0B" : "#9CA3AF";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-1.5 px-2 h-8 hover:bg-black/5"
+          aria-label="Quotas d'utilisation"
+        >
+          <Gauge className="h-4 w-4" style={{ color }} />
+          <span className="text-xs font-medium tabular-nums" style={{ color }}>
+            {formatUsd(remainingBudget)}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-72 p-0">
+        {/* En-tête du dropdown */}
+        <div className="px-3 py-2 border-b">
+          <p className="text-sm font-semibold text-foreground">Quotas d&apos;utilisation</p>
+          <p className="text-xs text-muted-foreground">
+            Une recherche ou une candidature est refusée une fois un quota atteint
+          </p>
+        </div>
+
+        <div className="space-y-3 px-3 py-3">
+          {quotas.map((quota) => {
+            const ratio = quota.limit > 0 ? Math.min(quota.used / quota.limit, 1) : 1;
+            const barColor =
+              quota.used >= quota.limit
+                ? "bg-destructive"
+                : quota.limit - quota.used <= quota.limit * LOW_QUOTA_RATIO
+                  ? "bg-amber-500"
+                  : "bg-primary";
+
+            return (
+              <div key={quota.label} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-foreground">{quota.label}</span>
+                  <span className="tabular-nums text-muted-foreground">{quota.display}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div
+                    className={`h-1.5 rounded-full ${barColor}`}
+                    style={{ width: `${ratio * 100}%` }}
+                  />
+                </div>
+                <p className="text-[11px] text-muted-foreground/80">
+                  Renouvelé le {formatResetDate(quota.resetsAt)}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -7,10 +7,13 @@ import {
   User,
   Search,
   Briefcase,
+  Building2,
   FileText,
   Settings,
   LogOut,
   Bot,
+  ShieldCheck,
+  Gauge,
 } from "lucide-react";
 import { authClient } from "@/lib/auth-client";
 
@@ -33,10 +36,17 @@ const NAV_ITEMS = [
   { label: "Mon profil",      href: "/profile",      icon: User            },
   { label: "Recherches",      href: "/searches",     icon: Search          },
   { label: "Offres",          href: "/offers",       icon: Briefcase       },
+  { label: "Entreprises",     href: "/companies",    icon: Building2       },
   { label: "Candidatures",    href: "/applications", icon: FileText        },
   { label: "Paramètres",      href: "/settings",     icon: Settings        },
 ] as const;
 
+/** Liens supplémentaires affichés uniquement pour le rôle "admin" */
+const ADMIN_NAV_ITEMS = [
+  { label: "Sélecteurs",      href: "/admin/selectors", icon: ShieldCheck   },
+  { label: "Quotas",          href: "/admin/quotas",    icon: Gauge         },
+] as const;
+
 export function Sidebar() {
   const pathname = usePathname();
   const router   = useRouter();
@@ -44,6 +54,11 @@ export function Sidebar() {
   // Session utilisateur pour la user card en bas
   const { data: session } = authClient.useSession();
 
+  // Liens visibles : navigation commune + administration pour les admins
+  const navItems = session?.user?.role === "admin"
+    ? [...NAV_ITEMS, ...ADMIN_NAV_ITEMS]
+    : NAV_ITEMS;
+
   // Initiales pour l'avatar (ex: "Jean Dupont" → "JD")
   const initials = session?.user?.name
     ?.split(" ")
@@ -119,7 +134,7 @@ export function Sidebar() {
 
       {/* ── Liens de navigation ── */}
       <nav className="flex-1 p-3" style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
-        {NAV_ITEMS.map((item) => {
+        {navItems.map((item) => {
           /*
            * Détection de l'item actif :
            * - exact pour /dashboard (évite de matcher /dashboard/xxx)
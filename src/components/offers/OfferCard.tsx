@@ -10,17 +10,22 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Bookmark, CalendarClock, MapPin, MousePointerClick, Building2 } from "lucide-react";
+import { Bookmark, CalendarClock, CalendarX, MapPin, MousePointerClick, Building2, Layers } from "lucide-react";
 
 /**
  * Role : Carte d'offre d'emploi affichee dans la grille de la page /offers
  * Affiche le titre, l'entreprise, la localisation, les badges (nouveau, source, contrat),
+ * le salaire (avec son equivalent annuel pour un TJM ou un salaire mensuel),
  * une description tronquee, la date relative et les boutons bookmark / detail
+ * Une offre cloturee sur le site source (expiredAt, cf. offer-liveness) est grisee
+ * avec un badge "Expirée le ..." (motif en info-bulle)
  *
  * Props :
  *   - offer : objet Offer complet depuis Prisma
  *   - onToggleBookmark : callback pour basculer le favori (recoit l'id)
  *   - isTogglingBookmark : true pendant la mutation bookmark (desactive le bouton)
+ *   - otherSources : memes postes publies sur d'autres sites (OfferCluster), affiches
+ *     en liens vers chaque source sous la description
  *
  * Exemple :
  *   <OfferCard
@@ -34,6 +39,7 @@ interface OfferCardProps {
   offer: Offer;
   onToggleBookmark: (id: string) => void;
   isTogglingBookmark: boolean;
+  otherSources?: Pick<Offer, "id" | "source" | "url">[];
 }
 
 /**
@@ -63,16 +69,34 @@ function formatSource(source: string): string {
   return map[source] ?? source;
 }
 
+/**
+ * Equivalent annuel d'un salaire non annuel, en milliers
+ * Exemple : offre "500€/jour" -> "≈ 109 k€/an" ; null pour un salaire deja annuel ou illisible
+ */
+function formatAnnualEquivalent(offer: Offer): string | null {
+  if (!offer.salaryPeriod || offer.salaryPeriod === "yearly" || offer.salaryAnnualMax === null) {
+    return null;
+  }
+  const unit = offer.salaryCurrency === "EUR" || !offer.salaryCurrency ? "€" : ` ${offer.salaryCurrency}`;
+  const toK = (amount: number) => Math.round(amount / 1000);
+  const range =
+    offer.salaryAnnualMin !== null && toK(offer.salaryAnnualMin) !== toK(offer.salaryAnnualMax)
+      ? `${toK(offer.salaryAnnualMin)}-${toK(offer.salaryAnnualMax)}`
+      : `${toK(offer.salaryAnnualMax)}`;
+  return `≈ ${range} k${unit}/an`;
+}
+
 export function OfferCard({
   offer,
   onToggleBookmark,
   isTogglingBookmark,
+  otherSources = [],
 }: OfferCardProps) {
   return (
     <Card
       className={`flex flex-col transition-shadow hover:shadow-md ${
         offer.isNew ? "ring-2 ring-primary/30" : ""
-      }`}
+      } ${offer.expiredAt ? "opacity-60 grayscale" : ""}`}
     >
       <CardHeader className="pb-3">
         {/* Titre de l'offre */}
@@ -84,7 +108,14 @@ export function OfferCard({
         <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
           <span className="flex items-center gap-1">
             <Building2 className="h-3.5 w-3.5" />
-            {offer.company}
+            {/* Lien vers la fiche entreprise (offres et candidatures de l'entreprise) */}
+            {offer.companyId ? (
+              <Link href={`/companies/${offer.companyId}`} className="hover:text-primary hover:underline">
+                {offer.company}
+              </Link>
+            ) : (
+              offer.company
+            )}
           </span>
           <span className="flex items-center gap-1">
             <MapPin className="h-3.5 w-3.5" />
@@ -92,8 +123,18 @@ export function OfferCard({
           </span>
         </div>
 
-        {/* Badges : nouveau, origine, source, type de contrat */}
+        {/* Badges : expiree, nouveau, origine, source, type de contrat */}
         <div className="flex flex-wrap gap-1.5 pt-1">
+          {offer.expiredAt && (
+            <Badge
+              variant="outline"
+              className="gap-1 text-xs text-destructive border-destructive/40"
+              title={offer.expiredReason ?? undefined}
+            >
+              <CalendarX className="h-3 w-3" />
+              Expirée le {new Date(offer.expiredAt).toLocaleDateString("fr-FR")}
+            </Badge>
+          )}
           {offer.isNew && (
             <Badge variant="default" className="text-xs">
               Nouveau
@@ -133,7 +174,14 @@ export function OfferCard({
       <CardContent className="flex flex-1 flex-col justify-between gap-3">
         {/* Salaire si present */}
         {offer.salary && (
-          <p className="text-sm font-medium text-primary">{offer.salary}</p>
+          <p className="text-sm font-medium text-primary">
+            {offer.salary}
+            {formatAnnualEquivalent(offer) && (
+              <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                ({formatAnnualEquivalent(offer)})
+              </span>
+            )}
+          </p>
         )}
 
         {/* Description tronquee a 3 lignes */}
@@ -141,6 +189,27 @@ export function OfferCard({
           {offer.description}
         </p>
 
+        {/* Autres sources du meme poste (cluster) : liens directs vers chaque site */}
+        {otherSources.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Layers className="h-3.5 w-3.5" />
+              Aussi sur :
+            </span>
+            {otherSources.map((other) => (
+              <a
+                key={other.id}
+                href={other.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-primary hover:underline"
+              >
+                {formatSource(other.source)}
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Date relative et actions */}
         <div className="flex items-center justify-between pt-2">
           <span className="text-xs text-muted-foreground">
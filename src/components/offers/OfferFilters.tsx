@@ -10,7 +10,14 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Bookmark, CalendarClock, MousePointerClick, SendHorizontal, X } from "lucide-react";
-import { useSearchStore } from "@/lib/stores/search-store";
+import {
+  POSTED_WITHIN_OPTIONS,
+  REMOTE_POLICY_OPTIONS,
+  SENIORITY_OPTIONS,
+  SORT_OPTIONS,
+  useSearchStore,
+  type OfferSort,
+} from "@/lib/stores/search-store";
 
 /**
  * Role : Barre de filtres pour la liste des offres d'emploi
@@ -21,6 +28,10 @@ import { useSearchStore } from "@/lib/stores/search-store";
  *   - Recherche textuelle (titre, entreprise, description)
  *   - Source (LinkedIn, Indeed, WTTJ)
  *   - Type de contrat (CDI, CDD, Freelance, Alternance, Stage)
+ *   - Niveau (Junior, Confirmé, Senior, Lead), teletravail (sur site, hybride, full remote)
+ *   - Date de publication (24 h, 7 jours, 30 jours)
+ *   - Fourchette de salaire annuel en k€ (TJM et salaires mensuels annualises)
+ *   - Tri : plus recentes, salaire decroissant / croissant
  *   - Toggle "Nouvelles uniquement"
  *   - Toggle "Favoris"
  *   - Bouton "Effacer les filtres" (visible si au moins un filtre actif)
@@ -39,6 +50,12 @@ export function OfferFilters() {
   const origin = useSearchStore((s) => s.filters.origin);
   // Masquer les offres postulees (true par defaut) — false = afficher toutes
   const hideApplied = useSearchStore((s) => s.filters.hideApplied);
+  const seniority = useSearchStore((s) => s.filters.seniority);
+  const remotePolicy = useSearchStore((s) => s.filters.remotePolicy);
+  const postedWithinDays = useSearchStore((s) => s.filters.postedWithinDays);
+  const salaryMin = useSearchStore((s) => s.filters.salaryMin);
+  const salaryMax = useSearchStore((s) => s.filters.salaryMax);
+  const sortBy = useSearchStore((s) => s.filters.sortBy);
   const setFilter = useSearchStore((s) => s.actions.setFilter);
   const resetFilters = useSearchStore((s) => s.actions.resetFilters);
 
@@ -51,8 +68,23 @@ export function OfferFilters() {
     onlyNew ||
     onlyBookmarked ||
     origin !== null ||
+    seniority !== null ||
+    remotePolicy !== null ||
+    postedWithinDays !== null ||
+    salaryMin !== null ||
+    salaryMax !== null ||
+    sortBy !== "recent" ||
     !hideApplied;
 
+  /**
+   * Convertit la saisie en k€ en montant annuel (null si vide ou invalide)
+   * Exemple : "45" -> 45000
+   */
+  const parseSalaryInput = (value: string): number | null => {
+    const amount = Number(value);
+    return value.trim() && Number.isFinite(amount) && amount > 0 ? Math.round(amount * 1000) : null;
+  };
+
   return (
     <div className="flex flex-wrap items-center gap-3">
       {/* Recherche textuelle */}
@@ -126,6 +158,95 @@ export function OfferFilters() {
         </SelectContent>
       </Select>
 
+      {/* Filtre par niveau d'experience */}
+      <Select
+        value={seniority ?? "all"}
+        onValueChange={(val) => setFilter("seniority", val === "all" ? null : val)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Niveau" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Tous les niveaux</SelectItem>
+          {SENIORITY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Filtre par modalite de travail */}
+      <Select
+        value={remotePolicy ?? "all"}
+        onValueChange={(val) => setFilter("remotePolicy", val === "all" ? null : val)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Télétravail" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Toutes modalités</SelectItem>
+          {REMOTE_POLICY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Filtre par date de publication sur le site source */}
+      <Select
+        value={postedWithinDays !== null ? String(postedWithinDays) : "all"}
+        onValueChange={(val) => setFilter("postedWithinDays", val === "all" ? null : Number(val))}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Publication" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Toutes les dates</SelectItem>
+          {POSTED_WITHIN_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={String(option.value)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Fourchette de salaire annuel (k€) : equivalent annuel des TJM et salaires mensuels */}
+      <div className="flex items-center gap-1.5">
+        <Input
+          type="number"
+          min={0}
+          placeholder="Salaire min (k€)"
+          value={salaryMin !== null ? salaryMin / 1000 : ""}
+          onChange={(e) => setFilter("salaryMin", parseSalaryInput(e.target.value))}
+          className="w-36"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          min={0}
+          placeholder="max (k€)"
+          value={salaryMax !== null ? salaryMax / 1000 : ""}
+          onChange={(e) => setFilter("salaryMax", parseSalaryInput(e.target.value))}
+          className="w-28"
+        />
+      </div>
+
+      {/* Tri de la liste */}
+      <Select value={sortBy} onValueChange={(val) => setFilter("sortBy", val as OfferSort)}>
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Trier par" />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
       {/* Toggle "Nouvelles uniquement" */}
       <Button
         variant={onlyNew ? "default" : "outline"}
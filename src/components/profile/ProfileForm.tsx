@@ -30,7 +30,8 @@ import type { ParsedProfile } from "@/app/api/cv/parse/route";
  * Gere la saisie et la sauvegarde de toutes les informations du profil :
  * titre, telephone, localisation, resume, competences, experiences, formations
  * Utilise par : page /profile
- * Interactions : API ZenStack (GET/PUT /api/model/profile), Supabase Storage (upload avatar)
+ * Interactions : API ZenStack (GET/PUT /api/model/profile), Supabase Storage (upload avatar),
+ *   /api/profile/linkedin (identifiants LinkedIn chiffres, jamais relus cote client)
  */
 
 // Type du profil tel que retourne par l'API
@@ -45,6 +46,7 @@ interface ProfileData {
   experiences: ExperienceItem[];
   education: EducationItem[];
   certifications: CertificationItem[];
+  // Saisie uniquement : jamais hydrates depuis l'API (champs chiffres et omis des lectures)
   linkedinEmail: string;
   linkedinPassword: string;
 }
@@ -97,6 +99,17 @@ export function ProfileForm() {
     },
   });
 
+  // Statut des identifiants LinkedIn : seul "configure oui/non" est expose par l'API
+  const { data: linkedinStatus } = useQuery({
+    queryKey: ["profile", "linkedin"],
+    queryFn: async () => {
+      const res = await fetch("/api/profile/linkedin");
+      if (!res.ok) throw new Error("Erreur lors du chargement des identifiants LinkedIn");
+      const json = await res.json();
+      return json.data as { configured: boolean };
+    },
+  });
+
   // Remplir le formulaire avec les donnees existantes
   // eslint-disable-next-line react-hooks/rules-of-hooks -- setProfile synchrone necessaire pour hydrater le form depuis le cache
   useEffect(() => {
@@ -118,8 +131,8 @@ export function ProfileForm() {
         certifications: Array.isArray(existingProfile.certifications)
           ? existingProfile.certifications
           : [],
-        linkedinEmail: existingProfile.linkedinEmail || "",
-        linkedinPassword: existingProfile.linkedinPassword || "",
+        linkedinEmail: "",
+        linkedinPassword: "",
       });
     }
   }, [existingProfile]);
@@ -183,8 +196,21 @@ export function ProfileForm() {
         experiences: data.experiences,
         education: data.education,
         certifications: data.certifications,
-        linkedinEmail: data.linkedinEmail || null,
-        linkedinPassword: data.linkedinPassword || null,
+      };
+
+      // Les identifiants LinkedIn passent par une route dediee qui les chiffre :
+      // ils ne sont jamais envoyes a /api/model
+      const saveLinkedinCredentials = async () => {
+        if (!data.linkedinEmail || !data.linkedinPassword) return;
+        const res = await fetch("/api/profile/linkedin", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            email: data.linkedinEmail,
+            password: data.linkedinPassword,
+          }),
+        });
+        if (!res.ok) throw new Error("Erreur lors de l'enregistrement des identifiants LinkedIn");
       };
 
       if (data.id) {
@@ -198,6 +224,7 @@ export function ProfileForm() {
           }),
         });
         if (!res.ok) throw new Error("Erreur lors de la mise a jour");
+        await saveLinkedinCredentials();
         return res.json();
       } else {
         // Creation d'un nouveau profil : connecter l'utilisateur via la relation user
@@ -213,11 +240,14 @@ export function ProfileForm() {
           }),
         });
         if (!res.ok) throw new Error("Erreur lors de la creation");
+        await saveLinkedinCredentials();
         return res.json();
       }
     },
     onSuccess: () => {
       toast.success("Profil sauvegarde avec succes");
+      // Vider les champs LinkedIn : les identifiants enregistres ne sont jamais reaffiches
+      setProfile((prev) => ({ ...prev, linkedinEmail: "", linkedinPassword: "" }));
       queryClient.invalidateQueries({ queryKey: ["profile"] });
       router.refresh();
     },
@@ -226,6 +256,21 @@ export function ProfileForm() {
     },
   });
 
+  // Mutation : suppression des identifiants LinkedIn enregistres
+  const deleteLinkedinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/profile/linkedin", { method: "DELETE" });
+      if (!res.ok) throw new Error("Erreur lors de la suppression des identifiants LinkedIn");
+    },
+    onSuccess: () => {
+      toast.success("Identifiants LinkedIn supprimes");
+      queryClient.invalidateQueries({ queryKey: ["profile", "linkedin"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
   // Mutation : upload de la photo de profil vers Supabase Storage
   // Utilise isPending via le store Zustand (isUploadingAvatar) pour l'indicateur visuel
   // car le Header partage cet etat
@@ -308,6 +353,12 @@ export function ProfileForm() {
       return;
     }
 
+    // Les identifiants LinkedIn s'enregistrent par paire (email + mot de passe)
+    if (Boolean(profile.linkedinEmail) !== Boolean(profile.linkedinPassword)) {
+      toast.error("Renseignez l'email ET le mot de passe LinkedIn");
+      return;
+    }
+
     saveMutation.mutate(profile);
   }
 
@@ -483,9 +534,28 @@ export function ProfileForm() {
         <CardContent className="space-y-4">
           <p className="text-sm text-muted-foreground">
             Vos identifiants LinkedIn sont utilises pour le scraping authentifie
-            des offres d&apos;emploi. Ils sont stockes de maniere securisee et
-            ne sont jamais partages.
+            des offres d&apos;emploi. Ils sont chiffres avant stockage, ne sont
+            jamais reaffiches et ne sont dechiffres que par l&apos;agent de recherche.
           </p>
+          {/* Statut : identifiants deja enregistres ou non */}
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className={linkedinStatus?.configured ? "text-emerald-600" : "text-muted-foreground"}>
+              {linkedinStatus?.configured
+                ? "Identifiants enregistres. Saisissez-en de nouveaux pour les remplacer."
+                : "Aucun identifiant enregistre."}
+            </span>
+            {linkedinStatus?.configured && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => deleteLinkedinMutation.mutate()}
+                disabled={deleteLinkedinMutation.isPending}
+              >
+                Supprimer
+              </Button>
+            )}
+          </div>
           <div className="grid gap-4 sm:grid-cols-2">
             {/* Email LinkedIn */}
             <div className="space-y-2">
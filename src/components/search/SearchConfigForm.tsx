@@ -14,6 +14,7 @@ import {
 import { Save, Loader2, X } from "lucide-react";
 import {
   useSearchConfigStore,
+  AVAILABLE_SITES,
   CONTRACT_TYPES,
 } from "@/lib/stores/search-config-store";
 import { useState } from "react";
@@ -48,6 +49,17 @@ export function SearchConfigForm({ isPending, onSubmit }: SearchConfigFormProps)
 
   const isEditing = !!formData.id;
 
+  // Toggle un site de recherche (au moins un site doit rester selectionne)
+  function toggleSite(site: string) {
+    const current = formData.sites;
+    if (current.includes(site)) {
+      if (current.length === 1) return;
+      updateField("sites", current.filter((s) => s !== site));
+    } else {
+      updateField("sites", [...current, site]);
+    }
+  }
+
   // Toggle un type de contrat
   function toggleContractType(type: string) {
     const current = formData.contractTypes;
@@ -128,7 +140,30 @@ export function SearchConfigForm({ isPending, onSubmit }: SearchConfigFormProps)
             />
           </div>
 
-          {/* Site de recherche : LinkedIn uniquement (force dans le store) */}
+          {/* Sites de recherche (checkboxes) */}
+          <div className="space-y-2">
+            <Label>Sites</Label>
+            <div className="flex flex-wrap gap-2">
+              {AVAILABLE_SITES.map((site) => {
+                const isSelected = formData.sites.includes(site.value);
+                return (
+                  <Badge
+                    key={site.value}
+                    variant={isSelected ? "default" : "outline"}
+                    className="cursor-pointer select-none"
+                    onClick={() => toggleSite(site.value)}
+                  >
+                    {site.label}
+                  </Badge>
+                );
+              })}
+            </div>
+            {formData.sites.includes("linkedin") && (
+              <p className="text-xs text-muted-foreground">
+                LinkedIn necessite vos identifiants dans votre profil.
+              </p>
+            )}
+          </div>
 
           {/* Types de contrat (checkboxes) */}
           <div className="space-y-2">
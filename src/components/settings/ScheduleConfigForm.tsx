@@ -7,6 +7,8 @@
  *   - Choisir quelle SearchConfig lancer automatiquement (Select searchConfig)
  *   - Configurer l'heure de declenchement (Select heure + minute)
  *   - Choisir sa timezone (Select parmi les zones courantes)
+ *   - Activer/desactiver la verification nocturne des offres en ligne (Switch checkOfferLiveness) :
+ *     les offres cloturees sur le site source sont marquees expirees (cf. scheduled-liveness-check)
  *
  * Comportement :
  *   - Au chargement, lit la ScheduleConfig existante de l'utilisateur (si elle existe)
@@ -111,6 +113,9 @@ export function ScheduleConfigForm({
   const [timezone, setTimezone] = useState(
     existingConfig?.timezone ?? "Europe/Paris"
   );
+  const [checkOfferLiveness, setCheckOfferLiveness] = useState(
+    existingConfig?.checkOfferLiveness ?? true
+  );
 
   // "" = aucune selection (searchConfigId null en BDD)
   // Le Select shadcn affiche le placeholder quand value === ""
@@ -147,6 +152,7 @@ export function ScheduleConfigForm({
         hour,
         minute,
         timezone,
+        checkOfferLiveness,
         // Connecter ou laisser null selon la selection
         ...(resolvedId
           ? { searchConfig: { connect: { id: resolvedId } } }
@@ -157,6 +163,7 @@ export function ScheduleConfigForm({
         hour,
         minute,
         timezone,
+        checkOfferLiveness,
         // Connecter ou deconnecter selon la selection
         ...(resolvedId
           ? { searchConfig: { connect: { id: resolvedId } } }
@@ -171,6 +178,7 @@ export function ScheduleConfigForm({
     hour !== (existingConfig?.hour ?? 8) ||
     minute !== (existingConfig?.minute ?? 0) ||
     timezone !== (existingConfig?.timezone ?? "Europe/Paris") ||
+    checkOfferLiveness !== (existingConfig?.checkOfferLiveness ?? true) ||
     selectedSearchConfigId !== (existingConfig?.searchConfigId ?? "");
 
   return (
@@ -334,6 +342,24 @@ export function ScheduleConfigForm({
           </p>
         )}
 
+        {/* Toggle verification des offres en ligne (independant de la recherche automatique) */}
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <Label htmlFor="check-offer-liveness" className="text-base font-medium">
+              Vérifier que mes offres sont toujours en ligne
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Chaque nuit, les offres favorites et récentes sont revisitées : une offre
+              retirée du site est marquée expirée et grisée
+            </p>
+          </div>
+          <Switch
+            id="check-offer-liveness"
+            checked={checkOfferLiveness}
+            onCheckedChange={setCheckOfferLiveness}
+          />
+        </div>
+
         {/* Bouton enregistrer */}
         <Button
           onClick={handleSave}
@@ -0,0 +1,263 @@
+/**
+ * Role : Rapport de consommation IA (tokens et cout) des runs de l'agent
+ * Utilise par : /settings/usage
+ *
+ * Affiche, pour les runs recus (periode choisie par la page) :
+ *   - Totaux : depense, tokens consommes, nombre de runs
+ *   - Depense par jour (barres horizontales, jours sans run inclus)
+ *   - Depense par type de run (recherches, candidatures, analyses de CV)
+ *   - Depense par recherche (runs de scraping rattaches a leur SearchConfig)
+ *
+ * Les cumuls proviennent de AgentRun.costUsd / inputTokens / outputTokens,
+ * alimentes par src/lib/agent/run-usage.ts a chaque appel LLM.
+ */
+
+import { CalendarDays, Layers, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+/** Run tel que charge par la page (champs de consommation uniquement) */
+export interface UsageRun {
+  id: string;
+  type: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  createdAt: Date;
+  searchConfigId: string | null;
+  searchConfig: { name: string } | null;
+}
+
+/** Libelle de chaque type de run */
+const RUN_TYPE_LABELS: Record<string, string> = {
+  scraping: "Recherches",
+  application: "Candidatures",
+  cv_parse: "Analyses de CV",
+};
+
+/** Cumul d'un groupe de runs */
+interface UsageTotals {
+  runs: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Formate un cout en dollars (4 decimales sous 1 centime)
+ * Ex: 0.0031 → "0,0031 $", 1.5 → "1,50 $"
+ */
+function formatUsd(value: number): string {
+  return value.toLocaleString("fr-FR", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 0.01 ? 4 : 2,
+  });
+}
+
+/** Formate un nombre de tokens (ex: 12 345) */
+function formatTokens(value: number): string {
+  return value.toLocaleString("fr-FR");
+}
+
+/** Cle du jour local d'une date (ex: "2026-10-19") */
+function getDayKey(date: Date): string {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+/** Ajoute un run au cumul d'un groupe */
+function addRun(totals: UsageTotals | undefined, run: UsageRun): UsageTotals {
+  return {
+    runs: (totals?.runs ?? 0) + 1,
+    tokens: (totals?.tokens ?? 0) + run.inputTokens + run.outputTokens,
+    costUsd: (totals?.costUsd ?? 0) + run.costUsd,
+  };
+}
+
+interface UsageReportProps {
+  runs: UsageRun[];
+  /** Premier jour de la periode */
+  since: Date;
+  /** Dernier jour de la periode (les jours sans run entre since et until sont affiches) */
+  until: Date;
+}
+
+export function UsageReport({ runs, since, until }: UsageReportProps) {
+  const total = runs.reduce<UsageTotals>((acc, run) => addRun(acc, run), {
+    runs: 0,
+    tokens: 0,
+    costUsd: 0,
+  });
+
+  // Depense par jour : tous les jours de la periode, du plus recent au plus ancien
+  const costByDay = new Map<string, number>();
+  for (const run of runs) {
+    const key = getDayKey(run.createdAt);
+    costByDay.set(key, (costByDay.get(key) ?? 0) + run.costUsd);
+  }
+  const days: { key: string; date: Date; costUsd: number }[] = [];
+  const date = new Date(since);
+  while (getDayKey(date) <= getDayKey(until)) {
+    const key = getDayKey(date);
+    days.unshift({ key, date: new Date(date), costUsd: costByDay.get(key) ?? 0 });
+    date.setDate(date.getDate() + 1);
+  }
+  const maxDayCost = Math.max(...days.map((d) => d.costUsd), 0);
+
+  // Depense par type de run et par recherche
+  const byType = new Map<string, UsageTotals>();
+  const bySearch = new Map<string, UsageTotals & { name: string }>();
+  for (const run of runs) {
+    byType.set(run.type, addRun(byType.get(run.type), run));
+    if (run.type === "scraping") {
+      const key = run.searchConfigId ?? "deleted";
+      const name = run.searchConfig?.name ?? "Recherche supprimée";
+      bySearch.set(key, { ...addRun(bySearch.get(key), run), name });
+    }
+  }
+  const searches = [...bySearch.entries()].sort((a, b) => b[1].costUsd - a[1].costUsd);
+
+  return (
+    <div className="space-y-6">
+      {/* Totaux de la periode */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Dépense</CardDescription>
+            <CardTitle className="text-2xl">{formatUsd(total.costUsd)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tokens consommés</CardDescription>
+            <CardTitle className="text-2xl">{formatTokens(total.tokens)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Exécutions de l&apos;agent</CardDescription>
+            <CardTitle className="text-2xl">{total.runs}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Depense par jour */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CalendarDays className="h-4 w-4" />
+              Par jour
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1.5">
+            {days.map((day) => (
+              <div key={day.key} className="flex items-center gap-3 text-xs">
+                <span className="w-12 shrink-0 text-muted-foreground">
+                  {day.date.toLocaleDateString("fr-FR", { day: "2-digit", month: "2-digit" })}
+                </span>
+                <div className="h-2 flex-1 rounded-full bg-muted">
+                  {day.costUsd > 0 && (
+                    <div
+                      className="h-2 rounded-full bg-primary"
+                      style={{ width: `${Math.max((day.costUsd / maxDayCost) * 100, 2)}%` }}
+                    />
+                  )}
+                </div>
+                <span className="w-20 shrink-0 text-right tabular-nums">
+                  {day.costUsd > 0 ? formatUsd(day.costUsd) : "—"}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {/* Depense par type de run */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Layers className="h-4 w-4" />
+                Par type
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageTable
+                rows={[...byType.entries()].map(([type, totals]) => ({
+                  key: type,
+                  label: RUN_TYPE_LABELS[type] ?? type,
+                  ...totals,
+                }))}
+                emptyMessage="Aucune exécution sur la période."
+              />
+            </CardContent>
+          </Card>
+
+          {/* Depense par recherche */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Search className="h-4 w-4" />
+                Par recherche
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageTable
+                rows={searches.map(([key, totals]) => ({ key, label: totals.name, ...totals }))}
+                emptyMessage="Aucune recherche lancée sur la période."
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Rôle : Tableau de cumuls (libellé, nombre de runs, tokens, dépense)
+ */
+function UsageTable({
+  rows,
+  emptyMessage,
+}: {
+  rows: (UsageTotals & { key: string; label: string })[];
+  emptyMessage: string;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          <TableHead className="text-right">Exécutions</TableHead>
+          <TableHead className="text-right">Tokens</TableHead>
+          <TableHead className="text-right">Dépense</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right tabular-nums">{row.runs}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatTokens(row.tokens)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatUsd(row.costUsd)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,135 @@
+import {
+  buildPageUrl,
+  buildSearchUrl,
+  type SiteConfig,
+} from "../site-configs";
+import {
+  playwrightExtractJobCards,
+  playwrightExtractLinks,
+  playwrightGetJobDescription,
+  playwrightScroll,
+  playwrightSnapshot,
+  type JobCardElements,
+} from "../playwright-tool";
+import type { CanonicalOfferUrl, ExtractedLink, ResultPage, SiteAdapter } from "./types";
+
+/**
+ * Role : Implementation par defaut d'un adaptateur, pilotee par une SiteConfig
+ * Utilise par : linkedin.ts, wttj.ts (et tout nouvel adaptateur)
+ *
+ * Comportement par defaut :
+ *   - buildSearchUrl : searchUrlTemplate avec {query} et {location}
+ *   - buildPageUrl : config.pagination (offset ou numero de page)
+ *   - isBlocked : config.blockIndicators presents dans l'URL
+ *   - extractList : scroll + snapshot + liens via config.selectors.jobLink
+ *     + cartes d'offres (jobLink, jobTitle, company, location)
+ *   - extractDetail : heuristiques de playwrightGetJobDescription
+ *   - canonicalizeUrl : suppression du fragment et des parametres utm_*, sans externalId
+ *
+ * Chaque adaptateur peut surcharger n'importe quelle etape via overrides.
+ *
+ * Exemple :
+ *   export const wttjAdapter = createSiteAdapter(WTTJ_CONFIG);
+ *   export const linkedinAdapter = createSiteAdapter(LINKEDIN_CONFIG, { login: loginToLinkedIn });
+ */
+export function createSiteAdapter(
+  config: SiteConfig,
+  overrides: Partial<Omit<SiteAdapter, "id" | "config">> = {}
+): SiteAdapter {
+  return {
+    id: config.id,
+    config,
+    buildSearchUrl: (criteria) =>
+      buildSearchUrl(config.id, criteria.query, criteria.location),
+    buildPageUrl: (searchUrl, pageIndex) =>
+      buildPageUrl(config, searchUrl, pageIndex),
+    isBlocked: (url) => {
+      const urlLower = url.toLowerCase();
+      return config.blockIndicators.some((ind) => urlLower.includes(ind));
+    },
+    extractList: (sessionName) => extractListWithSelectors(config, sessionName),
+    extractDetail: (sessionName) => playwrightGetJobDescription(sessionName, 8000),
+    canonicalizeUrl: stripTrackingParams,
+    ...overrides,
+  };
+}
+
+/**
+ * Role : Extraire le snapshot, les liens et les cartes d'offres d'une page de resultats
+ * Parametre config : configuration du site (config.selectors)
+ * Parametre sessionName : session Playwright positionnee sur la page de resultats
+ * Retourne : { snapshot, links, cards }
+ *
+ * Le selecteur jobLink peut contenir plusieurs alternatives separees par des virgules :
+ * la premiere qui retourne au moins un lien est retenue.
+ * La lecture des cartes est non bloquante : en cas d'echec, cards = [] et
+ * l'orchestrateur se replie sur l'extraction Claude du snapshot.
+ */
+export async function extractListWithSelectors(
+  config: SiteConfig,
+  sessionName: string
+): Promise<ResultPage> {
+  // Scroller pour charger les resultats (lazy loading)
+  await playwrightScroll(sessionName);
+
+  // Capturer le snapshot d'accessibilite de la page
+  const snapshot = await playwrightSnapshot(sessionName);
+
+  let links: ExtractedLink[] = [];
+  const jobLinkSelector = config.selectors.jobLink;
+
+  if (jobLinkSelector) {
+    const selectors = jobLinkSelector.split(",").map((s) => s.trim());
+
+    for (const selector of selectors) {
+      try {
+        const linksJson = await playwrightExtractLinks(sessionName, selector);
+        const parsed = JSON.parse(linksJson) as ExtractedLink[];
+        if (parsed.length > 0) {
+          links = parsed;
+          break;
+        }
+      } catch {
+        // Selecteur ne fonctionne pas, essayer le suivant
+      }
+    }
+  }
+
+  let cards: JobCardElements[] = [];
+
+  if (jobLinkSelector) {
+    try {
+      cards = await playwrightExtractJobCards(sessionName, {
+        ...config.selectors,
+        jobLink: jobLinkSelector,
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.warn(`[Agent] Lecture des cartes ${config.id} impossible : ${err.message}`);
+    }
+  }
+
+  return { snapshot, links, cards };
+}
+
+/**
+ * Role : Forme canonique par defaut d'une URL d'offre (aucun identifiant reconnu)
+ * Parametre url : URL absolue de l'offre
+ * Retourne : { url sans fragment ni parametres utm_*, externalId: null }
+ *
+ * Exemple :
+ *   stripTrackingParams("https://example.com/jobs/42?utm_source=mail#apply")
+ *   // { url: "https://example.com/jobs/42", externalId: null }
+ */
+export function stripTrackingParams(url: string): CanonicalOfferUrl {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    for (const param of [...parsed.searchParams.keys()]) {
+      if (param.startsWith("utm_")) parsed.searchParams.delete(param);
+    }
+    return { url: parsed.toString(), externalId: null };
+  } catch {
+    return { url, externalId: null };
+  }
+}
@@ -0,0 +1,61 @@
+import { INDEED_CONFIG } from "../site-configs";
+import { playwrightGetJobDescription, playwrightGetText } from "../playwright-tool";
+import { createSiteAdapter, stripTrackingParams } from "./generic";
+import type { CanonicalOfferUrl } from "./types";
+
+/**
+ * Role : Adaptateur Indeed France (scraping public, pas de login)
+ * Utilise par : orchestrator.ts via SITE_ADAPTERS
+ *
+ * Pagination generique (&start=0,10,20). Sont specialisees :
+ *   - l'extraction de la description : Indeed place le texte complet dans
+ *     #jobDescriptionText, les heuristiques generiques servent de repli
+ *   - la forme canonique des URLs : /rc/clk?jk=... et /viewjob?jk=... → /viewjob?jk={id}
+ *
+ * Fixtures hors-ligne : src/lib/agent/fixtures/indeed/ (ouvrables via file://)
+ */
+
+/** Selecteurs de la description complete sur /viewjob, du plus specifique au plus generique */
+const DESCRIPTION_SELECTORS = [
+  "#jobDescriptionText",
+  ".jobsearch-JobComponent-description",
+  '[data-testid="jobsearch-JobComponent-description"]',
+];
+
+/**
+ * Role : Extraire la description d'une page detail Indeed
+ * Parametre sessionName : session Playwright positionnee sur /viewjob?jk={id}
+ * Retourne : texte brut de la description (max 8000 chars)
+ */
+async function extractIndeedDetail(sessionName: string): Promise<string> {
+  const text = await playwrightGetText(sessionName, DESCRIPTION_SELECTORS, 8000);
+  if (text) return text;
+  return playwrightGetJobDescription(sessionName, 8000);
+}
+
+/**
+ * Role : Canonicaliser une URL d'offre Indeed a partir de son identifiant jk
+ * Retourne : { url: "https://fr.indeed.com/viewjob?jk={id}", externalId: "{id}" },
+ *   ou le comportement generique sans parametre jk
+ *
+ * Exemple :
+ *   canonicalizeIndeedUrl("https://fr.indeed.com/rc/clk?jk=a1b2c3d4e5f60718&bb=xyz&from=serp")
+ *   // { url: "https://fr.indeed.com/viewjob?jk=a1b2c3d4e5f60718", externalId: "a1b2c3d4e5f60718" }
+ */
+function canonicalizeIndeedUrl(url: string): CanonicalOfferUrl {
+  try {
+    const jk = new URL(url).searchParams.get("jk");
+    if (jk && /^[0-9a-f]+$/i.test(jk)) {
+      const externalId = jk.toLowerCase();
+      return { url: `${INDEED_CONFIG.baseUrl}/viewjob?jk=${externalId}`, externalId };
+    }
+  } catch {
+    // URL illisible : comportement generique
+  }
+  return stripTrackingParams(url);
+}
+
+export const indeedAdapter = createSiteAdapter(INDEED_CONFIG, {
+  extractDetail: extractIndeedDetail,
+  canonicalizeUrl: canonicalizeIndeedUrl,
+});
@@ -0,0 +1,38 @@
+import { linkedinAdapter } from "./linkedin";
+import { wttjAdapter } from "./wttj";
+import { indeedAdapter } from "./indeed";
+import type { SiteAdapter } from "./types";
+
+/**
+ * Role : Registre des adaptateurs de sites d'emploi
+ * Utilise par : orchestrator.ts pour resoudre chaque entree de criteria.sites
+ *
+ * Exemple :
+ *   const adapter = getSiteAdapter("wttj");
+ *   const url = adapter?.buildSearchUrl(criteria);
+ */
+
+export type {
+  CanonicalOfferUrl,
+  ExtractedLink,
+  LoginResult,
+  ResultPage,
+  SiteAdapter,
+} from "./types";
+export { createSiteAdapter } from "./generic";
+
+/** Map des adaptateurs, indexee par identifiant de site */
+export const SITE_ADAPTERS: Record<string, SiteAdapter> = {
+  linkedin: linkedinAdapter,
+  wttj: wttjAdapter,
+  indeed: indeedAdapter,
+};
+
+/**
+ * Role : Obtenir l'adaptateur d'un site par son identifiant
+ * Parametre siteId : identifiant du site (ex: "linkedin")
+ * Retourne : l'adaptateur ou undefined si le site n'est pas supporte
+ */
+export function getSiteAdapter(siteId: string): SiteAdapter | undefined {
+  return SITE_ADAPTERS[siteId];
+}
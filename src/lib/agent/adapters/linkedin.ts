@@ -0,0 +1,308 @@
+import { buildSearchUrl, LINKEDIN_CONFIG } from "../site-configs";
+import type { SearchCriteria } from "../orchestrator";
+import {
+  playwrightClick,
+  playwrightFill,
+  playwrightGetUrl,
+  playwrightNavigate,
+  playwrightWait,
+} from "../playwright-tool";
+import { getLoginSelectors, measureSelectors, type SelectorHits } from "../selector-health";
+import { createSiteAdapter, stripTrackingParams } from "./generic";
+import type { CanonicalOfferUrl, LoginResult } from "./types";
+
+/**
+ * Role : Adaptateur LinkedIn (scraping authentifie)
+ * Utilise par : orchestrator.ts via SITE_ADAPTERS
+ *
+ * Particularites par rapport a l'adaptateur generique :
+ *   - login prealable avec les identifiants de l'utilisateur (criteria.linkedinEmail/Password)
+ *   - verification d'une session restauree (cookies persistes) pour eviter ce login
+ *   - saisie du code de verification si LinkedIn demande un checkpoint (2FA)
+ *   - traduction de remote / contractTypes en filtres natifs LinkedIn (f_WT, f_JT)
+ *     pour que les pages de resultats soient deja filtrees
+ *   - URLs d'offres ramenees a /jobs/view/{id}/ (sans refId, trackingId, currentJobId...)
+ */
+
+/**
+ * URLs indicatrices du resultat du login LinkedIn.
+ * - /feed : login reussi, l'utilisateur est connecte
+ * - /checkpoint : verification en 2 etapes (2FA) ou challenge de securite
+ * - /login : echec du login (identifiants invalides ou autre erreur)
+ */
+const LOGIN_SUCCESS_INDICATORS = ["/feed", "/mynetwork", "/jobs"];
+const LOGIN_CHALLENGE_INDICATORS = ["/checkpoint", "/challenge"];
+const LOGIN_FAILURE_INDICATORS = ["/login", "/uas/login"];
+
+/**
+ * Role : Se connecter a LinkedIn via Playwright
+ * Parametre sessionName : identifiant de la session Playwright
+ * Parametre criteria : criteres de recherche (linkedinEmail, linkedinPassword)
+ * Retourne : { success: boolean, error?: string, selectorHits? }
+ *
+ * Flow :
+ *   1. goto("https://www.linkedin.com/login") + releve des loginSelectors
+ *   2. fill("#username", email)
+ *   3. fill("#password", password)
+ *   4. click('button[type="submit"]')
+ *   5. waitForTimeout(3000)
+ *   6. getUrl() → verifier la redirection
+ *
+ * Exemple :
+ *   const result = await loginToLinkedIn("session1", criteria);
+ *   if (result.success) { /* connecte * / }
+ */
+async function loginToLinkedIn(
+  sessionName: string,
+  criteria: SearchCriteria
+): Promise<LoginResult> {
+  const { loginSelectors, loginUrl } = LINKEDIN_CONFIG;
+  const { linkedinEmail: email, linkedinPassword: password } = criteria;
+
+  if (!email || !password) {
+    return {
+      success: false,
+      error: "Identifiants LinkedIn manquants. Renseignez votre email et mot de passe LinkedIn dans votre profil.",
+    };
+  }
+
+  // Releve des selecteurs de la page de login, joint a chaque resultat (succes ou echec)
+  let selectorHits: SelectorHits | undefined;
+
+  try {
+    // 1. Naviguer vers la page de connexion LinkedIn
+    console.log("[Agent] Navigation vers la page de connexion LinkedIn...");
+    await playwrightNavigate(sessionName, loginUrl);
+    selectorHits = await measureSelectors(sessionName, getLoginSelectors(LINKEDIN_CONFIG));
+
+    // 2. Remplir le champ email
+    console.log("[Agent] Saisie de l'email LinkedIn...");
+    await playwrightFill(sessionName, loginSelectors.emailInput, email);
+
+    // 3. Remplir le champ mot de passe
+    console.log("[Agent] Saisie du mot de passe LinkedIn...");
+    await playwrightFill(sessionName, loginSelectors.passwordInput, password);
+
+    // 4. Cliquer sur le bouton de connexion
+    console.log("[Agent] Clic sur le bouton de connexion...");
+    await playwrightClick(sessionName, loginSelectors.submitButton);
+
+    // 5. Attendre la redirection apres soumission du formulaire
+    await playwrightWait(sessionName, 3000);
+
+    // 6. Verifier l'URL actuelle pour determiner le resultat du login
+    const currentUrl = await playwrightGetUrl(sessionName);
+    const urlPath = new URL(currentUrl).pathname.toLowerCase();
+    console.log(`[Agent] URL apres login : ${currentUrl}`);
+
+    // Verifier si le login a reussi (redirection vers /feed, /mynetwork ou /jobs)
+    if (LOGIN_SUCCESS_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
+      console.log("[Agent] Login LinkedIn reussi !");
+      return { success: true, selectorHits };
+    }
+
+    // Verifier si LinkedIn demande une verification 2FA ou challenge
+    // challenge: true → l'orchestrateur peut demander le code a l'utilisateur
+    if (LOGIN_CHALLENGE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
+      console.warn("[Agent] LinkedIn demande une verification en 2 etapes (2FA/CAPTCHA)");
+      return {
+        success: false,
+        challenge: true,
+        selectorHits,
+        error: "LinkedIn demande une verification en 2 etapes. Connectez-vous manuellement a LinkedIn dans un navigateur pour valider votre appareil, puis relancez la recherche.",
+      };
+    }
+
+    // Si on est encore sur /login, les identifiants sont probablement invalides
+    if (LOGIN_FAILURE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
+      console.warn("[Agent] Echec du login LinkedIn (identifiants invalides ?)");
+      return {
+        success: false,
+        selectorHits,
+        error: "Identifiants LinkedIn invalides. Verifiez votre email et mot de passe dans votre profil.",
+      };
+    }
+
+    // URL inattendue : on considere quand meme comme un succes si on n'est plus sur /login
+    console.log(`[Agent] URL post-login inattendue : ${urlPath}, tentative de continuer...`);
+    return { success: true, selectorHits };
+  } catch (error) {
+    const err = error as Error;
+    console.error("[Agent] Erreur lors du login LinkedIn :", err.message);
+    return {
+      success: false,
+      selectorHits,
+      error: `Erreur lors de la connexion a LinkedIn : ${err.message}`,
+    };
+  }
+}
+
+/**
+ * Role : Saisir le code de verification LinkedIn sur la page /checkpoint
+ * Parametre sessionName : session restee ouverte apres un login { challenge: true }
+ * Parametre code : code recu par email ou SMS, saisi par l'utilisateur
+ * Retourne : { success: true } si LinkedIn redirige hors du checkpoint,
+ *   { success: false, challenge: true } si le code est refuse (nouvel essai possible)
+ *
+ * Exemple :
+ *   const result = await submitLinkedInVerificationCode("session1", "482913");
+ */
+async function submitLinkedInVerificationCode(
+  sessionName: string,
+  code: string
+): Promise<LoginResult> {
+  const { verificationCodeInput, verificationSubmitButton } = LINKEDIN_CONFIG.loginSelectors;
+
+  if (!verificationCodeInput || !verificationSubmitButton) {
+    return { success: false, error: "Saisie du code de verification LinkedIn non supportee" };
+  }
+
+  try {
+    console.log("[Agent] Saisie du code de verification LinkedIn...");
+    await playwrightFill(sessionName, verificationCodeInput, code.trim());
+    await playwrightClick(sessionName, verificationSubmitButton);
+    await playwrightWait(sessionName, 3000);
+
+    const currentUrl = await playwrightGetUrl(sessionName);
+    const urlPath = new URL(currentUrl).pathname.toLowerCase();
+    console.log(`[Agent] URL apres verification : ${currentUrl}`);
+
+    if (LOGIN_CHALLENGE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
+      return {
+        success: false,
+        challenge: true,
+        error: "Code de verification LinkedIn refuse.",
+      };
+    }
+
+    if (LOGIN_FAILURE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
+      return {
+        success: false,
+        error: "LinkedIn a rejete la verification. Reconnectez-vous manuellement puis relancez la recherche.",
+      };
+    }
+
+    console.log("[Agent] Verification LinkedIn reussie !");
+    return { success: true };
+  } catch (error) {
+    const err = error as Error;
+    console.error("[Agent] Erreur lors de la verification LinkedIn :", err.message);
+    return {
+      success: false,
+      error: `Erreur lors de la verification LinkedIn : ${err.message}`,
+    };
+  }
+}
+
+/**
+ * Role : Verifier qu'une session LinkedIn restauree est toujours connectee
+ * Parametre sessionName : session lancee avec un storageState persiste
+ * Retourne : true si /feed est accessible sans redirection vers /login ou /checkpoint
+ *
+ * Une session expiree redirige vers /login (ou /authwall) : le login par
+ * identifiants prend alors le relais.
+ */
+async function isLinkedInSessionValid(sessionName: string): Promise<boolean> {
+  try {
+    await playwrightNavigate(sessionName, "https://www.linkedin.com/feed/");
+    const urlPath = new URL(await playwrightGetUrl(sessionName)).pathname.toLowerCase();
+    return LOGIN_SUCCESS_INDICATORS.some((ind) => urlPath.startsWith(ind));
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Verification de session LinkedIn impossible : ${err.message}`);
+    return false;
+  }
+}
+
+/**
+ * Correspondance types de contrat (CONTRACT_TYPES) → facette LinkedIn f_JT.
+ * F = temps plein, T = temporaire, C = contrat/independant, I = stage.
+ * LinkedIn n'a pas de type "alternance" : les offres sont publiees en stage.
+ */
+const LINKEDIN_JOB_TYPES: Record<string, string> = {
+  CDI: "F",
+  CDD: "T",
+  freelance: "C",
+  stage: "I",
+  alternance: "I",
+};
+
+/** Facette f_WT (mode de travail) : 1 = sur site, 2 = teletravail, 3 = hybride */
+const LINKEDIN_REMOTE_WORK_TYPE = "2";
+
+/**
+ * Role : Construire l'URL de recherche LinkedIn avec les filtres natifs
+ * Parametre criteria : criteres de recherche (query, location, remote, contractTypes)
+ * Retourne : URL de recherche avec f_WT / f_JT si applicables
+ *
+ * salaryMin n'est pas traduit en facette f_SB2 : elle ne garde que les offres affichant
+ * un salaire (rares en France) et ses paliers sont en dollars. Le minimum est applique
+ * apres extraction par offer-filters.ts, qui conserve les offres sans salaire.
+ *
+ * Exemple :
+ *   buildLinkedInSearchUrl({ query: "React", location: "Paris", remote: true,
+ *     contractTypes: ["CDI", "freelance"], salaryMin: 65000, ... });
+ *   // => ".../jobs/search/?keywords=React&location=Paris&f_WT=2&f_JT=F%2CC"
+ */
+function buildLinkedInSearchUrl(criteria: SearchCriteria): string {
+  const url = new URL(
+    buildSearchUrl(LINKEDIN_CONFIG.id, criteria.query, criteria.location)
+  );
+
+  if (criteria.remote) {
+    url.searchParams.set("f_WT", LINKEDIN_REMOTE_WORK_TYPE);
+  }
+
+  // Dedoublonner : alternance et stage partagent la meme facette
+  const jobTypes = [
+    ...new Set(
+      criteria.contractTypes
+        .map((type) => LINKEDIN_JOB_TYPES[type])
+        .filter((code): code is string => Boolean(code))
+    ),
+  ];
+  if (jobTypes.length > 0) {
+    url.searchParams.set("f_JT", jobTypes.join(","));
+  }
+
+  return url.toString();
+}
+
+/** Identifiant d'offre dans le chemin : /jobs/view/3987654321/ ou /jobs/view/dev-react-at-alan-3987654321 */
+const LINKEDIN_JOB_PATH = /\/jobs\/view\/(?:[^/]*-)?(\d+)/;
+
+/**
+ * Role : Canonicaliser une URL d'offre LinkedIn
+ * Retourne : { url: "https://www.linkedin.com/jobs/view/{id}/", externalId: "{id}" },
+ *   ou le comportement generique si aucun identifiant d'offre n'est reconnu
+ *
+ * L'identifiant est lu dans le chemin (/jobs/view/{id}), a defaut dans currentJobId
+ * (liens /jobs/search/?currentJobId={id} du panneau de resultats).
+ *
+ * Exemple :
+ *   canonicalizeLinkedInUrl("https://www.linkedin.com/jobs/view/3987654321/?refId=abc&trackingId=xyz")
+ *   // { url: "https://www.linkedin.com/jobs/view/3987654321/", externalId: "3987654321" }
+ */
+function canonicalizeLinkedInUrl(url: string): CanonicalOfferUrl {
+  try {
+    const parsed = new URL(url);
+    const id =
+      parsed.pathname.match(LINKEDIN_JOB_PATH)?.[1] ??
+      parsed.searchParams.get("currentJobId")?.match(/^\d+$/)?.[0];
+    if (id) {
+      return { url: `${LINKEDIN_CONFIG.baseUrl}/jobs/view/${id}/`, externalId: id };
+    }
+  } catch {
+    // URL illisible : comportement generique
+  }
+  return stripTrackingParams(url);
+}
+
+/** Adaptateur LinkedIn : login + 2FA + session persistee + filtres natifs, le reste pilote par LINKEDIN_CONFIG */
+export const linkedinAdapter = createSiteAdapter(LINKEDIN_CONFIG, {
+  login: loginToLinkedIn,
+  isSessionValid: isLinkedInSessionValid,
+  submitVerificationCode: submitLinkedInVerificationCode,
+  buildSearchUrl: buildLinkedInSearchUrl,
+  canonicalizeUrl: canonicalizeLinkedInUrl,
+});
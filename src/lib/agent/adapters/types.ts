@@ -0,0 +1,102 @@
+import type { SearchCriteria } from "../orchestrator";
+import type { SiteConfig } from "../site-configs";
+import type { SelectorHits } from "../selector-health";
+import type { JobCardElements } from "../playwright-tool";
+
+/**
+ * Role : Contrat commun des adaptateurs de sites d'emploi
+ * Utilise par : orchestrator.ts qui itere sur les adaptateurs de criteria.sites
+ *
+ * Un adaptateur encapsule tout ce qui est specifique a un site :
+ *   - login optionnel (LinkedIn) et verification d'une session restauree
+ *   - construction de l'URL de recherche et strategie de pagination
+ *   - detection de blocage (captcha, challenge)
+ *   - extraction de la liste de resultats (snapshot + liens + cartes d'offres)
+ *   - extraction de la description sur une page detail
+ *   - forme canonique des URLs d'offres (identifiant de l'offre sur le site)
+ *
+ * Ajouter un nouveau site = ajouter une SiteConfig + un adaptateur dans SITE_ADAPTERS,
+ * sans toucher a l'orchestrateur.
+ */
+
+/** Resultat d'une tentative de connexion a un site */
+export interface LoginResult {
+  /** true si la session est authentifiee */
+  success: boolean;
+  /** Message d'erreur lisible par l'utilisateur si success = false */
+  error?: string;
+  /**
+   * true si le site demande une verification (2FA, checkpoint) : la session
+   * reste ouverte et peut etre reprise via submitVerificationCode
+   */
+  challenge?: boolean;
+  /**
+   * Releve des loginSelectors sur la page de connexion (cf. selector-health.ts),
+   * present meme en cas d'echec : un champ introuvable explique souvent l'echec
+   */
+  selectorHits?: SelectorHits;
+}
+
+/** Lien d'offre extrait d'une page de resultats */
+export interface ExtractedLink {
+  /** Texte du lien (generalement le titre de l'offre) */
+  text: string;
+  /** Attribut href (relatif ou absolu) */
+  href: string;
+}
+
+/** URL d'offre canonique et identifiant de l'offre sur le site source */
+export interface CanonicalOfferUrl {
+  /** URL sans parametres de tracking (ex: "https://www.linkedin.com/jobs/view/3987654321/") */
+  url: string;
+  /** Identifiant stable de l'offre sur le site (ex: "3987654321"), null si non reconnu */
+  externalId: string | null;
+}
+
+/** Contenu extrait d'une page de resultats */
+export interface ResultPage {
+  /** Snapshot d'accessibilite de la page (pour l'extraction Claude) */
+  snapshot: string;
+  /** Liens d'offres trouves via les selecteurs du site */
+  links: ExtractedLink[];
+  /** Cartes d'offres lues dans le DOM (extraction deterministe, cf. card-extractor.ts) */
+  cards: JobCardElements[];
+}
+
+/** Interface d'un adaptateur de site d'emploi */
+export interface SiteAdapter {
+  /** Identifiant du site (valeur de SearchConfig.sites et Offer.source) */
+  id: string;
+  /** Configuration statique du site (selecteurs, URLs, pagination) */
+  config: SiteConfig;
+  /**
+   * Connexion au site avant la recherche (absent = site public)
+   * Ne leve pas d'erreur : retourne { success: false, error } en cas d'echec
+   */
+  login?: (sessionName: string, criteria: SearchCriteria) => Promise<LoginResult>;
+  /**
+   * Verifier qu'une session restauree (storageState) est encore authentifiee
+   * Utilise avant login : si true, le login par identifiants est saute
+   */
+  isSessionValid?: (sessionName: string) => Promise<boolean>;
+  /**
+   * Saisir le code de verification demande apres un login { challenge: true }
+   * Appele sur la meme session Playwright, toujours positionnee sur la page de verification
+   */
+  submitVerificationCode?: (sessionName: string, code: string) => Promise<LoginResult>;
+  /** Construire l'URL de la premiere page de resultats */
+  buildSearchUrl: (criteria: SearchCriteria) => string;
+  /** Construire l'URL d'une page de resultats (pageIndex a partir de 0) */
+  buildPageUrl: (searchUrl: string, pageIndex: number) => string;
+  /** true si l'URL courante correspond a une page de blocage */
+  isBlocked: (url: string) => boolean;
+  /** Extraire le snapshot, les liens et les cartes de la page de resultats courante */
+  extractList: (sessionName: string) => Promise<ResultPage>;
+  /** Extraire la description brute de la page detail courante */
+  extractDetail: (sessionName: string) => Promise<string>;
+  /**
+   * Ramener une URL d'offre absolue a sa forme canonique : une meme offre vue via
+   * plusieurs recherches (tracking, pagination) donne la meme URL et le meme externalId
+   */
+  canonicalizeUrl: (url: string) => CanonicalOfferUrl;
+}
@@ -0,0 +1,41 @@
+import { WTTJ_CONFIG } from "../site-configs";
+import { createSiteAdapter, stripTrackingParams } from "./generic";
+import type { CanonicalOfferUrl } from "./types";
+
+/**
+ * Role : Adaptateur Welcome to the Jungle (scraping public, pas de login)
+ * Utilise par : orchestrator.ts via SITE_ADAPTERS
+ *
+ * Le comportement generique suffit : pagination &page=N, extraction des liens
+ * /fr/companies/{entreprise}/jobs/{slug}, description via heuristiques DOM.
+ * Seule la forme canonique des URLs est specialisee (identifiant {entreprise}/{slug}).
+ */
+
+/** Chemin d'une offre : /{langue}/companies/{entreprise}/jobs/{slug} */
+const WTTJ_OFFER_PATH = /^\/[a-z]{2}\/companies\/([^/]+)\/jobs\/([^/]+)/;
+
+/**
+ * Role : Canonicaliser une URL d'offre WTTJ (sans query ni fragment)
+ * Retourne : externalId "{entreprise}/{slug}", ou le comportement generique si le chemin est inattendu
+ *
+ * Exemple :
+ *   canonicalizeWttjUrl("https://www.welcometothejungle.com/fr/companies/payfit/jobs/dev-react_paris?q=React&o=123")
+ *   // { url: "https://www.welcometothejungle.com/fr/companies/payfit/jobs/dev-react_paris",
+ *   //   externalId: "payfit/dev-react_paris" }
+ */
+function canonicalizeWttjUrl(url: string): CanonicalOfferUrl {
+  try {
+    const match = new URL(url).pathname.match(WTTJ_OFFER_PATH);
+    if (match) {
+      const [path, company, slug] = match;
+      return { url: `${WTTJ_CONFIG.baseUrl}${path}`, externalId: `${company}/${slug}` };
+    }
+  } catch {
+    // URL illisible : comportement generique
+  }
+  return stripTrackingParams(url);
+}
+
+export const wttjAdapter = createSiteAdapter(WTTJ_CONFIG, {
+  canonicalizeUrl: canonicalizeWttjUrl,
+});
@@ -0,0 +1,296 @@
+import { type Browser, type BrowserContext, type BrowserContextOptions, chromium } from "playwright";
+
+/**
+ * Role : Pool de navigateur partage entre les recherches (un seul Chromium, un context par run)
+ * Utilise par : playwright-tool.ts (creation des contexts), orchestrator.ts (slot par run)
+ *
+ * Probleme resolu : chaque recherche lancait son propre Chromium (~150-250 Mo). Sur le plan
+ * Render starter (512 Mo, cf. render.yaml), deux utilisateurs simultanes suffisaient a
+ * faire tomber le service.
+ *
+ * Strategie :
+ *   - Un seul processus Chromium, lance a la premiere demande et ferme apres
+ *     BROWSER_IDLE_CLOSE_MS sans context ouvert (memoire rendue entre deux recherches)
+ *   - Chaque session Playwright obtient son propre BrowserContext : cookies, localStorage
+ *     et cache restent isoles d'un utilisateur a l'autre
+ *   - Un run de recherche reserve un slot (acquireBrowserSlot) pour toute sa duree ; il
+ *     n'ouvre qu'un context a la fois (sites scrapes l'un apres l'autre), le nombre de
+ *     slots borne donc le nombre de contexts simultanes (BROWSER_MAX_CONTEXTS)
+ *   - Les runs en surnombre attendent en file (FIFO) ; onQueueChange permet d'afficher
+ *     le run "en file d'attente" dans le header
+ *
+ * Exemple :
+ *   const slot = await acquireBrowserSlot("search-user-123", {
+ *     onQueueChange: (position) => console.log(position ? `file : ${position}` : "demarrage"),
+ *   });
+ *   try {
+ *     const context = await openPooledContext({ locale: "fr-FR" });
+ *     // ...
+ *   } finally {
+ *     slot.release();
+ *   }
+ */
+
+/** Nombre de contexts simultanes par defaut (surcharge : BROWSER_MAX_CONTEXTS) */
+const DEFAULT_MAX_CONTEXTS = 2;
+
+/** Attente maximale d'un slot avant abandon du run */
+const QUEUE_TIMEOUT_MS = 10 * 60_000;
+
+/** Delai sans context ouvert avant fermeture du navigateur partage */
+const BROWSER_IDLE_CLOSE_MS = 60_000;
+
+/** Reservation d'un slot de navigateur par un run */
+export interface BrowserSlot {
+  /** Liberer le slot (idempotent) : le prochain run en file demarre */
+  release: () => void;
+}
+
+/** Options de reservation d'un slot */
+export interface AcquireBrowserSlotOptions {
+  /**
+   * Appele a la mise en file (position 1 = prochain run a demarrer), puis avec null
+   * quand le slot est obtenu. Non appele si un slot est libre immediatement.
+   * Un echec du callback est journalise sans bloquer le run.
+   */
+  onQueueChange?: (position: number | null) => Promise<void> | void;
+}
+
+/** Run en attente d'un slot */
+interface QueuedRun {
+  label: string;
+  start: () => void;
+}
+
+/** Navigateur partage (null tant qu'aucun context n'a ete demande, ou apres fermeture) */
+let browser: Browser | null = null;
+
+/** Lancement en cours : evite deux Chromium si deux contexts sont demandes en meme temps */
+let launching: Promise<Browser> | null = null;
+
+/** Nombre de contexts ouverts sur le navigateur partage */
+let openContexts = 0;
+
+/** Timer de fermeture du navigateur inactif */
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Nombre de slots reserves */
+let activeSlots = 0;
+
+/** Runs en attente d'un slot, dans l'ordre d'arrivee */
+const queue: QueuedRun[] = [];
+
+/**
+ * Role : Nombre maximum de contexts de scraping simultanes
+ * Retourne : BROWSER_MAX_CONTEXTS si c'est un entier positif, sinon DEFAULT_MAX_CONTEXTS
+ */
+export function getMaxConcurrentContexts(): number {
+  const value = Number(process.env.BROWSER_MAX_CONTEXTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_CONTEXTS;
+}
+
+/**
+ * Role : Reserver un slot de navigateur pour un run, en attendant en file si besoin
+ * Parametre label : nom du run (journalisation)
+ * Parametre options : notification de mise en file / demarrage
+ * Retourne : slot a liberer en fin de run (bloc finally)
+ * Leve une erreur si aucun slot ne s'est libere en QUEUE_TIMEOUT_MS
+ */
+export async function acquireBrowserSlot(
+  label: string,
+  options: AcquireBrowserSlotOptions = {}
+): Promise<BrowserSlot> {
+  const maxContexts = getMaxConcurrentContexts();
+
+  if (activeSlots < maxContexts && queue.length === 0) {
+    activeSlots++;
+    return createSlot(label);
+  }
+
+  // Mise en file immediate (avant toute attente) : la position reste exacte
+  // meme si plusieurs runs arrivent pendant la notification
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const started = new Promise<void>((resolve, reject) => {
+    const entry: QueuedRun = {
+      label,
+      start: () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+    };
+
+    timeout = setTimeout(() => {
+      const index = queue.indexOf(entry);
+      if (index !== -1) queue.splice(index, 1);
+      reject(
+        new Error(
+          `Trop de recherches en cours : aucun navigateur disponible apres ${QUEUE_TIMEOUT_MS / 60_000} min ` +
+          `d'attente. Relancez la recherche plus tard.`
+        )
+      );
+    }, QUEUE_TIMEOUT_MS);
+
+    queue.push(entry);
+  });
+
+  const position = queue.length;
+  console.log(
+    `[Agent] ${label} en file d'attente (position ${position}, ${activeSlots}/${maxContexts} navigateurs occupes)`
+  );
+  await notifyQueueChange(label, options, position);
+  await started;
+
+  console.log(`[Agent] ${label} sort de la file d'attente`);
+  await notifyQueueChange(label, options, null);
+  return createSlot(label);
+}
+
+/**
+ * Role : Creer le slot d'un run ; a la liberation, le slot passe directement au
+ * premier run en file (activeSlots inchange) ou est rendu
+ */
+function createSlot(label: string): BrowserSlot {
+  let released = false;
+
+  return {
+    release: () => {
+      if (released) return;
+      released = true;
+
+      const next = queue.shift();
+      if (next) {
+        console.log(`[Agent] Slot de ${label} transmis a ${next.label}`);
+        next.start();
+      } else {
+        activeSlots--;
+      }
+    },
+  };
+}
+
+/**
+ * Role : Appeler onQueueChange sans laisser un echec (ex: BDD) interrompre le run
+ */
+async function notifyQueueChange(
+  label: string,
+  options: AcquireBrowserSlotOptions,
+  position: number | null
+): Promise<void> {
+  if (!options.onQueueChange) return;
+  try {
+    await options.onQueueChange(position);
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Notification de file d'attente impossible pour ${label} : ${err.message}`);
+  }
+}
+
+/**
+ * Role : Obtenir le navigateur partage, en le lancant si necessaire
+ * Retourne : instance Chromium connectee
+ *
+ * Chromium est lance en mode headless, detection d'automatisation desactivee.
+ * Un navigateur deconnecte (crash, OOM) est oublie : le suivant est relance a la demande.
+ */
+async function getSharedBrowser(): Promise<Browser> {
+  if (browser?.isConnected()) return browser;
+
+  if (!launching) {
+    launching = chromium
+      .launch({
+        headless: true,
+        args: [
+          "--no-sandbox",
+          "--disable-setuid-sandbox",
+          "--disable-blink-features=AutomationControlled",
+        ],
+      })
+      .then((launched) => {
+        launched.on("disconnected", () => {
+          if (browser === launched) {
+            console.warn("[Agent] Navigateur partage deconnecte");
+            browser = null;
+            openContexts = 0;
+          }
+        });
+        browser = launched;
+        console.log("[Agent] Navigateur partage lance");
+        return launched;
+      })
+      .finally(() => {
+        launching = null;
+      });
+  }
+
+  return launching;
+}
+
+/**
+ * Role : Ouvrir un context isole sur le navigateur partage
+ * Parametre options : options du context (user-agent, viewport, storageState...)
+ * Retourne : context a fermer par context.close() (le navigateur reste ouvert)
+ *
+ * La fermeture du dernier context programme celle du navigateur apres BROWSER_IDLE_CLOSE_MS.
+ */
+export async function openPooledContext(options: BrowserContextOptions): Promise<BrowserContext> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+
+  const shared = await getSharedBrowser();
+  const context = await shared.newContext(options);
+  openContexts++;
+
+  context.on("close", () => {
+    if (browser !== shared) return;
+    openContexts = Math.max(0, openContexts - 1);
+    if (openContexts === 0) scheduleIdleClose(shared);
+  });
+
+  return context;
+}
+
+/**
+ * Role : Fermer le navigateur partage s'il reste sans context pendant BROWSER_IDLE_CLOSE_MS
+ */
+function scheduleIdleClose(shared: Browser): void {
+  if (idleTimer) clearTimeout(idleTimer);
+
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    if (browser !== shared || openContexts > 0) return;
+    browser = null;
+    console.log("[Agent] Navigateur partage inactif, fermeture");
+    shared.close().catch(() => {
+      // Navigateur peut-etre deja ferme, ignorer
+    });
+  }, BROWSER_IDLE_CLOSE_MS);
+
+  // Ne pas retenir le processus (scripts CLI) pour ce seul timer
+  idleTimer.unref();
+}
+
+/**
+ * Role : Fermer immediatement le navigateur partage (fin d'un script CLI)
+ * Un serveur garde le navigateur ouvert entre les runs : inutile d'appeler cette fonction.
+ *
+ * Exemple :
+ *   main().finally(() => closeSharedBrowser());
+ */
+export async function closeSharedBrowser(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+
+  const shared = browser;
+  browser = null;
+  openContexts = 0;
+
+  try {
+    await shared?.close();
+  } catch {
+    // Navigateur peut-etre deja ferme, ignorer
+  }
+}
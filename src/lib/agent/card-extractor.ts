@@ -0,0 +1,119 @@
+import type { SearchCriteria } from "./orchestrator";
+import type { ScrapedOffer } from "./tools";
+import type { SiteConfig } from "./site-configs";
+import type { JobCardElements } from "./playwright-tool";
+import { normalizeContractType, parseAnnualSalaryCeiling } from "./offer-filters";
+import { parseCardAttributes } from "./offer-attributes";
+
+/**
+ * Role : Extraction deterministe des offres a partir des cartes lues dans le DOM
+ * Utilise par : orchestrator.ts (avant tout appel Claude sur le snapshot)
+ *
+ * Les cartes sont lues par playwrightExtractJobCards via les selecteurs du site
+ * (jobLink, jobTitle, company, location). Les champs sans selecteur dedie sont
+ * reconnus dans les lignes de texte de la carte :
+ *   - salaire : ligne courte contenant un montant en euros ou en "k" ("55 000 € - 65 000 € par an")
+ *   - contrat : ligne courte reconnue par normalizeContractType ("Temps plein · CDI")
+ *   - description : lignes restantes (extraits, modalites), remplacee ensuite par la page detail
+ *   - attributs : date de publication, nombre de candidats, teletravail (cf. parseCardAttributes)
+ *
+ * Aucune offre n'est inventee : une carte sans lien ou sans titre est ignoree.
+ * Si aucune carte n'est exploitable, l'orchestrateur se replie sur l'extraction Claude.
+ *
+ * Exemple :
+ *   const offers = buildOffersFromCards(INDEED_CONFIG, cards, criteria);
+ *   // [{ title: "Développeur React Senior H/F", company: "Qonto", salary: "55 000 € - 65 000 € par an", ... }]
+ */
+
+/** Longueur maximale d'une ligne de salaire ou de contrat (au-dela : phrase d'extrait) */
+const MAX_ATTRIBUTE_LINE_LENGTH = 60;
+
+/** Longueur maximale de la description courte issue de la carte */
+const MAX_CARD_DESCRIPTION_LENGTH = 200;
+
+/** Montant en euros ou en milliers : "45 000 €", "500 € par jour", "50K à 60K", "45-55k€" */
+const SALARY_LINE_PATTERN = /\d\s*(k\b|k€|€|eur\b)/i;
+
+/**
+ * Role : Transformer les cartes d'une page de resultats en offres structurees
+ * Parametre config : configuration du site (baseUrl pour les liens relatifs, source)
+ * Parametre cards : cartes lues dans le DOM, toutes pages confondues
+ * Parametre criteria : criteres de recherche (localisation par defaut)
+ * Parametre limit : nombre maximum d'offres retournees
+ * Retourne : offres dans l'ordre des cartes, une seule par URL
+ */
+export function buildOffersFromCards(
+  config: SiteConfig,
+  cards: JobCardElements[],
+  criteria: SearchCriteria,
+  limit: number
+): ScrapedOffer[] {
+  const offers: ScrapedOffer[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const card of cards) {
+    const url = resolveCardUrl(card.href, config.baseUrl);
+    const title = firstLine(card.title) || firstLine(card.linkText);
+    if (!url || !title || seenUrls.has(url)) continue;
+    seenUrls.add(url);
+
+    const company = firstLine(card.company);
+    const location = firstLine(card.location);
+    const known = new Set([title, company, location]);
+
+    const attributeLines = card.lines.filter(
+      (line) => !known.has(line) && line.length <= MAX_ATTRIBUTE_LINE_LENGTH
+    );
+    const salary = attributeLines.find((line) => isSalaryLine(line)) ?? null;
+    const contractType =
+      attributeLines.find((line) => line !== salary && normalizeContractType(line) !== null) ?? null;
+
+    const description = card.lines
+      .filter((line) => !known.has(line) && line !== salary && line !== contractType)
+      .join(" · ")
+      .substring(0, MAX_CARD_DESCRIPTION_LENGTH);
+
+    offers.push({
+      title,
+      company: company || "Entreprise inconnue",
+      location: location || criteria.location,
+      url,
+      description,
+      salary: salary ? salary.replace(/^salaire\s*:\s*/i, "") : null,
+      contractType,
+      source: config.id,
+      attributes: parseCardAttributes(card.lines, card.postedAt),
+    });
+
+    if (offers.length >= limit) break;
+  }
+
+  return offers;
+}
+
+/**
+ * Role : Rendre absolu le lien d'une carte ("/rc/clk?jk=..." → "https://fr.indeed.com/rc/clk?jk=...")
+ * Retourne : URL absolue, ou null si le lien est illisible
+ */
+export function resolveCardUrl(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Role : Premiere ligne non vide d'un texte (un titre peut contenir un badge sur une 2e ligne)
+ */
+function firstLine(text: string): string {
+  return text.split("\n").map((line) => line.trim()).find(Boolean) ?? "";
+}
+
+/**
+ * Role : Reconnaitre une ligne de salaire (montant lisible par parseAnnualSalaryCeiling)
+ */
+function isSalaryLine(line: string): boolean {
+  return SALARY_LINE_PATTERN.test(line) && parseAnnualSalaryCeiling(line) !== null;
+}
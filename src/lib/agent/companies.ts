@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getCompanyKey } from "./offer-clusters";
+
+/**
+ * Role : Rattachement des offres a la fiche de leur entreprise (Company)
+ * Utilise par : save-offers.ts (chaque offre enregistree),
+ *   scripts/link-companies.ts (rattrapage des offres existantes)
+ *
+ * Probleme resolu : Offer.company est le nom affiche par le site ("Qonto", "QONTO SAS").
+ * Sans fiche commune, les offres d'une meme entreprise ne sont pas reliees et les
+ * informations recueillies (site, secteur, notes) sont a ressaisir a chaque offre.
+ *
+ * Une fiche par utilisateur et par nom normalise (getCompanyKey, partage avec le
+ * regroupement des offres multi-sources). La fiche est creee a la premiere offre
+ * avec le nom tel qu'affiche ; les offres suivantes ne modifient pas ses informations.
+ *
+ * Exemple :
+ *   const companyId = await resolveCompanyId(userId, "Qonto SAS");
+ *   await prisma.offer.upsert({ create: { ..., companyId }, update: { ..., companyId } });
+ */
+
+/**
+ * Role : Trouver ou creer la fiche d'une entreprise
+ * Parametre userId : proprietaire des offres
+ * Parametre name : nom de l'entreprise affiche par le site
+ * Retourne : identifiant de la fiche, ou null si le nom est vide apres normalisation (ex: "SAS")
+ */
+export async function resolveCompanyId(userId: string, name: string): Promise<string | null> {
+  const key = getCompanyKey(name);
+  if (!key) return null;
+
+  const where = { userId_key: { userId, key } };
+  try {
+    const company = await prisma.company.upsert({
+      where,
+      create: { userId, key, name: name.trim() },
+      update: {},
+      select: { id: true },
+    });
+    return company.id;
+  } catch (error) {
+    // Deux offres de la meme entreprise enregistrees en meme temps : la fiche vient d'etre creee
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const company = await prisma.company.findUnique({ where, select: { id: true } });
+      if (company) return company.id;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Role : Rattacher une offre existante a la fiche de son entreprise
+ * Parametre offerId : offre a rattacher
+ * Retourne : identifiant de la fiche, ou null si l'offre est introuvable ou le nom illisible
+ */
+export async function linkOfferCompany(offerId: string): Promise<string | null> {
+  const offer = await prisma.offer.findUnique({
+    where: { id: offerId },
+    select: { userId: true, company: true, companyId: true },
+  });
+  if (!offer) return null;
+  if (offer.companyId) return offer.companyId;
+
+  const companyId = await resolveCompanyId(offer.userId, offer.company);
+  if (companyId) {
+    await prisma.offer.update({ where: { id: offerId }, data: { companyId } });
+  }
+  return companyId;
+}
@@ -0,0 +1,129 @@
+import { prisma } from "@/lib/db";
+import { decryptSecret, encryptSecret, isEncrypted } from "@/lib/crypto";
+import { deleteStorageState } from "./session-store";
+
+/**
+ * Role : Acces aux identifiants LinkedIn chiffres du profil
+ * Utilise par :
+ *   - /api/profile/linkedin (ecriture, statut "configure")
+ *   - /api/agent/search et run-user-search (dechiffrement, seul chemin autorise)
+ *
+ * Profile.linkedinEmail / linkedinPassword contiennent uniquement du texte chiffre
+ * (cf. src/lib/crypto.ts). Ces champs sont @omit dans le schema ZenStack : ils
+ * n'apparaissent jamais dans les reponses de /api/model, y compris pour un admin.
+ *
+ * Exemple :
+ *   const creds = await getLinkedInCredentials(userId);
+ *   if (!creds) return "Identifiants LinkedIn manquants";
+ */
+
+/** Identifiants LinkedIn en clair (ne jamais renvoyer au client ni logger) */
+export interface LinkedInCredentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Role : Dechiffrer les identifiants LinkedIn d'un utilisateur
+ * Parametre userId : identifiant de l'utilisateur
+ * Retourne : { email, password } ou null si absents ou illisibles
+ *
+ * Une valeur non chiffree (profil anterieur au chiffrement, pas encore migre par
+ * npm run crypto:rotate) est acceptee pour ne pas bloquer la recherche, puis
+ * chiffree en base des sa lecture (cf. encryptLegacyCredentials).
+ */
+export async function getLinkedInCredentials(
+  userId: string
+): Promise<LinkedInCredentials | null> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: { linkedinEmail: true, linkedinPassword: true },
+  });
+
+  if (!profile?.linkedinEmail || !profile?.linkedinPassword) return null;
+
+  try {
+    const credentials = {
+      email: revealValue(profile.linkedinEmail),
+      password: revealValue(profile.linkedinPassword),
+    };
+
+    if (!isEncrypted(profile.linkedinEmail) || !isEncrypted(profile.linkedinPassword)) {
+      await encryptLegacyCredentials(userId, credentials);
+    }
+
+    return credentials;
+  } catch (error) {
+    const err = error as Error;
+    console.error(`[Agent] Identifiants LinkedIn indechiffrables pour user=${userId} : ${err.message}`);
+    return null;
+  }
+}
+
+/**
+ * Role : Indiquer si l'utilisateur a renseigne ses identifiants LinkedIn (sans les dechiffrer)
+ * Parametre userId : identifiant de l'utilisateur
+ */
+export async function hasLinkedInCredentials(userId: string): Promise<boolean> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: { linkedinEmail: true, linkedinPassword: true },
+  });
+  return Boolean(profile?.linkedinEmail && profile?.linkedinPassword);
+}
+
+/**
+ * Role : Chiffrer et enregistrer les identifiants LinkedIn (ou les effacer)
+ * Parametre userId : identifiant de l'utilisateur (profil existant requis)
+ * Parametre credentials : nouveaux identifiants, ou null pour les supprimer
+ *
+ * La session navigateur persistee est supprimee : elle appartient peut-etre
+ * a l'ancien compte LinkedIn.
+ */
+export async function saveLinkedInCredentials(
+  userId: string,
+  credentials: LinkedInCredentials | null
+): Promise<void> {
+  await prisma.profile.update({
+    where: { userId },
+    data: {
+      linkedinEmail: credentials ? encryptSecret(credentials.email) : null,
+      linkedinPassword: credentials ? encryptSecret(credentials.password) : null,
+    },
+  });
+
+  await deleteStorageState(userId, "linkedin");
+}
+
+/**
+ * Role : Chiffrer en base des identifiants encore stockes en clair (echec non bloquant)
+ * Parametre userId : identifiant de l'utilisateur
+ * Parametre credentials : identifiants en clair lus dans le profil
+ *
+ * La session navigateur est conservee : le compte LinkedIn ne change pas.
+ */
+async function encryptLegacyCredentials(
+  userId: string,
+  credentials: LinkedInCredentials
+): Promise<void> {
+  console.warn(`[Agent] Identifiants LinkedIn en clair pour user=${userId} : chiffrement en base`);
+  try {
+    await prisma.profile.update({
+      where: { userId },
+      data: {
+        linkedinEmail: encryptSecret(credentials.email),
+        linkedinPassword: encryptSecret(credentials.password),
+      },
+    });
+  } catch (error) {
+    const err = error as Error;
+    console.error(`[Agent] Chiffrement des identifiants LinkedIn impossible pour user=${userId} : ${err.message}`);
+  }
+}
+
+/**
+ * Role : Dechiffrer une valeur, ou la retourner telle quelle si elle n'est pas encore chiffree
+ */
+function revealValue(value: string): string {
+  return isEncrypted(value) ? decryptSecret(value) : value;
+}
@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/db";
+
+/**
+ * Role : Cache du nettoyage Haiku des descriptions d'offres (formatOfferDescription)
+ * Utilise par : orchestrator.ts (pages detail), /api/agent/search et run-user-search
+ *   (taux de succes du cache dans AgentRun.result)
+ *
+ * Probleme resolu : chaque visite de page detail declenchait un appel Haiku, meme quand
+ * le texte brut de l'offre n'avait pas change depuis le scraping precedent (recherches
+ * planifiees quotidiennes, meme offre trouvee par plusieurs recherches ou utilisateurs).
+ * La reponse de Haiku est conservee sous l'empreinte SHA-256 du texte brut envoye et de
+ * la version du prompt : un texte inchange reutilise la reponse precedente, une
+ * modification du prompt (nouvelle version) invalide tout le cache.
+ *
+ * La reponse brute est stockee (markdown + bloc d'attributs) et reinterpretee a chaque
+ * lecture : les dates relatives ("il y a 2 jours") restent calculees a la date du scraping.
+ * Lecture et ecriture sont non bloquantes : une erreur de base equivaut a un cache vide.
+ *
+ * Exemple :
+ *   const hash = hashDescription(rawText, CLEANUP_PROMPT_VERSION);
+ *   const cached = await loadCachedDescription(hash);
+ *   if (!cached) await saveCachedDescription(hash, CLEANUP_PROMPT_VERSION, response.text);
+ */
+
+/** Duree de conservation d'une entree non reutilisee */
+const CACHE_RETENTION_DAYS = 60;
+
+/**
+ * Succes et echecs du cache sur un run, stockes dans AgentRun.result.descriptionCache
+ * (type et non interface : assignable a Prisma.InputJsonValue)
+ */
+export type DescriptionCacheStats = {
+  /** Descriptions reprises du cache (aucun appel Haiku) */
+  hits: number;
+  /** Descriptions nettoyees par Haiku (absentes du cache) */
+  misses: number;
+  /** hits / (hits + misses) arrondi a 2 decimales, null si aucune description nettoyee */
+  hitRate: number | null;
+};
+
+/**
+ * Role : Construire des compteurs de cache avec leur taux de succes
+ * Exemple : createDescriptionCacheStats(3, 1) // { hits: 3, misses: 1, hitRate: 0.75 }
+ */
+export function createDescriptionCacheStats(hits = 0, misses = 0): DescriptionCacheStats {
+  const total = hits + misses;
+  return {
+    hits,
+    misses,
+    hitRate: total > 0 ? Math.round((hits / total) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Role : Additionner les compteurs de deux sites ou de deux recherches
+ */
+export function mergeDescriptionCacheStats(
+  a: DescriptionCacheStats,
+  b: DescriptionCacheStats
+): DescriptionCacheStats {
+  return createDescriptionCacheStats(a.hits + b.hits, a.misses + b.misses);
+}
+
+/**
+ * Role : Empreinte d'un texte brut pour une version de prompt (cle du cache)
+ * Parametre rawText : texte envoye a Haiku (deja tronque)
+ * Parametre promptVersion : version du prompt de nettoyage
+ * Retourne : hash SHA-256 hexadecimal
+ */
+export function hashDescription(rawText: string, promptVersion: string): string {
+  return createHash("sha256").update(`${promptVersion}\n${rawText}`).digest("hex");
+}
+
+/**
+ * Role : Lire la reponse Haiku en cache et marquer l'entree comme reutilisee
+ * Parametre contentHash : empreinte calculee par hashDescription
+ * Retourne : reponse brute, ou null si absente (ou en cas d'erreur de base)
+ */
+export async function loadCachedDescription(contentHash: string): Promise<string | null> {
+  try {
+    const entry = await prisma.descriptionCache.update({
+      where: { contentHash },
+      data: { hitCount: { increment: 1 }, lastUsedAt: new Date() },
+      select: { response: true },
+    });
+    return entry.response;
+  } catch (error) {
+    // P2025 : entree absente (cas nominal d'un texte jamais vu)
+    if ((error as { code?: string }).code !== "P2025") {
+      console.warn(`[Agent] Lecture du cache de descriptions impossible : ${(error as Error).message}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Role : Enregistrer une reponse Haiku et purger les entrees inutilisees
+ * Parametre contentHash : empreinte calculee par hashDescription
+ * Parametre promptVersion : version du prompt ayant produit la reponse
+ * Parametre response : reponse brute de Haiku
+ */
+export async function saveCachedDescription(
+  contentHash: string,
+  promptVersion: string,
+  response: string
+): Promise<void> {
+  try {
+    await prisma.descriptionCache.upsert({
+      where: { contentHash },
+      create: { contentHash, promptVersion, response },
+      update: { response, lastUsedAt: new Date() },
+    });
+
+    await prisma.descriptionCache.deleteMany({
+      where: {
+        lastUsedAt: { lt: new Date(Date.now() - CACHE_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+      },
+    });
+  } catch (error) {
+    console.warn(`[Agent] Ecriture du cache de descriptions impossible : ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,138 @@
+import { createServer } from "http";
+import { readFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Role : Mode fixtures de l'agent de scraping (pipeline complet sans reseau ni API)
+ * Utilise par : playwright-tool.ts (routage des requetes du navigateur),
+ *   @/lib/llm (fournisseur LLM deterministe), scripts/scrape-fixtures.ts
+ *
+ * Active par SCRAPER_FIXTURES=1 :
+ *   - chaque requete du navigateur est resolue via FIXTURE_ROUTES vers une page
+ *     HTML enregistree, servie par un serveur statique local (127.0.0.1, port libre)
+ *   - une URL sans fixture recoit une 404 : aucune requete ne sort vers le site reel
+ *   - les appels LLM passent par le fournisseur de test (createMockProvider, @/lib/llm)
+ *   - l'etat de session n'est ni lu ni ecrit en base (aucune BDD requise)
+ *
+ * L'URL vue par la page reste l'URL d'origine (ex: https://www.linkedin.com/feed/) :
+ * les adaptateurs (detection de login, de blocage) se comportent comme en production.
+ *
+ * Arborescence : <site>/search-results.html, <site>/job-detail.html,
+ *   <site>/extraction.json (reponse Claude enregistree), empty-results.html (fin de pagination)
+ *
+ * Exemple :
+ *   SCRAPER_FIXTURES=1 npm run dev   // /api/agent/search sans LinkedIn ni ANTHROPIC_API_KEY
+ *   npm run test:e2e                 // pipeline complet + verification des resultats attendus (CI)
+ */
+
+/** Variable d'environnement activant le mode fixtures */
+export const FIXTURES_ENV = "SCRAPER_FIXTURES";
+
+/** Dossier des fixtures (chemin relatif a la racine du projet) */
+export const FIXTURES_DIR = path.join(process.cwd(), "src", "lib", "agent", "fixtures");
+
+/** Association d'un motif d'URL reelle a une page enregistree */
+export interface FixtureRoute {
+  /** Identifiant du site (ex: "linkedin") */
+  site: string;
+  /** Motif teste sur l'URL complete demandee par le navigateur */
+  pattern: RegExp;
+  /** Fichier servi, relatif a FIXTURES_DIR */
+  file: string;
+}
+
+/**
+ * Routes des fixtures, la premiere qui correspond l'emporte.
+ * Les pages de resultats au-dela de la premiere renvoient empty-results.html :
+ * l'orchestrateur arrete alors la pagination (snapshot trop court).
+ */
+export const FIXTURE_ROUTES: FixtureRoute[] = [
+  // LinkedIn : login → /feed/ → recherche → pages detail
+  { site: "linkedin", pattern: /^https:\/\/www\.linkedin\.com\/login/, file: "linkedin/login.html" },
+  { site: "linkedin", pattern: /^https:\/\/www\.linkedin\.com\/feed\//, file: "linkedin/feed.html" },
+  { site: "linkedin", pattern: /^https:\/\/www\.linkedin\.com\/jobs\/search\/.*[?&]start=[1-9]/, file: "empty-results.html" },
+  { site: "linkedin", pattern: /^https:\/\/www\.linkedin\.com\/jobs\/search\//, file: "linkedin/search-results.html" },
+  { site: "linkedin", pattern: /^https:\/\/www\.linkedin\.com\/jobs\/view\/\d+/, file: "linkedin/job-detail.html" },
+
+  // Welcome to the Jungle : pagination &page=1,2,3
+  { site: "wttj", pattern: /^https:\/\/www\.welcometothejungle\.com\/fr\/jobs\?.*[?&]page=([2-9]|\d{2,})/, file: "empty-results.html" },
+  { site: "wttj", pattern: /^https:\/\/www\.welcometothejungle\.com\/fr\/jobs\?/, file: "wttj/search-results.html" },
+  { site: "wttj", pattern: /^https:\/\/www\.welcometothejungle\.com\/fr\/companies\/[^/]+\/jobs\//, file: "wttj/job-detail.html" },
+
+  // Indeed : pagination &start=0,10,20 ; /rc/clk redirige vers /viewjob en production
+  { site: "indeed", pattern: /^https:\/\/fr\.indeed\.com\/emplois\?.*[?&]start=[1-9]/, file: "empty-results.html" },
+  { site: "indeed", pattern: /^https:\/\/fr\.indeed\.com\/emplois\?/, file: "indeed/search-results.html" },
+  { site: "indeed", pattern: /^https:\/\/fr\.indeed\.com\/(rc\/clk|viewjob)\?/, file: "indeed/job-detail.html" },
+];
+
+/**
+ * Role : Indiquer si le mode fixtures est actif (SCRAPER_FIXTURES=1)
+ */
+export function isFixtureMode(): boolean {
+  return process.env[FIXTURES_ENV] === "1";
+}
+
+/**
+ * Role : Trouver la page enregistree correspondant a une URL reelle
+ * Parametre url : URL complete demandee par le navigateur
+ * Retourne : chemin relatif a FIXTURES_DIR, ou null si aucune fixture
+ *
+ * Exemple :
+ *   resolveFixtureFile("https://fr.indeed.com/emplois?q=React&l=Paris&start=0")
+ *   // => "indeed/search-results.html"
+ */
+export function resolveFixtureFile(url: string): string | null {
+  return FIXTURE_ROUTES.find((route) => route.pattern.test(url))?.file ?? null;
+}
+
+/** Serveur statique partage par toutes les sessions du processus (URL de base) */
+let fixtureServer: Promise<string> | null = null;
+
+/**
+ * Role : Demarrer (une seule fois) le serveur statique local des fixtures
+ * Retourne : URL de base du serveur (ex: "http://127.0.0.1:53121")
+ *
+ * Le serveur ne sert que les fichiers de FIXTURES_DIR et ne retient pas le
+ * processus (unref) : un script se termine normalement a la fin du pipeline.
+ */
+export function startFixtureServer(): Promise<string> {
+  if (fixtureServer) return fixtureServer;
+
+  fixtureServer = new Promise((resolve, reject) => {
+    const server = createServer(async (req, res) => {
+      const relativePath = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+      const filePath = path.join(FIXTURES_DIR, relativePath);
+
+      // Refuser toute sortie du dossier des fixtures (../)
+      if (!filePath.startsWith(FIXTURES_DIR + path.sep)) {
+        res.writeHead(403).end();
+        return;
+      }
+
+      try {
+        const body = await readFile(filePath);
+        const contentType = filePath.endsWith(".json")
+          ? "application/json; charset=utf-8"
+          : "text/html; charset=utf-8";
+        res.writeHead(200, { "Content-Type": contentType }).end(body);
+      } catch {
+        res.writeHead(404).end();
+      }
+    });
+
+    server.once("error", (error) => {
+      fixtureServer = null;
+      reject(error);
+    });
+
+    server.listen(0, "127.0.0.1", () => {
+      server.unref();
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      console.log(`[Agent] Mode fixtures : pages servies depuis http://127.0.0.1:${port}`);
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+
+  return fixtureServer;
+}
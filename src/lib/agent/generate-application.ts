@@ -1,10 +1,13 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { completeStructured, getLlmService, type LlmUsageListener } from "@/lib/llm";
 
 /**
  * Role : Generateur de CV et lettre de motivation adaptes a une offre via Claude
  * Utilise par : la route API POST /api/agent/apply
  *
- * UN SEUL appel Claude Sonnet 4.6 pour generer les deux documents en JSON.
+ * UN SEUL appel Claude Sonnet 4.6 pour generer les deux documents, retournes en
+ * arguments de l'outil submit_application (valides par GeneratedApplicationSchema ;
+ * une reponse incomplete est renvoyee au modele pour correction, cf. completeStructured).
  * Le prompt fournit le profil complet et l'offre, Claude adapte le contenu.
  *
  * Exemple :
@@ -12,9 +15,6 @@ import Anthropic from "@anthropic-ai/sdk";
  *   // result = { cvContent: "# CV...", letterContent: "# Lettre..." }
  */
 
-/** Modele Claude utilise pour la generation (Sonnet 4.6 = meilleur rapport qualite/prix) */
-const GENERATION_MODEL = "claude-sonnet-4-6";
-
 /**
  * Role : Profil candidat transmis au generateur
  * Source : table Profile de la BDD (champs title, summary, skills, experiences, education)
@@ -71,17 +71,30 @@ export interface GeneratedApplication {
   letterContent: string;
 }
 
+/** Arguments de l'outil submit_application */
+const GeneratedApplicationSchema = z.object({
+  cvContent: z.string().trim().min(1).describe("CV adapte a l'offre, en markdown"),
+  letterContent: z.string().trim().min(1).describe("Lettre de motivation personnalisee, en markdown"),
+});
+
+/** Options de la generation */
+export interface GenerateApplicationOptions {
+  /** Enregistrer la consommation de l'appel LLM (cf. run-usage.ts), optionnel */
+  onLlmUsage?: LlmUsageListener;
+}
+
 /**
  * Role : Generer un CV adapte et une lettre de motivation via Claude Sonnet
  * Parametre profile : donnees du profil candidat (competences, experiences, formation)
  * Parametre offer : offre d'emploi ciblee (titre, entreprise, description)
+ * Parametre options : onLlmUsage pour mesurer la consommation reelle, optionnel
  * Retourne : { cvContent, letterContent } en markdown
  *
  * Cout estime : ~0.05$ par generation (1 appel Sonnet, ~4000 tokens)
  *
  * Erreurs possibles :
- *   - ANTHROPIC_API_KEY manquante
- *   - Format de reponse invalide (JSON mal forme)
+ *   - ANTHROPIC_API_KEY manquante (hors fournisseur de test, cf. getLlmService)
+ *   - Reponse invalide apres plusieurs tentatives (CV ou lettre manquant)
  *   - Profil trop incomplet pour generer
  *
  * Exemple :
@@ -92,17 +105,11 @@ export interface GeneratedApplication {
  */
 export async function generateApplication(
   profile: ApplicationProfile,
-  offer: ApplicationOffer
+  offer: ApplicationOffer,
+  options: GenerateApplicationOptions = {}
 ): Promise<GeneratedApplication> {
-  // Verifier que la cle API Anthropic est configuree
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey || apiKey === "sk-ant-...") {
-    throw new Error(
-      "ANTHROPIC_API_KEY non configuree. Ajoutez votre cle dans .env.local"
-    );
-  }
-
-  const client = new Anthropic({ apiKey });
+  // Resoudre le service LLM (leve une erreur si la cle API Anthropic est requise et absente)
+  const llm = getLlmService({ onUsage: options.onLlmUsage });
 
   // Construire un resume textuel du profil pour le prompt
   const experiencesText =
@@ -169,11 +176,13 @@ ${offer.description}`.trim();
 
   // Appel unique a Claude : genere CV + lettre en une seule requete
   // Le system message definit le role ADAPTATIF (pas creatif) et les regles anti-hallucination
-  const response = await client.messages.create({
-    model: GENERATION_MODEL,
-    max_tokens: 4096,
-    // Message systeme : role adaptatif strict + regles absolues anti-invention
-    system: `Tu es un expert en adaptation de candidatures professionnelles.
+  const result: GeneratedApplication = await completeStructured(
+    llm,
+    {
+      role: "generation",
+      maxTokens: 4096,
+      // Message systeme : role adaptatif strict + regles absolues anti-invention
+      system: `Tu es un expert en adaptation de candidatures professionnelles.
 
 Ton role est d'adapter (PAS creer) le CV et la lettre de motivation d'un candidat
 pour maximiser ses chances sur une offre specifique.
@@ -192,10 +201,7 @@ Tu dois UNIQUEMENT :
 
 Si une competence requise par l'offre n'est pas dans le profil du candidat,
 ne l'invente pas — mets en avant ce qui est reellement la et qui s'en approche le plus.`,
-    messages: [
-      {
-        role: "user",
-        content: `Genere un CV adapte ET une lettre de motivation personnalisee pour cette candidature.
+      prompt: `Genere un CV adapte ET une lettre de motivation personnalisee pour cette candidature.
 
 PROFIL DU CANDIDAT :
 ${profileContext}
@@ -209,11 +215,8 @@ ETAPE 1 — ANALYSE (avant de generer) :
 3. Note les ecarts : si une exigence est absente du profil, ne l'invente pas
 
 ETAPE 2 — GENERATION :
-Reponds UNIQUEMENT en JSON avec exactement ce format (pas de texte avant ni apres) :
-{
-  "cvContent": "# CV en markdown...",
-  "letterContent": "# Lettre de motivation en markdown..."
-}
+Transmets les deux documents en appelant l'outil submit_application
+(cvContent : CV en markdown, letterContent : lettre de motivation en markdown).
 
 Regles pour le CV :
 - Selectionne UNIQUEMENT les competences presentes dans le profil, ordonnees par pertinence pour l'offre
@@ -232,39 +235,13 @@ Regles pour la lettre de motivation :
 - Format markdown, longueur ideale : 250-350 mots
 
 Les deux documents doivent etre en francais.`,
-      },
-    ],
-  });
-
-  // Extraire le contenu textuel de la reponse
-  const textContent = response.content.find((b) => b.type === "text");
-  if (!textContent || textContent.type !== "text") {
-    throw new Error("Aucun contenu textuel dans la reponse Claude");
-  }
-
-  // Extraire le JSON de la reponse (peut contenir du texte parasite)
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    console.error(
-      "[Agent] Reponse brute Claude :",
-      textContent.text.substring(0, 500)
-    );
-    throw new Error("Format de reponse invalide : pas de JSON trouve");
-  }
-
-  let result: GeneratedApplication;
-  try {
-    result = JSON.parse(jsonMatch[0]) as GeneratedApplication;
-  } catch {
-    throw new Error("Erreur de parsing JSON dans la reponse Claude");
-  }
-
-  // Valider que les deux champs sont presents
-  if (!result.cvContent || !result.letterContent) {
-    throw new Error(
-      "Reponse incomplete : CV ou lettre de motivation manquant"
-    );
-  }
+    },
+    {
+      name: "submit_application",
+      description: "Enregistre le CV adapte et la lettre de motivation generes pour l'offre",
+      schema: GeneratedApplicationSchema,
+    }
+  );
 
   console.log(
     `[Agent] Generation terminee : CV ${result.cvContent.length} chars, lettre ${result.letterContent.length} chars`
@@ -0,0 +1,60 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import type { ScrapedOffer } from "./tools";
+
+/**
+ * Role : Offres deja enregistrees pour un utilisateur (scraping incremental, deduplication)
+ * Utilise par : orchestrator.ts avant le scraping de chaque recherche,
+ *   save-offers.ts (cle d'upsert des offres scrapees)
+ *
+ * Une offre deja connue n'a pas besoin d'une nouvelle visite de sa page detail
+ * (la description complete est deja en base), et une page de resultats composee
+ * presque uniquement d'offres connues signale que les pages suivantes (plus anciennes)
+ * l'ont ete aussi : la pagination s'arrete.
+ *
+ * Les URLs comparees sont canoniques (cf. SiteAdapter.canonicalizeUrl) et une offre
+ * est unique par user + source + externalId : les parametres de tracking d'une URL
+ * ne creent plus de doublon.
+ *
+ * Exemple :
+ *   const knownUrls = await loadKnownOfferUrls("user-123", ["linkedin", "wttj"]);
+ *   knownUrls.has("https://www.linkedin.com/jobs/view/3987654321/") // true
+ */
+
+/**
+ * Role : Charger les URLs des offres existantes de l'utilisateur pour les sites recherches
+ * Parametre userId : proprietaire des offres
+ * Parametre sites : identifiants des sites (Offer.source)
+ * Retourne : ensemble des URLs (vide si aucune offre)
+ */
+export async function loadKnownOfferUrls(
+  userId: string,
+  sites: string[]
+): Promise<Set<string>> {
+  const offers = await prisma.offer.findMany({
+    where: { userId, source: { in: sites } },
+    select: { url: true },
+  });
+  return new Set(offers.map((o) => o.url));
+}
+
+/**
+ * Role : Cle unique d'une offre scrapee pour prisma.offer.upsert
+ * Parametre userId : proprietaire de l'offre
+ * Parametre offer : offre scrapee (url canonique, externalId eventuel)
+ * Retourne : user + source + externalId si l'identifiant est connu, sinon user + url
+ *
+ * Exemple :
+ *   await prisma.offer.upsert({ where: getOfferUniqueWhere(userId, offer), create, update });
+ */
+export function getOfferUniqueWhere(
+  userId: string,
+  offer: ScrapedOffer
+): Prisma.OfferWhereUniqueInput {
+  if (offer.externalId) {
+    return {
+      userId_source_externalId: { userId, source: offer.source, externalId: offer.externalId },
+    };
+  }
+  return { userId_url: { userId, url: offer.url } };
+}
@@ -0,0 +1,338 @@
+/**
+ * Role : Attributs structures d'une offre (niveau, teletravail, competences, publication)
+ * Utilise par : card-extractor.ts (lignes de la carte), orchestrator.ts (page detail via
+ *   Claude Haiku), /api/agent/search et run-user-search (enregistrement sur Offer)
+ *
+ * Deux sources complementaires :
+ *   - la carte de resultats : date de publication ("Il y a 2 jours", <time datetime>),
+ *     nombre de candidats ("37 candidats"), modalite dans la localisation ("(Hybride)")
+ *   - la page detail : le prompt de nettoyage Haiku retourne aussi un bloc JSON
+ *     (niveau, competences requises / appreciees, annees d'experience...)
+ *
+ * Les valeurs de la page detail priment ; une information absente des deux reste null
+ * (jamais devinee), sauf le niveau, deduit du titre ou des annees d'experience.
+ *
+ * Exemple :
+ *   const attributes = mergeOfferAttributes(detailAttributes, cardAttributes, offer.title);
+ *   // { seniority: "senior", remotePolicy: "hybrid", requiredSkills: ["React"], ... }
+ */
+
+/** Niveau d'experience du poste */
+export type Seniority = "junior" | "confirmed" | "senior" | "lead";
+
+/** Modalite de travail : sur site, hybride ou full remote */
+export type RemotePolicy = "onsite" | "hybrid" | "remote";
+
+export const SENIORITY_LEVELS: readonly Seniority[] = ["junior", "confirmed", "senior", "lead"];
+export const REMOTE_POLICIES: readonly RemotePolicy[] = ["onsite", "hybrid", "remote"];
+
+/** Attributs structures d'une offre (champs de meme nom sur Offer) */
+export interface OfferAttributes {
+  seniority: Seniority | null;
+  remotePolicy: RemotePolicy | null;
+  /** Competences exigees (ex: ["React", "TypeScript"]) */
+  requiredSkills: string[];
+  /** Competences appreciees, "un plus" (ex: ["GraphQL"]) */
+  niceToHaveSkills: string[];
+  /** Experience minimale demandee en annees */
+  yearsOfExperience: number | null;
+  /** Date de publication sur le site source */
+  postedAt: Date | null;
+  /** Nombre de candidats affiche par le site */
+  applicantCount: number | null;
+}
+
+/** Nombre maximum de competences conservees par liste */
+const MAX_SKILLS = 10;
+
+/** Longueur maximale d'une competence (au-dela : phrase, pas une competence) */
+const MAX_SKILL_LENGTH = 40;
+
+/** Unites de duree relative ("il y a 3 jours", "2 weeks ago") → millisecondes */
+const DURATION_UNITS: { pattern: RegExp; ms: number }[] = [
+  { pattern: /^(minute|min)/, ms: 60_000 },
+  { pattern: /^(heure|hour|h$)/, ms: 60 * 60_000 },
+  { pattern: /^(jour|day|j$)/, ms: 24 * 60 * 60_000 },
+  { pattern: /^(semaine|week)/, ms: 7 * 24 * 60 * 60_000 },
+  { pattern: /^(mois|month)/, ms: 30 * 24 * 60 * 60_000 },
+];
+
+/** Modalites de travail, testees dans l'ordre (le full remote avant le teletravail partiel) */
+const REMOTE_POLICY_PATTERNS: { value: RemotePolicy; patterns: RegExp[] }[] = [
+  {
+    value: "remote",
+    patterns: [/full ?remote/, /100 ?% (remote|teletravail)/, /teletravail (total|complet)/, /^remote$/, /\(remote\)/, /teletravail a 100/],
+  },
+  {
+    value: "hybrid",
+    patterns: [/hybride?/, /teletravail (partiel|occasionnel|frequent)/, /\d+ jours? de teletravail/, /remote partiel/],
+  },
+  {
+    value: "onsite",
+    patterns: [/sur site/, /sur place/, /on[- ]site/, /presentiel/, /pas de teletravail/],
+  },
+];
+
+/** Mots du titre indiquant le niveau, testes dans l'ordre */
+const SENIORITY_TITLE_PATTERNS: { value: Seniority; pattern: RegExp }[] = [
+  { value: "lead", pattern: /\b(lead|principal|staff|head of|tech ?lead|architecte?)\b/ },
+  { value: "senior", pattern: /\b(senior|sr|expert|confirme senior)\b/ },
+  { value: "junior", pattern: /\b(junior|jr|debutant|stagiaire|alternant|graduate)\b/ },
+  { value: "confirmed", pattern: /\b(confirme|intermediaire|mid)\b/ },
+];
+
+/**
+ * Role : Normaliser un texte pour la comparaison (minuscules, sans accents, espaces simples)
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Role : Convertir une date de publication affichee en date absolue
+ * Parametre text : attribut datetime ("2026-10-17") ou texte relatif
+ *   ("Il y a 2 jours", "Publiée il y a plus de 30 jours", "hier", "3 weeks ago")
+ * Parametre now : date de reference (date du scraping)
+ * Retourne : date de publication, ou null si le texte n'est pas une date reconnue
+ *
+ * Exemple :
+ *   parsePostedDate("Il y a 2 jours", new Date("2026-10-19")) // 2026-10-17
+ */
+export function parsePostedDate(text: string, now: Date = new Date()): Date | null {
+  const trimmed = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) || date > now ? null : date;
+  }
+
+  const normalized = normalizeText(trimmed);
+  if (/\b(aujourd'?hui|today|a l'instant|just now)\b/.test(normalized)) return now;
+  if (/\b(hier|yesterday)\b/.test(normalized)) {
+    return new Date(now.getTime() - 24 * 60 * 60_000);
+  }
+
+  const match =
+    normalized.match(/il y a (?:plus de )?(\d+)\s*([a-z]+)/) ??
+    normalized.match(/(\d+)\+?\s*([a-z]+) ago/);
+  if (!match) return null;
+
+  const unit = DURATION_UNITS.find((u) => u.pattern.test(match[2]));
+  if (!unit) return null;
+  return new Date(now.getTime() - Number(match[1]) * unit.ms);
+}
+
+/**
+ * Role : Lire le nombre de candidats affiche par le site
+ * Exemple : parseApplicantCount("Plus de 100 candidats") // 100
+ */
+export function parseApplicantCount(text: string): number | null {
+  const match = normalizeText(text).match(
+    /(?:plus de |over )?(\d[\d\s.,]*)\s*(candidats?|candidatures?|applicants?)\b/
+  );
+  if (!match) return null;
+  const count = Number(match[1].replace(/[\s.,]/g, ""));
+  return Number.isInteger(count) ? count : null;
+}
+
+/**
+ * Role : Reconnaitre la modalite de travail dans un libelle
+ * Exemple : normalizeRemotePolicy("Paris, Île-de-France, France (Hybride)") // "hybrid"
+ */
+export function normalizeRemotePolicy(text: string): RemotePolicy | null {
+  const normalized = normalizeText(text);
+  return (
+    REMOTE_POLICY_PATTERNS.find((p) => p.patterns.some((pattern) => pattern.test(normalized)))
+      ?.value ?? null
+  );
+}
+
+/**
+ * Role : Lire l'experience minimale demandee ("3 ans d'experience", "5+ years")
+ * Retourne : nombre d'annees, ou null si absent
+ */
+export function parseYearsOfExperience(text: string): number | null {
+  const match = normalizeText(text).match(
+    /(\d{1,2})\s*(?:\+|a \d{1,2})?\s*(?:ans?|annees?|years?)(?: minimum)?\s*(?:d'|de |of )?(?:experience|exp\b)/
+  );
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Role : Deduire le niveau du titre, sinon des annees d'experience demandees
+ * Parametre title : titre du poste
+ * Parametre yearsOfExperience : experience demandee (null si inconnue)
+ * Retourne : niveau, ou null si ni le titre ni l'experience ne l'indiquent
+ *
+ * Exemple :
+ *   inferSeniority("Développeur React Senior H/F", null) // "senior"
+ *   inferSeniority("Développeur React", 3) // "confirmed"
+ */
+export function inferSeniority(title: string, yearsOfExperience: number | null): Seniority | null {
+  const normalized = normalizeText(title);
+  const fromTitle = SENIORITY_TITLE_PATTERNS.find((p) => p.pattern.test(normalized));
+  if (fromTitle) return fromTitle.value;
+
+  if (yearsOfExperience === null) return null;
+  if (yearsOfExperience < 2) return "junior";
+  if (yearsOfExperience < 5) return "confirmed";
+  return "senior";
+}
+
+/**
+ * Role : Attributs vides (aucune information extraite)
+ */
+export function createEmptyOfferAttributes(): OfferAttributes {
+  return {
+    seniority: null,
+    remotePolicy: null,
+    requiredSkills: [],
+    niceToHaveSkills: [],
+    yearsOfExperience: null,
+    postedAt: null,
+    applicantCount: null,
+  };
+}
+
+/**
+ * Role : Lire les attributs visibles sur une carte de resultats
+ * Parametre lines : lignes de texte de la carte
+ * Parametre postedAtAttribute : attribut datetime d'un <time> de la carte ("" si absent)
+ * Parametre now : date du scraping
+ *
+ * Exemple :
+ *   parseCardAttributes(["Il y a 2 jours", "37 candidats", "Paris (Hybride)"], "")
+ *   // { remotePolicy: "hybrid", postedAt: <2 jours avant>, applicantCount: 37, ... }
+ */
+export function parseCardAttributes(
+  lines: string[],
+  postedAtAttribute: string,
+  now: Date = new Date()
+): OfferAttributes {
+  const attributes = createEmptyOfferAttributes();
+
+  attributes.postedAt = postedAtAttribute ? parsePostedDate(postedAtAttribute, now) : null;
+
+  for (const line of lines) {
+    attributes.postedAt ??= parsePostedDate(line, now);
+    attributes.applicantCount ??= parseApplicantCount(line);
+    attributes.remotePolicy ??= normalizeRemotePolicy(line);
+  }
+
+  return attributes;
+}
+
+/**
+ * Role : Valider le bloc JSON d'attributs retourne par Claude Haiku (page detail)
+ * Parametre value : JSON parse de la reponse (forme non garantie)
+ * Parametre now : date du scraping (conversion de postedText)
+ * Retourne : attributs valides ; un champ invalide ou hors enum devient null / []
+ */
+export function parseLlmAttributes(value: unknown, now: Date = new Date()): OfferAttributes {
+  const attributes = createEmptyOfferAttributes();
+  if (!value || typeof value !== "object") return attributes;
+  const raw = value as Record<string, unknown>;
+
+  const toSkills = (skills: unknown): string[] =>
+    Array.isArray(skills)
+      ? [...new Set(
+          skills
+            .filter((s): s is string => typeof s === "string")
+            .map((s) => s.trim())
+            .filter((s) => s && s.length <= MAX_SKILL_LENGTH)
+        )].slice(0, MAX_SKILLS)
+      : [];
+  const toCount = (count: unknown): number | null =>
+    typeof count === "number" && Number.isInteger(count) && count >= 0 ? count : null;
+
+  if (SENIORITY_LEVELS.includes(raw.seniority as Seniority)) {
+    attributes.seniority = raw.seniority as Seniority;
+  }
+  if (REMOTE_POLICIES.includes(raw.remotePolicy as RemotePolicy)) {
+    attributes.remotePolicy = raw.remotePolicy as RemotePolicy;
+  }
+  attributes.requiredSkills = toSkills(raw.requiredSkills);
+  attributes.niceToHaveSkills = toSkills(raw.niceToHaveSkills).filter(
+    (skill) => !attributes.requiredSkills.includes(skill)
+  );
+  attributes.yearsOfExperience = toCount(raw.yearsOfExperience);
+  attributes.applicantCount = toCount(raw.applicantCount);
+  if (typeof raw.postedText === "string") {
+    attributes.postedAt = parsePostedDate(raw.postedText, now);
+  }
+
+  return attributes;
+}
+
+/**
+ * Role : Combiner les attributs de la page detail et de la carte
+ * Parametre detail : attributs extraits de la page detail (null si non visitee)
+ * Parametre card : attributs lus sur la carte (null si extraction Claude du snapshot)
+ * Parametre title : titre du poste (deduction du niveau en dernier recours)
+ * Retourne : attributs complets, page detail prioritaire champ par champ
+ */
+export function mergeOfferAttributes(
+  detail: OfferAttributes | null | undefined,
+  card: OfferAttributes | null | undefined,
+  title: string
+): OfferAttributes {
+  const yearsOfExperience = detail?.yearsOfExperience ?? card?.yearsOfExperience ?? null;
+
+  return {
+    seniority:
+      detail?.seniority ?? card?.seniority ?? inferSeniority(title, yearsOfExperience),
+    remotePolicy: detail?.remotePolicy ?? card?.remotePolicy ?? null,
+    requiredSkills: detail?.requiredSkills.length ? detail.requiredSkills : card?.requiredSkills ?? [],
+    niceToHaveSkills: detail?.niceToHaveSkills.length ? detail.niceToHaveSkills : card?.niceToHaveSkills ?? [],
+    yearsOfExperience,
+    // La carte affiche la date de publication de facon plus fiable que le texte de la page
+    postedAt: card?.postedAt ?? detail?.postedAt ?? null,
+    applicantCount: card?.applicantCount ?? detail?.applicantCount ?? null,
+  };
+}
+
+/**
+ * Role : Champs Offer a enregistrer pour les attributs d'une offre scrapee
+ * Parametre attributes : attributs de l'offre (undefined si aucun)
+ * Parametre mode : "create" = tous les champs, "update" = seulement les valeurs connues
+ *   (une offre deja connue n'est pas revisitee : ne pas effacer ses attributs)
+ *
+ * Exemple :
+ *   await prisma.offer.upsert({
+ *     create: { ...data, ...getOfferAttributeData(offer.attributes, "create") },
+ *     update: { ...getOfferAttributeData(offer.attributes, "update") },
+ *   });
+ */
+export function getOfferAttributeData(
+  attributes: OfferAttributes | undefined,
+  mode: "create" | "update"
+): Partial<OfferAttributes> {
+  if (!attributes) return {};
+
+  const data: OfferAttributes = {
+    seniority: attributes.seniority,
+    remotePolicy: attributes.remotePolicy,
+    requiredSkills: attributes.requiredSkills,
+    niceToHaveSkills: attributes.niceToHaveSkills,
+    yearsOfExperience: attributes.yearsOfExperience,
+    postedAt: attributes.postedAt,
+    applicantCount: attributes.applicantCount,
+  };
+  if (mode === "create") return data;
+
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== null && !(Array.isArray(value) && value.length === 0))
+  );
+}
+
+/**
+ * Role : Lire une liste de competences stockee en JSON (Offer.requiredSkills / niceToHaveSkills)
+ * Retourne : competences, [] si absent ou invalide
+ */
+export function getOfferSkills(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((s): s is string => typeof s === "string") : [];
+}
@@ -0,0 +1,322 @@
+import { prisma } from "@/lib/db";
+
+/**
+ * Role : Regroupement des offres d'un meme poste publie sur plusieurs sites (OfferCluster)
+ * Utilise par : save-offers.ts (apres creation d'une offre),
+ *   scripts/cluster-offers.ts (rattrapage des offres existantes)
+ *
+ * Probleme resolu : une meme offre "Developpeur React H/F" chez Qonto apparait sur
+ * LinkedIn, Indeed et WTTJ avec des URLs differentes. Le dedoublonnage par
+ * source + externalId ne peut pas les rapprocher : la correspondance est approximative.
+ *
+ * Deux offres de sources differentes sont regroupees si :
+ *   1. l'entreprise normalisee est identique ("Qonto SAS" = "qonto")
+ *   2. les localisations sont compatibles ("Paris (75)" ⊂ "Paris, Ile-de-France, France")
+ *   3. les titres sont tres proches (TITLE_MATCH_STRONG), ou assez proches
+ *      (TITLE_MATCH_MIN) avec des descriptions similaires (DESCRIPTION_MATCH_MIN)
+ *
+ * Une seule offre du cluster est l'offre principale (isClusterPrimary) : /offers n'affiche
+ * qu'elle, avec un lien vers chaque source. La premiere offre du cluster l'est a sa creation ;
+ * si elle expire alors qu'une autre source est encore en ligne, celle-ci la remplace
+ * (cf. electClusterPrimary). Une offre principale ne peut pas etre supprimee via /api/model
+ * (policy de schema.zmodel) : les autres sources du cluster resteraient sans carte.
+ * Une seule candidature est autorisee par cluster (cf. /api/agent/apply).
+ *
+ * Exemple :
+ *   const clusterId = await clusterOffer(saved.id);
+ *   // "clx..." si l'offre rejoint (ou cree) un cluster, null sinon
+ */
+
+/** Similarite de titre suffisante a elle seule (titres quasi identiques) */
+const TITLE_MATCH_STRONG = 0.85;
+
+/** Similarite de titre minimale, a confirmer par la description */
+const TITLE_MATCH_MIN = 0.6;
+
+/** Similarite de description confirmant un titre seulement proche */
+const DESCRIPTION_MATCH_MIN = 0.5;
+
+/** Description trop courte pour etre comparee (resume de carte, page detail non visitee) */
+const MIN_DESCRIPTION_LENGTH = 300;
+
+/** Anciennete maximale des offres candidates au regroupement */
+const CANDIDATE_WINDOW_DAYS = 60;
+
+/** Nombre maximum de candidates dont la description est comparee */
+const MAX_DESCRIPTION_CANDIDATES = 10;
+
+/** Formes juridiques et mentions ignorees dans le nom d'entreprise */
+const COMPANY_NOISE = new Set([
+  "sas", "sasu", "sa", "sarl", "eurl", "sci", "inc", "ltd", "llc", "gmbh", "plc",
+  "group", "groupe", "france", "the",
+]);
+
+/** Mots sans valeur discriminante dans un titre de poste */
+const TITLE_STOPWORDS = new Set([
+  "de", "du", "des", "la", "le", "les", "l", "d", "en", "et", "a", "au", "aux", "pour",
+  "un", "une", "the", "and", "of", "for", "with",
+  // Mentions de genre : (H/F), F/H, M/F/X, (H/F/X)
+  "h", "f", "m", "x", "w", "hf", "fh", "mf",
+]);
+
+/** Variantes d'un meme mot de titre, ramenees a une forme unique */
+const TITLE_SYNONYMS: Record<string, string> = {
+  dev: "developpeur",
+  developer: "developpeur",
+  developpeuse: "developpeur",
+  engineer: "ingenieur",
+  ingenieure: "ingenieur",
+  sr: "senior",
+  jr: "junior",
+  frontend: "front",
+  backend: "back",
+  fullstack: "full",
+};
+
+/** Champs d'une offre utilises pour la correspondance */
+interface ClusterCandidate {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  source: string;
+  clusterId: string | null;
+}
+
+/**
+ * Role : Normaliser un texte (minuscules, sans accents, ponctuation remplacee par des espaces)
+ * Exemple : normalizeText("Développeur Front-End (H/F)") // "developpeur front end h f"
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Role : Cle de comparaison d'un nom d'entreprise
+ * Exemple : getCompanyKey("Qonto SAS") // "qonto"
+ */
+export function getCompanyKey(company: string): string {
+  return normalizeText(company)
+    .split(" ")
+    .filter((token) => token && !COMPANY_NOISE.has(token))
+    .join(" ");
+}
+
+/**
+ * Role : Mots significatifs d'un titre de poste
+ * Exemple : getTitleTokens("Dev Front-End Senior (H/F)") // {"developpeur", "front", "senior"}
+ */
+function getTitleTokens(title: string): Set<string> {
+  return new Set(
+    normalizeText(title)
+      // "front end" / "front-end" = "frontend", "full stack" = "fullstack"
+      .replace(/\b(front|back|full) (end|stack)\b/g, "$1")
+      .split(" ")
+      .filter((token) => token && !TITLE_STOPWORDS.has(token))
+      .map((token) => TITLE_SYNONYMS[token] ?? token)
+  );
+}
+
+/**
+ * Role : Mots de la ville d'une localisation (partie avant la premiere virgule ou parenthese,
+ * sans code postal ni departement)
+ * Exemple : getLocationTokens("Paris, Île-de-France, France (Hybride)") // {"paris"}
+ */
+function getLocationTokens(location: string): Set<string> {
+  const city = location.split(/[,(]/)[0] ?? "";
+  return new Set(
+    normalizeText(city)
+      .split(" ")
+      .filter((token) => token && !/^\d+$/.test(token))
+  );
+}
+
+/**
+ * Role : Verifier que deux localisations designent le meme lieu
+ * Une localisation absente ne contredit rien ; sinon les mots de l'une doivent
+ * tous figurer dans l'autre ("paris" et "teletravail partiel a paris").
+ */
+function isSameLocation(a: string, b: string): boolean {
+  const tokensA = getLocationTokens(a);
+  const tokensB = getLocationTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return true;
+  const [smaller, larger] = tokensA.size <= tokensB.size ? [tokensA, tokensB] : [tokensB, tokensA];
+  return [...smaller].every((token) => larger.has(token));
+}
+
+/**
+ * Role : Indice de Jaccard entre deux ensembles (0 = disjoints, 1 = identiques)
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Role : Similarite de deux titres de poste (0 a 1)
+ * Exemple : getTitleSimilarity("Développeur React Senior H/F", "Senior React Developer") // 1
+ */
+export function getTitleSimilarity(a: string, b: string): number {
+  return jaccard(getTitleTokens(a), getTitleTokens(b));
+}
+
+/**
+ * Role : Similarite de deux descriptions (0 a 1) sur les mots de 4 lettres ou plus,
+ * insensible a la mise en forme (markdown, listes) propre a chaque site
+ * Retourne : null si l'une des descriptions est trop courte pour etre comparee
+ */
+export function getDescriptionSimilarity(a: string, b: string): number | null {
+  if (a.length < MIN_DESCRIPTION_LENGTH || b.length < MIN_DESCRIPTION_LENGTH) return null;
+  const words = (text: string) =>
+    new Set(normalizeText(text).split(" ").filter((word) => word.length >= 4));
+  return jaccard(words(a), words(b));
+}
+
+/**
+ * Role : Rattacher une offre au cluster du meme poste publie sur un autre site
+ * Parametre offerId : offre a rattacher (generalement tout juste creee)
+ * Retourne : identifiant du cluster rejoint ou cree, ou null si aucune offre correspondante
+ *
+ * Flow :
+ *   1. Candidates : offres du meme utilisateur, d'une autre source, de moins de
+ *      CANDIDATE_WINDOW_DAYS jours, meme entreprise et localisation compatible
+ *   2. Classement par similarite de titre ; description comparee si le titre n'est
+ *      que proche
+ *   3. Meilleure correspondance deja en cluster : l'offre le rejoint (sauf si le cluster
+ *      contient deja une offre de sa source) ; sinon creation d'un cluster dont la
+ *      correspondance est l'offre principale
+ */
+export async function clusterOffer(offerId: string): Promise<string | null> {
+  const offer = await prisma.offer.findUnique({ where: { id: offerId } });
+  if (!offer) return null;
+  if (offer.clusterId) return offer.clusterId;
+
+  const companyKey = getCompanyKey(offer.company);
+  if (!companyKey) return null;
+
+  const candidates: ClusterCandidate[] = await prisma.offer.findMany({
+    where: {
+      userId: offer.userId,
+      id: { not: offer.id },
+      source: { not: offer.source },
+      createdAt: { gte: new Date(Date.now() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+    },
+    select: { id: true, title: true, company: true, location: true, source: true, clusterId: true },
+  });
+
+  const ranked = candidates
+    .filter((c) => getCompanyKey(c.company) === companyKey && isSameLocation(c.location, offer.location))
+    .map((c) => ({ candidate: c, titleSimilarity: getTitleSimilarity(c.title, offer.title) }))
+    .filter((r) => r.titleSimilarity >= TITLE_MATCH_MIN)
+    .sort((a, b) => b.titleSimilarity - a.titleSimilarity)
+    .slice(0, MAX_DESCRIPTION_CANDIDATES);
+
+  if (ranked.length === 0) return null;
+
+  // Descriptions chargees uniquement pour les candidates retenues (textes longs)
+  const descriptions = new Map(
+    (
+      await prisma.offer.findMany({
+        where: { id: { in: ranked.map((r) => r.candidate.id) } },
+        select: { id: true, description: true },
+      })
+    ).map((o) => [o.id, o.description])
+  );
+
+  for (const { candidate, titleSimilarity } of ranked) {
+    if (titleSimilarity < TITLE_MATCH_STRONG) {
+      const similarity = getDescriptionSimilarity(
+        descriptions.get(candidate.id) ?? "",
+        offer.description
+      );
+      if (similarity === null || similarity < DESCRIPTION_MATCH_MIN) continue;
+    }
+
+    if (candidate.clusterId) {
+      // Une offre par source dans un cluster : une 2e offre de la meme source est un autre poste
+      const sameSource = await prisma.offer.count({
+        where: { clusterId: candidate.clusterId, source: offer.source },
+      });
+      if (sameSource > 0) continue;
+
+      await prisma.offer.update({
+        where: { id: offer.id },
+        data: { clusterId: candidate.clusterId, isClusterPrimary: false },
+      });
+      console.log(`[Agent] Offre ${offer.id} (${offer.source}) rattachee au cluster ${candidate.clusterId}`);
+      // Offre principale expiree : la nouvelle offre, en ligne, la remplace
+      await electClusterPrimary(candidate.clusterId);
+      return candidate.clusterId;
+    }
+
+    const cluster = await prisma.$transaction(async (tx) => {
+      const created = await tx.offerCluster.create({ data: { userId: offer.userId } });
+      await tx.offer.update({
+        where: { id: candidate.id },
+        data: { clusterId: created.id, isClusterPrimary: true },
+      });
+      await tx.offer.update({
+        where: { id: offer.id },
+        data: { clusterId: created.id, isClusterPrimary: false },
+      });
+      return created;
+    });
+    console.log(
+      `[Agent] Cluster ${cluster.id} cree : ${candidate.source} ${candidate.id} + ${offer.source} ${offer.id}`
+    );
+    return cluster.id;
+  }
+
+  return null;
+}
+
+/**
+ * Role : Designer l'offre principale d'un cluster, en preferant une offre encore en ligne
+ * Parametre clusterId : cluster a mettre a jour
+ * Retourne : identifiant de l'offre principale, ou null si le cluster est vide
+ *
+ * L'offre principale actuelle est conservee tant qu'elle n'est pas expiree ; sinon la plus
+ * ancienne offre en ligne la remplace. Si toutes les offres sont expirees, l'offre
+ * principale actuelle (a defaut la plus ancienne) reste affichee, grisee.
+ *
+ * Exemple :
+ *   await electClusterPrimary(offer.clusterId); // apres expiration de l'offre principale
+ */
+export async function electClusterPrimary(clusterId: string): Promise<string | null> {
+  const offers = await prisma.offer.findMany({
+    where: { clusterId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, isClusterPrimary: true, expiredAt: true },
+  });
+  if (offers.length === 0) return null;
+
+  const current = offers.find((o) => o.isClusterPrimary);
+  const elected =
+    (current && !current.expiredAt ? current : undefined) ??
+    offers.find((o) => !o.expiredAt) ??
+    current ??
+    offers[0];
+
+  if (elected === current && offers.filter((o) => o.isClusterPrimary).length === 1) {
+    return elected.id;
+  }
+
+  await prisma.$transaction([
+    prisma.offer.updateMany({
+      where: { clusterId, id: { not: elected.id } },
+      data: { isClusterPrimary: false },
+    }),
+    prisma.offer.update({ where: { id: elected.id }, data: { isClusterPrimary: true } }),
+  ]);
+  console.log(`[Agent] Offre ${elected.id} designee offre principale du cluster ${clusterId}`);
+  return elected.id;
+}
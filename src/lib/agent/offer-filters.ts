@@ -0,0 +1,171 @@
+import type { SearchCriteria } from "./orchestrator";
+import type { ScrapedOffer } from "./tools";
+import { parseSalary } from "./salary-parser";
+
+/**
+ * Role : Filtrage deterministe des offres extraites selon les regles de la SearchConfig
+ * Utilise par : orchestrator.ts (apres l'extraction Claude, puis apres l'enrichissement)
+ *
+ * Le prompt d'extraction mentionne deja les mots-cles exclus, mais Claude ne les
+ * respecte pas toujours : ce filtre garantit que les regles sont appliquees.
+ *
+ * Regles (une offre est ecartee a la premiere regle violee) :
+ *   1. excludedKeyword : un mot-cle exclu apparait dans le titre, l'entreprise ou la description
+ *   2. salaryBelowMin : le salaire est connu et son plafond annuel est inferieur a salaryMin
+ *   3. contractTypeMismatch : le type de contrat est reconnu et absent de contractTypes
+ *
+ * Une information absente ou illisible (salaire non affiche, contrat inconnu)
+ * ne suffit jamais a ecarter une offre.
+ *
+ * Exemple :
+ *   const { offers, dropped } = filterOffers(extracted, criteria);
+ *   // dropped = { excludedKeyword: 3, salaryBelowMin: 1, contractTypeMismatch: 2 }
+ */
+
+/** Motif de rejet d'une offre */
+export type DropReason = "excludedKeyword" | "salaryBelowMin" | "contractTypeMismatch";
+
+/**
+ * Nombre d'offres ecartees par motif, stocke dans AgentRun.result
+ * (type litteral plutot qu'interface : assignable a Prisma.InputJsonValue)
+ */
+export type DroppedCounts = Record<DropReason, number>;
+
+/** Resultat du filtrage : offres conservees + compteurs de rejet */
+export interface FilterResult {
+  offers: ScrapedOffer[];
+  dropped: DroppedCounts;
+}
+
+/**
+ * Correspondance libelles de contrat → valeurs de CONTRACT_TYPES.
+ * Les libelles sont compares apres normalisation (minuscules, sans accents).
+ */
+const CONTRACT_TYPE_PATTERNS: { value: string; patterns: RegExp[] }[] = [
+  { value: "alternance", patterns: [/alternan/, /apprenti/, /professionnalisation/] },
+  { value: "stage", patterns: [/\bstage\b/, /\bstagiaire\b/, /\bintern(ship)?\b/] },
+  { value: "freelance", patterns: [/freelance/, /independant/, /\bfreelancer\b/, /\bportage\b/] },
+  { value: "CDD", patterns: [/\bcdd\b/, /duree determinee/, /\binterim\b/, /temporaire/] },
+  { value: "CDI", patterns: [/\bcdi\b/, /duree indeterminee/, /permanent/] },
+];
+
+/**
+ * Role : Creer des compteurs de rejet a zero
+ * Retourne : { excludedKeyword: 0, salaryBelowMin: 0, contractTypeMismatch: 0 }
+ */
+export function emptyDroppedCounts(): DroppedCounts {
+  return { excludedKeyword: 0, salaryBelowMin: 0, contractTypeMismatch: 0 };
+}
+
+/**
+ * Role : Additionner deux compteurs de rejet
+ * Exemple : mergeDroppedCounts(siteA, siteB) // { excludedKeyword: 4, ... }
+ */
+export function mergeDroppedCounts(a: DroppedCounts, b: DroppedCounts): DroppedCounts {
+  return {
+    excludedKeyword: a.excludedKeyword + b.excludedKeyword,
+    salaryBelowMin: a.salaryBelowMin + b.salaryBelowMin,
+    contractTypeMismatch: a.contractTypeMismatch + b.contractTypeMismatch,
+  };
+}
+
+/**
+ * Role : Normaliser un texte pour la comparaison (minuscules, sans accents)
+ * Exemple : normalize("Développeur Junior") // "developpeur junior"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Role : Verifier si un mot-cle apparait comme mot entier dans un texte normalise
+ * Le mot-cle "stage" ne doit pas matcher "stagiaire" ni "backstage".
+ */
+function containsKeyword(normalizedText: string, keyword: string): boolean {
+  const escaped = normalize(keyword).trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (!escaped) return false;
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(normalizedText);
+}
+
+/**
+ * Role : Estimer le plafond annuel d'un salaire affiche en texte libre
+ * Parametre salary : texte du salaire (ex: "45 000 € - 55 000 € par an", "500 €/jour", "45-55k€")
+ * Retourne : plafond annualise (cf. parseSalary), ou null si aucun montant n'est lisible
+ *
+ * On compare le plafond (et non le plancher) a salaryMin : une fourchette
+ * "40-60k" reste pertinente pour un minimum de 50k.
+ *
+ * Exemple :
+ *   parseAnnualSalaryCeiling("3 000 € par mois") // 36000
+ *   parseAnnualSalaryCeiling("Selon profil")      // null
+ */
+export function parseAnnualSalaryCeiling(salary: string): number | null {
+  return parseSalary(salary)?.annualMax ?? null;
+}
+
+/**
+ * Role : Reconnaitre le type de contrat d'une offre
+ * Parametre contractType : libelle extrait (ex: "Freelance / Indépendant", "Temps plein, CDI")
+ * Retourne : valeur de CONTRACT_TYPES (ex: "freelance") ou null si non reconnu
+ */
+export function normalizeContractType(contractType: string): string | null {
+  const text = normalize(contractType);
+  const match = CONTRACT_TYPE_PATTERNS.find(({ patterns }) =>
+    patterns.some((pattern) => pattern.test(text))
+  );
+  return match?.value ?? null;
+}
+
+/**
+ * Role : Determiner le motif de rejet d'une offre
+ * Retourne : le premier motif viole, ou null si l'offre est conservee
+ */
+function getDropReason(offer: ScrapedOffer, criteria: SearchCriteria): DropReason | null {
+  if (criteria.excludeKeywords.length > 0) {
+    const haystack = normalize(`${offer.title}\n${offer.company}\n${offer.description}`);
+    if (criteria.excludeKeywords.some((keyword) => containsKeyword(haystack, keyword))) {
+      return "excludedKeyword";
+    }
+  }
+
+  if (criteria.salaryMin && offer.salary) {
+    const ceiling = parseAnnualSalaryCeiling(offer.salary);
+    if (ceiling !== null && ceiling < criteria.salaryMin) {
+      return "salaryBelowMin";
+    }
+  }
+
+  if (criteria.contractTypes.length > 0 && offer.contractType) {
+    const contractType = normalizeContractType(offer.contractType);
+    if (contractType && !criteria.contractTypes.includes(contractType)) {
+      return "contractTypeMismatch";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Role : Ecarter les offres qui ne respectent pas les regles de la recherche
+ * Parametre offers : offres extraites
+ * Parametre criteria : criteres de recherche (excludeKeywords, salaryMin, contractTypes)
+ * Retourne : { offers, dropped } — offres conservees et compteurs par motif
+ */
+export function filterOffers(offers: ScrapedOffer[], criteria: SearchCriteria): FilterResult {
+  const dropped = emptyDroppedCounts();
+  const kept: ScrapedOffer[] = [];
+
+  for (const offer of offers) {
+    const reason = getDropReason(offer, criteria);
+    if (reason) {
+      dropped[reason]++;
+    } else {
+      kept.push(offer);
+    }
+  }
+
+  return { offers: kept, dropped };
+}
@@ -0,0 +1,243 @@
+import { prisma } from "@/lib/db";
+import { getSiteAdapter, type SiteAdapter } from "./adapters";
+import { acquireBrowserSlot } from "./browser-pool";
+import { electClusterPrimary } from "./offer-clusters";
+import {
+  launchBrowser,
+  playwrightClose,
+  playwrightGetText,
+  playwrightNavigate,
+  playwrightWait,
+} from "./playwright-tool";
+
+/**
+ * Role : Verification qu'une offre est toujours en ligne et expiration automatique
+ * Utilise par : la fonction Inngest check-source-liveness (un lot d'offres d'un meme site)
+ *
+ * Probleme resolu : une offre reste dans /offers apres sa cloture sur le site source ;
+ * le candidat prepare parfois une candidature pour un poste deja pourvu.
+ *
+ * Une offre est expiree si sa page :
+ *   - repond 404 ou 410
+ *   - affiche une mention de cloture (GENERIC_CLOSED_INDICATORS ou config.closedIndicators,
+ *     ex: LinkedIn "N'accepte plus de candidatures")
+ *   - redirige vers une autre offre ou une page de recherche (identifiant different)
+ * Une page bloquee (captcha, connexion demandee) ou une erreur reseau ne permet pas de
+ * conclure : l'offre reste ouverte et sera reverifiee au prochain passage. Apres un
+ * blocage, les offres restantes du lot ne sont pas visitees (eviter d'aggraver le blocage) ;
+ * ces offres sont marquees blocked, decomptees dans le resultat de check-source-liveness.
+ *
+ * Les pages sont visitees sans session connectee, espacees de LIVENESS_DELAY_MS :
+ * les lots d'un meme site ne s'executent jamais en parallele (concurrence Inngest par site).
+ * Un lot melange les offres de plusieurs utilisateurs : aucune session LinkedIn n'est
+ * restauree, une offre LinkedIn derriere l'authwall reste donc non verifiee (blocked).
+ *
+ * Exemple :
+ *   const results = await checkOffersLiveness("wttj", offers);
+ *   await saveLivenessResults(results);
+ *   // [{ offerId: "clx...", status: "expired", reason: "Page introuvable (404)" }, ...]
+ */
+
+/** Pause entre deux pages d'un meme site */
+const LIVENESS_DELAY_MS = 4000;
+
+/** Mentions de cloture communes aux sites, en minuscules sans accents */
+const GENERIC_CLOSED_INDICATORS = [
+  "cette offre n'est plus disponible",
+  "cette offre a expire",
+  "offre expiree",
+  "n'accepte plus de candidatures",
+  "no longer accepting applications",
+  "this job is no longer available",
+  "this job has expired",
+];
+
+/** Codes HTTP d'une page d'offre supprimee */
+const GONE_STATUSES = [404, 410];
+
+/** Motif d'une page bloquee : arrete la verification du lot */
+const BLOCKED_REASON = "Page bloquee ou connexion demandee";
+
+/** Resultat de la verification d'une offre */
+export type LivenessStatus = "alive" | "expired" | "unknown";
+
+/** Offre a verifier (champs necessaires a la visite) */
+export interface LivenessCandidate {
+  id: string;
+  url: string;
+  externalId: string | null;
+  title: string;
+}
+
+/** Verification d'une offre */
+export interface LivenessResult {
+  offerId: string;
+  status: LivenessStatus;
+  /** Motif lisible (cloture detectee, blocage, erreur) */
+  reason: string;
+  /** true si l'offre n'a pas ete verifiee a cause d'un blocage du site (page bloquee ou non visitee) */
+  blocked?: boolean;
+}
+
+/**
+ * Role : Normaliser un texte pour la recherche des mentions de cloture
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\u2019`]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Role : Visiter la page d'une offre et determiner si elle est encore ouverte
+ * Parametre adapter : adaptateur du site (blocage, forme canonique des URLs)
+ * Parametre sessionName : session Playwright ouverte
+ * Parametre offer : offre a verifier
+ * Retourne : alive, expired (avec le motif) ou unknown (blocage, erreur)
+ */
+async function checkOfferPage(
+  adapter: SiteAdapter,
+  sessionName: string,
+  offer: LivenessCandidate
+): Promise<LivenessResult> {
+  const result = (status: LivenessStatus, reason: string): LivenessResult => ({
+    offerId: offer.id,
+    status,
+    reason,
+  });
+
+  let navigation: { url: string; status: number | null };
+  try {
+    navigation = JSON.parse(await playwrightNavigate(sessionName, offer.url));
+  } catch (error) {
+    return result("unknown", `Navigation impossible : ${(error as Error).message}`);
+  }
+
+  if (navigation.status !== null && GONE_STATUSES.includes(navigation.status)) {
+    return result("expired", `Page introuvable (${navigation.status})`);
+  }
+
+  const finalUrl = navigation.url.toLowerCase();
+  const loginUrl = adapter.config.loginUrl?.toLowerCase();
+  if (
+    adapter.isBlocked(finalUrl) ||
+    finalUrl.includes("authwall") ||
+    (loginUrl && finalUrl.startsWith(loginUrl))
+  ) {
+    return { ...result("unknown", BLOCKED_REASON), blocked: true };
+  }
+
+  const text = normalize(await playwrightGetText(sessionName, ["body"], 20_000));
+  const indicator = [...adapter.config.closedIndicators, ...GENERIC_CLOSED_INDICATORS].find(
+    (closed) => text.includes(closed)
+  );
+  if (indicator) {
+    return result("expired", `Mention de cloture : "${indicator}"`);
+  }
+
+  // Redirection vers une autre page (offre supprimee → page de recherche ou d'entreprise)
+  if (offer.externalId) {
+    const { externalId } = adapter.canonicalizeUrl(navigation.url);
+    if (externalId !== offer.externalId) {
+      return result("expired", "Redirection vers une autre page");
+    }
+  }
+
+  return result("alive", "Offre en ligne");
+}
+
+/**
+ * Role : Verifier un lot d'offres d'un meme site
+ * Parametre source : identifiant du site (Offer.source)
+ * Parametre offers : offres a verifier, visitees dans l'ordre
+ * Retourne : une verification par offre (unknown et blocked pour les offres non visitees
+ *   apres un blocage)
+ * Leve une erreur si le navigateur ne peut pas etre lance (nouvel essai Inngest)
+ *
+ * Reserve un slot du navigateur partage (cf. browser-pool) le temps du lot :
+ * les recherches des utilisateurs restent prioritaires sur le nombre de contexts.
+ */
+export async function checkOffersLiveness(
+  source: string,
+  offers: LivenessCandidate[]
+): Promise<LivenessResult[]> {
+  const adapter = getSiteAdapter(source);
+  if (!adapter) {
+    return offers.map((o) => ({ offerId: o.id, status: "unknown", reason: `Site "${source}" non supporte` }));
+  }
+
+  const sessionName = `liveness-${source}-${Date.now()}`;
+  const results: LivenessResult[] = [];
+  const slot = await acquireBrowserSlot(sessionName);
+
+  try {
+    await launchBrowser(sessionName);
+
+    for (const offer of offers) {
+      const result = await checkOfferPage(adapter, sessionName, offer);
+      results.push(result);
+      console.log(`[Agent] Verification ${source} "${offer.title}" : ${result.status} (${result.reason})`);
+
+      if (result.blocked) {
+        console.warn(`[Agent] ${source} bloque la verification, arret du lot`);
+        break;
+      }
+
+      await playwrightWait(sessionName, LIVENESS_DELAY_MS);
+    }
+  } finally {
+    await playwrightClose(sessionName);
+    slot.release();
+  }
+
+  // Offres non visitees apres un blocage (un echec du lancement du navigateur est propage)
+  const checked = new Set(results.map((r) => r.offerId));
+  for (const offer of offers) {
+    if (!checked.has(offer.id)) {
+      results.push({ offerId: offer.id, status: "unknown", reason: "Non verifiee (site bloque)", blocked: true });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Role : Enregistrer les verifications sur les offres
+ * Parametre results : verifications du lot
+ * Retourne : nombre d'offres expirees
+ *
+ * Une verification unknown ne met pas a jour lastCheckedAt : l'offre reste prioritaire
+ * au prochain passage. L'expiration d'une offre principale de cluster designe une autre
+ * source encore en ligne comme offre principale (cf. electClusterPrimary).
+ */
+export async function saveLivenessResults(results: LivenessResult[]): Promise<number> {
+  const now = new Date();
+  let expired = 0;
+
+  for (const result of results) {
+    if (result.status === "unknown") continue;
+
+    if (result.status === "expired") {
+      expired++;
+      const offer = await prisma.offer.update({
+        where: { id: result.offerId },
+        data: { lastCheckedAt: now, expiredAt: now, expiredReason: result.reason },
+        select: { clusterId: true, isClusterPrimary: true },
+      });
+      // Offre principale expiree : une autre source encore en ligne represente le poste
+      if (offer.clusterId && offer.isClusterPrimary) {
+        await electClusterPrimary(offer.clusterId);
+      }
+    } else {
+      await prisma.offer.update({
+        where: { id: result.offerId },
+        data: { lastCheckedAt: now },
+      });
+    }
+  }
+
+  return expired;
+}
@@ -1,45 +1,107 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
 import type { ScrapedOffer } from "./tools";
-import { buildSearchUrl, LINKEDIN_CONFIG, SITE_CONFIGS } from "./site-configs";
+import { isNoResultsPage, type SiteConfig } from "./site-configs";
+import {
+  getSiteAdapter,
+  type ExtractedLink,
+  type LoginResult,
+  type SiteAdapter,
+} from "./adapters";
+import {
+  emptyDroppedCounts,
+  filterOffers,
+  mergeDroppedCounts,
+  type DroppedCounts,
+} from "./offer-filters";
+import { buildOffersFromCards, resolveCardUrl } from "./card-extractor";
+import { loadKnownOfferUrls } from "./known-offers";
+import {
+  createEmptyOfferAttributes,
+  mergeOfferAttributes,
+  parseLlmAttributes,
+  parseYearsOfExperience,
+  type OfferAttributes,
+} from "./offer-attributes";
 import {
   launchBrowser,
   playwrightNavigate,
-  playwrightSnapshot,
+  playwrightCaptureFailure,
   playwrightClose,
-  playwrightExtractLinks,
-  playwrightScroll,
+  attachBrowserSlot,
+  playwrightGetStorageState,
   playwrightGetUrl,
-  playwrightFill,
-  playwrightClick,
   playwrightWait,
-  playwrightGetJobDescription,
+  type FailureCapture,
+  type JobCardElements,
 } from "./playwright-tool";
+import { deleteStorageState, loadStorageState, saveStorageState } from "./session-store";
+import {
+  getListSelectors,
+  measureSelectors,
+  mergeSelectorHits,
+  recordSelectorHits,
+  type SelectorHits,
+} from "./selector-health";
+import { acquireBrowserSlot, type BrowserSlot } from "./browser-pool";
+import { isFixtureMode } from "./fixtures";
+import {
+  createDescriptionCacheStats,
+  hashDescription,
+  loadCachedDescription,
+  mergeDescriptionCacheStats,
+  saveCachedDescription,
+  type DescriptionCacheStats,
+} from "./description-cache";
+import {
+  completeStructured,
+  getLlmService,
+  parseValidItems,
+  type LlmService,
+  type LlmUsageListener,
+  type StructuredParseResult,
+} from "@/lib/llm";
 
 /**
- * Role : Orchestrateur principal de l'agent de scraping LinkedIn authentifie
+ * Role : Orchestrateur principal de l'agent de scraping (LinkedIn authentifie, WTTJ public)
  * Utilise par : la route API POST /api/agent/search
  *
  * Architecture :
- *   - Playwright se connecte a LinkedIn avec les identifiants de l'utilisateur
- *   - Navigation deterministe (login → recherche → extraction)
- *   - UN SEUL appel Claude Sonnet pour structurer les offres du snapshot
+ *   - Un SiteAdapter par entree de criteria.sites (cf. ./adapters), chacun dans
+ *     sa propre session Playwright : l'orchestrateur ne connait aucun site en dur
+ *   - Les sites sont independants : l'echec d'un site n'efface pas les offres des autres
+ *   - Navigation deterministe (login eventuel → recherche → extraction)
+ *   - Extraction deterministe des cartes d'offres via les selecteurs du site ;
+ *     UN appel Claude Sonnet sur le snapshot uniquement si aucune carte n'est lisible
+ *
+ * Flow complet (pour chaque site) :
+ *   1. Ouvrir une session Playwright (context isole sur le navigateur partage, un slot
+ *      par run : les runs en surnombre attendent en file, cf. ./browser-pool)
+ *   2. adapter.login si defini (LinkedIn : email + mot de passe, checkpoint = 2FA),
+ *      saute si la session persistee (cookies chiffres en base) est encore valide
+ *   3. Naviguer vers adapter.buildSearchUrl puis paginer via adapter.buildPageUrl,
+ *      jusqu'a une page composee presque uniquement d'offres deja en base (scraping incremental)
+ *   4. adapter.isBlocked sur chaque page (captcha, challenge)
+ *   5. adapter.extractList : snapshot + liens + cartes, releve des selecteurs (derive
+ *      de markup, cf. ./selector-health)
+ *   6. Offres construites depuis les cartes (cf. ./card-extractor), repli sur un appel
+ *      Claude Sonnet si aucune carte n'est exploitable, puis filtrage deterministe
+ *      (mots-cles exclus, salaire minimum, type de contrat — cf. ./offer-filters)
+ *   7. adapter.extractDetail sur les pages detail des offres nouvelles (les offres deja
+ *      en base gardent leur description) puis fermer le navigateur ; le nettoyage Haiku
+ *      d'un texte brut deja vu est repris du cache (cf. ./description-cache)
  *
- * Flow complet :
- *   1. Lancer Playwright
- *   2. Naviguer vers linkedin.com/login
- *   3. Remplir email + mot de passe via playwrightFill()
- *   4. Cliquer le bouton de connexion via playwrightClick()
- *   5. Verifier le login (feed = OK, checkpoint = 2FA, login = echec)
- *   6. Si OK : naviguer vers /jobs/search?keywords=...&location=...
- *   7. Scroller pour charger les resultats (lazy loading)
- *   8. Capturer snapshot + extraire liens
- *   9. UN appel Claude Sonnet pour structurer les offres
- *   10. Fermer le navigateur
+ * Echec ou blocage d'un site : capture d'ecran, HTML et trace (SCRAPER_TRACE=1) transmis a
+ * options.onFailureCapture avant la fermeture du navigateur (cf. ./run-artifacts)
  *
- * Cout estime : ~0.03$ par recherche (1 seul appel Sonnet)
+ * Cout estime : nettoyage Haiku des pages detail hors cache uniquement ; ~0.03$ de plus par site
+ * quand l'extraction se replie sur Sonnet (le chemin utilise est rapporte par site).
+ * Cout reel : chaque appel est transmis a options.onLlmUsage (cf. ./run-usage)
+ *
+ * Mode fixtures (SCRAPER_FIXTURES=1, cf. ./fixtures) : pages enregistrees servies
+ * localement, fournisseur LLM deterministe (cf. @/lib/llm), aucune session persistee ni offre connue en base.
  *
  * Exemple :
- *   const offers = await runSearchAgent({
+ *   const { offers, sites } = await runSearchAgent({
  *     query: "developpeur React",
  *     location: "Paris",
  *     sites: ["linkedin"],
@@ -58,7 +120,7 @@ export interface SearchCriteria {
   query: string;
   /** Localisation (ex: "Paris") */
   location: string;
-  /** Sites a scraper (toujours ["linkedin"]) */
+  /** Sites a scraper (ex: ["linkedin", "wttj"]) */
   sites: string[];
   /** Types de contrat recherches (ex: ["CDI", "CDD"]) */
   contractTypes: string[];
@@ -68,27 +130,71 @@ export interface SearchCriteria {
   salaryMin: number | null;
   /** Mots-cles a exclure des resultats */
   excludeKeywords: string[];
-  /** Email de connexion LinkedIn (requis pour le scraping authentifie) */
-  linkedinEmail: string;
-  /** Mot de passe LinkedIn (requis pour le scraping authentifie) */
-  linkedinPassword: string;
+  /** Email de connexion LinkedIn (requis uniquement si sites contient "linkedin") */
+  linkedinEmail: string | null;
+  /** Mot de passe LinkedIn (requis uniquement si sites contient "linkedin") */
+  linkedinPassword: string | null;
+}
+
+/** Demande de saisie adressee a l'utilisateur pendant un run (ex: code 2FA) */
+export interface VerificationRequest {
+  /** Identifiant du site (ex: "linkedin") */
+  site: string;
+  /** Message affiche a l'utilisateur */
+  message: string;
+}
+
+/** Captures de la page d'un site en echec ou bloque (cf. playwrightCaptureFailure) */
+export interface SiteFailureCapture extends FailureCapture {
+  /** Identifiant du site (ex: "linkedin") */
+  site: string;
+  /** Motif : message d'erreur ou blocage detecte */
+  reason: string;
+}
+
+/** Options d'execution de runSearchAgent */
+export interface SearchAgentOptions {
+  /**
+   * Demander un code de verification a l'utilisateur quand un site exige une 2FA.
+   * Retourne le code saisi, ou null si aucune reponse avant expiration.
+   * Absent = pas de mode interactif, le run echoue sur le checkpoint.
+   */
+  requestVerificationCode?: (request: VerificationRequest) => Promise<string | null>;
+  /**
+   * Signaler l'attente d'un navigateur libre (cf. ./browser-pool) : position dans la file,
+   * puis null au demarrage du scraping. Absent = attente silencieuse.
+   */
+  onQueueChange?: (position: number | null) => Promise<void>;
+  /**
+   * Conserver les captures d'un site en echec ou bloque (capture d'ecran, HTML, trace si
+   * SCRAPER_TRACE=1). Absent = aucune capture, aucune trace enregistree.
+   */
+  onFailureCapture?: (capture: SiteFailureCapture) => Promise<void>;
+  /**
+   * Enregistrer la consommation de chaque appel LLM du run (modele, tokens, cout),
+   * cf. ./run-usage. Absent = consommation non mesuree.
+   */
+  onLlmUsage?: LlmUsageListener;
+  /**
+   * Signaler que le run avance (debut d'un site, page de resultats, page detail), meme sans
+   * appel LLM (descriptions reprises du cache) : un run actif n'est pas pris pour un run
+   * interrompu (cf. failStaleAgentRuns). Absent = aucun signal.
+   */
+  onProgress?: () => Promise<void>;
 }
 
 /**
- * Modele Claude a utiliser pour l'extraction des offres.
- * Sonnet offre un bon rapport qualite/prix pour l'extraction structuree.
+ * Nombre maximum de codes de verification acceptes par login
+ * (un code mal saisi peut etre corrige une fois)
  */
-const EXTRACTION_MODEL = "claude-sonnet-4-5-20250929";
+const MAX_VERIFICATION_ATTEMPTS = 2;
 
 /** Nombre maximum d'offres a extraire (75 = 3 pages de 25 resultats LinkedIn) */
 const MAX_OFFERS_PER_SITE = 75;
 
-/** Nombre maximum de pages LinkedIn a scraper (pagination via &start=0,25,50) */
+/** Nombre maximum de pages de resultats a scraper par site */
 const MAX_PAGES = 3;
 
-/** Nombre de resultats par page LinkedIn */
-const LINKEDIN_RESULTS_PER_PAGE = 25;
-
 /**
  * Nombre maximum de pages detail a visiter pour enrichir les descriptions.
  * Limite a 15 pour equilibrer qualite et temps d'execution (~45s supplementaires).
@@ -96,238 +202,359 @@ const LINKEDIN_RESULTS_PER_PAGE = 25;
  */
 const MAX_DETAIL_PAGES = 15;
 
-
 /**
- * URLs indicatrices du resultat du login LinkedIn.
- * - /feed : login reussi, l'utilisateur est connecte
- * - /checkpoint : verification en 2 etapes (2FA) ou challenge de securite
- * - /login : echec du login (identifiants invalides ou autre erreur)
+ * Part d'offres deja en base a partir de laquelle une page de resultats arrete la pagination.
+ * Les resultats etant tries par date, les pages suivantes ne contiennent plus de nouveautes ;
+ * 80 % (et non 100 %) tolere les offres sponsorisees recentes remontees en tete de liste.
  */
-const LOGIN_SUCCESS_INDICATORS = ["/feed", "/mynetwork", "/jobs"];
-const LOGIN_CHALLENGE_INDICATORS = ["/checkpoint", "/challenge"];
-const LOGIN_FAILURE_INDICATORS = ["/login", "/uas/login"];
+const KNOWN_PAGE_STOP_RATIO = 0.8;
+
 
 /**
- * Role : Se connecter a LinkedIn via Playwright
- * Parametre sessionName : identifiant de la session Playwright
- * Parametre email : email de connexion LinkedIn
- * Parametre password : mot de passe LinkedIn
- * Retourne : { success: boolean, error?: string }
+ * Role : Lancer le navigateur et authentifier la session si le site le requiert
+ * Parametre adapter : adaptateur du site (login / isSessionValid optionnels)
+ * Parametre criteria : criteres de recherche (identifiants LinkedIn)
+ * Parametre sessionName : nom unique de la session Playwright
+ * Parametre userId : proprietaire de la session persistee
  *
- * Flow :
- *   1. goto("https://www.linkedin.com/login")
- *   2. fill("#username", email)
- *   3. fill("#password", password)
- *   4. click('button[type="submit"]')
- *   5. waitForTimeout(3000)
- *   6. getUrl() → verifier la redirection
+ * Parametre options : options du run (demande de code 2FA)
  *
- * Exemple :
- *   const result = await loginToLinkedIn("session1", "user@mail.com", "pass123");
- *   if (result.success) { /* connecte * / }
+ * Flow pour un site avec login :
+ *   1. Restaurer l'etat de session chiffre (loadStorageState) dans le navigateur
+ *   2. Si adapter.isSessionValid confirme la session : pas de login
+ *   3. Sinon (absente ou expiree) : login par identifiants
+ *   4. Si le site demande une verification : code demande a l'utilisateur puis
+ *      saisi dans la meme session (resolveLoginChallenge)
+ *   5. Sauvegarde du nouvel etat de session
+ *
+ * Retourne : releve des selecteurs de la page de login ({} si le login a ete saute)
+ * Leve une erreur si le login echoue (l'etat persiste est alors supprime, le releve
+ * des selecteurs de login est enregistre avant : un champ introuvable explique souvent l'echec).
+ * En mode fixtures, l'etat de session n'est ni lu ni ecrit (aucune BDD requise).
  */
-async function loginToLinkedIn(
+async function startAuthenticatedSession(
+  adapter: SiteAdapter,
+  criteria: SearchCriteria,
   sessionName: string,
-  email: string,
-  password: string
-): Promise<{ success: boolean; error?: string }> {
-  const { loginSelectors, loginUrl } = LINKEDIN_CONFIG;
+  userId: string,
+  options: SearchAgentOptions
+): Promise<SelectorHits> {
+  const { config } = adapter;
+  // Trace Playwright utile uniquement si les captures d'echec sont conservees
+  const trace = isTraceEnabled() && Boolean(options.onFailureCapture);
+
+  if (!adapter.login) {
+    await launchBrowser(sessionName, { trace });
+    return {};
+  }
 
-  try {
-    // 1. Naviguer vers la page de connexion LinkedIn
-    console.log("[Agent] Navigation vers la page de connexion LinkedIn...");
-    await playwrightNavigate(sessionName, loginUrl);
-
-    // 2. Remplir le champ email
-    console.log("[Agent] Saisie de l'email LinkedIn...");
-    await playwrightFill(sessionName, loginSelectors.emailInput, email);
-
-    // 3. Remplir le champ mot de passe
-    console.log("[Agent] Saisie du mot de passe LinkedIn...");
-    await playwrightFill(sessionName, loginSelectors.passwordInput, password);
-
-    // 4. Cliquer sur le bouton de connexion
-    console.log("[Agent] Clic sur le bouton de connexion...");
-    await playwrightClick(sessionName, loginSelectors.submitButton);
-
-    // 5. Attendre la redirection apres soumission du formulaire
-    await playwrightWait(sessionName, 3000);
-
-    // 6. Verifier l'URL actuelle pour determiner le resultat du login
-    const currentUrl = await playwrightGetUrl(sessionName);
-    const urlPath = new URL(currentUrl).pathname.toLowerCase();
-    console.log(`[Agent] URL apres login : ${currentUrl}`);
-
-    // Verifier si le login a reussi (redirection vers /feed, /mynetwork ou /jobs)
-    if (LOGIN_SUCCESS_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
-      console.log("[Agent] Login LinkedIn reussi !");
-      return { success: true };
+  const persistSession = !isFixtureMode();
+  const storageState = persistSession ? await loadStorageState(userId, config.id) : null;
+  await launchBrowser(sessionName, { storageState: storageState ?? undefined, trace });
+
+  if (storageState && adapter.isSessionValid) {
+    if (await adapter.isSessionValid(sessionName)) {
+      console.log(`[Agent] Session ${config.name} restauree, login non necessaire`);
+      return {};
     }
+    console.log(`[Agent] Session ${config.name} expiree, login par identifiants...`);
+  }
 
-    // Verifier si LinkedIn demande une verification 2FA ou challenge
-    if (LOGIN_CHALLENGE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
-      console.warn("[Agent] LinkedIn demande une verification en 2 etapes (2FA/CAPTCHA)");
-      return {
-        success: false,
-        error: "LinkedIn demande une verification en 2 etapes. Connectez-vous manuellement a LinkedIn dans un navigateur pour valider votre appareil, puis relancez la recherche.",
-      };
+  let loginResult = await adapter.login(sessionName, criteria);
+  const loginHits = loginResult.selectorHits ?? {};
+
+  if (loginResult.challenge) {
+    loginResult = await resolveLoginChallenge(adapter, sessionName, loginResult, options);
+  }
+
+  if (!loginResult.success) {
+    console.error(`[Agent] Login ${config.name} echoue : ${loginResult.error}`);
+    if (persistSession) await deleteStorageState(userId, config.id);
+    await recordSiteSelectorHits(config, loginHits);
+    throw new Error(loginResult.error || `Echec de la connexion a ${config.name}`);
+  }
+
+  if (!persistSession) return loginHits;
+
+  // Persister la session pour les prochaines recherches (echec non bloquant)
+  try {
+    await saveStorageState(userId, config.id, await playwrightGetStorageState(sessionName));
+    console.log(`[Agent] Session ${config.name} sauvegardee pour user=${userId}`);
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Sauvegarde de la session ${config.name} impossible : ${err.message}`);
+  }
+
+  return loginHits;
+}
+
+/**
+ * Role : Enregistrer le releve des selecteurs d'un scraping (echec non bloquant)
+ * Parametre config : configuration du site scrape
+ * Parametre hits : releve cumule (login + pages de resultats)
+ * Retourne : cles des selecteurs en derive (alerte ouverte)
+ *
+ * En mode fixtures, rien n'est enregistre (aucune BDD requise).
+ */
+async function recordSiteSelectorHits(config: SiteConfig, hits: SelectorHits): Promise<string[]> {
+  if (isFixtureMode()) return [];
+
+  try {
+    const drifting = await recordSelectorHits(config, hits);
+    if (drifting.length > 0) {
+      console.warn(`[Agent] ${config.id} : selecteur(s) en derive : ${drifting.join(", ")}`);
     }
+    return drifting;
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Enregistrement du releve des selecteurs ${config.id} impossible : ${err.message}`);
+    return [];
+  }
+}
+
+/**
+ * Role : Indiquer si les traces Playwright sont activees (SCRAPER_TRACE=1)
+ * Desactivees par defaut : une trace garde snapshots et captures en memoire pendant tout le run.
+ */
+function isTraceEnabled(): boolean {
+  return process.env.SCRAPER_TRACE === "1";
+}
+
+/**
+ * Role : Appeler options.onProgress sans laisser un echec (ex: BDD) interrompre le run
+ */
+async function notifyProgress(options: SearchAgentOptions): Promise<void> {
+  if (!options.onProgress) return;
+  try {
+    await options.onProgress();
+  } catch (error) {
+    console.warn(`[Agent] Signal d'avancement du run impossible : ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Role : Capturer la page d'un site en echec et la transmettre a options.onFailureCapture
+ * Parametre config : configuration du site
+ * Parametre sessionName : session a capturer (sans effet si elle est deja fermee)
+ * Parametre reason : motif de la capture
+ * Parametre options : options du run (onFailureCapture)
+ *
+ * Echec non bloquant : l'erreur d'origine du site reste celle rapportee.
+ */
+async function captureSiteFailure(
+  config: SiteConfig,
+  sessionName: string,
+  reason: string,
+  options: SearchAgentOptions
+): Promise<void> {
+  if (!options.onFailureCapture) return;
+
+  try {
+    const capture = await playwrightCaptureFailure(sessionName);
+    if (!capture) return;
+    await options.onFailureCapture({ ...capture, site: config.id, reason });
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Capture de l'echec ${config.id} impossible : ${err.message}`);
+  }
+}
+
+/**
+ * Role : Resoudre une verification (2FA / checkpoint) en demandant le code a l'utilisateur
+ * Parametre adapter : adaptateur du site (submitVerificationCode)
+ * Parametre sessionName : session restee sur la page de verification
+ * Parametre challenge : resultat du login { challenge: true }
+ * Parametre options : options du run (requestVerificationCode)
+ * Retourne : resultat final du login (success, ou erreur explicite)
+ *
+ * Sans mode interactif (pas de requestVerificationCode) ou si le site ne sait
+ * pas saisir de code, le resultat initial est retourne tel quel.
+ */
+async function resolveLoginChallenge(
+  adapter: SiteAdapter,
+  sessionName: string,
+  challenge: LoginResult,
+  options: SearchAgentOptions
+): Promise<LoginResult> {
+  const { config } = adapter;
+  if (!options.requestVerificationCode || !adapter.submitVerificationCode) {
+    return challenge;
+  }
+
+  let result = challenge;
+
+  for (let attempt = 1; attempt <= MAX_VERIFICATION_ATTEMPTS && result.challenge; attempt++) {
+    console.log(`[Agent] ${config.name} demande un code de verification (essai ${attempt}/${MAX_VERIFICATION_ATTEMPTS})`);
+
+    const message =
+      attempt === 1
+        ? `${config.name} demande un code de verification. Saisissez le code recu par email ou SMS.`
+        : `Code refuse par ${config.name}. Saisissez le nouveau code recu.`;
+
+    const code = await options.requestVerificationCode({ site: config.id, message });
 
-    // Si on est encore sur /login, les identifiants sont probablement invalides
-    if (LOGIN_FAILURE_INDICATORS.some((ind) => urlPath.startsWith(ind))) {
-      console.warn("[Agent] Echec du login LinkedIn (identifiants invalides ?)");
+    if (!code) {
       return {
         success: false,
-        error: "Identifiants LinkedIn invalides. Verifiez votre email et mot de passe dans votre profil.",
+        error: `Aucun code de verification ${config.name} recu dans le delai imparti. Relancez la recherche pour reessayer.`,
       };
     }
 
-    // URL inattendue : on considere quand meme comme un succes si on n'est plus sur /login
-    console.log(`[Agent] URL post-login inattendue : ${urlPath}, tentative de continuer...`);
-    return { success: true };
-  } catch (error) {
-    const err = error as Error;
-    console.error("[Agent] Erreur lors du login LinkedIn :", err.message);
-    return {
-      success: false,
-      error: `Erreur lors de la connexion a LinkedIn : ${err.message}`,
-    };
+    result = await adapter.submitVerificationCode(sessionName, code);
   }
+
+  return result;
+}
+
+/** Contenu des pages de resultats d'un site, toutes pages confondues */
+interface ScrapedResults {
+  /** Snapshots concatenes (extraction Claude de repli) */
+  snapshot: string;
+  links: ExtractedLink[];
+  /** Cartes d'offres lues dans le DOM (extraction deterministe) */
+  cards: JobCardElements[];
+  driftingSelectors: string[];
 }
 
 /**
- * Role : Scraper LinkedIn apres authentification avec pagination (jusqu'a MAX_PAGES pages)
+ * Role : Scraper les resultats de recherche d'un site avec pagination (jusqu'a MAX_PAGES pages)
+ * Parametre adapter : adaptateur du site a scraper (LinkedIn, WTTJ...)
  * Parametre criteria : criteres de recherche (query, location, identifiants LinkedIn)
  * Parametre sessionName : nom unique de la session Playwright
- * Retourne : snapshot textuel concatene + tous les liens extraits, ou null si erreur
+ * Parametre userId : identifiant de l'utilisateur (session persistee)
+ * Parametre options : options du run (demande de code 2FA)
+ * Parametre knownUrls : URLs des offres deja en base pour l'utilisateur
+ * Retourne : snapshot textuel concatene + tous les liens et cartes extraits + selecteurs
+ *   en derive, ou null si aucune page exploitable
  *
  * Flow :
- *   1. Lancer le navigateur
- *   2. Se connecter a LinkedIn (loginToLinkedIn)
+ *   1-2. Lancer le navigateur et s'authentifier (startAuthenticatedSession)
  *   3. Pour chaque page (0 a MAX_PAGES-1) :
- *      a. Naviguer vers la page de resultats avec &start=page*25
- *      b. Verifier l'absence de blocage (captcha/checkpoint)
- *      c. Scroller pour charger les resultats (lazy loading)
- *      d. Capturer le snapshot + extraire les liens
- *      e. Si snapshot < 500 chars ou 0 nouveaux liens → arreter la pagination
- *   4. Fermer le navigateur
- *
- * Pagination LinkedIn :
- *   - Page 1 : &start=0 (ou sans parametre)
- *   - Page 2 : &start=25
- *   - Page 3 : &start=50
- *   Chaque page contient ~25 resultats, soit ~75 offres max pour 3 pages.
+ *      a. Naviguer vers adapter.buildPageUrl(searchUrl, page)
+ *      b. Verifier l'absence de blocage (adapter.isBlocked)
+ *      c. adapter.extractList : snapshot + liens + cartes
+ *      d. Si snapshot < 500 chars, page "aucun resultat" du site (isNoResultsPage)
+ *         ou 0 nouveaux liens → arreter la pagination
+ *      e. Sinon, releve des config.selectors sur la page
+ *      f. Si au moins KNOWN_PAGE_STOP_RATIO des offres de la page sont deja en base →
+ *         arreter la pagination (apres avoir conserve la page)
+ *   4. Enregistrement du releve (recordSiteSelectorHits) : un selecteur habituellement
+ *      trouve mais absent sur plusieurs scrapings ouvre une alerte de derive
  */
 async function scrapeSite(
+  adapter: SiteAdapter,
   criteria: SearchCriteria,
-  sessionName: string
-): Promise<{ snapshot: string; links: { text: string; href: string }[] } | null> {
-  try {
-    console.log("[Agent] Scraping LinkedIn (mode authentifie, pagination activee)...");
-
-    // 1. Lancer le navigateur
-    await launchBrowser(sessionName);
+  sessionName: string,
+  userId: string,
+  options: SearchAgentOptions,
+  knownUrls: Set<string>
+): Promise<ScrapedResults | null> {
+  const { config } = adapter;
 
-    // 2. Se connecter a LinkedIn
-    const loginResult = await loginToLinkedIn(
-      sessionName,
-      criteria.linkedinEmail,
-      criteria.linkedinPassword
-    );
+  try {
+    console.log(`[Agent] Scraping ${config.name} (pagination activee)...`);
 
-    if (!loginResult.success) {
-      console.error(`[Agent] Login LinkedIn echoue : ${loginResult.error}`);
-      await playwrightClose(sessionName);
-      throw new Error(loginResult.error || "Echec de la connexion LinkedIn");
-    }
+    // 1-2. Lancer le navigateur et s'authentifier (session restauree ou login)
+    // Un echec de login est capture puis la session fermee par le catch ci-dessous
+    let selectorHits = await startAuthenticatedSession(adapter, criteria, sessionName, userId, options);
 
     // 3. Construire l'URL de base pour la recherche
-    const baseSearchUrl = buildSearchUrl("linkedin", criteria.query, criteria.location);
-    const jobLinkSelector = LINKEDIN_CONFIG.selectors.jobLink;
-    const blockIndicators = ["captcha", "challenge", "/checkpoint", "verify"];
+    const baseSearchUrl = adapter.buildSearchUrl(criteria);
 
-    // Accumulateurs pour les snapshots et liens de toutes les pages
+    // Accumulateurs pour les snapshots, liens et cartes de toutes les pages
     const allSnapshots: string[] = [];
-    const allLinks: { text: string; href: string }[] = [];
+    const allLinks: ExtractedLink[] = [];
+    const allCards: JobCardElements[] = [];
 
     // 4. Boucle de pagination : scraper jusqu'a MAX_PAGES pages
     for (let page = 0; page < MAX_PAGES; page++) {
-      // Construire l'URL paginee (ex: &start=0, &start=25, &start=50)
-      const startOffset = page * LINKEDIN_RESULTS_PER_PAGE;
-      const separator = baseSearchUrl.includes("?") ? "&" : "?";
-      const pageUrl = `${baseSearchUrl}${separator}start=${startOffset}`;
+      // Construire l'URL paginee (strategie propre au site)
+      const pageUrl = adapter.buildPageUrl(baseSearchUrl, page);
 
-      console.log(`[Agent] Page ${page + 1}/${MAX_PAGES} : navigation vers ${pageUrl}`);
+      console.log(`[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : navigation vers ${pageUrl}`);
+      await notifyProgress(options);
       await playwrightNavigate(sessionName, pageUrl);
 
       // Verifier qu'on n'a pas ete redirige vers une page de blocage
       const currentUrl = await playwrightGetUrl(sessionName);
-      const urlLower = currentUrl.toLowerCase();
 
-      if (blockIndicators.some((ind) => urlLower.includes(ind))) {
-        console.warn(`[Agent] LinkedIn bloque le scraping page ${page + 1} (URL: ${currentUrl})`);
-        // Si c'est la premiere page, on echoue ; sinon on arrete la pagination
+      if (adapter.isBlocked(currentUrl)) {
+        console.warn(`[Agent] ${config.name} bloque le scraping page ${page + 1} (URL: ${currentUrl})`);
+        // Si c'est la premiere page, on echoue (capture par le catch) ; sinon on arrete la pagination
         if (page === 0) {
-          await playwrightClose(sessionName);
-          throw new Error("LinkedIn a bloque l'acces. Essayez de vous connecter manuellement d'abord.");
+          throw new Error(`${config.name} a bloque l'acces. Essayez de vous connecter manuellement d'abord.`);
         }
+        await captureSiteFailure(
+          config,
+          sessionName,
+          `Blocage detecte page ${page + 1} (${currentUrl})`,
+          options
+        );
         console.log("[Agent] Arret de la pagination suite au blocage");
         break;
       }
 
-      // Scroller pour charger les resultats (lazy loading LinkedIn)
-      await playwrightScroll(sessionName);
-
-      // Capturer le snapshot d'accessibilite de cette page
-      const pageSnapshot = await playwrightSnapshot(sessionName);
-      console.log(`[Agent] Page ${page + 1}/${MAX_PAGES} : snapshot ${pageSnapshot.length} caracteres`);
+      // Extraire le snapshot, les liens et les cartes de cette page (scroll inclus)
+      const { snapshot: pageSnapshot, links: pageLinks, cards: pageCards } =
+        await adapter.extractList(sessionName);
+      console.log(`[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : snapshot ${pageSnapshot.length} caracteres`);
 
       // Si le snapshot est trop court, la page est probablement vide → arreter
       if (pageSnapshot.length < 500) {
-        console.log(`[Agent] Page ${page + 1}/${MAX_PAGES} : snapshot trop court, fin de la pagination`);
+        console.log(`[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : snapshot trop court, fin de la pagination`);
+        break;
+      }
+
+      // Recherche sans resultat (message du site) : rien a extraire, et surtout rien a
+      // relever : les selecteurs absents ne doivent pas etre confondus avec une derive
+      if (isNoResultsPage(config, pageSnapshot)) {
+        console.log(`[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : aucun resultat, fin de la pagination`);
         break;
       }
 
       allSnapshots.push(pageSnapshot);
 
-      // Extraire les liens d'offres de cette page
-      let pageLinks: { text: string; href: string }[] = [];
-
-      if (jobLinkSelector) {
-        const selectors = jobLinkSelector.split(",").map((s) => s.trim());
-
-        for (const selector of selectors) {
-          try {
-            const linksJson = await playwrightExtractLinks(sessionName, selector);
-            const parsed = JSON.parse(linksJson) as { text: string; href: string }[];
-            if (parsed.length > 0) {
-              pageLinks = parsed;
-              break;
-            }
-          } catch {
-            // Selecteur ne fonctionne pas, essayer le suivant
-          }
-        }
-      }
+      // Releve des selecteurs, uniquement sur une vraie page de resultats (cf. isNoResultsPage)
+      selectorHits = mergeSelectorHits(
+        selectorHits,
+        await measureSelectors(sessionName, getListSelectors(config))
+      );
 
-      console.log(`[Agent] Page ${page + 1}/${MAX_PAGES} : ${pageLinks.length} liens extraits`);
+      console.log(
+        `[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : ${pageLinks.length} liens, ` +
+        `${pageCards.length} cartes extraits`
+      );
 
       // Si aucun nouveau lien sur cette page, la pagination est terminee
       if (pageLinks.length === 0 && page > 0) {
-        console.log(`[Agent] Page ${page + 1}/${MAX_PAGES} : aucun nouveau lien, fin de la pagination`);
+        console.log(`[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : aucun nouveau lien, fin de la pagination`);
         break;
       }
 
       allLinks.push(...pageLinks);
+      allCards.push(...pageCards);
+
+      // Scraping incremental : une page d'offres deja connues → les suivantes (plus anciennes) aussi
+      const pageUrls = getPageOfferUrls(adapter, pageCards, pageLinks);
+      const knownOnPage = pageUrls.filter((url) => knownUrls.has(url)).length;
+      if (pageUrls.length > 0 && knownOnPage / pageUrls.length >= KNOWN_PAGE_STOP_RATIO) {
+        console.log(
+          `[Agent] ${config.id} page ${page + 1}/${MAX_PAGES} : ${knownOnPage}/${pageUrls.length} ` +
+          `offres deja connues, fin de la pagination`
+        );
+        break;
+      }
     }
 
     // Note : le navigateur N'est PAS ferme ici.
-    // Il reste ouvert pour que runSearchAgent puisse scraper les pages detail.
-    // La fermeture est geree par runSearchAgent apres l'enrichissement des descriptions.
+    // Il reste ouvert pour que runSiteSearch puisse scraper les pages detail.
+    // La fermeture est geree par runSiteSearch apres l'enrichissement des descriptions.
+
+    const driftingSelectors = await recordSiteSelectorHits(config, selectorHits);
 
     // Si aucun snapshot n'a ete capture, retourner null
     if (allSnapshots.length === 0) {
-      console.warn("[Agent] Aucun snapshot exploitable capture sur aucune page");
+      console.warn(`[Agent] Aucun snapshot exploitable capture sur ${config.name}`);
       return null;
     }
 
@@ -337,47 +564,138 @@ async function scrapeSite(
       .join("\n\n");
 
     console.log(
-      `[Agent] Scraping termine : ${allSnapshots.length} page(s), ` +
-      `${combinedSnapshot.length} chars de snapshot, ${allLinks.length} liens au total`
+      `[Agent] Scraping ${config.id} termine : ${allSnapshots.length} page(s), ` +
+      `${combinedSnapshot.length} chars de snapshot, ${allLinks.length} liens et ` +
+      `${allCards.length} cartes au total`
     );
 
-    return { snapshot: combinedSnapshot, links: allLinks };
+    return { snapshot: combinedSnapshot, links: allLinks, cards: allCards, driftingSelectors };
   } catch (error) {
     const err = error as Error;
-    console.error("[Agent] Erreur scraping LinkedIn :", err.message);
+    console.error(`[Agent] Erreur scraping ${config.name} :`, err.message);
+
+    // Capturer la page en echec (login, blocage, navigation) avant de fermer le navigateur
+    await captureSiteFailure(config, sessionName, err.message, options);
 
     // Toujours fermer le navigateur en cas d'erreur
     try {
       await playwrightClose(sessionName);
     } catch { /* ignore */ }
 
-    // Propager l'erreur pour que la route API puisse la gerer
+    // Propager l'erreur pour que runSearchAgent l'enregistre dans le rapport du site
     throw error;
   }
 }
 
+/**
+ * Role : URLs canoniques des offres d'une page de resultats (cartes, a defaut liens)
+ * Retourne : URLs distinctes, dans l'ordre de la page
+ */
+function getPageOfferUrls(
+  adapter: SiteAdapter,
+  cards: JobCardElements[],
+  links: ExtractedLink[]
+): string[] {
+  const hrefs = cards.length > 0 ? cards.map((c) => c.href) : links.map((l) => l.href);
+  const urls = hrefs
+    .map((href) => resolveCardUrl(href, adapter.config.baseUrl))
+    .filter((url): url is string => url !== null)
+    .map((url) => adapter.canonicalizeUrl(url).url);
+  return [...new Set(urls)];
+}
+
+/**
+ * Role : Ramener les URLs des offres a leur forme canonique (adapter.canonicalizeUrl)
+ * Retourne : offres avec url canonique et externalId, une seule par URL canonique
+ *
+ * Une meme offre peut apparaitre plusieurs fois avec des parametres de tracking
+ * differents (ex: offre sponsorisee repetee sur LinkedIn) : seule la premiere est gardee.
+ */
+function canonicalizeOffers(adapter: SiteAdapter, offers: ScrapedOffer[]): ScrapedOffer[] {
+  const seen = new Set<string>();
+  const result: ScrapedOffer[] = [];
+
+  for (const offer of offers) {
+    const { url, externalId } = adapter.canonicalizeUrl(offer.url);
+    if (seen.has(url)) continue;
+    seen.add(url);
+    result.push({ ...offer, url, externalId });
+  }
+
+  return result;
+}
+
+/** Offre lue dans un snapshot par Claude Sonnet (element des arguments de l'outil report_offers) */
+const SnapshotOfferSchema = z.object({
+  title: z.string().trim().min(1).describe("Intitule du poste"),
+  company: z.string().nullable().describe("Nom de l'entreprise, null si absent"),
+  location: z.string().nullable().describe("Lieu du poste, null si absent"),
+  url: z.string().trim().min(1).describe("URL complete de l'offre"),
+  description: z
+    .string()
+    .nullable()
+    .describe("Resume court du poste visible dans la liste (100-200 caracteres)"),
+  salary: z.string().nullable().describe("Salaire tel qu'affiche, null si non visible"),
+  contractType: z.string().nullable().describe("Type de contrat (CDI, CDD...), null si non visible"),
+});
+
+type SnapshotOffer = z.infer<typeof SnapshotOfferSchema>;
+
+/** Arguments de l'outil report_offers */
+const SnapshotOffersSchema = z.object({
+  offers: z.array(SnapshotOfferSchema).describe("Offres de la page, dans l'ordre d'affichage"),
+});
+
+/**
+ * Role : Valider les offres d'un snapshot en acceptant les offres valides d'une liste partielle
+ * Retourne : offres valides ; erreur (renvoyee au modele) si l'enveloppe est invalide ou
+ *   si aucune offre n'est valide alors que la liste n'est pas vide
+ */
+function parseSnapshotOffers(value: unknown): StructuredParseResult<{ offers: SnapshotOffer[] }> {
+  const envelope = z.object({ offers: z.array(z.unknown()) }).safeParse(value);
+  if (!envelope.success) {
+    return { success: false, error: "offers : tableau d'offres attendu" };
+  }
+
+  const { valid, errors } = parseValidItems(SnapshotOfferSchema, envelope.data.offers);
+  if (valid.length === 0 && errors.length > 0) {
+    return { success: false, error: errors.slice(0, 5).join("\n") };
+  }
+  if (errors.length > 0) {
+    console.warn(`[Agent] ${errors.length} offre(s) mal formee(s) ignoree(s), ex: ${errors[0]}`);
+  }
+  return { success: true, data: { offers: valid } };
+}
+
 /**
  * Role : Extraire les offres structurees a partir d'un snapshot via Claude Sonnet
- * Parametre client : client Anthropic
- * Parametre snapshot : snapshot textuel de la page de resultats LinkedIn
+ * Parametre llm : service LLM (role "extraction")
+ * Parametre config : configuration du site scrape (baseUrl, nom, source)
+ * Parametre snapshot : snapshot textuel de la page de resultats
  * Parametre links : liens d'offres extraits par Playwright
  * Parametre criteria : criteres de recherche pour le filtrage
- * Retourne : tableau des offres structurees (ScrapedOffer[])
+ * Retourne : tableau des offres structurees (ScrapedOffer[]) avec source = config.id,
+ *   tableau vide si aucune reponse valide n'a ete obtenue
  *
- * UN SEUL appel a Claude Sonnet.
- * Le prompt est direct : "voici le snapshot, extrais les offres en JSON".
+ * UN SEUL appel a Claude Sonnet, uniquement en repli quand aucune carte d'offre
+ * n'a pu etre lue dans le DOM (markup inattendu, selecteurs en derive).
+ * Le prompt est direct : "voici le snapshot, extrais les offres" ; la reponse est
+ * l'appel de l'outil report_offers, valide par SnapshotOffersSchema (cf. completeStructured :
+ * une reponse invalide est renvoyee au modele pour correction). Les offres mal formees
+ * d'une reponse sont ignorees, les autres conservees.
  *
  * Exemple :
- *   const offers = await extractOffersFromSnapshot(client, snapshot, links, criteria);
+ *   const offers = await extractOffersFromSnapshot(llm, config, snapshot, links, criteria);
  *   // offers = [{ title: "Dev React", company: "Doctolib", ... }]
  */
 async function extractOffersFromSnapshot(
-  client: Anthropic,
+  llm: LlmService,
+  config: SiteConfig,
   snapshot: string,
-  links: { text: string; href: string }[],
+  links: ExtractedLink[],
   criteria: SearchCriteria
 ): Promise<ScrapedOffer[]> {
-  const baseUrl = LINKEDIN_CONFIG.baseUrl;
+  const baseUrl = config.baseUrl;
 
   // Construire un contexte compact avec les liens et le snapshot
   const linksContext = links.length > 0
@@ -390,14 +708,17 @@ async function extractOffersFromSnapshot(
     truncatedSnapshot = truncatedSnapshot.substring(0, 30000) + "\n... (tronque)";
   }
 
-  const response = await client.messages.create({
-    model: EXTRACTION_MODEL,
-    max_tokens: 4096,
-    messages: [
+  let rawOffers: SnapshotOffer[];
+  try {
+    ({ offers: rawOffers } = await completeStructured(
+      llm,
       {
-        role: "user",
-        content: `Extrais les offres d'emploi de ce snapshot de page LinkedIn (resultats authentifies).
-Retourne UNIQUEMENT un tableau JSON (pas de texte avant/apres).
+        role: "extraction",
+        maxTokens: 4096,
+        prompt: `Extrais les offres d'emploi de ce snapshot de page ${config.name}.
+Transmets-les en appelant l'outil report_offers.
+
+Particularites du site :${config.scrapingTips}
 
 Criteres: "${criteria.query}" a "${criteria.location}"
 ${criteria.excludeKeywords.length > 0 ? `Exclure les offres contenant: ${criteria.excludeKeywords.join(", ")}` : ""}
@@ -406,55 +727,35 @@ ${linksContext}
 Snapshot de la page:
 ${truncatedSnapshot}
 
-Format JSON attendu (max ${MAX_OFFERS_PER_SITE} offres):
-[{"title":"...","company":"...","location":"...","url":"...","description":"resume court 100-200 chars","salary":null,"contractType":null}]
-
-Regles:
+Regles (max ${MAX_OFFERS_PER_SITE} offres):
 - url doit etre complete (prefixer avec "${baseUrl}" si relative)
 - description = resume court du poste visible dans la liste (pas la page detail)
 - salary et contractType = null si non visible
 - Ignorer les offres sans titre ou sans lien`,
       },
-    ],
-  });
-
-  // Extraire le JSON de la reponse
-  const textContent = response.content.find((block) => block.type === "text");
-  if (!textContent || textContent.type !== "text") {
-    console.warn("[Agent] Pas de contenu textuel dans la reponse Claude");
-    return [];
-  }
-
-  try {
-    // Extraire le tableau JSON de la reponse (peut contenir du texte autour)
-    const jsonMatch = textContent.text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.warn("[Agent] Pas de JSON valide dans la reponse Claude");
-      return [];
-    }
-
-    const rawOffers = JSON.parse(jsonMatch[0]) as Array<Record<string, string | null>>;
-
-    // Transformer en ScrapedOffer avec source "linkedin"
-    return rawOffers
-      .filter((o) => o.title && o.url)
-      .slice(0, MAX_OFFERS_PER_SITE)
-      .map((o) => ({
-        title: o.title || "Sans titre",
-        company: o.company || "Entreprise inconnue",
-        location: o.location || criteria.location,
-        url: o.url || "",
-        description: o.description || "",
-        salary: o.salary || null,
-        contractType: o.contractType || null,
-        source: "linkedin",
-      }));
+      {
+        name: "report_offers",
+        description: `Enregistre les offres d'emploi lues sur la page de resultats ${config.name}`,
+        schema: SnapshotOffersSchema,
+        parse: parseSnapshotOffers,
+      }
+    ));
   } catch (error) {
-    const err = error as Error;
-    console.error("[Agent] Erreur parsing JSON des offres :", err.message);
-    console.error("[Agent] Reponse brute :", textContent.text.substring(0, 300));
+    console.error(`[Agent] Extraction Claude des offres en echec : ${(error as Error).message}`);
     return [];
   }
+
+  // Transformer en ScrapedOffer avec la source du site (ex: "linkedin", "wttj")
+  return rawOffers.slice(0, MAX_OFFERS_PER_SITE).map((o) => ({
+    title: o.title,
+    company: o.company || "Entreprise inconnue",
+    location: o.location || criteria.location,
+    url: o.url,
+    description: o.description || "",
+    salary: o.salary || null,
+    contractType: o.contractType || null,
+    source: config.id,
+  }));
 }
 
 /**
@@ -475,19 +776,37 @@ Regles:
  *   cleanLinkedInDescription("37 candidats\nHybride\nNous recherchons un dev React...\n...")
  *   // => "Nous recherchons un dev React..."
  */
+/** Separateur entre la description markdown et le JSON d'attributs dans la reponse Haiku */
+const ATTRIBUTES_MARKER = "===ATTRIBUTS===";
+
 /**
- * Modele Claude utilise pour le nettoyage des descriptions d'offres.
- * Haiku : suffisamment capable pour de l'extraction/nettoyage de texte,
- * beaucoup moins cher que Sonnet (~$0.001 par offre vs ~$0.005).
+ * Version du prompt de nettoyage, incluse dans la cle du cache de descriptions :
+ * a incrementer a chaque modification du prompt ou du format de reponse attendu
  */
-const CLEANUP_MODEL = "claude-haiku-4-5-20251001";
+const CLEANUP_PROMPT_VERSION = "1";
+
+/** Description nettoyee d'une page detail et attributs structures extraits avec elle */
+interface OfferDetail {
+  description: string;
+  /** null si Haiku n'a pas retourne de bloc d'attributs lisible */
+  attributes: OfferAttributes | null;
+}
+
+/** Resultat de formatOfferDescription, avec l'origine de la reponse */
+interface FormattedDescription extends OfferDetail {
+  /** true si la reponse provient du cache (aucun appel Haiku) */
+  fromCache: boolean;
+}
 
 /**
- * Role : Nettoyer et formater le texte brut d'une page LinkedIn via Claude Haiku
- * Parametre client : client Anthropic initialise
+ * Role : Nettoyer et formater le texte brut d'une page d'offre via Claude Haiku
+ * Parametre llm : service LLM (role "cleanup")
  * Parametre rawText : texte brut extrait par Playwright (avec bruit UI, footer, etc.)
  * Parametre offerTitle : titre de l'offre (contexte pour Claude)
- * Retourne : description propre en markdown, ou chaine vide en cas d'erreur
+ * Parametre siteName : nom du site source (ex: "LinkedIn Jobs", "Welcome to the Jungle")
+ * Retourne : description propre en markdown et attributs structures (niveau, teletravail,
+ *   competences, experience, publication), ou texte brut tronque sans attributs en cas d'erreur ;
+ *   fromCache indique si la reponse provient du cache
  *
  * Claude Haiku identifie et conserve uniquement :
  *   - Le contexte de l'entreprise (bref)
@@ -496,35 +815,49 @@ const CLEANUP_MODEL = "claude-haiku-4-5-20251001";
  *   - Le profil recherche
  * Et supprime : navigation LinkedIn, footer, UI, promotion Premium, contacts recruteur,
  *   selecteur de langue, mentions legales, emojis decoratifs.
+ * Dans le meme appel, Haiku ajoute apres ATTRIBUTES_MARKER un objet JSON d'attributs,
+ * valide par parseLlmAttributes (une reponse sans marqueur reste une description seule).
+ *
+ * Cache : la reponse est indexee par l'empreinte du texte brut tronque et de
+ * CLEANUP_PROMPT_VERSION (cf. description-cache.ts) ; un texte inchange depuis un scraping
+ * precedent ne declenche aucun appel. Les reponses du fournisseur mock ne sont pas mises en
+ * cache, ni celles trop courtes pour etre retenues (fallback texte brut de scrapeOfferDetails).
  *
- * Cout estime : ~$0.001 par offre (Haiku est ~25x moins cher que Sonnet)
+ * Cout estime : ~$0.001 par offre (Haiku est ~25x moins cher que Sonnet), nul si en cache
  *
  * Exemple :
- *   const clean = await formatOfferDescription(client, rawText, "Dev React Senior");
- *   // clean = "## Missions\n- Développer des features React...\n## Stack\n- React, TypeScript..."
+ *   const { description, attributes, fromCache } = await formatOfferDescription(llm, rawText, "Dev React Senior", "LinkedIn Jobs");
+ *   // description = "## Missions\n- Développer des features React...\n## Stack\n- React, TypeScript..."
+ *   // attributes = { seniority: "senior", requiredSkills: ["React", "TypeScript"], ... }
  */
 async function formatOfferDescription(
-  client: Anthropic,
+  llm: LlmService,
   rawText: string,
-  offerTitle: string
-): Promise<string> {
+  offerTitle: string,
+  siteName: string
+): Promise<FormattedDescription> {
   // Tronquer le texte brut a 6000 chars pour eviter de depasser le contexte de Haiku
   const truncatedRaw =
     rawText.length > 6000
       ? rawText.substring(0, 6000) + "\n... (tronque)"
       : rawText;
 
+  // Texte deja nettoye lors d'un scraping precedent : reutiliser la reponse
+  const useCache = llm.provider !== "mock";
+  const contentHash = hashDescription(truncatedRaw, CLEANUP_PROMPT_VERSION);
+  const cached = useCache ? await loadCachedDescription(contentHash) : null;
+  if (cached !== null) {
+    return { ...parseCleanupResponse(cached), fromCache: true };
+  }
+
   try {
-    const response = await client.messages.create({
-      model: CLEANUP_MODEL,
-      max_tokens: 1024,
-      messages: [
-        {
-          role: "user",
-          content: `Tu es un assistant qui extrait et formate les descriptions d'offres d'emploi LinkedIn.
-
-Voici le texte brut extrait d'une page LinkedIn pour le poste : "${offerTitle}"
-Ce texte contient le contenu utile MELANGE avec du bruit : navigation LinkedIn, footer, boutons UI,
+    const response = await llm.complete({
+      role: "cleanup",
+      maxTokens: 1536,
+      prompt: `Tu es un assistant qui extrait et formate les descriptions d'offres d'emploi ${siteName}.
+
+Voici le texte brut extrait d'une page ${siteName} pour le poste : "${offerTitle}"
+Ce texte contient le contenu utile MELANGE avec du bruit : navigation du site, footer, boutons UI,
 promotion Premium, contacts recruteur, selecteur de langue, mentions legales.
 
 TEXTE BRUT :
@@ -540,53 +873,100 @@ Conserve :
 
 Supprime tout le reste : navigation, footer, boutons, premium, recruteur, langue, legal, emojis decoratifs.
 
-Reponds directement avec le markdown, sans introduction ni commentaire.`,
-        },
-      ],
+Apres le markdown, ajoute une ligne contenant uniquement ${ATTRIBUTES_MARKER} suivie de cet objet JSON (sans bloc de code) :
+{"seniority": "junior" | "confirmed" | "senior" | "lead" | null, "remotePolicy": "onsite" | "hybrid" | "remote" | null, "requiredSkills": ["..."], "niceToHaveSkills": ["..."], "yearsOfExperience": nombre | null, "applicantCount": nombre | null, "postedText": "date de publication telle qu'affichee" | null}
+requiredSkills : competences exigees ; niceToHaveSkills : competences appreciees ("un plus", "idealement").
+Utilise null ou [] pour toute information absente du texte : ne devine rien.
+
+Reponds directement avec le markdown puis le bloc d'attributs, sans introduction ni commentaire.`,
     });
 
-    const textBlock = response.content.find((b) => b.type === "text");
-    if (!textBlock || textBlock.type !== "text") return "";
+    if (!response.text) return { description: "", attributes: null, fromCache: false };
 
-    return textBlock.text.trim();
+    const detail = parseCleanupResponse(response.text);
+    if (useCache && detail.description.length >= 100) {
+      await saveCachedDescription(contentHash, CLEANUP_PROMPT_VERSION, response.text);
+    }
+    return { ...detail, fromCache: false };
   } catch (error) {
     const err = error as Error;
     console.warn(`[Agent] Erreur formatage Haiku : ${err.message}`);
     // En cas d'erreur Haiku, retourner le texte brut tronque (pas de perte de donnees)
-    return rawText.substring(0, 3000).trim();
+    return { description: rawText.substring(0, 3000).trim(), attributes: null, fromCache: false };
+  }
+}
+
+/**
+ * Role : Separer la reponse Haiku en description markdown et attributs
+ * Retourne : description et attributs (null si la reponse n'a pas de bloc d'attributs lisible)
+ */
+function parseCleanupResponse(text: string): OfferDetail {
+  const [markdown, attributesJson] = text.split(ATTRIBUTES_MARKER);
+  return {
+    description: markdown.trim(),
+    attributes: attributesJson !== undefined ? parseAttributesJson(attributesJson) : null,
+  };
+}
+
+/**
+ * Role : Lire le bloc JSON d'attributs de la reponse Haiku (bloc de code tolere)
+ * Retourne : attributs valides, ou null si le JSON est illisible
+ */
+function parseAttributesJson(text: string): OfferAttributes | null {
+  const json = text.trim().replace(/^```(?:json)?\s*/, "").replace(/\s*```$/, "");
+  try {
+    return parseLlmAttributes(JSON.parse(json));
+  } catch {
+    console.warn("[Agent] Bloc d'attributs Haiku illisible, attributs de la carte conserves");
+    return null;
   }
 }
 
 /**
  * Role : Visiter les pages detail des offres pour recuperer la description complete
+ * Parametre adapter : adaptateur du site (extraction de la description)
  * Parametre offers : offres extraites depuis la page de resultats (descriptions courtes)
- * Parametre sessionName : session Playwright encore ouverte (connectee a LinkedIn)
- * Retourne : Map { url -> description complete }
+ * Parametre sessionName : session Playwright encore ouverte (connectee pour LinkedIn)
+ * Parametre llm : service LLM (nettoyage des descriptions)
+ * Parametre options : options du run (signal d'avancement a chaque page)
+ * Retourne : details = Map { url -> description complete + attributs de la page detail },
+ *   cache = descriptions reprises du cache / nettoyees par Haiku
  *
- * Flow pour chaque offre (jusqu'a MAX_DETAIL_PAGES) :
+ * Les offres deja en base (isKnown) ne sont pas visitees : leur description complete
+ * a ete recuperee lors d'un scraping precedent.
+ *
+ * Flow pour chaque nouvelle offre (jusqu'a MAX_DETAIL_PAGES) :
  *   1. Naviguer vers l'URL de l'offre
- *   2. Tenter d'extraire la description via les selecteurs LinkedIn specifiques
- *   3. Fallback sur playwrightExtractContent (article/main/body) si selecteurs echouent
- *   4. Pause de 1.5s entre les requetes pour eviter le rate limiting LinkedIn
+ *   2. Extraire la description via adapter.extractDetail
+ *   3. Nettoyer la description et extraire les attributs via Claude Haiku
+ *      (reponse reprise du cache si le texte brut est inchange)
+ *   4. Pause de 1.5s entre les requetes pour eviter le rate limiting
  *
  * En cas d'erreur sur une offre individuelle : log + continuer avec les suivantes.
  *
  * Exemple :
- *   const descriptions = await scrapeOfferDetails(offers, "session-xyz");
- *   // descriptions.get("https://linkedin.com/jobs/view/123") = "Nous recherchons..."
+ *   const { details, cache } = await scrapeOfferDetails(linkedinAdapter, offers, "session-xyz", llm, options);
+ *   // details.get("https://linkedin.com/jobs/view/123") = { description: "Nous recherchons...", attributes }
+ *   // cache = { hits: 4, misses: 1, hitRate: 0.8 }
  */
 async function scrapeOfferDetails(
+  adapter: SiteAdapter,
   offers: ScrapedOffer[],
   sessionName: string,
-  client: Anthropic
-): Promise<Map<string, string>> {
-  const descriptionMap = new Map<string, string>();
+  llm: LlmService,
+  options: SearchAgentOptions
+): Promise<{ details: Map<string, OfferDetail>; cache: DescriptionCacheStats }> {
+  const descriptionMap = new Map<string, OfferDetail>();
+  let cacheHits = 0;
+  let cacheMisses = 0;
 
-  // Limiter aux MAX_DETAIL_PAGES premieres offres (les plus pertinentes)
-  const offersToVisit = offers.slice(0, MAX_DETAIL_PAGES);
+  // Limiter aux MAX_DETAIL_PAGES premieres offres nouvelles (les plus pertinentes)
+  const newOffers = offers.filter((o) => !o.isKnown);
+  const offersToVisit = newOffers.slice(0, MAX_DETAIL_PAGES);
 
   console.log(
-    `[Agent] Enrichissement descriptions : visite de ${offersToVisit.length} pages detail...`
+    `[Agent] Enrichissement descriptions : visite de ${offersToVisit.length} pages detail ` +
+    `(${offers.length - newOffers.length} offre(s) deja connue(s) ignoree(s))...`
   );
 
   for (let i = 0; i < offersToVisit.length; i++) {
@@ -599,31 +979,44 @@ async function scrapeOfferDetails(
       );
 
       // Naviguer vers la page detail de l'offre
+      await notifyProgress(options);
       await playwrightNavigate(sessionName, offer.url);
 
-      // Extraction via heuristiques (selecteurs semantiques + densite textuelle + fallback)
-      // Resilient aux changements de noms de classes LinkedIn
-      const description = await playwrightGetJobDescription(sessionName, 8000);
+      // Extraction propre au site (par defaut : heuristiques DOM resilientes
+      // aux changements de noms de classes)
+      const description = await adapter.extractDetail(sessionName);
 
       if (description && description.length >= 100) {
         // Nettoyer et reformater via Claude Haiku (supprime bruit UI/footer, formate en markdown)
         console.log(
           `[Agent] Detail ${i + 1} : ${description.length} chars bruts → nettoyage Haiku...`
         );
-        const cleanDescription = await formatOfferDescription(
-          client,
+        const { description: cleanDescription, attributes, fromCache } = await formatOfferDescription(
+          llm,
           description,
-          offer.title
+          offer.title,
+          adapter.config.name
         );
+        if (fromCache) cacheHits++;
+        else cacheMisses++;
+        // Sans bloc d'attributs Haiku : experience demandee lue directement dans le texte brut
+        const detailAttributes = attributes ?? {
+          ...createEmptyOfferAttributes(),
+          yearsOfExperience: parseYearsOfExperience(description),
+        };
 
         if (cleanDescription.length >= 100) {
-          descriptionMap.set(offer.url, cleanDescription);
+          descriptionMap.set(offer.url, { description: cleanDescription, attributes: detailAttributes });
           console.log(
-            `[Agent] Detail ${i + 1} : ${description.length} → ${cleanDescription.length} chars apres nettoyage Haiku`
+            `[Agent] Detail ${i + 1} : ${description.length} → ${cleanDescription.length} chars apres nettoyage Haiku` +
+            (fromCache ? " (cache)" : "")
           );
         } else {
           // Fallback : garder le texte brut tronque si Haiku retourne trop peu
-          descriptionMap.set(offer.url, description.substring(0, 3000));
+          descriptionMap.set(offer.url, {
+            description: description.substring(0, 3000),
+            attributes: detailAttributes,
+          });
           console.warn(
             `[Agent] Detail ${i + 1} : Haiku a retourne trop peu (${cleanDescription.length} chars), fallback sur texte brut`
           );
@@ -634,7 +1027,7 @@ async function scrapeOfferDetails(
         );
       }
 
-      // Pause entre les requetes pour eviter le rate limiting LinkedIn (1.5s)
+      // Pause entre les requetes pour eviter le rate limiting (1.5s)
       if (i < offersToVisit.length - 1) {
         await playwrightWait(sessionName, 1500);
       }
@@ -648,109 +1041,253 @@ async function scrapeOfferDetails(
   }
 
   console.log(
-    `[Agent] Enrichissement termine : ${descriptionMap.size}/${offersToVisit.length} descriptions recuperees`
+    `[Agent] Enrichissement termine : ${descriptionMap.size}/${offersToVisit.length} descriptions recuperees ` +
+    `(${cacheHits} depuis le cache, ${cacheMisses} nettoyee(s) par Haiku)`
+  );
+
+  return { details: descriptionMap, cache: createDescriptionCacheStats(cacheHits, cacheMisses) };
+}
+
+/**
+ * Role : Logger les offres ecartees par le filtrage deterministe
+ * Exemple de sortie : "[Agent] wttj : 3 offre(s) ecartee(s) (mots-cles: 2, salaire: 0, contrat: 1)"
+ */
+function logDropped(siteId: string, dropped: DroppedCounts): void {
+  const total =
+    dropped.excludedKeyword + dropped.salaryBelowMin + dropped.contractTypeMismatch;
+  if (total === 0) return;
+  console.log(
+    `[Agent] ${siteId} : ${total} offre(s) ecartee(s) ` +
+    `(mots-cles: ${dropped.excludedKeyword}, salaire: ${dropped.salaryBelowMin}, ` +
+    `contrat: ${dropped.contractTypeMismatch})`
   );
+}
+
+/**
+ * Chemin ayant produit les offres d'un site :
+ * - "dom" : cartes lues via les selecteurs du site (cf. card-extractor.ts)
+ * - "llm" : repli sur l'extraction Claude Sonnet du snapshot (aucune carte exploitable)
+ */
+export type ExtractionPath = "dom" | "llm";
+
+/**
+ * Rapport d'execution d'un site, stocke dans AgentRun.result.sites
+ * Exemple : { site: "wttj", offers: 24, extractionPath: "dom", dropped: {...} }
+ *   | { site: "linkedin", offers: 0, error: "..." }
+ */
+export interface SiteSearchReport {
+  /** Identifiant du site (ex: "linkedin") */
+  site: string;
+  /** Nombre d'offres retournees par ce site (apres filtrage) */
+  offers: number;
+  /** Parmi offers, offres deja en base (page detail non visitee) */
+  knownOffers?: number;
+  /** Chemin d'extraction utilise (absent si aucune page de resultats exploitable) */
+  extractionPath?: ExtractionPath;
+  /** Offres ecartees par le filtrage deterministe, par motif */
+  dropped?: DroppedCounts;
+  /**
+   * Selecteurs CSS en derive (alerte ouverte, cf. selector-health.ts) :
+   * cause probable d'un site qui retourne soudainement 0 offre
+   */
+  driftingSelectors?: string[];
+  /** Descriptions des pages detail reprises du cache / nettoyees par Haiku (absent sans page detail) */
+  descriptionCache?: DescriptionCacheStats;
+  /** Message d'erreur si le site a echoue (les autres sites ne sont pas impactes) */
+  error?: string;
+}
 
-  return descriptionMap;
+/** Resultat complet de runSearchAgent : offres de tous les sites + rapport par site */
+export interface SearchAgentResult {
+  /** Offres de tous les sites ayant reussi */
+  offers: ScrapedOffer[];
+  /** Un rapport par site demande (y compris les sites en echec ou non supportes) */
+  sites: SiteSearchReport[];
+  /** Total des offres ecartees par le filtrage deterministe, tous sites confondus */
+  dropped: DroppedCounts;
+  /** Taux de succes du cache de descriptions, tous sites confondus */
+  descriptionCache: DescriptionCacheStats;
+}
+
+/** Offres d'un site apres filtrage + compteurs de rejet + selecteurs en derive */
+interface SiteSearchResult {
+  offers: ScrapedOffer[];
+  dropped: DroppedCounts;
+  driftingSelectors: string[];
+  /** Cache des descriptions sur les pages detail visitees */
+  descriptionCache: DescriptionCacheStats;
+  /** null si aucune page de resultats exploitable (aucune extraction tentee) */
+  extractionPath: ExtractionPath | null;
 }
 
 /**
- * Role : Executer l'agent de scraping LinkedIn authentifie
- * Parametre criteria : criteres de recherche incluant les identifiants LinkedIn
+ * Role : Charger les URLs des offres deja en base (echec non bloquant)
+ * Retourne : URLs connues, ou ensemble vide (scraping complet) en mode fixtures ou en cas d'erreur
+ */
+async function getKnownOfferUrls(userId: string, sites: string[]): Promise<Set<string>> {
+  if (isFixtureMode()) return new Set();
+
+  try {
+    const knownUrls = await loadKnownOfferUrls(userId, sites);
+    console.log(`[Agent] ${knownUrls.size} offre(s) deja en base pour user=${userId}`);
+    return knownUrls;
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Chargement des offres connues impossible, scraping complet : ${err.message}`);
+    return new Set();
+  }
+}
+
+/**
+ * Role : Scraper un site complet (resultats + extraction + pages detail)
+ * Parametre llm : service LLM (extraction de repli, nettoyage des descriptions)
+ * Parametre adapter : adaptateur du site a scraper
+ * Parametre criteria : criteres de recherche
  * Parametre userId : identifiant de l'utilisateur (pour nommer la session)
- * Retourne : tableau des offres scrapees (ScrapedOffer[])
+ * Parametre options : options du run (demande de code 2FA)
+ * Parametre knownUrls : URLs des offres deja en base pour l'utilisateur
+ * Parametre slot : slot du navigateur reserve par le run (libere si la session devient orpheline)
+ * Retourne : { offers, dropped, driftingSelectors, extractionPath, descriptionCache } — offres
+ *   filtrees avec descriptions enrichies (offres deja connues marquees isKnown, description
+ *   non enrichie) et succes du cache des descriptions
  *
- * Flow :
- *   1. Valider la cle API Anthropic
- *   2. Scraper LinkedIn (login + recherche + snapshot)
- *   3. Extraire les offres via Claude Sonnet
- *   4. Retourner les offres structurees
+ * Chaque site utilise sa propre session Playwright, fermee en fin de traitement.
  *
- * Erreurs possibles :
- *   - ANTHROPIC_API_KEY manquante
- *   - Identifiants LinkedIn invalides
- *   - 2FA/CAPTCHA LinkedIn
- *   - Blocage par LinkedIn
- *
- * Exemple :
- *   const offers = await runSearchAgent(
- *     { query: "React", location: "Paris", linkedinEmail: "a@b.com", linkedinPassword: "pass", ... },
- *     "user-abc123"
- *   );
+ * Le filtrage deterministe (filterOffers) est applique deux fois :
+ *   - apres l'extraction : evite de visiter les pages detail d'offres deja exclues
+ *   - apres l'enrichissement : les mots-cles exclus sont recherches dans la description complete
  */
-export async function runSearchAgent(
+async function runSiteSearch(
+  llm: LlmService,
+  adapter: SiteAdapter,
   criteria: SearchCriteria,
-  userId: string
-): Promise<ScrapedOffer[]> {
-  // Verifier que la cle API Anthropic est configuree
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey || apiKey === "sk-ant-...") {
-    throw new Error(
-      "ANTHROPIC_API_KEY non configuree. Ajoutez votre cle dans .env.local"
-    );
-  }
-
-  // Initialiser le client Anthropic
-  const client = new Anthropic({ apiKey });
-
-  console.log(
-    `[Agent] Demarrage recherche LinkedIn "${criteria.query}" a "${criteria.location}"`
-  );
-
-  const sessionName = `search-${userId}-linkedin-${Date.now()}`;
+  userId: string,
+  options: SearchAgentOptions,
+  knownUrls: Set<string>,
+  slot: BrowserSlot
+): Promise<SiteSearchResult> {
+  const { config } = adapter;
+  const sessionName = `search-${userId}-${config.id}-${Date.now()}`;
+  attachBrowserSlot(sessionName, slot);
 
   try {
-    // 1. Scraper LinkedIn (login + navigation + snapshot)
+    // 1. Scraper les pages de resultats (login eventuel + navigation + snapshot)
     // Note : le navigateur reste ouvert apres scrapeSite pour le scraping des details
-    const result = await scrapeSite(criteria, sessionName);
+    const result = await scrapeSite(adapter, criteria, sessionName, userId, options, knownUrls);
 
     if (!result) {
-      console.log("[Agent] Aucun resultat obtenu de LinkedIn");
+      console.log(`[Agent] Aucun resultat obtenu de ${config.name}`);
       await playwrightClose(sessionName);
-      return [];
+      return {
+        offers: [],
+        dropped: emptyDroppedCounts(),
+        driftingSelectors: [],
+        descriptionCache: createDescriptionCacheStats(),
+        extractionPath: null,
+      };
+    }
+
+    const { driftingSelectors } = result;
+
+    // 2. Construire les offres depuis les cartes du DOM (descriptions courtes),
+    // repli sur Claude Sonnet si aucune carte n'est exploitable
+    let extractionPath: ExtractionPath = "dom";
+    let extractedOffers = buildOffersFromCards(config, result.cards, criteria, MAX_OFFERS_PER_SITE);
+
+    if (extractedOffers.length === 0) {
+      extractionPath = "llm";
+      console.warn(
+        `[Agent] Aucune carte exploitable sur ${config.name} (${result.cards.length} lues), ` +
+        `repli sur l'extraction Claude Sonnet...`
+      );
+      extractedOffers = await extractOffersFromSnapshot(
+        llm,
+        config,
+        result.snapshot,
+        result.links,
+        criteria
+      );
     }
 
-    // 2. Extraire les offres structurees via Claude Sonnet (descriptions courtes)
-    console.log("[Agent] Extraction des offres via Claude Sonnet...");
-    const offers = await extractOffersFromSnapshot(
-      client,
-      result.snapshot,
-      result.links,
-      criteria
+    // URLs canoniques (sans tracking) : cle de deduplication avec les offres en base
+    extractedOffers = canonicalizeOffers(adapter, extractedOffers);
+
+    // Offres deja en base : conservees (mise a jour titre, salaire...) sans visite detail
+    extractedOffers = extractedOffers.map((offer) =>
+      knownUrls.has(offer.url) ? { ...offer, isKnown: true } : offer
     );
 
-    console.log(`[Agent] ${offers.length} offre(s) extraites de LinkedIn`);
+    console.log(
+      `[Agent] ${extractedOffers.length} offre(s) extraites de ${config.name} (chemin ${extractionPath}, ` +
+      `${extractedOffers.filter((o) => o.isKnown).length} deja connue(s))`
+    );
+
+    // Appliquer les regles de la recherche avant de visiter les pages detail
+    const { offers, dropped } = filterOffers(extractedOffers, criteria);
+    logDropped(config.id, dropped);
 
     if (offers.length === 0) {
       await playwrightClose(sessionName);
-      return [];
+      return {
+        offers: [],
+        dropped,
+        driftingSelectors,
+        extractionPath,
+        descriptionCache: createDescriptionCacheStats(),
+      };
     }
 
     // 3. Enrichir les descriptions en visitant les pages detail individuelles
-    // Le navigateur est encore ouvert et connecte a LinkedIn
+    // Le navigateur est encore ouvert (et connecte pour LinkedIn)
     // Claude Haiku est utilise pour nettoyer et formater chaque description
     console.log("[Agent] Demarrage de l'enrichissement des descriptions...");
-    const detailDescriptions = await scrapeOfferDetails(offers, sessionName, client);
+    const { details: detailDescriptions, cache: descriptionCache } = await scrapeOfferDetails(
+      adapter,
+      offers,
+      sessionName,
+      llm,
+      options
+    );
 
     // 4. Fermer le navigateur apres le scraping des details
     await playwrightClose(sessionName);
 
-    // 5. Remplacer les descriptions courtes par les descriptions completes
-    const enrichedOffers = offers.map((offer) => ({
-      ...offer,
-      description: detailDescriptions.get(offer.url) || offer.description,
-    }));
+    // 5. Remplacer les descriptions courtes par les descriptions completes,
+    // completer les attributs de la carte par ceux de la page detail
+    const enrichedOffers = offers.map((offer) => {
+      const detail = detailDescriptions.get(offer.url);
+      return {
+        ...offer,
+        description: detail?.description || offer.description,
+        attributes: mergeOfferAttributes(detail?.attributes, offer.attributes, offer.title),
+      };
+    });
 
     const enrichedCount = enrichedOffers.filter(
       (o) => detailDescriptions.has(o.url)
     ).length;
+    const newCount = offers.filter((o) => !o.isKnown).length;
 
     console.log(
-      `[Agent] ${enrichedCount}/${offers.length} offres enrichies avec description complete`
+      `[Agent] ${config.id} : ${enrichedCount}/${newCount} nouvelles offres enrichies avec description complete`
     );
 
-    return enrichedOffers;
+    // 6. Second passage : mots-cles exclus presents uniquement dans la description complete
+    const refiltered = filterOffers(enrichedOffers, criteria);
+    logDropped(config.id, refiltered.dropped);
+
+    return {
+      offers: refiltered.offers,
+      dropped: mergeDroppedCounts(dropped, refiltered.dropped),
+      driftingSelectors,
+      extractionPath,
+      descriptionCache,
+    };
   } catch (error) {
+    // Erreur apres les resultats (pages detail) : la session est encore ouverte, la capturer
+    // (une erreur de scrapeSite a deja ete capturee, sa session est fermee)
+    await captureSiteFailure(config, sessionName, (error as Error).message, options);
+
     // Garantir la fermeture du navigateur en cas d'erreur non geree
     try {
       await playwrightClose(sessionName);
@@ -758,3 +1295,125 @@ export async function runSearchAgent(
     throw error;
   }
 }
+
+/**
+ * Role : Executer l'agent de scraping sur tous les sites de la recherche
+ * Parametre criteria : criteres de recherche (sites, query, identifiants LinkedIn...)
+ * Parametre userId : identifiant de l'utilisateur (pour nommer les sessions)
+ * Parametre options : requestVerificationCode pour le mode interactif (2FA), optionnel
+ * Retourne : { offers, sites, dropped } — offres filtrees de tous les sites, rapport par site
+ *   et total des offres ecartees par motif
+ *
+ * Flow :
+ *   1. Resoudre le service LLM (getLlmService : fournisseur de test en mode fixtures ou sans cle,
+ *      consommation de chaque appel transmise a options.onLlmUsage)
+ *      et charger les URLs des offres deja en base (scraping incremental)
+ *   1b. Reserver un slot du navigateur partage (file d'attente si BROWSER_MAX_CONTEXTS
+ *      runs sont deja en cours), libere en fin de run
+ *   2. Pour chaque site de criteria.sites : resoudre l'adaptateur (getSiteAdapter),
+ *      scraper, extraire les cartes (repli Claude Sonnet), enrichir les descriptions
+ *   3. Un site en echec est enregistre dans son rapport sans interrompre les autres
+ *   4. Si TOUS les sites ont echoue, l'erreur du premier site est propagee
+ *
+ * Erreurs possibles :
+ *   - ANTHROPIC_API_KEY manquante
+ *   - Aucun navigateur libere dans le delai d'attente de la file
+ *   - Tous les sites en echec (identifiants LinkedIn invalides, 2FA, blocage...)
+ *
+ * Exemple :
+ *   const { offers, sites } = await runSearchAgent(
+ *     { query: "React", location: "Paris", sites: ["linkedin", "wttj"], linkedinEmail: "a@b.com", ... },
+ *     "user-abc123"
+ *   );
+ *   // sites = [{ site: "linkedin", offers: 0, error: "..." }, { site: "wttj", offers: 24 }]
+ */
+export async function runSearchAgent(
+  criteria: SearchCriteria,
+  userId: string,
+  options: SearchAgentOptions = {}
+): Promise<SearchAgentResult> {
+  const llm = getLlmService({ onUsage: options.onLlmUsage });
+
+  console.log(
+    `[Agent] Demarrage recherche "${criteria.query}" a "${criteria.location}" ` +
+    `sur ${criteria.sites.join(", ") || "aucun site"}`
+  );
+
+  const knownUrls = await getKnownOfferUrls(userId, criteria.sites);
+
+  const slot = await acquireBrowserSlot(`search-${userId}`, {
+    onQueueChange: options.onQueueChange,
+  });
+
+  try {
+    return await runSitesSearch(llm, criteria, userId, options, knownUrls, slot);
+  } finally {
+    slot.release();
+  }
+}
+
+/**
+ * Role : Scraper chaque site de la recherche l'un apres l'autre (slot de navigateur reserve)
+ * Retourne : offres filtrees de tous les sites, rapport par site et total des offres ecartees
+ * Leve l'erreur du premier site si TOUS les sites ont echoue
+ */
+async function runSitesSearch(
+  llm: LlmService,
+  criteria: SearchCriteria,
+  userId: string,
+  options: SearchAgentOptions,
+  knownUrls: Set<string>,
+  slot: BrowserSlot
+): Promise<SearchAgentResult> {
+  const offers: ScrapedOffer[] = [];
+  const sites: SiteSearchReport[] = [];
+  const errors: Error[] = [];
+  let dropped = emptyDroppedCounts();
+  let descriptionCache = createDescriptionCacheStats();
+
+  // Les sites sont scrapes l'un apres l'autre pour limiter la memoire (un seul context a la fois)
+  for (const siteId of criteria.sites) {
+    const adapter = getSiteAdapter(siteId);
+
+    if (!adapter) {
+      console.warn(`[Agent] Site "${siteId}" non supporte, ignore`);
+      sites.push({ site: siteId, offers: 0, error: `Site "${siteId}" non supporte` });
+      continue;
+    }
+
+    try {
+      await notifyProgress(options);
+      const siteResult = await runSiteSearch(llm, adapter, criteria, userId, options, knownUrls, slot);
+      const knownOffers = siteResult.offers.filter((o) => o.isKnown).length;
+      offers.push(...siteResult.offers);
+      dropped = mergeDroppedCounts(dropped, siteResult.dropped);
+      descriptionCache = mergeDescriptionCacheStats(descriptionCache, siteResult.descriptionCache);
+      sites.push({
+        site: siteId,
+        offers: siteResult.offers.length,
+        ...(knownOffers > 0 && { knownOffers }),
+        ...(siteResult.extractionPath && { extractionPath: siteResult.extractionPath }),
+        dropped: siteResult.dropped,
+        ...(siteResult.driftingSelectors.length > 0 && {
+          driftingSelectors: siteResult.driftingSelectors,
+        }),
+        ...(siteResult.descriptionCache.hitRate !== null && {
+          descriptionCache: siteResult.descriptionCache,
+        }),
+      });
+    } catch (error) {
+      // Isoler l'echec : les offres des autres sites sont conservees
+      const err = error as Error;
+      console.error(`[Agent] Site ${siteId} en echec : ${err.message}`);
+      errors.push(err);
+      sites.push({ site: siteId, offers: 0, error: err.message });
+    }
+  }
+
+  // Aucun site n'a abouti : propager la premiere erreur pour un message explicite
+  if (errors.length > 0 && sites.every((s) => s.error)) {
+    throw errors[0];
+  }
+
+  return { offers, sites, dropped, descriptionCache };
+}
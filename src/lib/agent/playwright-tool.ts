@@ -1,4 +1,9 @@
-import { type Browser, type BrowserContext, type Page, chromium } from "playwright";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { BrowserContext, Page } from "playwright";
+import { isFixtureMode, resolveFixtureFile, startFixtureServer } from "./fixtures";
+import { openPooledContext, type BrowserSlot } from "./browser-pool";
 
 /**
  * Role : Wrapper autour de Playwright pour automatiser le navigateur
@@ -6,13 +11,22 @@ import { type Browser, type BrowserContext, type Page, chromium } from "playwrig
  *
  * Strategie : utilisation DIRECTE de l'API Playwright dans le meme processus Node.js.
  * Pas de child_process, pas de scripts temporaires, pas de WebSocket.
- * Le navigateur, le context et la page sont stockes en memoire.
+ * Le context et la page de chaque session sont stockes en memoire ; le navigateur
+ * Chromium est partage entre toutes les sessions (cf. ./browser-pool).
  *
  * Avantages par rapport a l'approche child_process :
  * - Plus rapide (pas de spawn/connect a chaque action)
  * - Plus fiable (pas de problemes d'echappement, de timeout shell, de NODE_PATH)
  * - Plus simple a debugger
  *
+ * Sessions orphelines : une session sans activite depuis SESSION_IDLE_TIMEOUT_MS (run
+ * interrompu sans playwrightClose) est fermee par reapOrphanedSessions, verifie
+ * periodiquement tant qu'au moins une session est ouverte ; le slot du pool reserve par
+ * son run (cf. attachBrowserSlot) est libere.
+ *
+ * Mode fixtures (SCRAPER_FIXTURES=1) : les requetes du navigateur sont servies
+ * depuis les pages enregistrees de ./fixtures (cf. routeToFixtures), sans reseau.
+ *
  * Exemple :
  *   await launchBrowser("session1");
  *   const title = await playwrightNavigate("session1", "https://www.wttj.com/fr/jobs");
@@ -24,74 +38,160 @@ import { type Browser, type BrowserContext, type Page, chromium } from "playwrig
 const USER_AGENT =
   "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
 
+/**
+ * Inactivite au-dela de laquelle une session est consideree orpheline.
+ * Superieur a l'attente d'un code 2FA (INTERACTIVE_INPUT_TIMEOUT_MS = 5 min),
+ * pendant laquelle la session reste ouverte sans action.
+ */
+const SESSION_IDLE_TIMEOUT_MS = 15 * 60_000;
+
+/** Intervalle de verification des sessions orphelines */
+const REAPER_INTERVAL_MS = 60_000;
+
 /** Structure d'une session Playwright en memoire */
 interface PlaywrightSession {
-  /** Instance du navigateur Chromium */
-  browser: Browser;
-  /** Context avec user-agent et locale configures */
+  /** Context isole (user-agent, locale, cookies) sur le navigateur partage */
   context: BrowserContext;
   /** Page active (onglet) utilisee pour le scraping */
   page: Page;
   /** Timestamp de creation de la session */
   startedAt: number;
+  /** Timestamp de la derniere action sur la session (detection des orphelines) */
+  lastActivityAt: number;
+  /** Trace Playwright en cours d'enregistrement (cf. LaunchBrowserOptions.trace) */
+  tracing: boolean;
 }
 
 /**
  * Stockage en memoire des sessions Playwright actives
  * Cle : nom de session (ex: "search-userId-timestamp")
- * Valeur : objets browser, context, page
+ * Valeur : objets context, page
  */
 const sessions = new Map<string, PlaywrightSession>();
 
 /**
- * Role : Lancer un navigateur Playwright et creer une session
+ * Slot du pool reserve par le run de chaque session (cf. attachBrowserSlot)
+ * Cle : nom de session ; valeur : slot libere si la session est fermee comme orpheline
+ */
+const sessionSlots = new Map<string, BrowserSlot>();
+
+/** Timer de verification des sessions orphelines (actif tant qu'une session existe) */
+let reaperTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Options de lancement d'une session */
+export interface LaunchBrowserOptions {
+  /**
+   * Etat de session Playwright serialise (JSON de context.storageState()) :
+   * cookies + localStorage restaures dans le context pour eviter un nouveau login
+   */
+  storageState?: string;
+  /**
+   * Enregistrer une trace Playwright (actions, snapshots DOM, reseau) recuperable
+   * par playwrightCaptureFailure. Couteux en memoire : a reserver au diagnostic.
+   */
+  trace?: boolean;
+}
+
+/** Captures de la page d'une session au moment d'un echec */
+export interface FailureCapture {
+  /** Capture d'ecran PNG de la zone visible */
+  screenshot: Buffer | null;
+  /** HTML de la page (DOM courant) */
+  html: string | null;
+  /** Archive de trace Playwright (zip, lisible sur trace.playwright.dev), si enregistree */
+  trace: Buffer | null;
+  /** URL de la page au moment de la capture */
+  url: string;
+}
+
+/**
+ * Role : Creer une session Playwright (context isole sur le navigateur partage)
  * Parametre sessionName : identifiant unique de la session
+ * Parametre options : etat de session a restaurer (optionnel)
  * Retourne : message de confirmation
  *
- * Lance Chromium en mode headless avec un user-agent realiste,
- * un viewport 1920x1080 et la locale fr-FR.
- * Le navigateur desactive la detection d'automatisation.
+ * Le context utilise un user-agent realiste, un viewport 1920x1080 et la locale fr-FR.
+ * Chromium est lance par le pool a la premiere session (cf. ./browser-pool).
  *
  * Exemple :
  *   await launchBrowser("search-wttj");
+ *   await launchBrowser("search-linkedin", { storageState: savedStateJson });
  */
-export async function launchBrowser(sessionName: string): Promise<string> {
+export async function launchBrowser(
+  sessionName: string,
+  options: LaunchBrowserOptions = {}
+): Promise<string> {
   // Fermer la session existante si elle existe (eviter les fuites de memoire)
   if (sessions.has(sessionName)) {
     await playwrightClose(sessionName);
   }
 
-  // Lancer Chromium en mode headless
-  const browser = await chromium.launch({
-    headless: true,
-    args: [
-      "--no-sandbox",
-      "--disable-setuid-sandbox",
-      "--disable-blink-features=AutomationControlled",
-    ],
-  });
-
   // Creer un context avec un user-agent realiste pour eviter la detection de bot
-  const context = await browser.newContext({
+  const context = await openPooledContext({
     userAgent: USER_AGENT,
     viewport: { width: 1920, height: 1080 },
     locale: "fr-FR",
+    // Restaurer les cookies/localStorage d'une session precedente si fournis
+    storageState: options.storageState ? JSON.parse(options.storageState) : undefined,
   });
 
+  // Mode fixtures : aucune requete ne sort vers les sites reels
+  if (isFixtureMode()) {
+    await routeToFixtures(context);
+  }
+
+  if (options.trace) {
+    await context.tracing.start({ screenshots: true, snapshots: true });
+  }
+
   // Creer une page (onglet)
   const page = await context.newPage();
 
   // Stocker la session
   sessions.set(sessionName, {
-    browser,
     context,
     page,
     startedAt: Date.now(),
+    lastActivityAt: Date.now(),
+    tracing: options.trace ?? false,
   });
+  startReaper();
 
   return `Navigateur lance pour la session "${sessionName}"`;
 }
 
+/**
+ * Role : Servir toutes les requetes d'un context depuis le serveur local des fixtures
+ * Parametre context : context Playwright de la session
+ *
+ * L'URL d'origine est resolue via resolveFixtureFile puis le fichier est lu sur le
+ * serveur statique local ; la page garde l'URL d'origine (page.url() inchange).
+ * Une requete sans fixture (images, scripts, tracking) recoit une 404.
+ */
+async function routeToFixtures(context: BrowserContext): Promise<void> {
+  const serverUrl = await startFixtureServer();
+
+  await context.route("**/*", async (route) => {
+    const request = route.request();
+    const file = resolveFixtureFile(request.url());
+
+    if (!file) {
+      if (request.resourceType() === "document") {
+        console.warn(`[Agent] Mode fixtures : aucune page enregistree pour ${request.url()}`);
+      }
+      await route.fulfill({ status: 404, body: "" });
+      return;
+    }
+
+    const response = await fetch(`${serverUrl}/${file}`);
+    await route.fulfill({
+      status: response.status,
+      contentType: response.headers.get("content-type") ?? "text/html; charset=utf-8",
+      body: Buffer.from(await response.arrayBuffer()),
+    });
+  });
+}
+
 /**
  * Role : Recuperer la page active d'une session
  * Parametre sessionName : identifiant de la session
@@ -105,6 +205,7 @@ function getPage(sessionName: string): Page {
       `Session "${sessionName}" introuvable. Lancez d'abord launchBrowser().`
     );
   }
+  session.lastActivityAt = Date.now();
   return session.page;
 }
 
@@ -112,14 +213,14 @@ function getPage(sessionName: string): Page {
  * Role : Naviguer vers une URL dans la session Playwright
  * Parametre sessionName : identifiant de la session
  * Parametre url : URL cible
- * Retourne : JSON avec succes, titre de la page et URL finale
+ * Retourne : JSON avec succes, titre de la page, URL finale et code HTTP (null si inconnu)
  *
  * Attend le chargement du DOM (domcontentloaded) avec un timeout de 45s,
  * puis attend 3s supplementaires pour le JS dynamique.
  *
  * Exemple :
  *   const result = await playwrightNavigate("session1", "https://www.wttj.com/fr/jobs");
- *   // result = '{"success":true,"title":"Offres d\'emploi","url":"https://..."}'
+ *   // result = '{"success":true,"title":"Offres d\'emploi","url":"https://...","status":200}'
  */
 export async function playwrightNavigate(
   sessionName: string,
@@ -127,7 +228,7 @@ export async function playwrightNavigate(
 ): Promise<string> {
   const page = getPage(sessionName);
 
-  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 45_000 });
+  const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 45_000 });
   // Attente supplementaire pour le chargement du JS dynamique (SPA, hydratation)
   await page.waitForTimeout(3000);
 
@@ -136,7 +237,7 @@ export async function playwrightNavigate(
   await dismissCookieBanners(page);
 
   const title = await page.title();
-  return JSON.stringify({ success: true, title, url: page.url() });
+  return JSON.stringify({ success: true, title, url: page.url(), status: response?.status() ?? null });
 }
 
 /**
@@ -310,6 +411,112 @@ export async function playwrightExtractLinks(
   return JSON.stringify(links);
 }
 
+/** Selecteurs CSS d'une carte d'offre (sous-ensemble de SiteConfig.selectors) */
+export interface JobCardSelectors {
+  /** Conteneur de la liste : la remontee vers la carte s'arrete a ce niveau */
+  jobList?: string;
+  /** Lien vers l'offre, un par carte */
+  jobLink: string;
+  /** Titre de l'offre (fallback : texte du lien) */
+  jobTitle?: string;
+  /** Nom de l'entreprise */
+  company?: string;
+  /** Localisation */
+  location?: string;
+}
+
+/** Contenu brut d'une carte d'offre lu dans le DOM */
+export interface JobCardElements {
+  /** Attribut href du lien (relatif ou absolu) */
+  href: string;
+  /** Texte du lien (ou aria-label si le lien n'a pas de texte) */
+  linkText: string;
+  /** Texte de l'element jobTitle de la carte, chaine vide si absent */
+  title: string;
+  /** Texte de l'element company de la carte, chaine vide si absent */
+  company: string;
+  /** Texte de l'element location de la carte, chaine vide si absent */
+  location: string;
+  /** Lignes de texte visibles de la carte (salaire, contrat, extraits...) */
+  lines: string[];
+  /** Attribut datetime du premier <time> de la carte (date de publication), chaine vide si absent */
+  postedAt: string;
+}
+
+/**
+ * Role : Lire les cartes d'offres de la page de resultats via les selecteurs du site
+ * Parametre sessionName : identifiant de la session
+ * Parametre selectors : selecteurs de la carte (jobLink obligatoire)
+ * Retourne : une entree par lien d'offre distinct, dans l'ordre de la page
+ *
+ * La carte d'un lien est son plus grand ancetre qui ne contient aucun autre lien
+ * d'offre (liens logo + titre vers la meme offre toleres), sans depasser jobList.
+ * Les champs titre/entreprise/localisation sont cherches dans cette carte uniquement.
+ *
+ * Exemple :
+ *   const cards = await playwrightExtractJobCards("session1", INDEED_CONFIG.selectors);
+ *   // [{ href: "/rc/clk?jk=...", title: "Dev React", company: "Qonto", location: "Paris (75)", ... }]
+ */
+export async function playwrightExtractJobCards(
+  sessionName: string,
+  selectors: JobCardSelectors
+): Promise<JobCardElements[]> {
+  const page = getPage(sessionName);
+
+  return page.evaluate((s: JobCardSelectors) => {
+    const queryAll = (root: ParentNode, selector: string): Element[] => {
+      try {
+        return Array.from(root.querySelectorAll(selector));
+      } catch {
+        return []; // Selecteur invalide
+      }
+    };
+
+    const textOf = (card: Element, selector?: string): string => {
+      if (!selector) return "";
+      const el = queryAll(card, selector)[0] as HTMLElement | undefined;
+      return el ? el.innerText.trim() : "";
+    };
+
+    const listContainers = s.jobList ? queryAll(document, s.jobList) : [];
+    const links = queryAll(document, s.jobLink) as HTMLAnchorElement[];
+    const seen = new Set<string>();
+    const cards: JobCardElements[] = [];
+
+    for (const link of links) {
+      const href = link.getAttribute("href") || "";
+      if (!href || seen.has(href)) continue;
+      seen.add(href);
+
+      // Remonter tant que le parent ne contient que des liens vers cette offre
+      let card: Element = link;
+      while (
+        card.parentElement &&
+        card.parentElement !== document.body &&
+        !listContainers.includes(card.parentElement) &&
+        queryAll(card.parentElement, s.jobLink).every((a) => a.getAttribute("href") === href)
+      ) {
+        card = card.parentElement;
+      }
+
+      cards.push({
+        href,
+        linkText: link.innerText.trim() || link.getAttribute("aria-label") || "",
+        title: textOf(card, s.jobTitle),
+        company: textOf(card, s.company),
+        location: textOf(card, s.location),
+        lines: (card as HTMLElement).innerText
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean),
+        postedAt: card.querySelector("time[datetime]")?.getAttribute("datetime") || "",
+      });
+    }
+
+    return cards;
+  }, selectors);
+}
+
 /**
  * Role : Extraire le texte d'un element specifique via une liste de selecteurs CSS
  * Essaie chaque selecteur dans l'ordre et retourne le premier match valide (> 100 chars)
@@ -529,6 +736,37 @@ export async function playwrightScroll(sessionName: string): Promise<void> {
   await page.waitForTimeout(1500);
 }
 
+/**
+ * Role : Compter les elements trouves par chaque selecteur CSS sur la page courante
+ * Parametre sessionName : identifiant de la session
+ * Parametre selectors : selecteurs indexes par cle (ex: { "selectors.jobLink": "a.job-card" })
+ * Retourne : nombre d'elements par cle (0 si aucun element ou selecteur invalide)
+ *
+ * Utilise pour la detection de derive des selecteurs (cf. selector-health.ts).
+ *
+ * Exemple :
+ *   await playwrightCountSelectors("session1", { "selectors.jobLink": "a.job-card" });
+ *   // { "selectors.jobLink": 25 }
+ */
+export async function playwrightCountSelectors(
+  sessionName: string,
+  selectors: Record<string, string>
+): Promise<Record<string, number>> {
+  const page = getPage(sessionName);
+  const counts: Record<string, number> = {};
+
+  for (const [key, selector] of Object.entries(selectors)) {
+    try {
+      counts[key] = await page.locator(selector).count();
+    } catch {
+      // Selecteur syntaxiquement invalide : equivalent a aucun element trouve
+      counts[key] = 0;
+    }
+  }
+
+  return counts;
+}
+
 /**
  * Role : Obtenir l'URL actuelle de la page
  * Parametre sessionName : identifiant de la session
@@ -541,14 +779,143 @@ export async function playwrightGetUrl(sessionName: string): Promise<string> {
   return page.url();
 }
 
+/**
+ * Role : Exporter l'etat de session (cookies + localStorage) du context
+ * Parametre sessionName : identifiant de la session
+ * Retourne : JSON serialise, reutilisable via launchBrowser({ storageState })
+ *
+ * Exemple :
+ *   const state = await playwrightGetStorageState("session1");
+ *   // state = '{"cookies":[{"name":"li_at",...}],"origins":[...]}'
+ */
+export async function playwrightGetStorageState(sessionName: string): Promise<string> {
+  const session = sessions.get(sessionName);
+  if (!session) {
+    throw new Error(
+      `Session "${sessionName}" introuvable. Lancez d'abord launchBrowser().`
+    );
+  }
+  return JSON.stringify(await session.context.storageState());
+}
+
+/**
+ * Role : Capturer l'etat de la page d'une session en echec (capture d'ecran, HTML, trace)
+ * Parametre sessionName : identifiant de la session
+ * Retourne : captures disponibles (chaque capture en echec vaut null), ou null si
+ *   la session n'existe plus (deja fermee)
+ *
+ * La trace est arretee par la capture : une seule trace par session.
+ *
+ * Exemple :
+ *   const capture = await playwrightCaptureFailure("session1");
+ *   // { screenshot: <Buffer 89 50 4e 47...>, html: "<!DOCTYPE html>...", trace: null, url: "https://..." }
+ */
+export async function playwrightCaptureFailure(sessionName: string): Promise<FailureCapture | null> {
+  const session = sessions.get(sessionName);
+  if (!session) return null;
+
+  const { page, context } = session;
+
+  const screenshot = await page.screenshot({ type: "png", timeout: 10_000 }).catch(() => null);
+  const html = await page.content().catch(() => null);
+
+  let trace: Buffer | null = null;
+  if (session.tracing) {
+    session.tracing = false;
+    const dir = await mkdtemp(path.join(tmpdir(), "jobagent-trace-"));
+    try {
+      const tracePath = path.join(dir, "trace.zip");
+      await context.tracing.stop({ path: tracePath });
+      trace = await readFile(tracePath);
+    } catch {
+      // Trace indisponible (context ferme) : les autres captures restent utilisables
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  return { screenshot, html, trace, url: page.url() };
+}
+
+/**
+ * Role : Fermer une session (son context ; le navigateur partage reste ouvert)
+ * Parametre sessionName : identifiant de la session
+ */
 export async function playwrightClose(sessionName: string): Promise<void> {
   const session = sessions.get(sessionName);
   if (session) {
+    // Retirer la session avant la fermeture : aucune action ne peut plus la cibler
+    sessions.delete(sessionName);
+    sessionSlots.delete(sessionName);
     try {
-      await session.browser.close();
+      await session.context.close();
     } catch {
-      // Navigateur peut-etre deja ferme, ignorer
+      // Context peut-etre deja ferme (navigateur deconnecte), ignorer
     }
-    sessions.delete(sessionName);
   }
+
+  if (sessions.size === 0 && reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+}
+
+/**
+ * Role : Rattacher une session au slot du pool reserve par son run
+ * Parametre sessionName : session du run (ouverte ou a ouvrir)
+ * Parametre slot : slot du run (cf. acquireBrowserSlot), libere si la session devient orpheline
+ *
+ * Le rattachement prend fin a la fermeture de la session (playwrightClose) : le run
+ * conserve alors son slot pour le site suivant.
+ *
+ * Exemple :
+ *   attachBrowserSlot("search-user-123-wttj-1718000000000", slot);
+ */
+export function attachBrowserSlot(sessionName: string, slot: BrowserSlot): void {
+  sessionSlots.set(sessionName, slot);
+}
+
+/**
+ * Role : Fermer les sessions sans activite depuis maxIdleMs (runs interrompus)
+ * Parametre maxIdleMs : inactivite maximale toleree (defaut SESSION_IDLE_TIMEOUT_MS)
+ * Retourne : nombre de sessions fermees
+ *
+ * Un run plante sans passer par playwrightClose laisse son context ouvert : il occupe
+ * de la memoire dans le navigateur partage jusqu'a cette verification. Son slot du pool
+ * (cf. attachBrowserSlot) est libere aussitot : un run bloque ne retient plus les runs
+ * en file. Le run, s'il reprend, echoue sur "Session introuvable".
+ */
+export async function reapOrphanedSessions(
+  maxIdleMs: number = SESSION_IDLE_TIMEOUT_MS
+): Promise<number> {
+  const now = Date.now();
+  const orphans = [...sessions.entries()]
+    .filter(([, session]) => now - session.lastActivityAt > maxIdleMs)
+    .map(([name]) => name);
+
+  for (const name of orphans) {
+    const idleMinutes = Math.round((now - (sessions.get(name)?.lastActivityAt ?? now)) / 60_000);
+    console.warn(`[Agent] Session orpheline "${name}" fermee (inactive depuis ${idleMinutes} min)`);
+    const slot = sessionSlots.get(name);
+    await playwrightClose(name);
+    slot?.release();
+  }
+
+  return orphans.length;
+}
+
+/**
+ * Role : Demarrer la verification periodique des sessions orphelines (une seule fois)
+ */
+function startReaper(): void {
+  if (reaperTimer) return;
+
+  reaperTimer = setInterval(() => {
+    reapOrphanedSessions().catch((error: Error) => {
+      console.warn(`[Agent] Verification des sessions orphelines impossible : ${error.message}`);
+    });
+  }, REAPER_INTERVAL_MS);
+
+  // Ne pas retenir le processus (scripts CLI) pour ce seul timer
+  reaperTimer.unref();
 }
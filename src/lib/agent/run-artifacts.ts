@@ -0,0 +1,178 @@
+import { prisma } from "@/lib/db";
+import { supabaseAdmin } from "@/lib/supabase";
+import type { SiteFailureCapture } from "./orchestrator";
+
+/**
+ * Role : Stockage des captures d'echec d'un run de scraping (capture d'ecran, HTML, trace)
+ * Utilise par : /api/agent/search et run-user-search (enregistrement pendant le run),
+ *   /api/agent/runs/[id]/artifacts/[index] (lien de telechargement signe)
+ *
+ * Probleme resolu : AgentRun.error ne contient qu'un message ("LinkedIn a bloque l'acces").
+ * Distinguer un captcha d'un selecteur casse demandait de reproduire le scraping en local.
+ * L'orchestrateur capture la page au moment de l'echec ou du blocage ; les fichiers sont
+ * deposes dans le bucket prive ARTIFACTS_BUCKET et references dans AgentRun.artifacts,
+ * affiches dans l'historique de AgentStatusIndicator.
+ *
+ * Chemin des fichiers : {userId}/{agentRunId}/{site}-{timestamp}.{png|html|zip}
+ * Le bucket est prive (pages scrapees avec une session connectee) : les fichiers ne sont
+ * accessibles que par URL signee, apres verification du proprietaire du run.
+ *
+ * Exemple :
+ *   await runSearchAgent(criteria, userId, {
+ *     onFailureCapture: createRunArtifactRecorder(agentRun.id, userId),
+ *   });
+ */
+
+/** Bucket Supabase Storage prive des captures d'echec */
+const ARTIFACTS_BUCKET = "agent-artifacts";
+
+/** Duree de validite d'un lien de telechargement signe (secondes) */
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+/** Type de fichier capture */
+export type RunArtifactKind = "screenshot" | "html" | "trace";
+
+/** Fichier capture lors d'un echec, reference dans AgentRun.artifacts */
+export interface RunArtifact {
+  /** Site en echec (ex: "linkedin") */
+  site: string;
+  kind: RunArtifactKind;
+  /** Chemin dans ARTIFACTS_BUCKET */
+  path: string;
+  /** Motif de la capture (message d'erreur, blocage detecte) */
+  reason: string;
+  /** URL de la page capturee */
+  pageUrl: string;
+  /** Date de capture (ISO) */
+  capturedAt: string;
+}
+
+/** Extension et type MIME de chaque type de fichier */
+const ARTIFACT_FORMATS: Record<RunArtifactKind, { extension: string; contentType: string }> = {
+  screenshot: { extension: "png", contentType: "image/png" },
+  // text/plain : la page scrapee n'est jamais rendue (scripts) depuis le stockage
+  html: { extension: "html", contentType: "text/plain; charset=utf-8" },
+  trace: { extension: "zip", contentType: "application/zip" },
+};
+
+/**
+ * Role : Creer la fonction onFailureCapture liee a un AgentRun
+ * Parametre agentRunId : run auquel rattacher les captures
+ * Parametre userId : proprietaire du run (prefixe des chemins)
+ * Retourne : fonction (capture) => upload des fichiers + ajout a AgentRun.artifacts
+ *
+ * Un fichier dont l'upload echoue est ignore (journalise) : les autres restent rattaches.
+ */
+export function createRunArtifactRecorder(
+  agentRunId: string,
+  userId: string
+): (capture: SiteFailureCapture) => Promise<void> {
+  return async (capture) => {
+    const capturedAt = new Date();
+    const basePath = `${userId}/${agentRunId}/${capture.site}-${capturedAt.getTime()}`;
+
+    const files: [RunArtifactKind, Buffer | null][] = [
+      ["screenshot", capture.screenshot],
+      ["html", capture.html !== null ? Buffer.from(capture.html, "utf-8") : null],
+      ["trace", capture.trace],
+    ];
+
+    const artifacts: RunArtifact[] = [];
+
+    for (const [kind, content] of files) {
+      if (!content) continue;
+
+      const { extension, contentType } = ARTIFACT_FORMATS[kind];
+      const path = `${basePath}.${extension}`;
+
+      const { error } = await supabaseAdmin.storage
+        .from(ARTIFACTS_BUCKET)
+        .upload(path, content, { contentType, upsert: true });
+
+      if (error) {
+        console.warn(`[Agent] Upload de la capture ${path} impossible : ${error.message}`);
+        continue;
+      }
+
+      artifacts.push({
+        site: capture.site,
+        kind,
+        path,
+        reason: capture.reason,
+        pageUrl: capture.url,
+        capturedAt: capturedAt.toISOString(),
+      });
+    }
+
+    if (artifacts.length === 0) return;
+
+    // Les sites sont scrapes l'un apres l'autre : pas d'ecriture concurrente sur le run
+    const run = await prisma.agentRun.findUnique({
+      where: { id: agentRunId },
+      select: { artifacts: true },
+    });
+
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: {
+        // Copie en objets litteraux : une interface n'est pas assignable a Prisma.InputJsonValue
+        artifacts: [...getRunArtifacts(run?.artifacts), ...artifacts].map((a) => ({ ...a })),
+      },
+    });
+
+    console.log(
+      `[Agent] ${artifacts.length} capture(s) d'echec ${capture.site} rattachee(s) au run ${agentRunId}`
+    );
+  };
+}
+
+/**
+ * Role : Lire AgentRun.artifacts (JSON) en liste typee
+ * Retourne : captures du run, [] si aucune
+ */
+export function getRunArtifacts(value: unknown): RunArtifact[] {
+  return Array.isArray(value) ? (value as RunArtifact[]) : [];
+}
+
+/**
+ * Role : Creer un lien de telechargement temporaire vers une capture
+ * Parametre artifact : capture du run (proprietaire deja verifie par l'appelant)
+ * Parametre run : run auquel la capture est rattachee (id et proprietaire)
+ * Retourne : URL signee valable SIGNED_URL_TTL_SECONDS, ou null si le fichier est introuvable
+ *   ou hors du dossier du run
+ *
+ * La capture d'ecran s'affiche dans le navigateur ; le HTML et la trace sont telecharges.
+ * Seuls les chemins "{userId}/{agentRunId}/..." crees par createRunArtifactRecorder sont
+ * signes : un chemin modifie dans AgentRun.artifacts ne donne acces a aucun autre fichier.
+ */
+export async function getArtifactDownloadUrl(
+  artifact: RunArtifact,
+  run: { id: string; userId: string }
+): Promise<string | null> {
+  const runPrefix = `${run.userId}/${run.id}/`;
+  if (
+    typeof artifact.path !== "string" ||
+    !artifact.path.startsWith(runPrefix) ||
+    artifact.path.split("/").includes("..")
+  ) {
+    console.warn(`[API] Capture ${String(artifact.path)} hors du dossier du run ${run.id} : refusee`);
+    return null;
+  }
+
+  const fileName = artifact.path.split("/").pop();
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(ARTIFACTS_BUCKET)
+    .createSignedUrl(
+      artifact.path,
+      SIGNED_URL_TTL_SECONDS,
+      artifact.kind === "screenshot" ? undefined : { download: fileName }
+    );
+
+  if (error || !data) {
+    console.warn(`[API] Lien signe de la capture ${artifact.path} impossible : ${error?.message}`);
+    return null;
+  }
+
+  return data.signedUrl;
+}
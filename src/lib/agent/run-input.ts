@@ -0,0 +1,162 @@
+import { prisma } from "@/lib/db";
+import type { VerificationRequest } from "./orchestrator";
+
+/**
+ * Role : Mettre un AgentRun en pause le temps qu'un utilisateur saisisse une reponse
+ * Utilise par : /api/agent/search (recherche manuelle) et run-user-search (Inngest)
+ *
+ * Flow :
+ *   1. AgentRun → status "awaiting_input" + prompt (affiche par AgentStatusIndicator)
+ *   2. L'utilisateur saisit le code → POST /api/agent/runs/[id]/input ecrit AgentRun.input
+ *   3. Polling de AgentRun.input jusqu'a reponse ou expiration
+ *   4. AgentRun → status "pending", prompt et input effaces ; le code est retourne
+ *
+ * Le navigateur reste ouvert pendant l'attente : la session Playwright est reprise
+ * telle quelle avec le code saisi.
+ *
+ * Meme principe pour l'attente d'un navigateur libre (createRunQueueNotifier) :
+ * AgentRun → status "queued" tant que le run est en file, puis "pending".
+ *
+ * Runs interrompus : un worker plante ou redemarre ne met jamais son AgentRun a jour.
+ * failStaleAgentRuns (cron Inngest fail-stale-runs) passe en erreur les runs non termines
+ * sans mise a jour depuis STALE_RUN_TIMEOUT_MS ; un run actif signale son avancement
+ * (createRunProgressNotifier) pour ne pas etre confondu avec eux.
+ *
+ * Exemple :
+ *   const { offers } = await runSearchAgent(criteria, userId, {
+ *     requestVerificationCode: createRunInputRequester(agentRun.id, INTERACTIVE_INPUT_TIMEOUT_MS),
+ *   });
+ */
+
+/** Delai de reponse pour une recherche lancee manuellement (utilisateur devant l'ecran) */
+export const INTERACTIVE_INPUT_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Delai de reponse pour une recherche planifiee : l'utilisateur n'est probablement
+ * pas connecte, le run abandonne vite et le signale dans l'indicateur du header
+ */
+export const SCHEDULED_INPUT_TIMEOUT_MS = 2 * 60_000;
+
+/**
+ * Anciennete (depuis la derniere mise a jour) au-dela de laquelle un run non termine est
+ * considere interrompu. Superieur a l'attente d'un navigateur libre (10 min) et a celle
+ * d'un code 2FA ; un run actif met a jour son AgentRun a chaque page visitee.
+ */
+const STALE_RUN_TIMEOUT_MS = 30 * 60_000;
+
+/** Statuts d'un run non termine */
+const UNFINISHED_RUN_STATUSES = ["queued", "pending", "awaiting_input"];
+
+/** Intervalle de polling de AgentRun.input */
+const INPUT_POLL_INTERVAL_MS = 3_000;
+
+/**
+ * Role : Creer la fonction requestVerificationCode liee a un AgentRun
+ * Parametre agentRunId : run a mettre en pause
+ * Parametre timeoutMs : delai maximum d'attente de la reponse
+ * Retourne : fonction (request) => code saisi, ou null si delai expire
+ */
+export function createRunInputRequester(
+  agentRunId: string,
+  timeoutMs: number
+): (request: VerificationRequest) => Promise<string | null> {
+  return async (request) => {
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: { status: "awaiting_input", prompt: request.message, input: null },
+    });
+
+    console.log(`[Agent] Run ${agentRunId} en attente de saisie (${request.site}, ${timeoutMs / 1000}s max)`);
+
+    const deadline = Date.now() + timeoutMs;
+    let input: string | null = null;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, INPUT_POLL_INTERVAL_MS));
+
+      const run = await prisma.agentRun.findUnique({
+        where: { id: agentRunId },
+        select: { input: true },
+      });
+
+      if (run?.input) {
+        input = run.input;
+        break;
+      }
+    }
+
+    // Reprendre le run et effacer la saisie (le code n'est jamais conserve)
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: { status: "pending", prompt: null, input: null },
+    });
+
+    if (!input) {
+      console.warn(`[Agent] Run ${agentRunId} : aucune saisie recue avant expiration`);
+    }
+
+    return input;
+  };
+}
+
+/**
+ * Role : Creer la fonction onQueueChange liee a un AgentRun (file d'attente du navigateur)
+ * Parametre agentRunId : run a marquer "queued" puis "pending"
+ * Retourne : fonction (position) => mise a jour du statut (null = scraping demarre)
+ *
+ * Exemple :
+ *   await runSearchAgent(criteria, userId, { onQueueChange: createRunQueueNotifier(agentRun.id) });
+ */
+export function createRunQueueNotifier(
+  agentRunId: string
+): (position: number | null) => Promise<void> {
+  return async (position) => {
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: { status: position === null ? "pending" : "queued" },
+    });
+  };
+}
+
+/**
+ * Role : Creer la fonction onProgress liee a un AgentRun (signal d'avancement du scraping)
+ * Parametre agentRunId : run dont la date de mise a jour est rafraichie
+ * Retourne : fonction () => mise a jour de AgentRun.updatedAt
+ *
+ * Exemple :
+ *   await runSearchAgent(criteria, userId, { onProgress: createRunProgressNotifier(agentRun.id) });
+ */
+export function createRunProgressNotifier(agentRunId: string): () => Promise<void> {
+  return async () => {
+    await prisma.agentRun.update({
+      where: { id: agentRunId },
+      data: { updatedAt: new Date() },
+    });
+  };
+}
+
+/**
+ * Role : Passer en erreur les runs non termines sans mise a jour depuis STALE_RUN_TIMEOUT_MS
+ * Retourne : nombre de runs passes en erreur
+ *
+ * Sans ce passage, un run interrompu reste affiche "en cours" dans l'indicateur du header
+ * et compte dans le quota de recherches du jour.
+ */
+export async function failStaleAgentRuns(): Promise<number> {
+  const { count } = await prisma.agentRun.updateMany({
+    where: {
+      status: { in: UNFINISHED_RUN_STATUSES },
+      updatedAt: { lt: new Date(Date.now() - STALE_RUN_TIMEOUT_MS) },
+    },
+    data: {
+      status: "error",
+      error: "Run interrompu (serveur arrete ou redemarre pendant l'execution)",
+      prompt: null,
+    },
+  });
+
+  if (count > 0) {
+    console.warn(`[Agent] ${count} run(s) interrompu(s) passe(s) en erreur`);
+  }
+  return count;
+}
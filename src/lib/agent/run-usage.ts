@@ -0,0 +1,53 @@
+import { prisma } from "@/lib/db";
+import type { LlmUsageListener } from "@/lib/llm";
+
+/**
+ * Role : Rattacher la consommation LLM d'un run a son AgentRun (tokens et cout)
+ * Utilise par : /api/agent/search et run-user-search (scraping), /api/agent/apply (generation),
+ *   /api/cv/parse (analyse de CV)
+ *
+ * Chaque appel cree une ligne LlmCall (modele, tokens, cout) et incremente les cumuls
+ * AgentRun.inputTokens / outputTokens / costUsd dans la meme transaction.
+ * Un enregistrement en echec est journalise sans interrompre le run.
+ * Les cumuls alimentent la page /settings/usage (depense par jour, par type, par recherche).
+ *
+ * Exemple :
+ *   await runSearchAgent(criteria, userId, {
+ *     onLlmUsage: createRunUsageRecorder(agentRun.id),
+ *   });
+ */
+
+/**
+ * Role : Creer la fonction onUsage liee a un AgentRun
+ * Parametre agentRunId : run auquel rattacher les appels
+ * Retourne : fonction (appel) => ligne LlmCall + cumul sur l'AgentRun
+ */
+export function createRunUsageRecorder(agentRunId: string): LlmUsageListener {
+  return async (call) => {
+    try {
+      await prisma.$transaction([
+        prisma.llmCall.create({
+          data: {
+            agentRunId,
+            role: call.role,
+            model: call.model,
+            inputTokens: call.inputTokens,
+            outputTokens: call.outputTokens,
+            costUsd: call.costUsd,
+          },
+        }),
+        prisma.agentRun.update({
+          where: { id: agentRunId },
+          data: {
+            inputTokens: { increment: call.inputTokens },
+            outputTokens: { increment: call.outputTokens },
+            costUsd: { increment: call.costUsd },
+          },
+        }),
+      ]);
+    } catch (error) {
+      const err = error as Error;
+      console.warn(`[Agent] Consommation LLM du run ${agentRunId} non enregistree : ${err.message}`);
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getOfferSalaryData, parseSalary } from "./salary-parser";
+
+/**
+ * Role : Tests unitaires de salary-parser.ts (npm test)
+ *
+ * Exemple :
+ *   npx tsx --test src/lib/agent/salary-parser.test.ts
+ */
+
+/** Champs salary* d'une offre sans salaire lisible */
+const EMPTY_SALARY_DATA = {
+  salaryMin: null,
+  salaryMax: null,
+  salaryCurrency: null,
+  salaryPeriod: null,
+  salaryAnnualMin: null,
+  salaryAnnualMax: null,
+};
+
+describe("parseSalary", () => {
+  it("lit un montant en milliers (45k€) comme un salaire annuel", () => {
+    assert.deepEqual(parseSalary("45k€"), {
+      min: 45000,
+      max: 45000,
+      currency: "EUR",
+      period: "yearly",
+      annualMin: 45000,
+      annualMax: 45000,
+    });
+  });
+
+  it("applique le k aux deux bornes d'une fourchette (45-55K€)", () => {
+    assert.deepEqual(parseSalary("45-55K€"), {
+      min: 45000,
+      max: 55000,
+      currency: "EUR",
+      period: "yearly",
+      annualMin: 45000,
+      annualMax: 55000,
+    });
+  });
+
+  it("lit une fourchette annuelle avec separateurs de milliers", () => {
+    assert.deepEqual(parseSalary("45 000 – 55 000 € brut/an"), {
+      min: 45000,
+      max: 55000,
+      currency: "EUR",
+      period: "yearly",
+      annualMin: 45000,
+      annualMax: 55000,
+    });
+  });
+
+  it("annualise un salaire mensuel sur 12 mois", () => {
+    assert.deepEqual(parseSalary("3 500 €/mois"), {
+      min: 3500,
+      max: 3500,
+      currency: "EUR",
+      period: "monthly",
+      annualMin: 42000,
+      annualMax: 42000,
+    });
+  });
+
+  it("annualise un TJM sur 218 jours", () => {
+    assert.deepEqual(parseSalary("500 €/jour"), {
+      min: 500,
+      max: 500,
+      currency: "EUR",
+      period: "daily",
+      annualMin: 109000,
+      annualMax: 109000,
+    });
+  });
+
+  it("ignore une prime hors fourchette", () => {
+    assert.equal(parseSalary("50 000 € + 5 000 € de bonus")?.min, 50000);
+  });
+
+  it("retourne null sans montant lisible ou plausible", () => {
+    assert.equal(parseSalary("Selon profil"), null);
+    assert.equal(parseSalary("Selon experience (5 ans)"), null);
+    assert.equal(parseSalary(""), null);
+  });
+});
+
+describe("getOfferSalaryData", () => {
+  it("remplit les champs salary* d'un salaire lisible", () => {
+    assert.deepEqual(getOfferSalaryData("500 €/jour"), {
+      salaryMin: 500,
+      salaryMax: 500,
+      salaryCurrency: "EUR",
+      salaryPeriod: "daily",
+      salaryAnnualMin: 109000,
+      salaryAnnualMax: 109000,
+    });
+  });
+
+  it("met tous les champs a null sans salaire affiche", () => {
+    assert.deepEqual(getOfferSalaryData(null), EMPTY_SALARY_DATA);
+    assert.deepEqual(getOfferSalaryData(""), EMPTY_SALARY_DATA);
+  });
+
+  it("met tous les champs a null pour un salaire illisible", () => {
+    assert.deepEqual(getOfferSalaryData("Selon profil"), EMPTY_SALARY_DATA);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Role : Conversion d'un salaire affiche en texte libre en fourchette numerique
+ * Utilise par : offer-filters.ts (regle salaryMin), /api/agent/search et run-user-search
+ *   (champs salary* de Offer), scripts/parse-salaries.ts (rattrapage des offres existantes)
+ *
+ * Probleme resolu : Offer.salary est le texte du site ("45-55K€", "500€/jour",
+ * "Selon profil"). Sans montant numerique, /offers ne peut ni filtrer ni trier par
+ * remuneration. Chaque salaire lisible est decompose en montants min/max, devise
+ * et periode, puis annualise pour comparer un TJM freelance a un salaire en CDI.
+ *
+ * Regles :
+ *   - Montants : "45 000", "45.000", "45k", "45,5k", "3 000,00" ; le "k" d'une
+ *     fourchette porte sur les deux bornes ("45-55k€" = 45 000 a 55 000)
+ *   - Un montant inferieur au tiers du plus eleve est ignore (variable, prime :
+ *     "50 000 € + 5 000 € de bonus" = 50 000)
+ *   - Periode explicite (par jour, TJM, par mois, /h, par an) ; a defaut, deduite
+ *     du montant le plus eleve (cf. getImplicitPeriod)
+ *   - Annualisation : WORKING_DAYS_PER_YEAR jours, 12 mois, WORKING_HOURS_PER_YEAR heures
+ *   - Les montants annualises restent dans la devise affichee (aucune conversion)
+ *
+ * Exemple :
+ *   parseSalary("45-55K€")
+ *   // { min: 45000, max: 55000, currency: "EUR", period: "yearly", annualMin: 45000, annualMax: 55000 }
+ *   parseSalary("500€/jour")
+ *   // { min: 500, max: 500, currency: "EUR", period: "daily", annualMin: 109000, annualMax: 109000 }
+ *   parseSalary("Selon profil") // null
+ */
+
+/** Periode de remuneration : annuelle, mensuelle, journaliere (TJM) ou horaire */
+export type SalaryPeriod = "yearly" | "monthly" | "daily" | "hourly";
+
+/** Salaire decompose en fourchette numerique */
+export interface ParsedSalary {
+  /** Borne basse dans la periode affichee (egale a max pour un montant unique) */
+  min: number;
+  /** Borne haute dans la periode affichee */
+  max: number;
+  /** Code ISO de la devise (EUR par defaut) */
+  currency: string;
+  period: SalaryPeriod;
+  /** Equivalent annuel de min */
+  annualMin: number;
+  /** Equivalent annuel de max */
+  annualMax: number;
+}
+
+/**
+ * Nombre de jours / mois / heures travailles par an, pour annualiser un salaire.
+ * 218 jours : forfait jours standard en France. 1607 heures : duree legale annuelle.
+ */
+const WORKING_DAYS_PER_YEAR = 218;
+const MONTHS_PER_YEAR = 12;
+const WORKING_HOURS_PER_YEAR = 1607;
+
+/** Multiplicateur d'annualisation de chaque periode */
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  yearly: 1,
+  monthly: MONTHS_PER_YEAR,
+  daily: WORKING_DAYS_PER_YEAR,
+  hourly: WORKING_HOURS_PER_YEAR,
+};
+
+/** Periodes explicites, testees dans l'ordre */
+const PERIOD_PATTERNS: { period: SalaryPeriod; pattern: RegExp }[] = [
+  { period: "daily", pattern: /(par|\/)\s*(jour|j\b|day)|journalier|\btjm\b|per day|daily/ },
+  { period: "monthly", pattern: /(par|\/)\s*(mois|month)|mensuel|per month|monthly/ },
+  { period: "hourly", pattern: /(par|\/)\s*(heure|h\b|hour|hr\b)|l'heure|horaire|per hour|hourly/ },
+  { period: "yearly", pattern: /(par|\/)\s*(an\b|annee|year|yr\b)|annuel|per year|yearly/ },
+];
+
+/** Devises reconnues (EUR si aucune) */
+const CURRENCY_PATTERNS: { currency: string; pattern: RegExp }[] = [
+  { currency: "USD", pattern: /\$|\busd\b|dollars?/ },
+  { currency: "GBP", pattern: /£|\bgbp\b/ },
+  { currency: "CHF", pattern: /\bchf\b/ },
+];
+
+/**
+ * Plafond d'un montant sans periode explicite considere comme un TJM (500 € = par jour)
+ * ou comme un salaire mensuel (3 000 € = par mois) ; au-dela : salaire annuel
+ */
+const MAX_IMPLICIT_DAILY = 1500;
+const MAX_IMPLICIT_MONTHLY = 10_000;
+
+/** Montant minimal plausible par periode ("Selon experience (5 ans)" n'est pas un TJM de 5 €) */
+const MIN_PLAUSIBLE_AMOUNT: Record<SalaryPeriod, number> = {
+  yearly: 5000,
+  monthly: 500,
+  daily: 50,
+  hourly: 8,
+};
+
+/**
+ * Role : Normaliser un texte pour la comparaison (minuscules, sans accents, espaces insecables)
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\u00a0\u202f]/g, " ");
+}
+
+/**
+ * Role : Periode d'un salaire sans mention explicite, deduite de son montant le plus eleve
+ * Exemple : getImplicitPeriod(650, false) // "daily" ; getImplicitPeriod(45, true) // "yearly"
+ */
+function getImplicitPeriod(max: number, hasThousands: boolean): SalaryPeriod {
+  if (hasThousands || max > MAX_IMPLICIT_MONTHLY) return "yearly";
+  return max <= MAX_IMPLICIT_DAILY ? "daily" : "monthly";
+}
+
+/**
+ * Role : Decomposer un salaire affiche en fourchette numerique annualisee
+ * Parametre salary : texte du salaire (ex: "45 000 € - 55 000 € par an", "500 €/jour", "45-55k€")
+ * Retourne : fourchette, devise et periode, ou null si aucun montant plausible n'est lisible
+ *
+ * Exemple :
+ *   parseSalary("De 3 000 € à 3 500 € par mois")
+ *   // { min: 3000, max: 3500, currency: "EUR", period: "monthly", annualMin: 36000, annualMax: 42000 }
+ */
+export function parseSalary(salary: string): ParsedSalary | null {
+  const text = normalize(salary);
+
+  // Montants : "45 000", "45000", "45k", "45,5k", "3 000,00"
+  const matches = [...text.matchAll(/(\d{1,3}(?:[ .]\d{3})+|\d+)(?:,(\d+))?\s*(k)?/g)];
+  const hasGlobalK = /\d\s*k\b|k\s*(€|eur)/.test(text);
+
+  const amounts = matches
+    .map((m) => {
+      const integer = Number(m[1].replace(/[ .]/g, ""));
+      const value = m[2] ? Number(`${integer}.${m[2]}`) : integer;
+      // "45-55k€" : le k porte sur les deux bornes
+      const isThousands = Boolean(m[3]) || (hasGlobalK && value < 1000);
+      return isThousands ? value * 1000 : value;
+    })
+    .filter((value) => value > 0);
+
+  if (amounts.length === 0) return null;
+
+  const max = Math.max(...amounts);
+  // Variable, prime ou avantage chiffre : hors fourchette
+  const min = Math.min(...amounts.filter((value) => value >= max / 3));
+
+  const period =
+    PERIOD_PATTERNS.find((p) => p.pattern.test(text))?.period ??
+    getImplicitPeriod(max, hasGlobalK);
+  const currency = CURRENCY_PATTERNS.find((c) => c.pattern.test(text))?.currency ?? "EUR";
+
+  if (max < MIN_PLAUSIBLE_AMOUNT[period]) return null;
+
+  return {
+    min,
+    max,
+    currency,
+    period,
+    annualMin: Math.round(min * PERIODS_PER_YEAR[period]),
+    annualMax: Math.round(max * PERIODS_PER_YEAR[period]),
+  };
+}
+
+/**
+ * Role : Champs salary* de Offer pour un salaire affiche
+ * Parametre salary : texte du salaire (null si non affiche)
+ * Retourne : fourchette decomposee, tous les champs a null si le salaire est illisible
+ *   (salary et ses champs numeriques restent coherents a chaque mise a jour)
+ *
+ * Exemple :
+ *   await prisma.offer.upsert({ create: { salary, ...getOfferSalaryData(salary) }, ... });
+ */
+export function getOfferSalaryData(salary: string | null) {
+  const parsed = salary ? parseSalary(salary) : null;
+
+  return {
+    salaryMin: parsed?.min ?? null,
+    salaryMax: parsed?.max ?? null,
+    salaryCurrency: parsed?.currency ?? null,
+    salaryPeriod: parsed?.period ?? null,
+    salaryAnnualMin: parsed?.annualMin ?? null,
+    salaryAnnualMax: parsed?.annualMax ?? null,
+  };
+}
@@ -0,0 +1,120 @@
+import { prisma } from "@/lib/db";
+import type { ScrapedOffer } from "./tools";
+import { getOfferUniqueWhere } from "./known-offers";
+import { resolveCompanyId } from "./companies";
+import { getOfferAttributeData } from "./offer-attributes";
+import { getOfferSalaryData } from "./salary-parser";
+import { clusterOffer } from "./offer-clusters";
+
+/**
+ * Role : Enregistrer les offres d'un scraping en BDD (creation ou mise a jour)
+ * Utilise par : /api/agent/search (recherche manuelle) et run-user-search (recherche planifiee)
+ *
+ * Pour chaque offre :
+ *   1. Fiche de l'entreprise (resolveCompanyId, creee a sa premiere offre)
+ *   2. Upsert sur userId + source + externalId, a defaut userId + url canonique
+ *      (getOfferUniqueWhere), avec la fourchette de salaire annualisee et les attributs
+ *      (niveau, teletravail, competences...)
+ *   3. Nouvelle offre : regroupement avec le meme poste publie sur un autre site
+ *      (clusterOffer, echec non bloquant)
+ * Une offre en echec est journalisee sans interrompre les suivantes.
+ *
+ * Exemple :
+ *   const { newCount, updatedCount } = await saveScrapedOffers(userId, offers, "scheduled");
+ *   // { newCount: 8, updatedCount: 4 }
+ */
+
+/**
+ * Origine d'une offre creee : "sandbox" = recherche lancee depuis /searches,
+ * "scheduled" = recherche planifiee Inngest
+ */
+export type OfferOrigin = "sandbox" | "scheduled";
+
+/** Delai depuis la creation en dessous duquel une offre upsertee est consideree nouvelle */
+const NEW_OFFER_WINDOW_MS = 5000;
+
+/**
+ * Role : Creer ou mettre a jour les offres scrapees d'un utilisateur
+ * Parametre userId : proprietaire des offres
+ * Parametre offers : offres retournees par runSearchAgent (offres sans URL ignorees)
+ * Parametre origin : origine enregistree a la creation uniquement (preservee ensuite)
+ * Retourne : nombre d'offres creees et mises a jour
+ */
+export async function saveScrapedOffers(
+  userId: string,
+  offers: ScrapedOffer[],
+  origin: OfferOrigin
+): Promise<{ newCount: number; updatedCount: number }> {
+  let newCount = 0;
+  let updatedCount = 0;
+
+  for (const offer of offers) {
+    // Ignorer les offres sans URL valide
+    if (!offer.url) continue;
+
+    try {
+      // Fiche de l'entreprise (creee a sa premiere offre, cf. companies.ts)
+      const companyId = await resolveCompanyId(userId, offer.company);
+
+      const saved = await prisma.offer.upsert({
+        // Contrainte unique : @@unique([userId, source, externalId]), a defaut @@unique([userId, url])
+        where: getOfferUniqueWhere(userId, offer),
+        create: {
+          userId,
+          title: offer.title,
+          company: offer.company,
+          companyId,
+          location: offer.location,
+          url: offer.url,
+          externalId: offer.externalId ?? null,
+          description: offer.description,
+          salary: offer.salary,
+          // Fourchette numerique annualisee (filtre et tri par salaire de /offers)
+          ...getOfferSalaryData(offer.salary),
+          contractType: offer.contractType,
+          // Niveau, teletravail, competences, date de publication, nombre de candidats
+          ...getOfferAttributeData(offer.attributes, "create"),
+          source: offer.source,
+          // N'est defini QUE dans create → l'origine initiale est preservee si l'offre existait deja
+          origin,
+          isNew: true,
+          isBookmarked: false,
+        },
+        update: {
+          // Mettre a jour les champs qui peuvent avoir change
+          title: offer.title,
+          company: offer.company,
+          companyId,
+          location: offer.location,
+          // Offre deja connue : page detail non visitee, la description complete en base est conservee
+          ...(!offer.isKnown && { description: offer.description }),
+          salary: offer.salary,
+          // Fourchette numerique annualisee (filtre et tri par salaire de /offers)
+          ...getOfferSalaryData(offer.salary),
+          contractType: offer.contractType,
+          // Attributs connus uniquement : une offre deja en base garde ceux de sa page detail
+          ...getOfferAttributeData(offer.attributes, "update"),
+          // origin intentionnellement absent → preserve l'origine de la premiere decouverte
+        },
+      });
+
+      // Creation ou mise a jour : createdAt recent (< 5s) → nouvelle offre
+      if (Date.now() - saved.createdAt.getTime() < NEW_OFFER_WINDOW_MS) {
+        newCount++;
+        // Meme poste deja trouve sur un autre site : regroupement (echec non bloquant)
+        try {
+          await clusterOffer(saved.id);
+        } catch (error) {
+          console.warn(`[Agent] Regroupement de l'offre ${saved.id} impossible : ${(error as Error).message}`);
+        }
+      } else {
+        updatedCount++;
+      }
+    } catch (error) {
+      // Continuer avec les autres offres meme si une echoue
+      console.error(`[Agent] Erreur upsert offre "${offer.title}" : ${(error as Error).message}`);
+    }
+  }
+
+  return { newCount, updatedCount };
+}
@@ -0,0 +1,306 @@
+import { prisma } from "@/lib/db";
+import { SITE_CONFIGS, type SiteConfig } from "./site-configs";
+import { playwrightCountSelectors } from "./playwright-tool";
+
+/**
+ * Role : Suivi de sante des selecteurs CSS des SiteConfig (detection de derive)
+ * Utilise par : orchestrator.ts (releve a chaque scraping), adapters/linkedin.ts (page de login),
+ *   /api/admin/selector-health (page /admin/selectors)
+ *
+ * Probleme resolu : quand un site modifie son markup, un selecteur ne trouve plus rien
+ * et le scraping retourne simplement 0 offre, sans erreur. Chaque scraping enregistre
+ * le nombre d'elements trouves par selecteur (SelectorCheck) ; un selecteur qui matche
+ * habituellement mais ne trouve plus rien sur DRIFT_RUNS scrapings consecutifs ouvre
+ * une alerte (SelectorAlert), resolue automatiquement des qu'il matche a nouveau.
+ *
+ * Cle d'un selecteur = chemin dans la SiteConfig : "selectors.jobLink", "loginSelectors.emailInput"
+ *
+ * Exemple :
+ *   const hits = await measureSelectors(sessionName, getListSelectors(config));
+ *   const drifting = await recordSelectorHits(config, hits);
+ *   // drifting = ["selectors.jobLink"] si jobLink ne matche plus depuis 3 scrapings
+ */
+
+/** Nombre d'elements trouves par cle de selecteur */
+export type SelectorHits = Record<string, number>;
+
+/** Nombre de scrapings consecutifs sans resultat avant d'ouvrir une alerte */
+const DRIFT_RUNS = 3;
+
+/** Nombre de scrapings anterieurs servant de reference ("habituellement trouve") */
+const BASELINE_RUNS = 10;
+
+/** Nombre minimum de scrapings de reference pour juger une derive */
+const MIN_BASELINE_RUNS = 3;
+
+/** Taux de succes minimum sur la reference pour considerer qu'un selecteur matche habituellement */
+const BASELINE_MATCH_RATE = 0.8;
+
+/** Duree de conservation des releves */
+const CHECK_RETENTION_DAYS = 90;
+
+/** Nombre de releves affiches par selecteur dans le rapport admin */
+const REPORT_RUNS = 20;
+
+/**
+ * Role : Selecteurs a relever sur une page de resultats (config.selectors)
+ * Retourne : { "selectors.jobList": "...", "selectors.jobLink": "...", ... }
+ */
+export function getListSelectors(config: SiteConfig): Record<string, string> {
+  return prefixSelectors("selectors", config.selectors);
+}
+
+/**
+ * Role : Selecteurs a relever sur la page de connexion (hors code de verification,
+ * absent de la page de login)
+ */
+export function getLoginSelectors(config: SiteConfig): Record<string, string> {
+  if (!config.loginSelectors) return {};
+  const { emailInput, passwordInput, submitButton } = config.loginSelectors;
+  return prefixSelectors("loginSelectors", { emailInput, passwordInput, submitButton });
+}
+
+/**
+ * Role : Prefixer les cles d'un groupe de selecteurs en ignorant les valeurs absentes
+ */
+function prefixSelectors(
+  group: string,
+  selectors: Record<string, string | undefined>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, selector] of Object.entries(selectors)) {
+    if (selector) result[`${group}.${name}`] = selector;
+  }
+  return result;
+}
+
+/**
+ * Role : Relever les selecteurs sur la page courante (echec non bloquant)
+ * Parametre sessionName : session Playwright positionnee sur la page a mesurer
+ * Parametre selectors : selecteurs indexes par cle (getListSelectors / getLoginSelectors)
+ * Retourne : nombre d'elements par cle, ou {} si la mesure a echoue
+ */
+export async function measureSelectors(
+  sessionName: string,
+  selectors: Record<string, string>
+): Promise<SelectorHits> {
+  try {
+    return await playwrightCountSelectors(sessionName, selectors);
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Releve des selecteurs impossible : ${err.message}`);
+    return {};
+  }
+}
+
+/**
+ * Role : Additionner deux releves (ex: plusieurs pages de resultats d'un meme scraping)
+ */
+export function mergeSelectorHits(a: SelectorHits, b: SelectorHits): SelectorHits {
+  const merged = { ...a };
+  for (const [key, hits] of Object.entries(b)) {
+    merged[key] = (merged[key] ?? 0) + hits;
+  }
+  return merged;
+}
+
+/**
+ * Role : Enregistrer le releve d'un scraping et mettre a jour les alertes de derive
+ * Parametre config : configuration du site scrape (valeurs CSS courantes)
+ * Parametre hits : releve du scraping (cles absentes = non mesurees, ex: login saute)
+ * Retourne : cles des selecteurs en derive (alerte ouverte) apres ce releve
+ */
+export async function recordSelectorHits(
+  config: SiteConfig,
+  hits: SelectorHits
+): Promise<string[]> {
+  const keys = Object.keys(hits);
+  if (keys.length === 0) return [];
+
+  const selectors = { ...getListSelectors(config), ...getLoginSelectors(config) };
+
+  await prisma.selectorCheck.createMany({
+    data: keys.map((key) => ({
+      site: config.id,
+      key,
+      selector: selectors[key] ?? "",
+      hits: hits[key],
+    })),
+  });
+
+  const drifting: string[] = [];
+
+  for (const key of keys) {
+    if (await updateDriftAlert(config, key, selectors[key] ?? "")) {
+      drifting.push(key);
+    }
+  }
+
+  // Purge des releves anciens (la detection n'utilise que les derniers scrapings)
+  await prisma.selectorCheck.deleteMany({
+    where: {
+      site: config.id,
+      createdAt: { lt: new Date(Date.now() - CHECK_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  return drifting;
+}
+
+/**
+ * Role : Ouvrir ou resoudre l'alerte de derive d'un selecteur selon ses derniers releves
+ * Retourne : true si une alerte est ouverte pour ce selecteur apres mise a jour
+ *
+ * Derive = les DRIFT_RUNS derniers releves sont a 0 alors que le selecteur a matche
+ * dans au moins 80 % des BASELINE_RUNS releves precedents.
+ */
+async function updateDriftAlert(config: SiteConfig, key: string, selector: string): Promise<boolean> {
+  const checks = await prisma.selectorCheck.findMany({
+    where: { site: config.id, key },
+    orderBy: { createdAt: "desc" },
+    take: DRIFT_RUNS + BASELINE_RUNS,
+    select: { hits: true },
+  });
+
+  const openAlert = await prisma.selectorAlert.findFirst({
+    where: { site: config.id, key, resolvedAt: null },
+  });
+
+  // Le selecteur matche a nouveau : resoudre l'alerte
+  if (checks.length > 0 && checks[0].hits > 0) {
+    if (openAlert) {
+      await prisma.selectorAlert.update({
+        where: { id: openAlert.id },
+        data: { resolvedAt: new Date() },
+      });
+      console.log(`[Agent] Selecteur ${config.id} ${key} de nouveau fonctionnel, alerte resolue`);
+    }
+    return false;
+  }
+
+  if (openAlert) return true;
+
+  const recent = checks.slice(0, DRIFT_RUNS);
+  const baseline = checks.slice(DRIFT_RUNS);
+  const baselineMatches = baseline.filter((c) => c.hits > 0).length;
+
+  const isDrifting =
+    recent.length === DRIFT_RUNS &&
+    recent.every((c) => c.hits === 0) &&
+    baseline.length >= MIN_BASELINE_RUNS &&
+    baselineMatches / baseline.length >= BASELINE_MATCH_RATE;
+
+  if (!isDrifting) return false;
+
+  const message =
+    `${key} ne trouve plus aucun element sur ${config.name} depuis ${DRIFT_RUNS} scrapings ` +
+    `(trouve dans ${baselineMatches}/${baseline.length} scrapings precedents). ` +
+    `Le markup du site a probablement change : mettre a jour le selecteur dans site-configs.ts.`;
+
+  await prisma.selectorAlert.create({
+    data: { site: config.id, key, selector, message },
+  });
+  console.warn(`[Agent] ALERTE selecteur ${config.id} : ${message}`);
+
+  return true;
+}
+
+/** Sante d'un selecteur sur les derniers scrapings */
+export interface SelectorHealth {
+  /** Cle du selecteur (ex: "selectors.jobLink") */
+  key: string;
+  /** Valeur CSS courante dans la SiteConfig */
+  selector: string;
+  /**
+   * Statut :
+   * - "ok" : trouve au dernier releve
+   * - "failing" : rien trouve au dernier releve, pas (encore) de derive averee
+   * - "drifting" : alerte ouverte
+   * - "unknown" : jamais releve
+   */
+  status: "ok" | "failing" | "drifting" | "unknown";
+  /** Elements trouves au dernier releve */
+  lastHits: number | null;
+  /** Date du dernier releve (ISO) */
+  lastCheckedAt: string | null;
+  /** Part des releves avec au moins un element (0 a 1) */
+  matchRate: number | null;
+  /** Moyenne d'elements trouves par releve */
+  averageHits: number | null;
+  /** Nombre de releves pris en compte (max REPORT_RUNS) */
+  runs: number;
+}
+
+/** Sante des selecteurs d'un site, avec ses alertes ouvertes */
+export interface SiteSelectorHealth {
+  /** Identifiant du site (ex: "linkedin") */
+  site: string;
+  /** Nom lisible du site */
+  name: string;
+  selectors: SelectorHealth[];
+  alerts: { id: string; key: string; selector: string; message: string; createdAt: string }[];
+}
+
+/**
+ * Role : Construire le rapport de sante des selecteurs de tous les sites supportes
+ * Retourne : un SiteSelectorHealth par SiteConfig, selecteurs dans l'ordre de la config
+ *
+ * Seuls les selecteurs presents dans la config courante sont rapportes : un selecteur
+ * renomme ou supprime disparait du rapport (ses releves restent jusqu'a la purge).
+ */
+export async function getSelectorHealthReport(): Promise<SiteSelectorHealth[]> {
+  const openAlerts = await prisma.selectorAlert.findMany({
+    where: { resolvedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const report: SiteSelectorHealth[] = [];
+
+  for (const config of Object.values(SITE_CONFIGS)) {
+    const selectors = { ...getListSelectors(config), ...getLoginSelectors(config) };
+    const siteAlerts = openAlerts.filter((a) => a.site === config.id);
+    const health: SelectorHealth[] = [];
+
+    for (const [key, selector] of Object.entries(selectors)) {
+      const checks = await prisma.selectorCheck.findMany({
+        where: { site: config.id, key },
+        orderBy: { createdAt: "desc" },
+        take: REPORT_RUNS,
+        select: { hits: true, createdAt: true },
+      });
+
+      const hasAlert = siteAlerts.some((a) => a.key === key);
+      const last = checks[0];
+
+      health.push({
+        key,
+        selector,
+        status: hasAlert ? "drifting" : !last ? "unknown" : last.hits > 0 ? "ok" : "failing",
+        lastHits: last?.hits ?? null,
+        lastCheckedAt: last?.createdAt.toISOString() ?? null,
+        matchRate: checks.length > 0
+          ? checks.filter((c) => c.hits > 0).length / checks.length
+          : null,
+        averageHits: checks.length > 0
+          ? checks.reduce((sum, c) => sum + c.hits, 0) / checks.length
+          : null,
+        runs: checks.length,
+      });
+    }
+
+    report.push({
+      site: config.id,
+      name: config.name,
+      selectors: health,
+      alerts: siteAlerts.map((a) => ({
+        id: a.id,
+        key: a.key,
+        selector: a.selector,
+        message: a.message,
+        createdAt: a.createdAt.toISOString(),
+      })),
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,77 @@
+import { prisma } from "@/lib/db";
+import { decryptSecret, encryptSecret } from "@/lib/crypto";
+
+/**
+ * Role : Persistance chiffree de l'etat de session navigateur par utilisateur et par site
+ * Utilise par : orchestrator.ts (restauration avant login, sauvegarde apres login reussi)
+ *
+ * Objectif : eviter un login par identifiants a chaque recherche. Un login repete
+ * declenche frequemment le /checkpoint LinkedIn, surtout pour les recherches planifiees.
+ *
+ * L'etat (cookies + localStorage) est chiffre via encryptSecret avant stockage
+ * dans BrowserSession.storageState. Le modele n'a aucune policy ZenStack :
+ * seul le client Prisma brut cote serveur y accede.
+ *
+ * Exemple :
+ *   const state = await loadStorageState(userId, "linkedin");
+ *   await launchBrowser(sessionName, { storageState: state ?? undefined });
+ *   // ... apres login reussi :
+ *   await saveStorageState(userId, "linkedin", await playwrightGetStorageState(sessionName));
+ */
+
+/**
+ * Role : Charger et dechiffrer l'etat de session d'un utilisateur pour un site
+ * Parametre userId : identifiant de l'utilisateur
+ * Parametre site : identifiant du site (ex: "linkedin")
+ * Retourne : JSON Playwright en clair, ou null si absent ou illisible
+ *
+ * Un etat indechiffrable (cle changee, donnees corrompues) est supprime :
+ * l'agent retombe simplement sur un login par identifiants.
+ */
+export async function loadStorageState(
+  userId: string,
+  site: string
+): Promise<string | null> {
+  const stored = await prisma.browserSession.findUnique({
+    where: { userId_site: { userId, site } },
+  });
+  if (!stored) return null;
+
+  try {
+    return decryptSecret(stored.storageState);
+  } catch (error) {
+    const err = error as Error;
+    console.warn(`[Agent] Session ${site} illisible pour user=${userId}, suppression : ${err.message}`);
+    await deleteStorageState(userId, site);
+    return null;
+  }
+}
+
+/**
+ * Role : Chiffrer et enregistrer l'etat de session apres un login reussi
+ * Parametre userId : identifiant de l'utilisateur
+ * Parametre site : identifiant du site (ex: "linkedin")
+ * Parametre storageState : JSON retourne par playwrightGetStorageState
+ */
+export async function saveStorageState(
+  userId: string,
+  site: string,
+  storageState: string
+): Promise<void> {
+  const encrypted = encryptSecret(storageState);
+
+  await prisma.browserSession.upsert({
+    where: { userId_site: { userId, site } },
+    create: { userId, site, storageState: encrypted },
+    update: { storageState: encrypted },
+  });
+}
+
+/**
+ * Role : Supprimer l'etat de session (expire, invalide ou identifiants modifies)
+ * Parametre userId : identifiant de l'utilisateur
+ * Parametre site : identifiant du site (ex: "linkedin")
+ */
+export async function deleteStorageState(userId: string, site: string): Promise<void> {
+  await prisma.browserSession.deleteMany({ where: { userId, site } });
+}
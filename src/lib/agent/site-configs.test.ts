@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { INDEED_CONFIG, isNoResultsPage, LINKEDIN_CONFIG, SITE_CONFIGS, WTTJ_CONFIG } from "./site-configs";
+
+/**
+ * Role : Tests unitaires de isNoResultsPage (site-configs.ts, npm test)
+ *
+ * Une page "aucun resultat" ne doit pas etre relevee par selector-health : sinon une
+ * recherche etroite sans resultat ouvre une fausse alerte de derive (selectors.jobLink).
+ *
+ * Exemple :
+ *   npx tsx --test src/lib/agent/site-configs.test.ts
+ */
+
+/** Lire une page enregistree de ./fixtures */
+function readFixture(file: string): string {
+  return readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf-8");
+}
+
+/** Navigation et pied de page : une page vide depasse le seuil de 500 caracteres du snapshot */
+const PAGE_CHROME = "Accueil Emplois Entreprises Messagerie Notifications Mentions legales ".repeat(10);
+
+describe("isNoResultsPage", () => {
+  it("reconnait la page de resultats vide enregistree, pour chaque site", () => {
+    const emptyPage = readFixture("empty-results.html");
+    for (const config of Object.values(SITE_CONFIGS)) {
+      assert.equal(isNoResultsPage(config, emptyPage), true, config.id);
+    }
+  });
+
+  it("reconnait le message de chaque site dans un snapshot de plus de 500 caracteres", () => {
+    const snapshots = [
+      [LINKEDIN_CONFIG, "No matching jobs found."],
+      [WTTJ_CONFIG, "Aucune offre ne correspond à votre recherche."],
+      [INDEED_CONFIG, "La recherche React ne correspond à aucune offre d'emploi."],
+    ] as const;
+
+    for (const [config, message] of snapshots) {
+      const snapshot = `${PAGE_CHROME}\n${message}\n${PAGE_CHROME}`;
+      assert.ok(snapshot.length >= 500);
+      assert.equal(isNoResultsPage(config, snapshot), true, config.id);
+    }
+  });
+
+  it("ne confond pas une page de resultats avec une recherche vide", () => {
+    for (const config of Object.values(SITE_CONFIGS)) {
+      const resultsPage = readFixture(`${config.id}/search-results.html`);
+      assert.equal(isNoResultsPage(config, resultsPage), false, config.id);
+    }
+  });
+});
@@ -1,11 +1,12 @@
 /**
- * Role : Configuration du site LinkedIn pour le scraping authentifie
+ * Role : Configuration des sites d'emploi scrapes par l'agent (LinkedIn, Welcome to the Jungle, Indeed)
  * Utilise par : orchestrator.ts pour le flow de login et la recherche d'offres
  *
  * Contient :
- * - loginSelectors : selecteurs CSS pour la page de connexion LinkedIn
- * - selectors : selecteurs CSS pour les resultats de recherche authentifies
+ * - loginSelectors : selecteurs CSS pour la page de connexion (LinkedIn uniquement)
+ * - selectors : selecteurs CSS pour les resultats de recherche
  * - searchUrlTemplate : template d'URL de recherche avec placeholders {query} et {location}
+ * - pagination : parametre d'URL et strategie de pagination du site
  *
  * Exemple :
  *   const url = LINKEDIN_CONFIG.searchUrlTemplate
@@ -14,30 +15,36 @@
  *   // url = "https://www.linkedin.com/jobs/search/?keywords=React&location=Paris"
  */
 
-/** Interface de configuration du site LinkedIn */
+/** Interface de configuration d'un site d'emploi */
 export interface SiteConfig {
-  /** Identifiant du site */
+  /** Identifiant du site (valeur stockee dans Offer.source et SearchConfig.sites) */
   id: string;
   /** Nom lisible du site */
   name: string;
   /** URL de base de la page de recherche */
   baseUrl: string;
-  /** URL de la page de connexion */
-  loginUrl: string;
+  /** true si le scraping necessite une connexion prealable (LinkedIn) */
+  requiresLogin: boolean;
+  /** URL de la page de connexion (sites authentifies uniquement) */
+  loginUrl?: string;
   /** Template d'URL de recherche avec placeholders {query} et {location} */
   searchUrlTemplate: string;
   /** Description du site pour guider Claude dans le scraping */
   description: string;
-  /** Selecteurs CSS pour la page de connexion LinkedIn */
-  loginSelectors: {
+  /** Selecteurs CSS pour la page de connexion (sites authentifies uniquement) */
+  loginSelectors?: {
     /** Champ email/telephone sur la page de login */
     emailInput: string;
     /** Champ mot de passe sur la page de login */
     passwordInput: string;
     /** Bouton de connexion */
     submitButton: string;
+    /** Champ du code de verification (2FA / checkpoint), si le site en demande un */
+    verificationCodeInput?: string;
+    /** Bouton de validation du code de verification */
+    verificationSubmitButton?: string;
   };
-  /** Selecteurs CSS pour les resultats de recherche (version authentifiee) */
+  /** Selecteurs CSS pour les resultats de recherche */
   selectors: {
     /** Liste des offres dans les resultats de recherche */
     jobList?: string;
@@ -50,10 +57,39 @@ export interface SiteConfig {
     /** Localisation de l'offre */
     location?: string;
   };
+  /**
+   * Pagination des resultats :
+   * - "offset" : le parametre vaut l'index du premier resultat (LinkedIn : &start=0,25,50)
+   * - "page" : le parametre vaut le numero de page, a partir de 1 (WTTJ : &page=1,2,3)
+   */
+  pagination: {
+    /** Nom du parametre d'URL (ex: "start", "page") */
+    param: string;
+    /** Strategie de calcul de la valeur du parametre */
+    strategy: "offset" | "page";
+    /** Nombre de resultats par page */
+    resultsPerPage: number;
+  };
+  /** Fragments d'URL indiquant un blocage (captcha, challenge, verification) */
+  blockIndicators: string[];
+  /**
+   * Textes de la page detail indiquant une offre cloturee, en minuscules sans accents
+   * (completent les mentions generiques de offer-liveness.ts)
+   */
+  closedIndicators: string[];
+  /**
+   * Textes d'une page de resultats vide (recherche sans resultat), en minuscules sans
+   * accents : la page n'est pas relevee par selector-health (cf. isNoResultsPage)
+   */
+  noResultsIndicators: string[];
   /** Instructions specifiques pour Claude lors de l'extraction des offres */
   scrapingTips: string;
 }
 
+/** Configuration d'un site authentifie : loginUrl et loginSelectors sont obligatoires */
+export type AuthenticatedSiteConfig = SiteConfig &
+  Required<Pick<SiteConfig, "loginUrl" | "loginSelectors">>;
+
 /**
  * Configuration complete de LinkedIn pour le scraping authentifie.
  *
@@ -62,13 +98,15 @@ export interface SiteConfig {
  *   2. Remplir emailInput + passwordInput
  *   3. Cliquer submitButton
  *   4. Verifier la redirection (feed = OK, checkpoint = 2FA, login = echec)
+ *      En cas de checkpoint : saisir le code demande a l'utilisateur (verificationCodeInput)
  *   5. Naviguer vers searchUrlTemplate avec les parametres de recherche
  *   6. Extraire les offres via snapshot + appel Claude
  */
-export const LINKEDIN_CONFIG: SiteConfig = {
+export const LINKEDIN_CONFIG: AuthenticatedSiteConfig = {
   id: "linkedin",
   name: "LinkedIn Jobs",
   baseUrl: "https://www.linkedin.com",
+  requiresLogin: true,
   loginUrl: "https://www.linkedin.com/login",
   searchUrlTemplate:
     "https://www.linkedin.com/jobs/search/?keywords={query}&location={location}",
@@ -81,6 +119,10 @@ export const LINKEDIN_CONFIG: SiteConfig = {
     passwordInput: "#password",
     /** Bouton de connexion : bouton submit du formulaire de login */
     submitButton: 'button[type="submit"]',
+    /** Code recu par email/SMS sur /checkpoint/challenge : input name="pin" */
+    verificationCodeInput: 'input[name="pin"]',
+    /** Bouton "Envoyer" du formulaire de verification */
+    verificationSubmitButton: '#email-pin-submit-button, form#email-pin-challenge button[type="submit"], button[type="submit"]',
   },
   selectors: {
     /** Liste des offres (version authentifiee, scaffold layout) */
@@ -94,6 +136,14 @@ export const LINKEDIN_CONFIG: SiteConfig = {
     /** Localisation */
     location: ".job-card-container__metadata-item, .artdeco-entity-lockup__caption",
   },
+  pagination: {
+    param: "start",
+    strategy: "offset",
+    resultsPerPage: 25,
+  },
+  blockIndicators: ["captcha", "challenge", "/checkpoint", "verify"],
+  closedIndicators: ["n'accepte plus de candidatures", "no longer accepting applications"],
+  noResultsIndicators: ["aucune offre ne correspond", "no matching jobs found", "aucun resultat"],
   scrapingTips: `
     - Le scraping se fait en mode authentifie (login prealable)
     - Apres login, naviguer vers /jobs/search/?keywords=...&location=...
@@ -106,11 +156,114 @@ export const LINKEDIN_CONFIG: SiteConfig = {
 };
 
 /**
- * Map des configurations de sites (conserve pour compatibilite avec l'orchestrateur).
- * Contient uniquement LinkedIn.
+ * Configuration de Welcome to the Jungle (scraping public, pas de login).
+ *
+ * Flow prevu :
+ *   1. Naviguer vers searchUrlTemplate avec les parametres de recherche
+ *   2. Paginer via &page=1,2,3 (30 resultats par page)
+ *   3. Extraire les offres via snapshot + appel Claude
+ *   4. Visiter les pages detail (/fr/companies/{company}/jobs/{slug})
+ *
+ * Exemple d'URL :
+ *   https://www.welcometothejungle.com/fr/jobs?query=React&aroundQuery=Paris&page=1
+ */
+export const WTTJ_CONFIG: SiteConfig = {
+  id: "wttj",
+  name: "Welcome to the Jungle",
+  baseUrl: "https://www.welcometothejungle.com",
+  requiresLogin: false,
+  searchUrlTemplate:
+    "https://www.welcometothejungle.com/fr/jobs?query={query}&aroundQuery={location}",
+  description:
+    "Site d'emploi francais axe tech et startups. Resultats publics, pas de connexion requise.",
+  selectors: {
+    /** Liste des resultats (une <li> par offre) */
+    jobList: '[data-testid="search-results"], ul[data-testid="search-results-list"]',
+    /** Lien vers une offre : /fr/companies/{company}/jobs/{slug} */
+    jobLink: '[data-testid="search-results-list-item-wrapper"] a[href*="/jobs/"], a[href*="/companies/"][href*="/jobs/"]',
+    /** Titre de l'offre */
+    jobTitle: '[data-testid="search-results-list-item-wrapper"] h4, [data-testid="job-card-title"]',
+    /** Nom de l'entreprise */
+    company: '[data-testid="search-results-list-item-wrapper"] img[alt] + span, [data-testid="job-card-company-name"]',
+    /** Localisation */
+    location: '[data-testid="search-results-list-item-wrapper"] [data-testid="job-card-location"], i[name="location"] + p',
+  },
+  pagination: {
+    param: "page",
+    strategy: "page",
+    resultsPerPage: 30,
+  },
+  blockIndicators: ["captcha", "/cdn-cgi/challenge"],
+  closedIndicators: ["cette offre n'est plus disponible", "ce poste a ete pourvu", "offre n'est plus en ligne"],
+  noResultsIndicators: ["aucune offre ne correspond", "aucun resultat"],
+  scrapingTips: `
+    - Pas de connexion requise, les resultats sont publics
+    - Chaque carte contient : titre, entreprise, localisation, type de contrat, teletravail
+    - Les liens d'offres ont la forme /fr/companies/{entreprise}/jobs/{slug}
+    - Le type de contrat est affiche en francais (CDI, CDD, Stage, Alternance, Freelance)
+    - Une banniere de cookies Axeptio peut masquer les resultats au premier chargement
+  `,
+};
+
+/**
+ * Configuration d'Indeed France (scraping public, pas de login).
+ *
+ * Flow prevu :
+ *   1. Naviguer vers searchUrlTemplate avec les parametres de recherche
+ *   2. Paginer via &start=0,10,20 (offset par pas de 10, ~15 cartes affichees)
+ *   3. Extraire les offres via snapshot + appel Claude
+ *   4. Visiter les pages detail (/viewjob?jk={id}), description dans #jobDescriptionText
+ *
+ * Fixtures HTML hors-ligne : src/lib/agent/fixtures/indeed/
+ *
+ * Exemple d'URL :
+ *   https://fr.indeed.com/emplois?q=React&l=Paris&start=10
+ */
+export const INDEED_CONFIG: SiteConfig = {
+  id: "indeed",
+  name: "Indeed",
+  baseUrl: "https://fr.indeed.com",
+  requiresLogin: false,
+  searchUrlTemplate: "https://fr.indeed.com/emplois?q={query}&l={location}",
+  description:
+    "Agregateur d'offres generaliste. Resultats publics, protection anti-bot Cloudflare.",
+  selectors: {
+    /** Liste des resultats */
+    jobList: "#mosaic-provider-jobcards, ul.css-zu9cdh",
+    /** Lien vers une offre : /rc/clk?jk={id} ou /viewjob?jk={id} */
+    jobLink: "a.jcs-JobTitle, h2.jobTitle a[data-jk]",
+    /** Titre de l'offre */
+    jobTitle: "h2.jobTitle span[title], h2.jobTitle span",
+    /** Nom de l'entreprise */
+    company: '[data-testid="company-name"], span.companyName',
+    /** Localisation */
+    location: '[data-testid="text-location"], div.companyLocation',
+  },
+  pagination: {
+    param: "start",
+    strategy: "offset",
+    resultsPerPage: 10,
+  },
+  blockIndicators: ["captcha", "/cdn-cgi/challenge", "/blocked", "hcaptcha"],
+  closedIndicators: ["cette offre d'emploi a expire", "cette offre a expire sur indeed", "this job has expired"],
+  noResultsIndicators: ["ne correspond a aucune offre", "aucun resultat", "did not match any jobs"],
+  scrapingTips: `
+    - Pas de connexion requise, les resultats sont publics
+    - Chaque carte (div.job_seen_beacon) contient : titre, entreprise, localisation, extraits, salaire eventuel
+    - Les liens d'offres sont relatifs (/rc/clk?jk=... ou /viewjob?jk=...), les prefixer avec https://fr.indeed.com
+    - Le salaire est affiche tel quel ("45 000 € - 55 000 € par an", "500 € par jour")
+    - Ignorer les blocs "Offres sponsorisees" sans lien d'offre
+  `,
+};
+
+/**
+ * Map des configurations de sites, indexee par identifiant.
+ * Les cles correspondent aux valeurs de SearchConfig.sites et Offer.source.
  */
 export const SITE_CONFIGS: Record<string, SiteConfig> = {
   linkedin: LINKEDIN_CONFIG,
+  wttj: WTTJ_CONFIG,
+  indeed: INDEED_CONFIG,
 };
 
 /**
@@ -127,11 +280,11 @@ export function getSiteConfig(siteId: string): SiteConfig | undefined {
 }
 
 /**
- * Role : Construire l'URL de recherche LinkedIn avec les parametres donnes
- * Parametre siteId : identifiant du site (doit etre "linkedin")
+ * Role : Construire l'URL de recherche d'un site avec les parametres donnes
+ * Parametre siteId : identifiant du site (ex: "linkedin", "wttj")
  * Parametre query : termes de recherche (ex: "developpeur React")
  * Parametre location : localisation (ex: "Paris")
- * Retourne : URL complete de recherche LinkedIn
+ * Retourne : URL complete de recherche
  *
  * Exemple :
  *   const url = buildSearchUrl("linkedin", "React", "Paris");
@@ -152,10 +305,54 @@ export function buildSearchUrl(
     .replace("{location}", encodeURIComponent(location));
 }
 
+/**
+ * Role : Construire l'URL d'une page de resultats a partir de l'URL de recherche
+ * Parametre config : configuration du site (strategie de pagination)
+ * Parametre searchUrl : URL de recherche construite par buildSearchUrl
+ * Parametre pageIndex : index de la page, a partir de 0
+ * Retourne : URL paginee
+ *
+ * Exemple :
+ *   buildPageUrl(LINKEDIN_CONFIG, "https://www.linkedin.com/jobs/search/?keywords=React", 2);
+ *   // => "https://www.linkedin.com/jobs/search/?keywords=React&start=50"
+ *   buildPageUrl(WTTJ_CONFIG, "https://www.welcometothejungle.com/fr/jobs?query=React", 0);
+ *   // => "https://www.welcometothejungle.com/fr/jobs?query=React&page=1"
+ */
+export function buildPageUrl(
+  config: SiteConfig,
+  searchUrl: string,
+  pageIndex: number
+): string {
+  const { param, strategy, resultsPerPage } = config.pagination;
+  const value = strategy === "offset" ? pageIndex * resultsPerPage : pageIndex + 1;
+  const separator = searchUrl.includes("?") ? "&" : "?";
+  return `${searchUrl}${separator}${param}=${value}`;
+}
+
 /**
  * Role : Obtenir la liste des identifiants de tous les sites supportes
- * Retourne : tableau contenant uniquement ["linkedin"]
+ * Retourne : tableau des identifiants (ex: ["linkedin", "wttj", "indeed"])
  */
 export function getSupportedSites(): string[] {
   return Object.keys(SITE_CONFIGS);
 }
+
+/**
+ * Role : Detecter une page de resultats vide (recherche sans resultat)
+ * Parametre config : configuration du site
+ * Parametre snapshot : texte de la page de resultats
+ * Retourne : true si la page affiche un des noResultsIndicators du site
+ *
+ * Une recherche sans resultat ne doit pas etre confondue avec un selecteur casse :
+ * les selecteurs de liste ne sont releves que sur une vraie page de resultats.
+ *
+ * Exemple :
+ *   isNoResultsPage(WTTJ_CONFIG, "Aucun résultat. Aucune offre ne correspond à votre recherche.") // true
+ */
+export function isNoResultsPage(config: SiteConfig, snapshot: string): boolean {
+  const text = snapshot
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+  return config.noResultsIndicators.some((indicator) => text.includes(indicator));
+}
@@ -1,3 +1,5 @@
+import type { OfferAttributes } from "./offer-attributes";
+
 /**
  * Role : Interface et type pour les offres d'emploi scrapees
  * Utilise par : orchestrator.ts et la route API agent/search
@@ -11,8 +13,10 @@ export interface ScrapedOffer {
   company: string;
   /** Localisation (ex: "Paris, France") */
   location: string;
-  /** URL de l'offre sur le site source */
+  /** URL canonique de l'offre sur le site source (cf. SiteAdapter.canonicalizeUrl) */
   url: string;
+  /** Identifiant de l'offre sur le site source (ex: "3987654321"), null si non reconnu */
+  externalId?: string | null;
   /** Description complete du poste */
   description: string;
   /** Fourchette de salaire si disponible */
@@ -21,4 +25,11 @@ export interface ScrapedOffer {
   contractType: string | null;
   /** Site source de l'offre */
   source: string;
+  /**
+   * true si l'offre existe deja pour l'utilisateur : page detail non visitee,
+   * description = resume de la carte (ne pas ecraser la description en base)
+   */
+  isKnown?: boolean;
+  /** Niveau, teletravail, competences, publication (cf. offer-attributes.ts), absent si non extraits */
+  attributes?: OfferAttributes;
 }
@@ -0,0 +1,243 @@
+import type { AgentRun, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+/**
+ * Role : Quotas d'utilisation de l'agent par utilisateur (recherches, generations, budget LLM)
+ * Utilise par : /api/agent/search, /api/agent/apply, run-user-search (verification avant le run),
+ *   /api/agent/quota (indicateur du header), /api/admin/quotas (surcharges admin)
+ *
+ * Trois limites, verifiees avant de lancer un run :
+ *   - runsPerDay          : recherches (AgentRun "scraping") depuis minuit
+ *   - generationsPerMonth : candidatures generees (AgentRun "application") depuis le 1er du mois
+ *   - monthlyBudgetUsd    : somme des AgentRun.costUsd du mois, tous types confondus
+ * Les runs en erreur ne sont pas decomptes des deux premiers quotas (dont les runs refuses
+ * pour quota atteint) ; leur cout LLM reste compte dans le budget.
+ * Valeurs par defaut : variables QUOTA_* (cf. getDefaultQuotaLimits), surchargees par utilisateur
+ * via UsageQuota (null = valeur par defaut). Les periodes suivent le fuseau du serveur.
+ *
+ * Un run refuse repond 429 (QUOTA_EXCEEDED_STATUS) avec un message lisible.
+ *
+ * Verification et creation du run sont atomiques (createRunWithinQuota) : deux lancements
+ * simultanes d'un meme utilisateur ne peuvent pas passer tous deux sous la limite.
+ * Les AgentRun ne sont modifiables que par le serveur (policies de schema.zmodel) :
+ * l'utilisateur ne peut ni supprimer ses runs ni changer leur statut pour liberer du quota.
+ *
+ * Exemple :
+ *   const { agentRun, error } = await createRunWithinQuota(userId, "search", { type: "scraping", ... });
+ *   if (error) return NextResponse.json({ error }, { status: QUOTA_EXCEEDED_STATUS });
+ */
+
+/** Statut HTTP d'un run refuse pour quota atteint */
+export const QUOTA_EXCEEDED_STATUS = 429;
+
+/** Action soumise a quota */
+export type QuotaAction = "search" | "generation";
+
+/** Limites appliquees a un utilisateur */
+export interface QuotaLimits {
+  runsPerDay: number;
+  generationsPerMonth: number;
+  monthlyBudgetUsd: number;
+}
+
+/** Surcharges admin d'un utilisateur (null = valeur par defaut) */
+export interface QuotaOverrides {
+  runsPerDay: number | null;
+  generationsPerMonth: number | null;
+  monthlyBudgetUsd: number | null;
+}
+
+/** Consommation de l'utilisateur sur les periodes en cours */
+export interface QuotaUsage {
+  runsToday: number;
+  generationsThisMonth: number;
+  spentThisMonthUsd: number;
+}
+
+/** Run cree sous quota, ou motif du refus */
+export type QuotaReservation =
+  | { agentRun: AgentRun; error: null }
+  | { agentRun: null; error: string };
+
+/** Etat des quotas d'un utilisateur (indicateur du header, page admin) */
+export interface UsageQuotaStatus {
+  limits: QuotaLimits;
+  usage: QuotaUsage;
+  /** Debut du jour suivant (ISO) : renouvellement des recherches */
+  dayResetsAt: string;
+  /** Debut du mois suivant (ISO) : renouvellement des generations et du budget */
+  monthResetsAt: string;
+}
+
+/**
+ * Role : Limites par defaut de l'environnement
+ * QUOTA_RUNS_PER_DAY (defaut 10), QUOTA_GENERATIONS_PER_MONTH (defaut 30),
+ * QUOTA_MONTHLY_BUDGET_USD (defaut 5) ; une valeur invalide retombe sur le defaut
+ */
+export function getDefaultQuotaLimits(): QuotaLimits {
+  return {
+    runsPerDay: readLimit("QUOTA_RUNS_PER_DAY", 10),
+    generationsPerMonth: readLimit("QUOTA_GENERATIONS_PER_MONTH", 30),
+    monthlyBudgetUsd: readLimit("QUOTA_MONTHLY_BUDGET_USD", 5),
+  };
+}
+
+/**
+ * Role : Lire une limite positive ou nulle depuis l'environnement
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Role : Appliquer les surcharges d'un utilisateur aux limites par defaut
+ */
+export function resolveQuotaLimits(overrides: QuotaOverrides | null): QuotaLimits {
+  const defaults = getDefaultQuotaLimits();
+  return {
+    runsPerDay: overrides?.runsPerDay ?? defaults.runsPerDay,
+    generationsPerMonth: overrides?.generationsPerMonth ?? defaults.generationsPerMonth,
+    monthlyBudgetUsd: overrides?.monthlyBudgetUsd ?? defaults.monthlyBudgetUsd,
+  };
+}
+
+/**
+ * Role : Bornes des periodes en cours (jour et mois du serveur)
+ */
+function getQuotaPeriods(now = new Date()) {
+  const dayStart = new Date(now);
+  dayStart.setHours(0, 0, 0, 0);
+  const nextDay = new Date(dayStart);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  const monthStart = new Date(dayStart);
+  monthStart.setDate(1);
+  const nextMonth = new Date(monthStart);
+  nextMonth.setMonth(nextMonth.getMonth() + 1);
+
+  return { dayStart, nextDay, monthStart, nextMonth };
+}
+
+/**
+ * Role : Charger les limites et la consommation d'un utilisateur
+ * Parametre userId : utilisateur concerne
+ * Parametre db : client Prisma ou transaction en cours (defaut prisma)
+ * Retourne : limites effectives, consommation du jour et du mois, dates de renouvellement
+ */
+export async function getUsageQuotaStatus(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<UsageQuotaStatus> {
+  const { dayStart, nextDay, monthStart, nextMonth } = getQuotaPeriods();
+
+  const [overrides, runsToday, generationsThisMonth, spent] = await Promise.all([
+    db.usageQuota.findUnique({ where: { userId } }),
+    db.agentRun.count({
+      where: { userId, type: "scraping", status: { not: "error" }, createdAt: { gte: dayStart } },
+    }),
+    db.agentRun.count({
+      where: { userId, type: "application", status: { not: "error" }, createdAt: { gte: monthStart } },
+    }),
+    db.agentRun.aggregate({
+      where: { userId, createdAt: { gte: monthStart } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+
+  return {
+    limits: resolveQuotaLimits(overrides),
+    usage: {
+      runsToday,
+      generationsThisMonth,
+      spentThisMonthUsd: spent._sum.costUsd ?? 0,
+    },
+    dayResetsAt: nextDay.toISOString(),
+    monthResetsAt: nextMonth.toISOString(),
+  };
+}
+
+/**
+ * Role : Verifier qu'un utilisateur peut lancer un run
+ * Parametre userId : utilisateur concerne
+ * Parametre action : "search" (recherche) ou "generation" (candidature)
+ * Parametre db : client Prisma ou transaction en cours (defaut prisma)
+ * Retourne : message d'erreur si un quota est atteint, null sinon
+ *
+ * Le budget mensuel s'applique aux deux actions ; le quota journalier aux recherches,
+ * le quota mensuel de generations aux candidatures.
+ * Verification seule : pour lancer un run, utiliser createRunWithinQuota (atomique).
+ */
+export async function checkUsageQuota(
+  userId: string,
+  action: QuotaAction,
+  db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  const { limits, usage, dayResetsAt, monthResetsAt } = await getUsageQuotaStatus(userId, db);
+  const monthReset = formatResetDate(monthResetsAt);
+
+  if (usage.spentThisMonthUsd >= limits.monthlyBudgetUsd) {
+    return (
+      `Budget IA mensuel atteint (${usage.spentThisMonthUsd.toFixed(2)} $ sur ${limits.monthlyBudgetUsd.toFixed(2)} $). ` +
+      `Il sera renouvele le ${monthReset}.`
+    );
+  }
+
+  if (action === "search" && usage.runsToday >= limits.runsPerDay) {
+    return (
+      `Quota de recherches atteint (${limits.runsPerDay} par jour). ` +
+      `Nouvelles recherches possibles le ${formatResetDate(dayResetsAt)}.`
+    );
+  }
+
+  if (action === "generation" && usage.generationsThisMonth >= limits.generationsPerMonth) {
+    return (
+      `Quota de candidatures generees atteint (${limits.generationsPerMonth} par mois). ` +
+      `Il sera renouvele le ${monthReset}.`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Role : Verifier les quotas et creer l'AgentRun dans une meme transaction
+ * Parametre userId : utilisateur concerne (proprietaire du run)
+ * Parametre action : "search" (recherche) ou "generation" (candidature)
+ * Parametre data : champs du run a creer (type, statut, label...)
+ * Retourne : run cree, ou message d'erreur si un quota est atteint (aucun run cree)
+ *
+ * Un verrou transactionnel par utilisateur (pg_advisory_xact_lock) serialise les lancements
+ * simultanes : le second voit le run du premier dans son decompte.
+ *
+ * Exemple :
+ *   const { agentRun, error } = await createRunWithinQuota(userId, "generation", {
+ *     type: "application", status: "pending", label: "Candidature — Dev React chez Alma",
+ *   });
+ */
+export async function createRunWithinQuota(
+  userId: string,
+  action: QuotaAction,
+  data: Omit<Prisma.AgentRunUncheckedCreateInput, "userId">
+): Promise<QuotaReservation> {
+  return prisma.$transaction(async (tx) => {
+    // Libere en fin de transaction ; $executeRaw : pg_advisory_xact_lock retourne void
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+
+    const error = await checkUsageQuota(userId, action, tx);
+    if (error) return { agentRun: null, error };
+
+    const agentRun = await tx.agentRun.create({ data: { ...data, userId } });
+    return { agentRun, error: null };
+  });
+}
+
+/**
+ * Formate une date de renouvellement (ex: "01/11 a 00:00")
+ */
+function formatResetDate(iso: string): string {
+  const date = new Date(iso);
+  const day = date.toLocaleDateString("fr-FR", { day: "2-digit", month: "2-digit" });
+  const time = date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+  return `${day} a ${time}`;
+}
@@ -1,9 +1,12 @@
 import { createAuthClient } from "better-auth/react";
+import { inferAdditionalFields } from "better-auth/client/plugins";
+import type { auth } from "./auth";
 
 /**
  * Role : Client Better Auth pour les composants React cote client
  * Fournit les hooks d'authentification : useSession, signIn, signUp, signOut
  * Utilise par : composants client (login, register, header, etc.)
+ * inferAdditionalFields : type les champs additionnels du User (role) dans la session
  *
  * Exemple :
  *   const { data: session } = authClient.useSession()
@@ -21,4 +24,5 @@ export const authClient = createAuthClient({
   baseURL:
     process.env.NEXT_PUBLIC_BETTER_AUTH_URL ??
     (typeof window !== "undefined" ? window.location.origin : undefined),
+  plugins: [inferAdditionalFields<typeof auth>()],
 });
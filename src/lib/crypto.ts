@@ -0,0 +1,238 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Role : Chiffrement des secrets stockes en base (chiffrement enveloppe AES-256-GCM)
+ * Utilise par : session-store.ts (etat de session Playwright), credentials.ts (identifiants LinkedIn),
+ *   scripts/rotate-encryption-key.ts (rotation de la cle maitre)
+ *
+ * Chiffrement enveloppe :
+ *   - chaque secret est chiffre avec sa propre cle de donnees (DEK, 32 octets aleatoires)
+ *   - la DEK est elle-meme chiffree ("wrappee") avec la cle maitre serveur (KEK)
+ *   - une rotation de la cle maitre ne rechiffre que la DEK, jamais le secret lui-meme
+ *
+ * Cles serveur (32 octets encodes en base64, jamais exposees cote client) :
+ *   - ENCRYPTION_KEY : cle maitre courante, utilisee pour tout nouveau chiffrement
+ *   - ENCRYPTION_KEYS_PREVIOUS : anciennes cles separees par des virgules, encore
+ *     acceptees en dechiffrement le temps de la rotation
+ *   Generer avec : openssl rand -base64 32
+ *
+ * Formats (une seule chaine, stockable dans une colonne TEXT) :
+ *   - "v2:<kid>:<dek chiffree>:<iv>:<tag>:<donnees>" : enveloppe (format courant)
+ *   - "v1:<iv>:<tag>:<donnees>" : chiffrement direct par la cle maitre (ancien format, lecture seule)
+ * kid = empreinte de la cle maitre (8 caracteres hex du SHA-256), sans jamais exposer la cle.
+ *
+ * Exemple :
+ *   const payload = encryptSecret(JSON.stringify(storageState));
+ *   const state = JSON.parse(decryptSecret(payload));
+ */
+
+const ALGORITHM = "aes-256-gcm";
+/** Taille de l'IV recommandee pour GCM (96 bits) */
+const IV_LENGTH = 12;
+/** Taille du tag d'authentification GCM */
+const TAG_LENGTH = 16;
+
+/** Cle maitre chargee depuis l'environnement */
+interface MasterKey {
+  /** Empreinte publique de la cle (stockee dans le texte chiffre) */
+  kid: string;
+  /** Cle AES-256 brute */
+  key: Buffer;
+}
+
+/**
+ * Role : Decoder et valider une cle maitre encodee en base64
+ * Parametre raw : valeur de la variable d'environnement
+ * Parametre name : nom de la variable (pour le message d'erreur)
+ */
+function parseMasterKey(raw: string, name: string): MasterKey {
+  const key = Buffer.from(raw.trim(), "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} invalide : 32 octets encodes en base64 attendus`);
+  }
+  const kid = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { kid, key };
+}
+
+/**
+ * Role : Lire la cle maitre courante (ENCRYPTION_KEY)
+ * Leve une erreur si elle est absente ou ne fait pas 32 octets
+ */
+function getCurrentKey(): MasterKey {
+  const raw = process.env.ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error(
+      "ENCRYPTION_KEY non configuree. Generez une cle avec : openssl rand -base64 32"
+    );
+  }
+  return parseMasterKey(raw, "ENCRYPTION_KEY");
+}
+
+/**
+ * Role : Lire toutes les cles acceptees en dechiffrement (courante + precedentes)
+ * Retourne : cles indexees par kid
+ */
+function getKeyring(): Map<string, MasterKey> {
+  const keys = [getCurrentKey()];
+  const previous = process.env.ENCRYPTION_KEYS_PREVIOUS;
+  if (previous) {
+    for (const raw of previous.split(",").filter((k) => k.trim())) {
+      keys.push(parseMasterKey(raw, "ENCRYPTION_KEYS_PREVIOUS"));
+    }
+  }
+  return new Map(keys.map((k) => [k.kid, k]));
+}
+
+/**
+ * Role : Chiffrer un buffer en AES-256-GCM
+ * Retourne : { iv, tag, data }
+ */
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+/**
+ * Role : Dechiffrer un buffer AES-256-GCM
+ * Leve une erreur si la cle est incorrecte ou les donnees alterees
+ */
+function open(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * Role : Chiffrer la DEK avec une cle maitre
+ * Retourne : base64 de iv + tag + DEK chiffree (un seul segment)
+ */
+function wrapKey(master: MasterKey, dek: Buffer): string {
+  const { iv, tag, data } = seal(master.key, dek);
+  return Buffer.concat([iv, tag, data]).toString("base64");
+}
+
+/**
+ * Role : Dechiffrer une DEK produite par wrapKey
+ */
+function unwrapKey(master: MasterKey, wrapped: string): Buffer {
+  const raw = Buffer.from(wrapped, "base64");
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  return open(master.key, iv, tag, raw.subarray(IV_LENGTH + TAG_LENGTH));
+}
+
+/**
+ * Role : Retrouver la cle maitre d'un texte chiffre v2
+ * Leve une erreur si le kid ne correspond a aucune cle configuree
+ */
+function getMasterKey(kid: string): MasterKey {
+  const master = getKeyring().get(kid);
+  if (!master) {
+    throw new Error(
+      `Cle de chiffrement "${kid}" inconnue. Ajoutez l'ancienne cle a ENCRYPTION_KEYS_PREVIOUS.`
+    );
+  }
+  return master;
+}
+
+/**
+ * Role : Indiquer si une valeur est un texte chiffre produit par ce module
+ * Exemple : isEncrypted("v2:1a2b3c4d:...") // true ; isEncrypted("moi@mail.com") // false
+ */
+export function isEncrypted(value: string): boolean {
+  return /^v[12]:/.test(value);
+}
+
+/**
+ * Role : Chiffrer une chaine (enveloppe : DEK aleatoire wrappee par la cle maitre courante)
+ * Parametre plaintext : texte en clair
+ * Retourne : texte chiffre au format "v2:kid:dek:iv:tag:data"
+ */
+export function encryptSecret(plaintext: string): string {
+  const master = getCurrentKey();
+  const dek = randomBytes(32);
+  const { iv, tag, data } = seal(dek, Buffer.from(plaintext, "utf8"));
+
+  return [
+    "v2",
+    master.kid,
+    wrapKey(master, dek),
+    iv.toString("base64"),
+    tag.toString("base64"),
+    data.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Role : Dechiffrer une chaine produite par encryptSecret (v2) ou par l'ancien format v1
+ * Parametre payload : texte chiffre
+ * Retourne : texte en clair
+ * Leve une erreur si le format est inconnu, la cle absente ou les donnees alterees
+ */
+export function decryptSecret(payload: string): string {
+  const parts = payload.split(":");
+
+  if (parts[0] === "v2" && parts.length === 6) {
+    const [, kid, wrapped, iv, tag, data] = parts;
+    const dek = unwrapKey(getMasterKey(kid), wrapped);
+    return open(
+      dek,
+      Buffer.from(iv, "base64"),
+      Buffer.from(tag, "base64"),
+      Buffer.from(data, "base64")
+    ).toString("utf8");
+  }
+
+  if (parts[0] === "v1" && parts.length === 4) {
+    // Ancien format : donnees chiffrees directement par une cle maitre (sans kid)
+    const [, iv, tag, data] = parts;
+    for (const master of getKeyring().values()) {
+      try {
+        return open(
+          master.key,
+          Buffer.from(iv, "base64"),
+          Buffer.from(tag, "base64"),
+          Buffer.from(data, "base64")
+        ).toString("utf8");
+      } catch {
+        // Essayer la cle suivante
+      }
+    }
+    throw new Error("Aucune cle configuree ne dechiffre ces donnees");
+  }
+
+  throw new Error("Format de donnees chiffrees non reconnu");
+}
+
+/**
+ * Role : Indiquer si un texte chiffre doit etre migre vers la cle maitre courante
+ * Retourne : true pour l'ancien format v1 ou une DEK wrappee par une ancienne cle
+ */
+export function needsRewrap(payload: string): boolean {
+  const [version, kid] = payload.split(":");
+  return version !== "v2" || kid !== getCurrentKey().kid;
+}
+
+/**
+ * Role : Migrer un texte chiffre vers la cle maitre courante (rotation)
+ * Parametre payload : texte chiffre v1 ou v2
+ * Retourne : texte chiffre v2 sous la cle courante
+ *
+ * Pour un v2, seule la DEK est dechiffree puis re-wrappee : le secret n'est
+ * jamais dechiffre. Un v1 est entierement rechiffre au format enveloppe.
+ */
+export function rewrapSecret(payload: string): string {
+  const parts = payload.split(":");
+  if (parts[0] !== "v2" || parts.length !== 6) {
+    return encryptSecret(decryptSecret(payload));
+  }
+
+  const [, kid, wrapped, iv, tag, data] = parts;
+  const current = getCurrentKey();
+  if (kid === current.kid) return payload;
+
+  const dek = unwrapKey(getMasterKey(kid), wrapped);
+  return ["v2", current.kid, wrapKey(current, dek), iv, tag, data].join(":");
+}
@@ -6,6 +6,9 @@
  *   - "search/user.trigger" : declenche la recherche pour un utilisateur specifique
  *     Emis par la fonction cron `scheduled-search` quand l'heure configuree correspond
  *     Consomme par la fonction `run-user-search`
+ *   - "offers/liveness.check" : verifie qu'un lot d'offres d'un meme site est toujours en ligne
+ *     Emis par la fonction cron `scheduled-liveness-check` (un evenement par lot)
+ *     Consomme par la fonction `check-source-liveness`
  *
  * Variables d'env requises :
  *   - INNGEST_EVENT_KEY   : cle d'evenement (fournie par le dashboard Inngest)
@@ -32,6 +35,15 @@ type Events = {
       userId: string;
     };
   };
+  /** Verifie qu'un lot d'offres d'un meme site est toujours en ligne */
+  "offers/liveness.check": {
+    data: {
+      /** Site des offres (Offer.source) : les lots d'un meme site sont traites un par un */
+      source: string;
+      /** IDs des offres a verifier */
+      offerIds: string[];
+    };
+  };
 };
 
 /**
@@ -0,0 +1,85 @@
+/**
+ * Role : Fonction Inngest declenchee par l'evenement "offers/liveness.check"
+ * Visite les pages d'un lot d'offres d'un meme site et expire les offres cloturees.
+ *
+ * Flux :
+ *   1. Charge les offres du lot encore ouvertes (une offre expiree entre-temps est ignoree)
+ *   2. Visite chaque URL une seule fois : la meme offre enregistree par plusieurs
+ *      utilisateurs partage le resultat de la visite
+ *   3. Enregistre lastCheckedAt, et expiredAt + expiredReason pour les offres cloturees
+ *   4. Retourne le nombre d'offres non verifiees a cause d'un blocage du site (blocked),
+ *      ex: offres LinkedIn derriere l'authwall (visite sans session connectee)
+ *
+ * Limitation par site :
+ *   - concurrency (limit 1, cle source) : un seul lot en cours par site
+ *   - throttle (1 lot / 5 min par site) : espace les lots pour ne pas declencher
+ *     la detection de bot du site
+ *
+ * Limites connues : memes contraintes Playwright que run-user-search (navigateur partage,
+ * cf. browser-pool) ; un blocage arrete le lot, les offres restantes sont reverifiees
+ * la nuit suivante.
+ */
+
+import { prisma } from "@/lib/db";
+import { inngest } from "@/lib/inngest/client";
+import {
+  checkOffersLiveness,
+  saveLivenessResults,
+  type LivenessResult,
+} from "@/lib/agent/offer-liveness";
+
+export const checkSourceLiveness = inngest.createFunction(
+  {
+    id: "check-source-liveness",
+    name: "Verifier un lot d'offres d'un site",
+    concurrency: {
+      limit: 1,
+      key: "event.data.source",
+    },
+    throttle: {
+      limit: 1,
+      period: "5m",
+      key: "event.data.source",
+    },
+  },
+  { event: "offers/liveness.check" },
+  async ({ event, step }) => {
+    const { source, offerIds } = event.data;
+
+    return step.run("check-offers", async () => {
+      const offers = await prisma.offer.findMany({
+        where: { id: { in: offerIds }, source, expiredAt: null },
+        select: { id: true, url: true, externalId: true, title: true },
+      });
+
+      if (offers.length === 0) {
+        return { source, checked: 0, expired: 0, blocked: 0 };
+      }
+
+      // Une visite par URL (meme offre chez plusieurs utilisateurs)
+      const offersByUrl = new Map<string, typeof offers>();
+      for (const offer of offers) {
+        offersByUrl.set(offer.url, [...(offersByUrl.get(offer.url) ?? []), offer]);
+      }
+      const visited = [...offersByUrl.values()].map((group) => group[0]);
+
+      const visitResults = await checkOffersLiveness(source, visited);
+
+      const results: LivenessResult[] = visitResults.flatMap((result) => {
+        const visitedOffer = visited.find((offer) => offer.id === result.offerId);
+        const group = visitedOffer ? offersByUrl.get(visitedOffer.url) ?? [] : [];
+        return group.map((offer) => ({ ...result, offerId: offer.id }));
+      });
+
+      const expired = await saveLivenessResults(results);
+      const checked = results.filter((result) => result.status !== "unknown").length;
+      const blocked = results.filter((result) => result.blocked).length;
+
+      console.log(`[Inngest] Verification ${source} : ${checked} offre(s) verifiee(s), ${expired} expiree(s)`);
+      if (blocked > 0) {
+        console.warn(`[Inngest] Verification ${source} : ${blocked} offre(s) non verifiee(s), site bloque`);
+      }
+      return { source, checked, expired, blocked };
+    });
+  }
+);
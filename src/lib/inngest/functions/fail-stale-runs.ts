@@ -0,0 +1,31 @@
+/**
+ * Role : Fonction Inngest cron — passe en erreur les AgentRun interrompus
+ *
+ * Fonctionnement :
+ *   1. Declenchee toutes les 10 minutes ("*\/10 * * * *"), independamment des sessions
+ *      Playwright ouvertes : un redemarrage du worker ne laisse aucune session en memoire
+ *   2. failStaleAgentRuns : les runs "queued", "pending" ou "awaiting_input" sans mise a jour
+ *      depuis 30 min passent en "error" (indicateur du header, quota de recherches du jour)
+ *
+ * Cout estime : ~0 (une requete BDD)
+ */
+
+import { inngest } from "@/lib/inngest/client";
+import { failStaleAgentRuns } from "@/lib/agent/run-input";
+
+export const failStaleRuns = inngest.createFunction(
+  {
+    id: "fail-stale-runs",
+    name: "Runs interrompus (cron toutes les 10 minutes)",
+  },
+  // Cron : toutes les 10 minutes
+  { cron: "*/10 * * * *" },
+  async ({ step }) => {
+    const failed = await step.run("fail-stale-runs", () => failStaleAgentRuns());
+
+    return {
+      failed,
+      message: failed > 0 ? `${failed} run(s) interrompu(s) passe(s) en erreur` : "Aucun run interrompu",
+    };
+  }
+);
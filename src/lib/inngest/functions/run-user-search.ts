@@ -5,16 +5,24 @@
  * Flux :
  *   1. Charge la ScheduleConfig pour lire le searchConfigId programme
  *   2. Abandonne si aucune SearchConfig n'est selectionnee (searchConfigId = null)
- *   3. Charge le profil de l'utilisateur (identifiants LinkedIn)
- *   4. Charge la SearchConfig ciblee (avec verification ownership)
- *   5. Lance runSearchAgent + upsert des offres en BDD
- *   6. Retourne le nombre d'offres nouvelles et mises a jour
+ *   3. Charge la SearchConfig ciblee (avec verification ownership),
+ *      abandonne si elle cible LinkedIn sans identifiants renseignes
+ *   4. Dechiffre les identifiants LinkedIn (dans l'etape de recherche uniquement)
+ *   5. Cree un AgentRun (indicateur du header, etape dediee : reutilise par les nouveaux
+ *      essais Inngest) dans la meme transaction que la verification des quotas (recherches
+ *      du jour, budget IA) ; abandonne si un quota est atteint (AgentRun en erreur affichant
+ *      le motif dans le header), sinon lance runSearchAgent + saveScrapedOffers
+ *      Si LinkedIn demande une 2FA : AgentRun "awaiting_input" pendant SCHEDULED_INPUT_TIMEOUT_MS,
+ *      puis echec signale dans le header si aucun code n'est saisi
+ *   6. Retourne le nombre d'offres nouvelles et mises a jour, et le taux de succes du cache
+ *      des descriptions (pages detail dont le texte brut n'a pas change, cf. description-cache)
  *
  * Etapes Inngest (step.run) :
  *   - Chaque etape est rejouable en cas d'echec partiel (propriete Inngest)
  *
  * Limites connues :
- *   - runSearchAgent utilise Playwright (navigateur headless)
+ *   - runSearchAgent utilise Playwright (navigateur headless partage, cf. browser-pool) :
+ *     au-dela de BROWSER_MAX_CONTEXTS runs simultanes, le run attend en file ("queued")
  *   - En production Vercel, Playwright necessite une configuration speciale
  *     (playwright-core + navigateur distant via ex. Browserless.io)
  *   - En developpement local : fonctionne avec Playwright installe localement
@@ -26,7 +34,31 @@
 
 import { prisma } from "@/lib/db";
 import { inngest } from "@/lib/inngest/client";
-import { runSearchAgent, type SearchCriteria } from "@/lib/agent/orchestrator";
+import {
+  runSearchAgent,
+  type SearchAgentResult,
+  type SearchCriteria,
+  type SiteSearchReport,
+} from "@/lib/agent/orchestrator";
+import {
+  createDescriptionCacheStats,
+  mergeDescriptionCacheStats,
+} from "@/lib/agent/description-cache";
+import {
+  getLinkedInCredentials,
+  hasLinkedInCredentials,
+} from "@/lib/agent/credentials";
+import {
+  createRunInputRequester,
+  createRunProgressNotifier,
+  createRunQueueNotifier,
+  SCHEDULED_INPUT_TIMEOUT_MS,
+} from "@/lib/agent/run-input";
+import { emptyDroppedCounts, mergeDroppedCounts } from "@/lib/agent/offer-filters";
+import { saveScrapedOffers } from "@/lib/agent/save-offers";
+import { createRunArtifactRecorder } from "@/lib/agent/run-artifacts";
+import { createRunUsageRecorder } from "@/lib/agent/run-usage";
+import { createRunWithinQuota } from "@/lib/agent/usage-quotas";
 
 export const runUserSearch = inngest.createFunction(
   {
@@ -56,21 +88,7 @@ export const runUserSearch = inngest.createFunction(
       };
     }
 
-    // Etape 2 : charger le profil (identifiants LinkedIn)
-    const profile = await step.run("load-profile", async () => {
-      return prisma.profile.findUnique({ where: { userId } });
-    });
-
-    // Abandonner si les identifiants LinkedIn sont manquants
-    if (!profile?.linkedinEmail || !profile?.linkedinPassword) {
-      return {
-        userId,
-        skipped: true,
-        reason: "Identifiants LinkedIn manquants dans le profil",
-      };
-    }
-
-    // Etape 3 : charger uniquement la SearchConfig choisie (avec verification ownership)
+    // Etape 2 : charger uniquement la SearchConfig choisie (avec verification ownership)
     // Si la SearchConfig a ete supprimee depuis la planification, le tableau sera vide
     const searchConfigs = await step.run("load-search-configs", async () => {
       const targeted = await prisma.searchConfig.findFirst({
@@ -88,12 +106,68 @@ export const runUserSearch = inngest.createFunction(
       };
     }
 
+    // Abandonner si LinkedIn est cible mais que les identifiants sont manquants
+    // (verification sans dechiffrement : les identifiants ne transitent pas par l'etat Inngest)
+    const targetsLinkedIn = searchConfigs.some((c) =>
+      (c.sites as string[]).includes("linkedin")
+    );
+    const hasCredentials = await step.run("check-linkedin-credentials", async () =>
+      targetsLinkedIn ? hasLinkedInCredentials(userId) : true
+    );
+    if (!hasCredentials) {
+      return {
+        userId,
+        skipped: true,
+        reason: "Identifiants LinkedIn manquants dans le profil",
+      };
+    }
+
     let totalNew = 0;
     let totalUpdated = 0;
+    // Rapport par site de toutes les recherches (offres trouvees ou erreur du site)
+    const allSiteReports: SiteSearchReport[] = [];
+    let totalDropped = emptyDroppedCounts();
+    let totalDescriptionCache = createDescriptionCacheStats();
 
     // Etape 3 : lancer la recherche pour chaque SearchConfig
     for (const config of searchConfigs) {
+      // AgentRun visible dans l'indicateur du header : suivi du run planifie
+      // et demande du code si LinkedIn exige une verification en 2 etapes.
+      // Cree dans sa propre etape (resultat memorise) : un nouvel essai Inngest de l'etape
+      // de recherche reutilise ce run au lieu d'en creer un autre (decompte des quotas)
+      const reservation = await step.run(`create-run-${config.id}`, async () => {
+        const label = `Recherche planifiee — ${config.name}`;
+        const { agentRun, error } = await createRunWithinQuota(userId, "search", {
+          type: "scraping",
+          status: "pending",
+          label,
+          // Consommation LLM ventilee par recherche (page /settings/usage)
+          searchConfigId: config.id,
+        });
+
+        // Quota atteint : le refus est visible dans l'historique du header
+        // (run en erreur, non decompte du quota journalier)
+        if (!agentRun) {
+          await prisma.agentRun.create({
+            data: { userId, type: "scraping", status: "error", label, error, searchConfigId: config.id },
+          });
+          return { agentRunId: null, quotaError: error };
+        }
+        return { agentRunId: agentRun.id, quotaError: null };
+      });
+
+      if (reservation.agentRunId === null) {
+        return { userId, skipped: true, reason: reservation.quotaError };
+      }
+      const { agentRunId } = reservation;
+
       const result = await step.run(`search-config-${config.id}`, async () => {
+        // Dechiffrer les identifiants dans l'etape meme : ils ne sont jamais
+        // retournes par step.run, donc jamais persistes dans l'historique Inngest
+        const linkedinCredentials = (config.sites as string[]).includes("linkedin")
+          ? await getLinkedInCredentials(userId)
+          : null;
+
         // Construire les criteres depuis la SearchConfig + identifiants LinkedIn du profil
         const criteria: SearchCriteria = {
           query: config.query,
@@ -103,77 +177,97 @@ export const runUserSearch = inngest.createFunction(
           remote: config.remote,
           salaryMin: config.salaryMin,
           excludeKeywords: (config.excludeKeywords as string[]) ?? [],
-          linkedinEmail: profile.linkedinEmail!,
-          linkedinPassword: profile.linkedinPassword!,
+          linkedinEmail: linkedinCredentials?.email ?? null,
+          linkedinPassword: linkedinCredentials?.password ?? null,
         };
 
         console.log(
           `[Inngest] Recherche pour user=${userId}, config="${config.name}"`
         );
 
-        // Lancer le scraping LinkedIn
-        const scrapedOffers = await runSearchAgent(criteria, userId);
-
-        // Upsert des offres en BDD (deduplication par userId + url)
-        let newCount = 0;
-        let updatedCount = 0;
-
-        for (const offer of scrapedOffers) {
-          if (!offer.url) continue;
-
-          try {
-            const saved = await prisma.offer.upsert({
-              where: { userId_url: { userId, url: offer.url } },
-              create: {
-                userId,
-                title: offer.title,
-                company: offer.company,
-                location: offer.location,
-                url: offer.url,
-                description: offer.description,
-                salary: offer.salary,
-                contractType: offer.contractType,
-                source: offer.source,
-                // Marquage "scheduled" : offre creee par le planificateur Inngest automatique
-                // N'est defini QUE dans create → l'origine initiale est preservee si l'offre existait deja
-                origin: "scheduled",
-                isNew: true,
-                isBookmarked: false,
-              },
-              update: {
-                title: offer.title,
-                company: offer.company,
-                location: offer.location,
-                description: offer.description,
-                salary: offer.salary,
-                contractType: offer.contractType,
-                // origin intentionnellement absent → preserve l'origine de la premiere decouverte
-              },
-            });
-
-            // Si createdAt est recent (<5s) → nouvelle offre
-            if (Date.now() - saved.createdAt.getTime() < 5000) {
-              newCount++;
-            } else {
-              updatedCount++;
-            }
-          } catch (err) {
-            console.error(
-              `[Inngest] Erreur upsert offre "${offer.title}":`,
-              err
-            );
-          }
+        // Nouvel essai apres une erreur : le run repasse en attente
+        const agentRun = await prisma.agentRun.update({
+          where: { id: agentRunId },
+          data: { status: "pending", error: null },
+        });
+
+        // Sans reponse dans le delai, le run echoue proprement (pas de nouvel essai Inngest,
+        // qui redeclencherait une verification) et l'erreur reste affichee dans le header
+        const requestCode = createRunInputRequester(agentRun.id, SCHEDULED_INPUT_TIMEOUT_MS);
+        let verificationExpired = false;
+
+        // Lancer le scraping de chaque site de la recherche
+        // Un site en echec est isole dans siteReports, les offres des autres sont stockees
+        let agentResult: SearchAgentResult;
+        try {
+          agentResult = await runSearchAgent(criteria, userId, {
+            requestVerificationCode: async (request) => {
+              const code = await requestCode(request);
+              if (!code) verificationExpired = true;
+              return code;
+            },
+            // Run "queued" tant que tous les navigateurs du pool sont occupes
+            onQueueChange: createRunQueueNotifier(agentRun.id),
+            // Captures de la page d'un site en echec, consultables depuis l'historique du header
+            onFailureCapture: createRunArtifactRecorder(agentRun.id, userId),
+            // Tokens et cout de chaque appel LLM, cumules sur le run (page /settings/usage)
+            onLlmUsage: createRunUsageRecorder(agentRun.id),
+            // Run actif tant qu'il avance, meme sans appel LLM (cf. failStaleAgentRuns)
+            onProgress: createRunProgressNotifier(agentRun.id),
+          });
+        } catch (error) {
+          const err = error as Error;
+          await prisma.agentRun.update({
+            where: { id: agentRun.id },
+            data: { status: "error", error: err.message },
+          });
+          if (!verificationExpired) throw error;
+
+          console.warn(`[Inngest] user=${userId} : verification non resolue, run abandonne`);
+          return {
+            newCount: 0,
+            updatedCount: 0,
+            siteReports: [] as SiteSearchReport[],
+            dropped: emptyDroppedCounts(),
+            descriptionCache: createDescriptionCacheStats(),
+          };
         }
 
-        return { newCount, updatedCount };
+        const { offers: scrapedOffers, sites: siteReports, dropped, descriptionCache } = agentResult;
+
+        // Upsert des offres en BDD (deduplication par userId + source + externalId, a defaut url)
+        // Marquage "scheduled" : offres creees par le planificateur Inngest automatique
+        const { newCount, updatedCount } = await saveScrapedOffers(userId, scrapedOffers, "scheduled");
+
+        await prisma.agentRun.update({
+          where: { id: agentRun.id },
+          data: {
+            status: "success",
+            result: {
+              total: scrapedOffers.length,
+              new: newCount,
+              updated: updatedCount,
+              // Copie en objets litteraux : une interface n'est pas assignable a Prisma.InputJsonValue
+              sites: siteReports.map((r) => ({ ...r })),
+              dropped,
+              descriptionCache,
+            },
+          },
+        });
+
+        return { newCount, updatedCount, siteReports, dropped, descriptionCache };
       });
 
       totalNew += result.newCount;
+      allSiteReports.push(...result.siteReports);
+      totalDropped = mergeDroppedCounts(totalDropped, result.dropped);
+      totalDescriptionCache = mergeDescriptionCacheStats(totalDescriptionCache, result.descriptionCache);
       totalUpdated += result.updatedCount;
     }
 
     console.log(
-      `[Inngest] user=${userId} : ${totalNew} nouvelles offres, ${totalUpdated} mises a jour`
+      `[Inngest] user=${userId} : ${totalNew} nouvelles offres, ${totalUpdated} mises a jour, ` +
+      `${totalDescriptionCache.hits}/${totalDescriptionCache.hits + totalDescriptionCache.misses} description(s) depuis le cache`
     );
 
     return {
@@ -181,6 +275,9 @@ export const runUserSearch = inngest.createFunction(
       searchConfigs: searchConfigs.length,
       totalNew,
       totalUpdated,
+      sites: allSiteReports,
+      dropped: totalDropped,
+      descriptionCache: totalDescriptionCache,
     };
   }
 );
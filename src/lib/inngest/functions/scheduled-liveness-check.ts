@@ -0,0 +1,140 @@
+/**
+ * Role : Fonction Inngest cron — selectionne chaque nuit les offres ouvertes a reverifier
+ * et emet un evenement "offers/liveness.check" par lot d'offres d'un meme site.
+ *
+ * Fonctionnement :
+ *   1. Declenchee tous les jours a 3h UTC ("0 3 * * *"), hors des heures de recherche usuelles
+ *   2. Exclut les utilisateurs ayant desactive la verification (ScheduleConfig.checkOfferLiveness)
+ *   3. Par site, selectionne au plus MAX_OFFERS_PER_SOURCE offres non expirees :
+ *      - d'abord les offres suivies (favorites ou avec une candidature en brouillon),
+ *        reverifiees chaque jour
+ *      - puis les offres recentes, reverifiees toutes les REGULAR_RECHECK_DAYS jours
+ *   4. Emet un evenement par lot de BATCH_SIZE offres ; `check-source-liveness` traite
+ *      les lots d'un meme site un par un (concurrence et throttle par site)
+ *
+ * Cout estime : ~0 (lectures BDD, aucune visite de page dans cette fonction)
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { inngest } from "@/lib/inngest/client";
+import { SITE_ADAPTERS } from "@/lib/agent/adapters";
+
+/** Nombre maximum d'offres verifiees par site et par nuit */
+const MAX_OFFERS_PER_SOURCE = 60;
+
+/** Nombre d'offres par evenement (une session Playwright par lot) */
+const BATCH_SIZE = 20;
+
+/** Delai avant de reverifier une offre suivie, puis une offre non suivie */
+const TRACKED_RECHECK_DAYS = 1;
+const REGULAR_RECHECK_DAYS = 7;
+
+/** Age maximal d'une offre non suivie pour etre reverifiee (au-dela, elle n'est plus consultee) */
+const REGULAR_MAX_AGE_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Role : Condition "non verifiee depuis N jours" (ou jamais verifiee)
+ */
+function notCheckedSince(now: Date, days: number): Prisma.OfferWhereInput {
+  return {
+    OR: [
+      { lastCheckedAt: null },
+      { lastCheckedAt: { lt: new Date(now.getTime() - days * DAY_MS) } },
+    ],
+  };
+}
+
+/**
+ * Role : Decouper une liste en lots de taille fixe
+ * Exemple : chunk([1, 2, 3], 2) // [[1, 2], [3]]
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export const scheduledLivenessCheck = inngest.createFunction(
+  {
+    id: "scheduled-liveness-check",
+    name: "Verification des offres en ligne (cron quotidien)",
+  },
+  // Cron : tous les jours a 3h UTC
+  { cron: "0 3 * * *" },
+  async ({ step }) => {
+    // Etape 1 : selectionner les offres a verifier, site par site
+    const batches = await step.run("select-offers", async () => {
+      const now = new Date();
+
+      // Utilisateurs ayant desactive la verification dans /settings
+      const optedOut = await prisma.scheduleConfig.findMany({
+        where: { checkOfferLiveness: false },
+        select: { userId: true },
+      });
+      const base: Prisma.OfferWhereInput = {
+        expiredAt: null,
+        userId: { notIn: optedOut.map((config) => config.userId) },
+      };
+      const tracked: Prisma.OfferWhereInput = {
+        OR: [
+          { isBookmarked: true },
+          { applications: { some: { status: "draft" } } },
+        ],
+      };
+
+      const result: { source: string; offerIds: string[] }[] = [];
+
+      for (const source of Object.keys(SITE_ADAPTERS)) {
+        const trackedOffers = await prisma.offer.findMany({
+          where: { AND: [base, tracked, notCheckedSince(now, TRACKED_RECHECK_DAYS)], source },
+          orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+          take: MAX_OFFERS_PER_SOURCE,
+          select: { id: true },
+        });
+
+        const regularOffers = await prisma.offer.findMany({
+          where: {
+            AND: [base, { NOT: tracked }, notCheckedSince(now, REGULAR_RECHECK_DAYS)],
+            source,
+            createdAt: { gte: new Date(now.getTime() - REGULAR_MAX_AGE_DAYS * DAY_MS) },
+          },
+          orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+          take: MAX_OFFERS_PER_SOURCE - trackedOffers.length,
+          select: { id: true },
+        });
+
+        const offerIds = [...trackedOffers, ...regularOffers].map((offer) => offer.id);
+        for (const ids of chunk(offerIds, BATCH_SIZE)) {
+          result.push({ source, offerIds: ids });
+        }
+      }
+
+      return result;
+    });
+
+    if (batches.length === 0) {
+      return { batches: 0, message: "Aucune offre a verifier" };
+    }
+
+    // Etape 2 : emettre un evenement par lot
+    await step.run("emit-liveness-events", async () => {
+      await inngest.send(
+        batches.map((batch) => ({
+          name: "offers/liveness.check" as const,
+          data: batch,
+        }))
+      );
+    });
+
+    const offers = batches.reduce((sum, batch) => sum + batch.offerIds.length, 0);
+    return {
+      batches: batches.length,
+      message: `${offers} offre(s) a verifier en ${batches.length} lot(s)`,
+    };
+  }
+);
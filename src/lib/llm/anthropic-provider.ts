@@ -0,0 +1,139 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LlmRequest, LlmResponse, LlmService } from "./types";
+import { getModelForRole } from "./models";
+import { withBackoff, type RetryableError } from "./backoff";
+
+/**
+ * Role : Fournisseur LLM reel (API Anthropic)
+ * Utilise par : getLlmService (LLM_PROVIDER=anthropic, ou cle API configuree)
+ *
+ * Le modele de chaque appel est resolu par role (cf. ./models) ; un PDF joint est
+ * envoye en bloc "document" natif, avant le prompt.
+ *
+ * Sortie structuree (request.tool) : l'outil est impose (tool_choice), ses arguments sont
+ * retournes dans toolInput. Les tentatives refusees (request.repairs) sont rejouees en
+ * tool_use suivi d'un tool_result en erreur contenant le message de validation.
+ *
+ * Erreurs temporaires (limite de debit 429, erreur serveur 5xx dont surcharge 529, connexion
+ * coupee ou delai depasse) : nouvelles tentatives avec attente exponentielle (cf. ./backoff) ;
+ * les nouvelles tentatives du SDK sont desactivees.
+ *
+ * Exemple :
+ *   const llm = createAnthropicProvider(process.env.ANTHROPIC_API_KEY!);
+ *   const { text } = await llm.complete({ role: "cleanup", prompt, maxTokens: 1536 });
+ */
+
+/** Statut HTTP temporaire hors erreurs serveur (5xx) : limite de debit */
+const RATE_LIMIT_STATUS = 429;
+
+/**
+ * Role : Creer le fournisseur Anthropic
+ * Parametre apiKey : cle API Anthropic
+ */
+export function createAnthropicProvider(apiKey: string): LlmService {
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
+
+  const complete = async (request: LlmRequest): Promise<LlmResponse> => {
+    const content: Anthropic.ContentBlockParam[] = [];
+    if (request.document) {
+      content.push({
+        type: "document",
+        source: { type: "base64", media_type: request.document.mediaType, data: request.document.data },
+      });
+    }
+    content.push({ type: "text", text: request.prompt });
+
+    const { tool } = request;
+    const response = await withBackoff(
+      () =>
+        client.messages.create({
+          model: getModelForRole(request.role),
+          max_tokens: request.maxTokens,
+          ...(request.system && { system: request.system }),
+          ...(tool && {
+            tools: [
+              {
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+              },
+            ],
+            tool_choice: { type: "tool" as const, name: tool.name },
+          }),
+          messages: [{ role: "user", content }, ...buildRepairMessages(request)],
+        }),
+      classifyError
+    );
+
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === "tool_use" && block.name === tool?.name
+    );
+
+    return {
+      text: response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join(""),
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+      ...(toolUse && { toolInput: toolUse.input }),
+    };
+  };
+
+  return { provider: "anthropic", complete };
+}
+
+/**
+ * Role : Rejouer les tentatives refusees (reponse du modele puis erreur de validation)
+ * Retourne : paires de messages assistant / utilisateur, dans l'ordre des tentatives
+ */
+function buildRepairMessages(request: LlmRequest): Anthropic.MessageParam[] {
+  const { tool, repairs = [] } = request;
+
+  return repairs.flatMap((repair, i): Anthropic.MessageParam[] => {
+    const { toolInput, text } = repair.response;
+
+    if (tool && toolInput !== undefined) {
+      const id = `toolu_repair_${i + 1}`;
+      return [
+        { role: "assistant", content: [{ type: "tool_use", id, name: tool.name, input: toolInput }] },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: id,
+              is_error: true,
+              content: `Reponse invalide, corrige-la et rappelle l'outil :\n${repair.error}`,
+            },
+          ],
+        },
+      ];
+    }
+
+    return [
+      { role: "assistant", content: text || "(reponse vide)" },
+      { role: "user", content: `Reponse invalide, corrige-la :\n${repair.error}` },
+    ];
+  });
+}
+
+/**
+ * Role : Identifier une erreur temporaire de l'API (limite de debit, erreur serveur, reseau)
+ * Retourne : delai impose par l'en-tete retry-after (secondes), null si l'erreur est definitive
+ *
+ * APIConnectionError couvre aussi les delais depasses (APIConnectionTimeoutError).
+ * Exportee pour les tests unitaires (backoff.test.ts).
+ */
+export function classifyError(error: unknown): RetryableError | null {
+  if (error instanceof Anthropic.APIConnectionError) return { retryAfterMs: null };
+
+  if (!(error instanceof Anthropic.APIError)) return null;
+  const status = error.status ?? 0;
+  if (status !== RATE_LIMIT_STATUS && status < 500) return null;
+
+  const retryAfter = Number(error.headers?.get("retry-after"));
+  return { retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null };
+}
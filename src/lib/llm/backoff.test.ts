@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import Anthropic from "@anthropic-ai/sdk";
+import { withBackoff } from "./backoff";
+import { classifyError } from "./anthropic-provider";
+
+/**
+ * Role : Tests unitaires de backoff.ts et de classifyError (anthropic-provider.ts, npm test)
+ *
+ * Les attentes ne sont pas reelles : setTimeout est remplace par un appel immediat qui
+ * releve le delai demande, et la part aleatoire du delai est fixee a 0.
+ *
+ * Exemple :
+ *   npx tsx --test src/lib/llm/backoff.test.ts
+ */
+
+/** Delais demandes a setTimeout par withBackoff, dans l'ordre */
+let delays: number[] = [];
+
+beforeEach(() => {
+  delays = [];
+  mock.method(Math, "random", () => 0);
+  mock.method(globalThis, "setTimeout", (callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    callback();
+  });
+  // Nouvelles tentatives journalisees a chaque echec
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+/**
+ * Role : Appel qui echoue avec les erreurs donnees, puis retourne "ok"
+ * Retourne : l'appel et le nombre d'executions
+ */
+function failingCall(errors: unknown[]) {
+  const state = { calls: 0 };
+  const call = async () => {
+    state.calls++;
+    if (state.calls <= errors.length) throw errors[state.calls - 1];
+    return "ok";
+  };
+  return { call, state };
+}
+
+/** Erreur HTTP de l'API Anthropic, avec ses en-tetes de reponse */
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Anthropic.APIError.generate(status, { type: "error" }, `Erreur ${status}`, new Headers(headers));
+}
+
+describe("withBackoff", () => {
+  it("retente une erreur temporaire avec un delai qui double a chaque tentative", async () => {
+    const { call, state } = failingCall([new Error("surcharge"), new Error("surcharge"), new Error("surcharge")]);
+
+    const result = await withBackoff(call, () => ({ retryAfterMs: null }));
+
+    assert.equal(result, "ok");
+    assert.equal(state.calls, 4);
+    assert.deepEqual(delays, [1000, 2000, 4000]);
+  });
+
+  it("propage aussitot une erreur definitive", async () => {
+    const error = new Error("requete invalide");
+    const { call, state } = failingCall([error]);
+
+    await assert.rejects(withBackoff(call, () => null), error);
+    assert.equal(state.calls, 1);
+    assert.deepEqual(delays, []);
+  });
+
+  it("propage la derniere erreur apres 4 nouvelles tentatives", async () => {
+    const errors = [1, 2, 3, 4, 5].map((i) => new Error(`surcharge ${i}`));
+    const { call, state } = failingCall(errors);
+
+    await assert.rejects(withBackoff(call, () => ({ retryAfterMs: null })), errors[4]);
+    assert.equal(state.calls, 5);
+    assert.deepEqual(delays, [1000, 2000, 4000, 8000]);
+  });
+
+  it("respecte un retry-after plus long que l'attente exponentielle", async () => {
+    const { call } = failingCall([new Error("limite"), new Error("limite")]);
+
+    await withBackoff(call, () => ({ retryAfterMs: 10_000 }));
+
+    assert.deepEqual(delays, [10_000, 10_000]);
+  });
+
+  it("garde l'attente exponentielle si le retry-after est plus court", async () => {
+    const { call } = failingCall([new Error("limite"), new Error("limite")]);
+
+    await withBackoff(call, () => ({ retryAfterMs: 1500 }));
+
+    assert.deepEqual(delays, [1500, 2000]);
+  });
+
+  it("attend le retry-after d'une erreur 429 de l'API", async () => {
+    const { call } = failingCall([apiError(429, { "retry-after": "5" })]);
+
+    assert.equal(await withBackoff(call, classifyError), "ok");
+    assert.deepEqual(delays, [5000]);
+  });
+});
+
+describe("classifyError", () => {
+  it("retente une limite de debit (429) en lisant retry-after en secondes", () => {
+    assert.deepEqual(classifyError(apiError(429, { "retry-after": "3" })), { retryAfterMs: 3000 });
+  });
+
+  it("retente une limite de debit sans retry-after exploitable", () => {
+    assert.deepEqual(classifyError(apiError(429)), { retryAfterMs: null });
+    assert.deepEqual(classifyError(apiError(429, { "retry-after": "demain" })), { retryAfterMs: null });
+    assert.deepEqual(classifyError(apiError(429, { "retry-after": "0" })), { retryAfterMs: null });
+  });
+
+  it("retente les erreurs serveur (5xx), dont la surcharge 529", () => {
+    for (const status of [500, 502, 503, 529]) {
+      assert.deepEqual(classifyError(apiError(status)), { retryAfterMs: null }, String(status));
+    }
+    assert.deepEqual(classifyError(apiError(503, { "retry-after": "20" })), { retryAfterMs: 20_000 });
+  });
+
+  it("retente une connexion coupee ou un delai depasse", () => {
+    assert.deepEqual(
+      classifyError(new Anthropic.APIConnectionError({ message: "Connection error." })),
+      { retryAfterMs: null }
+    );
+    assert.deepEqual(classifyError(new Anthropic.APIConnectionTimeoutError()), { retryAfterMs: null });
+  });
+
+  it("ne retente pas une erreur definitive", () => {
+    for (const status of [400, 401, 403, 404, 413]) {
+      assert.equal(classifyError(apiError(status)), null, String(status));
+    }
+    assert.equal(classifyError(new Error("bug")), null);
+  });
+});
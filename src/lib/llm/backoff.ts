@@ -0,0 +1,71 @@
+/**
+ * Role : Nouvelle tentative d'un appel LLM avec attente exponentielle
+ * Utilise par : anthropic-provider.ts (limite de debit 429, erreurs serveur 5xx, erreurs reseau)
+ *
+ * Le delai double a chaque tentative (BASE_DELAY_MS, 2x, 4x...) dans la limite de
+ * MAX_DELAY_MS, avec une part aleatoire pour eviter que des runs paralleles ne
+ * relancent leurs appels au meme instant. Un delai impose par l'API (en-tete
+ * retry-after) est respecte s'il est plus long.
+ *
+ * Exemple :
+ *   const response = await withBackoff(
+ *     () => client.messages.create(params),
+ *     (error) => isOverloaded(error) ? { retryAfterMs: null } : null
+ *   );
+ */
+
+/** Nombre maximum de nouvelles tentatives apres le premier echec */
+const MAX_RETRIES = 4;
+
+/** Delai avant la premiere nouvelle tentative */
+const BASE_DELAY_MS = 1000;
+
+/** Delai maximum entre deux tentatives */
+const MAX_DELAY_MS = 30_000;
+
+/** Erreur a retenter, avec le delai eventuellement impose par l'API */
+export interface RetryableError {
+  /** Delai demande par l'API (retry-after), null si absent */
+  retryAfterMs: number | null;
+}
+
+/**
+ * Role : Executer un appel en le retentant tant que l'erreur est temporaire
+ * Parametre call : appel a executer
+ * Parametre classify : RetryableError si l'erreur est temporaire, null sinon (propagee aussitot)
+ * Retourne : resultat du premier appel reussi
+ * Leve la derniere erreur apres MAX_RETRIES nouvelles tentatives
+ */
+export async function withBackoff<T>(
+  call: () => Promise<T>,
+  classify: (error: unknown) => RetryableError | null
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const retryable = classify(error);
+      if (!retryable || attempt >= MAX_RETRIES) throw error;
+
+      const delayMs = getBackoffDelay(attempt, retryable.retryAfterMs);
+      console.warn(
+        `[LLM] ${(error as Error).message} : nouvelle tentative ${attempt + 1}/${MAX_RETRIES} ` +
+        `dans ${Math.round(delayMs / 1000)}s`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Role : Delai avant la tentative suivante
+ * Parametre attempt : numero de la tentative echouee (0 = premier appel)
+ * Parametre retryAfterMs : delai impose par l'API, prioritaire s'il est plus long
+ *
+ * Exemple : getBackoffDelay(2, null) // entre 4000 et 5000 ms
+ */
+function getBackoffDelay(attempt: number, retryAfterMs: number | null): number {
+  const exponential = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  const jitter = Math.random() * BASE_DELAY_MS;
+  return Math.max(exponential + jitter, retryAfterMs ?? 0);
+}
@@ -0,0 +1,129 @@
+import { isFixtureMode } from "@/lib/agent/fixtures";
+import { createAnthropicProvider } from "./anthropic-provider";
+import { createMockProvider } from "./mock-provider";
+import { computeCostUsd } from "./pricing";
+import type { LlmProviderId, LlmService, LlmUsageListener } from "./types";
+
+/**
+ * Role : Point d'entree unique des appels LLM de l'application
+ * Utilise par : orchestrator.ts (extraction, nettoyage), generate-application.ts,
+ *   /api/cv/parse
+ *
+ * Choix du fournisseur :
+ *   1. LLM_PROVIDER ("anthropic" | "mock") s'il est defini
+ *   2. Mode fixtures (SCRAPER_FIXTURES=1) : fournisseur de test
+ *   3. Hors production, sans ANTHROPIC_API_KEY : fournisseur de test (avertissement unique)
+ *   4. Sinon : API Anthropic (erreur si la cle est absente)
+ * Le modele de chaque role se configure par LLM_MODEL_<ROLE> (cf. ./models).
+ * Sortie JSON validee par un schema Zod, avec correction par le modele : completeStructured
+ * (cf. ./structured).
+ *
+ * Consommation : options.onUsage recoit le modele, les tokens et le cout (cf. ./pricing)
+ * de chaque appel reussi, avant que la reponse ne soit rendue a l'appelant (chaque
+ * tentative de completeStructured est un appel distinct).
+ *
+ * Exemple :
+ *   const llm = getLlmService({ onUsage: createRunUsageRecorder(agentRun.id) });
+ *   const { text, usage } = await llm.complete({ role: "generation", system, prompt, maxTokens: 4096 });
+ */
+
+export type {
+  LlmCallRecord,
+  LlmRole,
+  LlmRequest,
+  LlmResponse,
+  LlmService,
+  LlmTool,
+  LlmUsage,
+  LlmUsageListener,
+} from "./types";
+export { getModelForRole } from "./models";
+export { computeCostUsd } from "./pricing";
+export {
+  completeStructured,
+  parseValidItems,
+  type StructuredOutput,
+  type StructuredParseResult,
+} from "./structured";
+
+/** Options de getLlmService */
+export interface LlmServiceOptions {
+  /** Appele apres chaque appel reussi avec sa consommation */
+  onUsage?: LlmUsageListener;
+}
+
+/** Valeur d'exemple de .env.example, equivalente a une cle absente */
+const PLACEHOLDER_API_KEY = "sk-ant-...";
+
+/** Evite de repeter l'avertissement du repli hors ligne a chaque appel */
+let mockFallbackWarned = false;
+
+/**
+ * Role : Resoudre le fournisseur LLM de l'environnement
+ * Parametre options : onUsage, appele avec la consommation de chaque appel (optionnel)
+ * Leve une erreur si LLM_PROVIDER est inconnu, ou si l'API Anthropic est requise
+ * sans ANTHROPIC_API_KEY
+ */
+export function getLlmService(options: LlmServiceOptions = {}): LlmService {
+  const service = createProvider(resolveProvider());
+  const { onUsage } = options;
+  if (!onUsage) return service;
+
+  return {
+    provider: service.provider,
+    complete: async (request) => {
+      const response = await service.complete(request);
+      await onUsage({
+        role: request.role,
+        model: response.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        costUsd: computeCostUsd(response.model, response.usage),
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Role : Instancier le fournisseur choisi
+ * Leve une erreur si l'API Anthropic est requise sans ANTHROPIC_API_KEY
+ */
+function createProvider(provider: LlmProviderId): LlmService {
+  if (provider === "mock") return createMockProvider();
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey || apiKey === PLACEHOLDER_API_KEY) {
+    throw new Error(
+      "ANTHROPIC_API_KEY non configuree. Ajoutez votre cle dans .env.local"
+    );
+  }
+  return createAnthropicProvider(apiKey);
+}
+
+/**
+ * Role : Identifiant du fournisseur a utiliser (cf. ordre de priorite du module)
+ */
+function resolveProvider(): LlmProviderId {
+  const configured = process.env.LLM_PROVIDER?.trim();
+  if (configured) {
+    if (configured !== "anthropic" && configured !== "mock") {
+      throw new Error(`LLM_PROVIDER inconnu : "${configured}" (attendu : anthropic ou mock)`);
+    }
+    return configured;
+  }
+
+  if (isFixtureMode()) return "mock";
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const hasApiKey = Boolean(apiKey) && apiKey !== PLACEHOLDER_API_KEY;
+  if (!hasApiKey && process.env.NODE_ENV !== "production") {
+    if (!mockFallbackWarned) {
+      console.warn("[LLM] ANTHROPIC_API_KEY absente : fournisseur de test hors ligne utilise");
+      mockFallbackWarned = true;
+    }
+    return "mock";
+  }
+
+  return "anthropic";
+}
@@ -0,0 +1,168 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { SITE_CONFIGS } from "@/lib/agent/site-configs";
+import { FIXTURES_DIR, isFixtureMode } from "@/lib/agent/fixtures";
+import type { LlmRequest, LlmResponse, LlmRole, LlmService } from "./types";
+
+/**
+ * Role : Fournisseur LLM deterministe, hors ligne (aucun appel reseau, aucune cle API)
+ * Utilise par : getLlmService (LLM_PROVIDER=mock, mode fixtures, ou developpement sans cle)
+ *
+ * Chaque role recoit une reponse construite a partir du prompt, au format attendu
+ * par l'appelant :
+ *   - extraction : mode fixtures → reponse enregistree <site>/extraction.json ;
+ *     sinon une offre par ligne de "Liens d'offres extraits" du prompt
+ *   - cleanup    : texte brut ("TEXTE BRUT : ... TACHE :") retourne tel quel, sans
+ *     bloc d'attributs (les attributs lus sur la carte sont conserves)
+ *   - generation : CV et lettre en markdown assembles depuis le profil et l'offre du prompt
+ *   - parsing    : profil vide (le PDF n'est pas lu), a completer a la main
+ * Sortie structuree (request.tool) : la reponse JSON du role est retournee en arguments
+ * de l'outil (tableau d'offres de l'extraction sous la cle "offers").
+ * Un prompt non reconnu leve une erreur explicite.
+ *
+ * Exemple :
+ *   const llm = createMockProvider();
+ *   const { text } = await llm.complete({ role: "cleanup", prompt, maxTokens: 1536 });
+ */
+
+/** Nom de modele rapporte par les reponses du fournisseur */
+const MOCK_MODEL = "mock";
+
+/**
+ * Role : Creer le fournisseur deterministe
+ */
+export function createMockProvider(): LlmService {
+  const complete = async (request: LlmRequest): Promise<LlmResponse> => {
+    const text = RESPONDERS[request.role](request.prompt);
+    const input = `${request.system ?? ""}${request.prompt}`;
+
+    return {
+      text,
+      model: MOCK_MODEL,
+      usage: {
+        // Estimation grossiere (~4 caracteres par token), stable d'un run a l'autre
+        inputTokens: Math.ceil(input.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+      ...(request.tool && { toolInput: toToolInput(request.role, text) }),
+    };
+  };
+
+  return { provider: "mock", complete };
+}
+
+/** Reponse de chaque role a partir du prompt */
+const RESPONDERS: Record<LlmRole, (prompt: string) => string> = {
+  extraction: respondToExtraction,
+  cleanup: respondToCleanup,
+  generation: respondToGeneration,
+  parsing: respondToParsing,
+};
+
+/**
+ * Role : Offres d'une page de resultats (tableau JSON)
+ * Mode fixtures : reponse enregistree du site ; sinon, offres deduites des liens du prompt
+ */
+function respondToExtraction(prompt: string): string {
+  const site = prompt.match(/^Extrais les offres d'emploi de ce snapshot de page (.+)\.$/m);
+  if (!site) throw unknownPrompt("extraction");
+
+  if (isFixtureMode()) {
+    const config = Object.values(SITE_CONFIGS).find((c) => c.name === site[1]);
+    if (!config) return "[]";
+    return readFileSync(path.join(FIXTURES_DIR, config.id, "extraction.json"), "utf8");
+  }
+
+  // Lignes "N. "texte du lien" -> https://..." construites par extractOffersFromSnapshot
+  const offers = [...prompt.matchAll(/^\d+\. "(.*)" -> (\S+)$/gm)].map(([, title, url]) => ({
+    title,
+    company: null,
+    location: null,
+    url,
+    description: "",
+    salary: null,
+    contractType: null,
+  }));
+  return JSON.stringify(offers);
+}
+
+/**
+ * Role : Description nettoyee = texte brut du prompt, sans bloc d'attributs
+ */
+function respondToCleanup(prompt: string): string {
+  const raw = prompt.match(/TEXTE BRUT :\n([\s\S]*?)\n\nTACHE :/);
+  if (!raw) throw unknownPrompt("cleanup");
+  return raw[1].trim();
+}
+
+/**
+ * Role : CV et lettre en markdown ({ cvContent, letterContent }) depuis les sections
+ * "PROFIL DU CANDIDAT" et "OFFRE D'EMPLOI CIBLEE" du prompt
+ */
+function respondToGeneration(prompt: string): string {
+  const sections = prompt.match(/PROFIL DU CANDIDAT :\n([\s\S]*?)\n\nOFFRE D'EMPLOI CIBLEE :\n([\s\S]*?)\n\nETAPE 1/);
+  if (!sections) throw unknownPrompt("generation");
+
+  const [, profile, offer] = sections;
+  const field = (text: string, label: string) =>
+    text.match(new RegExp(`^${label} : (.*)$`, "m"))?.[1].trim() ?? "";
+
+  const title = field(profile, "Titre professionnel");
+  const position = field(offer, "Poste");
+  const company = field(offer, "Entreprise");
+
+  const cvContent = [
+    `# ${title || "CV"}`,
+    "",
+    `> CV généré hors ligne (fournisseur LLM de test) pour le poste ${position} chez ${company}.`,
+    "",
+    profile,
+  ].join("\n");
+
+  const letterContent = [
+    `# Lettre de motivation — ${position}`,
+    "",
+    "Madame, Monsieur,",
+    "",
+    `Je vous propose ma candidature au poste de ${position} chez ${company}.`,
+    "",
+    `Compétences : ${field(profile, "Competences techniques")}`,
+    "",
+    "> Lettre générée hors ligne (fournisseur LLM de test).",
+  ].join("\n");
+
+  return JSON.stringify({ cvContent, letterContent });
+}
+
+/**
+ * Role : Profil extrait d'un CV (ParsedProfile) : vide, le PDF n'est pas lu hors ligne
+ */
+function respondToParsing(): string {
+  return JSON.stringify({
+    title: "",
+    location: "",
+    phone: "",
+    summary: "CV non analysé : fournisseur LLM de test (hors ligne). Complétez le profil manuellement.",
+    skills: [],
+    softSkills: [],
+    experiences: [],
+    education: [],
+    certifications: [],
+  });
+}
+
+/**
+ * Role : Arguments d'outil equivalents a la reponse JSON d'un role
+ * (l'objet racine d'un outil ne peut pas etre un tableau : offres sous "offers")
+ */
+function toToolInput(role: LlmRole, text: string): unknown {
+  const value: unknown = JSON.parse(text);
+  return role === "extraction" ? { offers: value } : value;
+}
+
+/**
+ * Role : Erreur d'un prompt que le fournisseur de test ne sait pas traiter
+ */
+function unknownPrompt(role: LlmRole): Error {
+  return new Error(`Prompt ${role} non reconnu par le fournisseur LLM de test`);
+}
@@ -0,0 +1,33 @@
+import type { LlmRole } from "./types";
+
+/**
+ * Role : Modele utilise pour chaque role d'appel LLM
+ * Utilise par : anthropic-provider.ts
+ *
+ * Chaque role peut etre surcharge par environnement via LLM_MODEL_<ROLE>
+ * (ex: LLM_MODEL_GENERATION="claude-opus-4-1" en production, Haiku partout en preproduction).
+ *
+ * Exemple :
+ *   getModelForRole("cleanup") // "claude-haiku-4-5-20251001" (ou LLM_MODEL_CLEANUP)
+ */
+
+/**
+ * Modeles par defaut :
+ *   - extraction : Sonnet, bon rapport qualite/prix pour l'extraction structuree
+ *   - cleanup    : Haiku, suffisant pour du nettoyage de texte (~25x moins cher que Sonnet)
+ *   - generation : Sonnet 4.6, meilleure redaction pour le CV et la lettre
+ *   - parsing    : Haiku, lecture native des PDF, rapide et economique
+ */
+export const DEFAULT_MODELS: Record<LlmRole, string> = {
+  extraction: "claude-sonnet-4-5-20250929",
+  cleanup: "claude-haiku-4-5-20251001",
+  generation: "claude-sonnet-4-6",
+  parsing: "claude-haiku-4-5-20251001",
+};
+
+/**
+ * Role : Modele d'un role, surcharge par LLM_MODEL_<ROLE> si definie
+ */
+export function getModelForRole(role: LlmRole): string {
+  return process.env[`LLM_MODEL_${role.toUpperCase()}`]?.trim() || DEFAULT_MODELS[role];
+}
@@ -0,0 +1,66 @@
+import type { LlmUsage } from "./types";
+
+/**
+ * Role : Cout en dollars d'un appel LLM a partir du modele et des tokens consommes
+ * Utilise par : getLlmService (cout de chaque appel transmis a onUsage)
+ *
+ * Tarifs publics Anthropic en $ par million de tokens, associes a un prefixe de modele :
+ * le premier prefixe correspondant l'emporte (ex: "claude-haiku-4-5-20251001" → Haiku 4.5).
+ * Le fournisseur de test ("mock") coute 0 $. Un modele absent de la table (ex: surcharge
+ * LLM_MODEL_<ROLE>) est facture au tarif le plus eleve (FALLBACK_PRICING) avec un
+ * avertissement : le budget mensuel (cf. usage-quotas.ts) continue de decompter ses appels.
+ *
+ * Exemple :
+ *   computeCostUsd("claude-sonnet-4-6", { inputTokens: 3000, outputTokens: 1500 }) // 0.0315
+ */
+
+/** Tarif d'une famille de modeles ($ par million de tokens) */
+interface ModelPricing {
+  prefix: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const MODEL_PRICING: ModelPricing[] = [
+  { prefix: "mock", inputPerMillion: 0, outputPerMillion: 0 },
+  // Opus 4.5 et suivants avant le prefixe generique "claude-opus-4" (Opus 4 / 4.1)
+  { prefix: "claude-opus-4-6", inputPerMillion: 5, outputPerMillion: 25 },
+  { prefix: "claude-opus-4-5", inputPerMillion: 5, outputPerMillion: 25 },
+  { prefix: "claude-opus-4", inputPerMillion: 15, outputPerMillion: 75 },
+  { prefix: "claude-sonnet-4", inputPerMillion: 3, outputPerMillion: 15 },
+  { prefix: "claude-3-7-sonnet", inputPerMillion: 3, outputPerMillion: 15 },
+  { prefix: "claude-haiku-4-5", inputPerMillion: 1, outputPerMillion: 5 },
+  { prefix: "claude-3-5-haiku", inputPerMillion: 0.8, outputPerMillion: 4 },
+];
+
+/** Tarif d'un modele inconnu : le plus eleve de la table (surestimer plutot qu'ignorer) */
+const FALLBACK_PRICING: Omit<ModelPricing, "prefix"> = { inputPerMillion: 15, outputPerMillion: 75 };
+
+/** Modeles inconnus deja signales (un avertissement par modele et par processus) */
+const warnedModels = new Set<string>();
+
+/**
+ * Role : Calculer le cout d'un appel
+ * Retourne : cout en dollars (tarif FALLBACK_PRICING si le modele n'a pas de tarif connu)
+ */
+export function computeCostUsd(model: string, usage: LlmUsage): number {
+  let pricing: Omit<ModelPricing, "prefix"> | undefined = MODEL_PRICING.find((p) =>
+    model.startsWith(p.prefix)
+  );
+  if (!pricing) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(
+        `[LLM] Tarif inconnu pour le modele "${model}" : cout estime au tarif le plus eleve ` +
+        `(${FALLBACK_PRICING.inputPerMillion} $ / ${FALLBACK_PRICING.outputPerMillion} $ par million de tokens)`
+      );
+    }
+    pricing = FALLBACK_PRICING;
+  }
+
+  return (
+    (usage.inputTokens * pricing.inputPerMillion +
+      usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
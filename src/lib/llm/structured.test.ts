@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { completeStructured, parseValidItems } from "./structured";
+import { createMockProvider } from "./mock-provider";
+import type { LlmRequest, LlmResponse, LlmService } from "./types";
+
+/**
+ * Role : Tests unitaires de structured.ts (npm test)
+ *
+ * Les reponses viennent du fournisseur de test (mock-provider.ts, role generation) ;
+ * les reponses invalides a corriger sont injectees devant lui.
+ *
+ * Exemple :
+ *   npx tsx --test src/lib/llm/structured.test.ts
+ */
+
+const ApplicationSchema = z.object({
+  cvContent: z.string().min(1),
+  letterContent: z.string().min(1),
+});
+
+const OUTPUT = {
+  name: "submit_application",
+  description: "Enregistre le CV et la lettre generes",
+  schema: ApplicationSchema,
+};
+
+/** Requete de generation reconnue par le fournisseur de test */
+const REQUEST: Omit<LlmRequest, "tool" | "repairs"> = {
+  role: "generation",
+  prompt: [
+    "PROFIL DU CANDIDAT :",
+    "Titre professionnel : Developpeur TypeScript",
+    "Competences techniques : TypeScript, React",
+    "",
+    "OFFRE D'EMPLOI CIBLEE :",
+    "Poste : Developpeur Front",
+    "Entreprise : Qonto",
+    "",
+    "ETAPE 1 : analyse l'offre",
+  ].join("\n"),
+  maxTokens: 4096,
+};
+
+/**
+ * Role : Fournisseur de test precede de reponses invalides, et requetes recues
+ * Parametre invalid : reponses retournees (dans l'ordre) avant de laisser repondre le mock
+ */
+function createRecordingProvider(invalid: Partial<LlmResponse>[] = []) {
+  const mock = createMockProvider();
+  const requests: LlmRequest[] = [];
+
+  const llm: LlmService = {
+    provider: "mock",
+    complete: async (request) => {
+      requests.push(request);
+      const next = invalid.shift();
+      if (!next) return mock.complete(request);
+      return { text: "", model: "mock", usage: { inputTokens: 0, outputTokens: 0 }, ...next };
+    },
+  };
+
+  return { llm, requests };
+}
+
+describe("completeStructured", () => {
+  // Reponses refusees journalisees a chaque tentative
+  beforeEach(() => {
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("retourne la reponse valide du premier appel, avec l'outil impose", async () => {
+    const { llm, requests } = createRecordingProvider();
+
+    const result = await completeStructured(llm, REQUEST, OUTPUT);
+
+    assert.match(result.cvContent, /Developpeur TypeScript/);
+    assert.match(result.letterContent, /Developpeur Front chez Qonto/);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].tool?.name, "submit_application");
+    assert.equal(requests[0].tool?.inputSchema.$schema, undefined);
+    assert.deepEqual(requests[0].repairs, []);
+  });
+
+  it("renvoie une reponse hors schema au modele avec l'erreur de validation", async () => {
+    const invalid = { toolInput: { cvContent: "", letterContent: "Lettre" } };
+    const { llm, requests } = createRecordingProvider([invalid]);
+
+    const result = await completeStructured(llm, REQUEST, OUTPUT);
+
+    assert.match(result.cvContent, /Developpeur TypeScript/);
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].repairs?.length, 1);
+    assert.deepEqual(requests[1].repairs?.[0].response.toolInput, invalid.toolInput);
+    assert.match(requests[1].repairs?.[0].error ?? "", /^cvContent : /);
+  });
+
+  it("renvoie une reponse sans appel de l'outil au modele", async () => {
+    const { llm, requests } = createRecordingProvider([{ text: "Voici le CV demande." }]);
+
+    await completeStructured(llm, REQUEST, OUTPUT);
+
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].repairs?.[0].response.text, "Voici le CV demande.");
+    assert.equal(requests[1].repairs?.[0].error, "L'outil submit_application n'a pas ete appele");
+  });
+
+  it("cumule les corrections et echoue apres 3 reponses invalides", async () => {
+    const { llm, requests } = createRecordingProvider([
+      { toolInput: {} },
+      { toolInput: { cvContent: "CV" } },
+      { toolInput: { cvContent: "CV", letterContent: "" } },
+    ]);
+
+    await assert.rejects(
+      completeStructured(llm, REQUEST, OUTPUT),
+      { message: /^Reponse generation invalide apres 3 tentatives : letterContent : / }
+    );
+    assert.equal(requests.length, 3);
+    assert.deepEqual(
+      requests.map((request) => request.repairs?.length),
+      [0, 1, 2]
+    );
+  });
+
+  it("utilise la validation personnalisee a la place du schema", async () => {
+    const { llm } = createRecordingProvider([{ toolInput: { cvContent: "", letterContent: "" } }]);
+
+    const result = await completeStructured(llm, REQUEST, {
+      ...OUTPUT,
+      parse: (value) => ({ success: true, data: value as z.infer<typeof ApplicationSchema> }),
+    });
+
+    assert.deepEqual(result, { cvContent: "", letterContent: "" });
+  });
+});
+
+describe("parseValidItems", () => {
+  const OfferSchema = z.object({ title: z.string(), url: z.string() });
+
+  it("garde les elements valides et decrit chaque element refuse avec son indice", () => {
+    const { valid, errors } = parseValidItems(OfferSchema, [
+      { title: "Developpeur Front", url: "https://example.com/1" },
+      { title: "Developpeur Back", url: null },
+      { title: "Tech Lead", url: "https://example.com/3" },
+    ]);
+
+    assert.deepEqual(valid, [
+      { title: "Developpeur Front", url: "https://example.com/1" },
+      { title: "Tech Lead", url: "https://example.com/3" },
+    ]);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^\[1\] url : /);
+  });
+
+  it("retourne des listes vides pour une liste vide", () => {
+    assert.deepEqual(parseValidItems(OfferSchema, []), { valid: [], errors: [] });
+  });
+});
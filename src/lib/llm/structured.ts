@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { LlmRepairTurn, LlmRequest, LlmService } from "./types";
+
+/**
+ * Role : Appels LLM a sortie structuree, validee par un schema Zod
+ * Utilise par : orchestrator.ts (extraction des offres d'un snapshot),
+ *   generate-application.ts (CV + lettre)
+ *
+ * Le schema est expose au modele comme un outil a appeler obligatoirement (JSON Schema
+ * genere par z.toJSONSchema) : la reponse est un objet JSON, sans texte a decouper.
+ * Une reponse refusee (outil non appele, schema non respecte) est renvoyee au modele
+ * avec l'erreur de validation, jusqu'a MAX_ATTEMPTS tentatives au total.
+ *
+ * Validation partielle : output.parse remplace la validation par le schema, pour
+ * accepter les elements valides d'une liste (cf. parseValidItems).
+ *
+ * Exemple :
+ *   const { cvContent } = await completeStructured(llm, { role: "generation", prompt, maxTokens: 4096 }, {
+ *     name: "submit_application",
+ *     description: "Enregistre le CV et la lettre generes",
+ *     schema: GeneratedApplicationSchema,
+ *   });
+ */
+
+/** Nombre maximum d'appels pour obtenir une reponse valide */
+const MAX_ATTEMPTS = 3;
+
+/** Resultat de la validation d'une sortie structuree */
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/** Sortie structuree attendue d'un appel */
+export interface StructuredOutput<T> {
+  /** Nom de l'outil expose au modele (ex: "report_offers") */
+  name: string;
+  /** Role de l'outil, lu par le modele */
+  description: string;
+  /** Schema des arguments (objet racine) : JSON Schema de l'outil et validation par defaut */
+  schema: z.ZodType<T>;
+  /** Validation personnalisee (ex: acceptation partielle d'une liste), optionnelle */
+  parse?: (value: unknown) => StructuredParseResult<T>;
+}
+
+/**
+ * Role : Obtenir une reponse conforme au schema, en renvoyant les erreurs au modele
+ * Parametre llm : service LLM
+ * Parametre request : requete (role, prompt, system...) sans outil
+ * Parametre output : outil, schema et validation de la reponse
+ * Retourne : donnees validees
+ * Leve une erreur si aucune des MAX_ATTEMPTS reponses n'est valide
+ */
+export async function completeStructured<T>(
+  llm: LlmService,
+  request: Omit<LlmRequest, "tool" | "repairs">,
+  output: StructuredOutput<T>
+): Promise<T> {
+  const tool = {
+    name: output.name,
+    description: output.description,
+    inputSchema: toToolInputSchema(output.schema),
+  };
+  const parse = output.parse ?? ((value: unknown) => parseWithSchema(output.schema, value));
+  const repairs: LlmRepairTurn[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const response = await llm.complete({ ...request, tool, repairs: [...repairs] });
+
+    const result =
+      response.toolInput === undefined
+        ? { success: false as const, error: `L'outil ${output.name} n'a pas ete appele` }
+        : parse(response.toolInput);
+    if (result.success) return result.data;
+
+    console.warn(
+      `[LLM] Reponse ${request.role} invalide (tentative ${attempt}/${MAX_ATTEMPTS}) : ${result.error}`
+    );
+    repairs.push({ response, error: result.error });
+  }
+
+  throw new Error(
+    `Reponse ${request.role} invalide apres ${MAX_ATTEMPTS} tentatives : ${repairs[repairs.length - 1].error}`
+  );
+}
+
+/**
+ * Role : Separer les elements valides d'une liste de ceux qui ne respectent pas le schema
+ * Parametre schema : schema d'un element
+ * Parametre items : elements retournes par le modele
+ * Retourne : elements valides et erreur lisible de chaque element refuse
+ *
+ * Exemple :
+ *   const { valid, errors } = parseValidItems(OfferSchema, value.offers);
+ *   // errors = ["[2] url : Invalid input: expected string, received null"]
+ */
+export function parseValidItems<T>(
+  schema: z.ZodType<T>,
+  items: unknown[]
+): { valid: T[]; errors: string[] } {
+  const valid: T[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, i) => {
+    const result = schema.safeParse(item);
+    if (result.success) valid.push(result.data);
+    else errors.push(`[${i}] ${formatIssues(result.error)}`);
+  });
+
+  return { valid, errors };
+}
+
+/**
+ * Role : Valider une valeur avec un schema et formater l'erreur pour le modele
+ */
+function parseWithSchema<T>(schema: z.ZodType<T>, value: unknown): StructuredParseResult<T> {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatIssues(result.error) };
+}
+
+/**
+ * Role : Erreurs de validation sur une ligne, chacune precedee de son chemin
+ * Exemple : "cvContent : Too small: expected string to have >=1 characters"
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")} : ${issue.message}` : issue.message))
+    .join(" ; ");
+}
+
+/**
+ * Role : JSON Schema des arguments de l'outil (sans la cle $schema, refusee par certaines API)
+ */
+function toToolInputSchema(schema: z.ZodType): Record<string, unknown> {
+  const inputSchema = z.toJSONSchema(schema) as Record<string, unknown>;
+  delete inputSchema.$schema;
+  return inputSchema;
+}
@@ -0,0 +1,97 @@
+/**
+ * Role : Types partages du service LLM (requete, reponse, fournisseurs)
+ * Utilise par : src/lib/llm (fournisseurs), orchestrator.ts, generate-application.ts,
+ *   /api/cv/parse
+ */
+
+/**
+ * Usage d'un appel LLM, qui determine le modele utilise (cf. getModelForRole) :
+ *   - extraction : offres d'une page de resultats (repli quand aucune carte n'est lisible)
+ *   - cleanup    : nettoyage d'une description d'offre + attributs structures
+ *   - generation : CV adapte et lettre de motivation
+ *   - parsing    : lecture d'un CV PDF pour pre-remplir le profil
+ */
+export type LlmRole = "extraction" | "cleanup" | "generation" | "parsing";
+
+/** Fournisseurs disponibles (LLM_PROVIDER) */
+export type LlmProviderId = "anthropic" | "mock";
+
+/** Document joint a une requete (CV PDF encode en base64) */
+export interface LlmDocument {
+  mediaType: "application/pdf";
+  /** Contenu du fichier encode en base64 */
+  data: string;
+}
+
+/**
+ * Sortie structuree : le modele est contraint d'appeler cet outil, dont les arguments
+ * (JSON conforme a inputSchema) constituent la reponse (cf. completeStructured)
+ */
+export interface LlmTool {
+  /** Nom de l'outil (ex: "report_offers") */
+  name: string;
+  description: string;
+  /** JSON Schema des arguments (objet racine) */
+  inputSchema: Record<string, unknown>;
+}
+
+/** Reponse refusee a la validation, renvoyee au modele avec l'erreur pour correction */
+export interface LlmRepairTurn {
+  /** Reponse refusee (arguments de l'outil, ou texte si l'outil n'a pas ete appele) */
+  response: Pick<LlmResponse, "text" | "toolInput">;
+  /** Erreur de validation lisible (ex: "offers[2].url : champ requis") */
+  error: string;
+}
+
+/** Requete envoyee au service LLM */
+export interface LlmRequest {
+  role: LlmRole;
+  /** Message systeme (role et regles du modele), optionnel */
+  system?: string;
+  /** Message utilisateur */
+  prompt: string;
+  /** Document joint, place avant le prompt */
+  document?: LlmDocument;
+  /** Nombre maximum de tokens generes */
+  maxTokens: number;
+  /** Outil a appeler obligatoirement (sortie structuree), optionnel */
+  tool?: LlmTool;
+  /** Tentatives precedentes refusees, rejouees dans la conversation avant la nouvelle reponse */
+  repairs?: LlmRepairTurn[];
+}
+
+/** Tokens consommes par un appel */
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Reponse du service LLM */
+export interface LlmResponse {
+  /** Texte de la reponse (blocs texte concatenes, chaine vide si aucun) */
+  text: string;
+  /** Modele ayant repondu (ex: "claude-haiku-4-5-20251001", "mock") */
+  model: string;
+  usage: LlmUsage;
+  /** Arguments de l'appel de request.tool (undefined si l'outil n'a pas ete appele) */
+  toolInput?: unknown;
+}
+
+/** Fournisseur LLM : un appel = un message utilisateur, une reponse texte */
+export interface LlmService {
+  provider: LlmProviderId;
+  complete: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+/** Appel LLM termine, transmis a onUsage (cf. getLlmService) */
+export interface LlmCallRecord {
+  role: LlmRole;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Cout calcule (cf. computeCostUsd) */
+  costUsd: number;
+}
+
+/** Enregistrement de la consommation d'un appel (ex: rattachement a un AgentRun) */
+export type LlmUsageListener = (call: LlmCallRecord) => Promise<void>;
@@ -11,9 +11,11 @@ import { immer } from "zustand/middleware/immer";
  *   const openCreateForm = useSearchConfigStore((s) => s.actions.openCreateForm)
  */
 
-// Site unique supporte pour le scraping (LinkedIn authentifie)
+// Sites supportes pour le scraping (LinkedIn authentifie, WTTJ et Indeed publics)
 export const AVAILABLE_SITES = [
   { value: "linkedin", label: "LinkedIn" },
+  { value: "wttj", label: "Welcome to the Jungle" },
+  { value: "indeed", label: "Indeed" },
 ] as const;
 
 // Types de contrat disponibles
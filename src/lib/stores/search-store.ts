@@ -11,6 +11,37 @@ import { immer } from "zustand/middleware/immer";
  *   const { setFilter, resetFilters } = useSearchStore((s) => s.actions)
  */
 
+// Niveaux d'experience (valeurs de Offer.seniority, cf. src/lib/agent/offer-attributes.ts)
+export const SENIORITY_OPTIONS = [
+  { value: "junior", label: "Junior" },
+  { value: "confirmed", label: "Confirmé" },
+  { value: "senior", label: "Senior" },
+  { value: "lead", label: "Lead / Principal" },
+] as const;
+
+// Modalites de travail (valeurs de Offer.remotePolicy)
+export const REMOTE_POLICY_OPTIONS = [
+  { value: "onsite", label: "Sur site" },
+  { value: "hybrid", label: "Hybride" },
+  { value: "remote", label: "Full remote" },
+] as const;
+
+// Anciennete maximale de publication (jours)
+export const POSTED_WITHIN_OPTIONS = [
+  { value: 1, label: "Dernières 24 h" },
+  { value: 7, label: "7 derniers jours" },
+  { value: 30, label: "30 derniers jours" },
+] as const;
+
+// Tri de la liste d'offres (salaire : equivalent annuel, offres sans salaire en dernier)
+export const SORT_OPTIONS = [
+  { value: "recent", label: "Plus récentes" },
+  { value: "salaryDesc", label: "Salaire décroissant" },
+  { value: "salaryAsc", label: "Salaire croissant" },
+] as const;
+
+export type OfferSort = (typeof SORT_OPTIONS)[number]["value"];
+
 interface SearchFilters {
   // Filtre par source (wttj, indeed, linkedin)
   source: string | null;
@@ -26,6 +57,17 @@ interface SearchFilters {
   origin: string | null;
   // Masquer les offres pour lesquelles une candidature existe deja (true par defaut)
   hideApplied: boolean;
+  // Filtre par niveau d'experience (SENIORITY_OPTIONS)
+  seniority: string | null;
+  // Filtre par modalite de travail (REMOTE_POLICY_OPTIONS)
+  remotePolicy: string | null;
+  // Offres publiees depuis N jours au plus (date de publication sur le site source)
+  postedWithinDays: number | null;
+  // Fourchette de salaire annuel recherchee en euros (equivalent annuel, TJM inclus)
+  salaryMin: number | null;
+  salaryMax: number | null;
+  // Tri de la liste (SORT_OPTIONS)
+  sortBy: OfferSort;
 }
 
 interface SearchState {
@@ -59,6 +101,12 @@ const DEFAULT_FILTERS: SearchFilters = {
   origin: null,
   // true = masquer les offres pour lesquelles le candidat a deja postule
   hideApplied: true,
+  seniority: null,
+  remotePolicy: null,
+  postedWithinDays: null,
+  salaryMin: null,
+  salaryMax: null,
+  sortBy: "recent",
 };
 
 export const useSearchStore = create<SearchState>()(